@@ -0,0 +1,604 @@
+import path from 'path';
+import {
+  AnalyzerRegistry,
+  IAnalyzerContext,
+  IAnalyzerDefinition,
+  IRunnableAnalyzer,
+} from '../core/analyzer-registry';
+import { CoverageAnalyzer } from './coverage-analyzer';
+import { ComplexityAnalyzer } from './complexity-analyzer';
+import {
+  DuplicateCodeAnalyzer,
+  IDuplicateAnalysisResult,
+} from './duplicate-code-analyzer';
+import {
+  UnusedCodeAnalyzer,
+  IUnusedCodeAnalysisResult,
+  IUnusedCodeItem,
+} from './unused-code-analyzer';
+import { ExampleIncrementalAnalyzer } from './example-incremental-analyzer';
+import { DependencyAnalyzer } from '../core/analyzers/dependency-analyzer';
+import { NpmDependencyAnalyzer } from '../core/analyzers/npm-dependency-analyzer';
+import { DependencyRuleChecker } from '../core/analyzers/dependency-rule-checker';
+import { CouplingAnalyzer } from '../core/analyzers/coupling-analyzer';
+import { MemoryLeakAnalyzer } from '../core/analyzers/memory-leak';
+import { InfiniteLoopAnalyzer } from '../core/analyzers/infinite-loop';
+import { FileSystemService } from '../core/file-system-service';
+import { RuleEngine } from '../core/rules/rule-engine';
+import { DependencyAnalysisResult } from '../types/dependency-types';
+import { IRulesAnalysisData } from '../types/analysis';
+
+/**
+ * 将未使用代码结果收窄到指定文件
+ */
+function scopeUnusedCode(
+  result: IUnusedCodeAnalysisResult,
+  filePaths: string[]
+): IUnusedCodeAnalysisResult {
+  const files = new Set(filePaths.map((filePath) => path.resolve(filePath)));
+  const inScope = (item: IUnusedCodeItem) =>
+    files.has(path.resolve(item.filePath));
+  const scoped: IUnusedCodeAnalysisResult = {
+    ...result,
+    unusedImports: result.unusedImports.filter(inScope),
+    unusedVariables: result.unusedVariables.filter(inScope),
+    unusedFunctions: result.unusedFunctions.filter(inScope),
+    unusedClasses: result.unusedClasses.filter(inScope),
+    unusedInterfaces: result.unusedInterfaces.filter(inScope),
+    unusedTypes: result.unusedTypes.filter(inScope),
+    unusedExports: result.unusedExports.filter(inScope),
+    testOnlyExports: result.testOnlyExports.filter(inScope),
+    unusedPrivateMembers: (result.unusedPrivateMembers || []).filter(inScope),
+    typeOnlyImports: (result.typeOnlyImports || []).filter(inScope),
+    unreachableFiles: result.unreachableFiles.filter((filePath) =>
+      files.has(path.resolve(filePath))
+    ),
+  };
+  const items = [
+    ...scoped.unusedImports,
+    ...scoped.unusedVariables,
+    ...scoped.unusedFunctions,
+    ...scoped.unusedClasses,
+    ...scoped.unusedInterfaces,
+    ...scoped.unusedTypes,
+    ...scoped.unusedExports,
+    ...scoped.testOnlyExports,
+    ...scoped.unusedPrivateMembers,
+  ];
+
+  scoped.totalUnused = items.length + scoped.unreachableFiles.length;
+  scoped.affectedFiles = Array.from(
+    new Set([...items.map((item) => item.filePath), ...scoped.unreachableFiles])
+  );
+  return scoped;
+}
+
+/**
+ * 将重复代码结果收窄到涉及指定文件的重复组
+ */
+function scopeDuplicates(
+  result: IDuplicateAnalysisResult,
+  filePaths: string[]
+): IDuplicateAnalysisResult {
+  const files = new Set(filePaths.map((filePath) => path.resolve(filePath)));
+  const touches = (items: { filePath: string }[]) =>
+    items.some((item) => files.has(path.resolve(item.filePath)));
+  const duplicates = new Map(
+    Array.from(result.duplicates).filter(([, items]) => touches(items))
+  );
+  const clones = result.clones.filter((clone) => touches(clone.regions));
+
+  return {
+    ...result,
+    duplicates,
+    clones,
+    totalDuplicates: clones.reduce(
+      (total, clone) => total + clone.regions.length,
+      0
+    ),
+    duplicateLines: clones.reduce(
+      (total, clone) => total + clone.lines * (clone.regions.length - 1),
+      0
+    ),
+    affectedFiles: [
+      ...new Set([
+        ...Array.from(duplicates.values())
+          .flat()
+          .map((item) => item.filePath),
+        ...clones.flatMap((clone) =>
+          clone.regions.map((region) => region.filePath)
+        ),
+      ]),
+    ],
+  };
+}
+
+/**
+ * 只保留经过指定文件的循环依赖和指定文件中的架构约束违规，依赖图本身保持完整
+ */
+function scopeDependencies(
+  result: DependencyAnalysisResult,
+  projectPath: string,
+  filePaths: string[]
+): DependencyAnalysisResult {
+  const files = new Set(
+    filePaths.map((filePath) =>
+      path
+        .relative(path.resolve(projectPath), path.resolve(filePath))
+        .split(path.sep)
+        .join('/')
+    )
+  );
+  const circularDependencies = result.graph.circularDependencies.filter(
+    (circular) => circular.cycle.some((file) => files.has(file))
+  );
+
+  return {
+    ...result,
+    ...(result.violations
+      ? {
+          violations: result.violations.filter((violation) =>
+            files.has(violation.file)
+          ),
+        }
+      : {}),
+    graph: { ...result.graph, circularDependencies },
+    stats: {
+      ...result.stats,
+      circularDependencyCount: circularDependencies.length,
+    },
+  };
+}
+
+/**
+ * 内置分析器定义
+ */
+export const BUILTIN_ANALYZERS: IAnalyzerDefinition[] = [
+  {
+    id: 'coverage',
+    name: 'TS覆盖率检测',
+    description: '分析代码的测试覆盖率，包括行/分支/语句覆盖率',
+    estimatedTime: 2,
+    modes: ['full'],
+    aliases: ['ts-coverage'],
+    create: ({
+      projectPath,
+      astService,
+      config,
+    }: IAnalyzerContext): IRunnableAnalyzer =>
+      new CoverageAnalyzer(projectPath, astService, config?.coverage),
+  },
+  {
+    id: 'method-dup',
+    name: '方法重复检测',
+    description: '检测代码库中的重复方法实现',
+    estimatedTime: 1,
+    modes: ['full', 'incremental'],
+    crossFile: true,
+    aliases: ['duplicate-method'],
+    create: ({ projectPath, files }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (filePaths?: string[]) => {
+        const result = await new DuplicateCodeAnalyzer(
+          projectPath,
+          undefined,
+          undefined,
+          files
+        ).analyze();
+        const data = filePaths ? scopeDuplicates(result, filePaths) : result;
+        return {
+          type: 'method-dup',
+          data,
+          summary: {
+            title: '方法重复检测',
+            description: `发现 ${data.totalDuplicates} 处重复代码`,
+            metrics: {
+              totalDuplicates: data.totalDuplicates,
+              duplicateLines: data.duplicateLines,
+              affectedFiles: data.affectedFiles.length,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('检测重复方法...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`检测 ${files.length} 个文件相关的重复方法...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'unused-code',
+    name: '未使用代码检测',
+    description: '检测未被引用的代码，包括类、方法、变量等',
+    estimatedTime: 3,
+    modes: ['full', 'incremental'],
+    crossFile: true,
+    create: ({
+      projectPath,
+      config,
+      files,
+    }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (filePaths?: string[]) => {
+        const result = await new UnusedCodeAnalyzer(projectPath, [], {
+          ...config?.unusedCode,
+          files,
+        }).analyze();
+        const data = filePaths ? scopeUnusedCode(result, filePaths) : result;
+        return {
+          type: 'unused-code',
+          data,
+          summary: {
+            title: '未使用代码检测',
+            description: `发现 ${data.totalUnused} 处未使用代码`,
+            metrics: {
+              totalUnused: data.totalUnused,
+              unusedExports: data.unusedExports.length,
+              unreachableFiles: data.unreachableFiles.length,
+              affectedFiles: data.affectedFiles.length,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('检测未使用代码...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`检测 ${files.length} 个文件中的未使用代码...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'complexity',
+    name: '函数复杂度分析',
+    description:
+      '计算每个函数的圈复杂度、认知复杂度、嵌套深度、参数个数和代码行数',
+    estimatedTime: 1,
+    modes: ['full', 'incremental'],
+    aliases: ['function-complexity'],
+    create: ({
+      projectPath,
+      config,
+      files,
+    }: IAnalyzerContext): IRunnableAnalyzer => {
+      const complexity = config?.metrics?.complexity;
+      const run = async (filePaths?: string[]) => {
+        const data = new ComplexityAnalyzer(projectPath, {
+          thresholds: {
+            cyclomatic: complexity?.threshold,
+            cognitive: complexity?.cognitiveThreshold,
+            nestingDepth: complexity?.maxNestingDepth,
+            parameters: complexity?.maxParameters,
+            loc: complexity?.maxLines,
+          },
+          files,
+        }).analyze(filePaths);
+        const complexFunctions = data.functions.filter(
+          (fn) => fn.exceeded.length > 0
+        ).length;
+        return {
+          type: 'complexity',
+          data,
+          summary: {
+            title: '函数复杂度分析',
+            description: `${data.totalFunctions} 个函数中有 ${complexFunctions} 个超过复杂度阈值`,
+            metrics: {
+              totalFunctions: data.totalFunctions,
+              complexFunctions,
+              averageCyclomatic: data.averageCyclomatic,
+              averageCognitive: data.averageCognitive,
+              maxCyclomatic: data.maxCyclomatic,
+              maxCognitive: data.maxCognitive,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('计算函数复杂度...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`计算 ${files.length} 个变更文件的函数复杂度...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'dependencies',
+    name: '依赖关系分析',
+    description: '分析代码的依赖关系和模块结构',
+    estimatedTime: 2,
+    modes: ['full', 'incremental'],
+    crossFile: true,
+    aliases: ['dependency'],
+    create: ({
+      projectPath,
+      config,
+      files,
+    }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (
+        progress: (message: string) => void,
+        filePaths?: string[]
+      ) => {
+        const analyzer = new DependencyAnalyzer(
+          projectPath,
+          config?.includeExtensions,
+          files
+        );
+        const result = await analyzer.analyze();
+        if (config?.dependency?.rules) {
+          progress('检查架构约束...');
+          result.violations = new DependencyRuleChecker(
+            config.dependency.rules
+          ).check(
+            result.graph,
+            analyzer.getImportReferences(),
+            analyzer.getExternalImports()
+          );
+        }
+        progress('计算模块耦合度量...');
+        const coupling = new CouplingAnalyzer(
+          config?.dependency?.coupling
+        ).analyze(result.graph);
+        result.coupling = coupling;
+        const data = filePaths
+          ? scopeDependencies(result, projectPath, filePaths)
+          : result;
+        if (config?.dependency?.includeNpm) {
+          progress('检查npm包依赖...');
+          data.packages = await new NpmDependencyAnalyzer(
+            projectPath
+          ).analyze();
+        }
+        return {
+          type: 'dependencies',
+          data,
+          summary: {
+            title: '依赖关系分析',
+            description: data.violations
+              ? `发现 ${data.stats.circularDependencyCount} 个循环依赖、${data.violations.length} 个架构约束违规`
+              : `发现 ${data.stats.circularDependencyCount} 个循环依赖`,
+            metrics: {
+              totalFiles: data.stats.totalFiles,
+              totalDependencies: data.stats.totalDependencies,
+              circularDependencyCount: data.stats.circularDependencyCount,
+              maxDependencyLevel: data.stats.maxDependencyLevel,
+              ...(data.violations
+                ? { ruleViolationCount: data.violations.length }
+                : {}),
+              couplingZoneCount: coupling.modules.filter(
+                (module) => module.zone
+              ).length,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('构建依赖关系图...');
+          return run(progress);
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`检查 ${files.length} 个文件相关的循环依赖...`);
+          return run(progress, files);
+        },
+      };
+    },
+  },
+  {
+    id: 'npm-deps',
+    name: 'npm依赖检测',
+    description: '检测未使用、未声明以及错放在 devDependencies 中的npm包',
+    estimatedTime: 1,
+    modes: ['full'],
+    aliases: ['npm-dependencies'],
+    create: ({ projectPath }: IAnalyzerContext): IRunnableAnalyzer => ({
+      analyze: async (progress) => {
+        progress('检查npm包依赖...');
+        const data = await new NpmDependencyAnalyzer(projectPath).analyze();
+        return {
+          type: 'npm-deps',
+          data,
+          summary: {
+            title: 'npm依赖检测',
+            description: `发现 ${data.unused.length} 个未使用、${data.missing.length} 个未声明、${data.misplaced.length} 个错放的依赖`,
+            metrics: {
+              unused: data.unused.length,
+              missing: data.missing.length,
+              misplaced: data.misplaced.length,
+            },
+          },
+        };
+      },
+    }),
+  },
+  {
+    id: 'memory-leak',
+    name: '内存泄漏检测',
+    description: '检测潜在的内存泄漏问题（实验性功能）',
+    estimatedTime: 3,
+    modes: ['full', 'incremental'],
+    isExperimental: true,
+    create: ({ projectPath, files }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (filePaths?: string[]) => {
+        const data = await new MemoryLeakAnalyzer().analyze(projectPath, {
+          filePaths: filePaths || files,
+        });
+        return {
+          type: 'memory-leak',
+          data,
+          summary: {
+            title: '内存泄漏检测',
+            description: `发现 ${data.totalWarnings} 个潜在内存泄漏`,
+            metrics: {
+              totalFiles: data.totalFiles,
+              totalWarnings: data.totalWarnings,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('检测内存泄漏风险...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`检测 ${files.length} 个变更文件的内存泄漏风险...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'infinite-loop',
+    name: '死循环风险检测',
+    description: '识别可能导致死循环的代码模式（实验性功能）',
+    estimatedTime: 2,
+    modes: ['full', 'incremental'],
+    isExperimental: true,
+    create: ({ projectPath, files }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (filePaths?: string[]) => {
+        const data = await new InfiniteLoopAnalyzer().analyze(projectPath, {
+          filePaths: filePaths || files,
+        });
+        return {
+          type: 'infinite-loop',
+          data,
+          summary: {
+            title: '死循环风险检测',
+            description: `发现 ${data.totalIssues} 个潜在死循环`,
+            metrics: {
+              totalFiles: data.totalFiles,
+              totalIssues: data.totalIssues,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('检测死循环风险...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`检测 ${files.length} 个变更文件的死循环风险...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'rules',
+    name: '自定义规则',
+    description:
+      '运行规则引擎的内置规则以及从规则目录和 npm 包加载的自定义规则',
+    estimatedTime: 1,
+    modes: ['full', 'incremental'],
+    aliases: ['custom-rules'],
+    create: ({
+      projectPath,
+      config,
+      files,
+    }: IAnalyzerContext): IRunnableAnalyzer => {
+      const run = async (filePaths?: string[]) => {
+        const engine = new RuleEngine({
+          projectRoot: projectPath,
+          ...(config?.rulesDir
+            ? { rulesDir: path.resolve(projectPath, config.rulesDir) }
+            : {}),
+          rulePackages: config?.rulePackages,
+          customRules: config?.customRules,
+          // 抑制注释由 analyze 统一应用
+          suppressions: false,
+        });
+        await engine.initialize();
+
+        let targets = filePaths || files;
+        if (!targets) {
+          const fsService = new FileSystemService();
+          await fsService.scanDirectory(projectPath);
+          targets = fsService.getTypescriptFiles().map((file) => file.path);
+        }
+
+        const results = await engine.executeRules(targets);
+        const totalIssues = results.reduce(
+          (sum, rule) => sum + rule.issues.length,
+          0
+        );
+        const data: IRulesAnalysisData = {
+          results,
+          rules: engine
+            .getAllRules()
+            .filter((rule) => rule.enabled)
+            .map(({ name, description }) => ({ name, description })),
+        };
+        return {
+          type: 'rules',
+          data,
+          summary: {
+            title: '自定义规则',
+            description: `${results.length} 条规则发现 ${totalIssues} 个问题`,
+            metrics: {
+              totalRules: data.rules.length,
+              totalIssues,
+            },
+          },
+        };
+      };
+
+      return {
+        analyze: async (progress) => {
+          progress('执行自定义规则...');
+          return run();
+        },
+        analyzeIncremental: async (files, progress) => {
+          progress(`对 ${files.length} 个变更文件执行自定义规则...`);
+          return run(files);
+        },
+      };
+    },
+  },
+  {
+    id: 'example-incremental',
+    name: '示例增量分析器 [监测模式]',
+    description: '演示增量分析功能的示例分析器，适合监测模式',
+    estimatedTime: 1,
+    modes: ['full', 'incremental'],
+    create: ({
+      projectPath,
+      astService,
+    }: IAnalyzerContext): IRunnableAnalyzer =>
+      new ExampleIncrementalAnalyzer(path.resolve(projectPath), astService),
+  },
+];
+
+/**
+ * 将内置分析器注册到注册表（已注册的会被跳过）
+ * @param registry 目标注册表，默认为全局注册表
+ * @returns 注册表实例
+ */
+export function registerBuiltinAnalyzers(
+  registry: AnalyzerRegistry = AnalyzerRegistry.getInstance()
+): AnalyzerRegistry {
+  BUILTIN_ANALYZERS.forEach((definition) => {
+    if (!registry.has(definition.id)) {
+      registry.register(definition);
+    }
+  });
+  return registry;
+}
@@ -0,0 +1,630 @@
+import { ts } from 'ts-morph';
+
+/**
+ * 待检测的源文件
+ */
+export interface ICloneSource {
+  filePath: string;
+  content: string;
+}
+
+/**
+ * 克隆片段所在区域
+ */
+export interface ICloneRegion {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  /**
+   * 区域包含的标记数
+   */
+  tokenCount: number;
+}
+
+/**
+ * 一组互为克隆的代码片段
+ */
+export interface ICloneGroup {
+  regions: ICloneRegion[];
+  /**
+   * 最大区域的行数
+   */
+  lines: number;
+  /**
+   * 相似度（0~1），完全相同的标记序列为1
+   */
+  similarity: number;
+  /**
+   * 第一个区域的源代码
+   */
+  snippet: string;
+}
+
+/**
+ * 克隆检测选项
+ */
+export interface TokenCloneDetectorOptions {
+  /**
+   * 滑动窗口的标记数，也是可检测的最短精确匹配长度
+   */
+  minTokens?: number;
+
+  /**
+   * 克隆区域的最少行数
+   */
+  minLines?: number;
+
+  /**
+   * 最低相似度，低于该值的合并区域会被丢弃
+   */
+  minSimilarity?: number;
+
+  /**
+   * 合并相邻精确匹配时允许的最大间隔标记数（Type-3 克隆）
+   */
+  maxGap?: number;
+
+  /**
+   * 单个哈希桶的最大出现次数，超过时视为样板代码跳过，避免平方级的配对
+   */
+  maxBucketSize?: number;
+}
+
+/**
+ * 归一化后的标记
+ */
+interface IToken {
+  id: number;
+  pos: number;
+  end: number;
+  line: number;
+  endLine: number;
+}
+
+/**
+ * 已分词的文件
+ */
+interface ITokenizedFile {
+  filePath: string;
+  content: string;
+  tokens: IToken[];
+}
+
+/**
+ * 两个文件之间的精确匹配段或合并后的克隆区域，区间为左闭右开的标记下标
+ */
+interface IMatchRun {
+  startA: number;
+  endA: number;
+  startB: number;
+  endB: number;
+  matched: number;
+}
+
+/**
+ * 克隆对
+ */
+interface IClonePair {
+  fileA: number;
+  fileB: number;
+  run: IMatchRun;
+  similarity: number;
+}
+
+const HASH_BASE = 1000003;
+const HASH_MOD = 1000000007;
+
+/**
+ * 越过间隔继续延伸时，间隔后至少需要连续匹配的标记数
+ */
+const MIN_EXTENSION_TOKENS = 3;
+
+/**
+ * 基于标记窗口的克隆检测器
+ *
+ * 标识符和字面量被归一化后，用滚动哈希查找跨文件相同的 N 标记窗口（Type-2），
+ * 再把同一对角线上的连续窗口合并成精确匹配段，并把间隔较小的匹配段合并为带相似度的克隆区域（Type-3）
+ */
+export class TokenCloneDetector {
+  private readonly options: Required<TokenCloneDetectorOptions>;
+  private readonly tokenIds = new Map<string, number>();
+
+  constructor(options: TokenCloneDetectorOptions = {}) {
+    this.options = {
+      minTokens: 50,
+      minLines: 5,
+      minSimilarity: 0.8,
+      maxGap: 10,
+      maxBucketSize: 50,
+      ...options,
+    };
+  }
+
+  /**
+   * 检测克隆
+   * @param sources 源文件
+   * @returns 克隆组
+   */
+  detect(sources: ICloneSource[]): ICloneGroup[] {
+    const files = sources.map((source) => this.tokenize(source));
+    const pairs = this.findClonePairs(files);
+    return this.groupPairs(files, pairs);
+  }
+
+  /**
+   * 将源文件转换为归一化标记序列
+   */
+  private tokenize(source: ICloneSource): ITokenizedFile {
+    const scriptKind = /\.[jt]sx$/.test(source.filePath)
+      ? ts.ScriptKind.TSX
+      : ts.ScriptKind.TS;
+    const sourceFile = ts.createSourceFile(
+      source.filePath,
+      source.content,
+      ts.ScriptTarget.Latest,
+      false,
+      scriptKind
+    );
+    const tokens: IToken[] = [];
+
+    const visit = (node: ts.Node): void => {
+      // 导入导出声明和 JSDoc 在不同文件间高度相似，不参与检测
+      if (
+        ts.isImportDeclaration(node) ||
+        ts.isImportEqualsDeclaration(node) ||
+        ts.isExportDeclaration(node) ||
+        (node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+          node.kind <= ts.SyntaxKind.LastJSDocNode)
+      ) {
+        return;
+      }
+
+      const children = node.getChildren(sourceFile);
+      if (children.length > 0) {
+        children.forEach(visit);
+        return;
+      }
+
+      const key = this.normalizeToken(node, sourceFile);
+      if (key === null) {
+        return;
+      }
+
+      const pos = node.getStart(sourceFile);
+      tokens.push({
+        id: this.getTokenId(key),
+        pos,
+        end: node.end,
+        line: sourceFile.getLineAndCharacterOfPosition(pos).line + 1,
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.end).line + 1,
+      });
+    };
+
+    visit(sourceFile);
+
+    return { filePath: source.filePath, content: source.content, tokens };
+  }
+
+  /**
+   * 归一化单个标记，标识符和字面量分别映射为同一个键
+   * @returns 标记键，需要忽略的标记返回 null
+   */
+  private normalizeToken(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    switch (node.kind) {
+      case ts.SyntaxKind.EndOfFileToken:
+        return null;
+      case ts.SyntaxKind.Identifier:
+      case ts.SyntaxKind.PrivateIdentifier:
+        return '$id';
+      case ts.SyntaxKind.StringLiteral:
+      case ts.SyntaxKind.NumericLiteral:
+      case ts.SyntaxKind.BigIntLiteral:
+      case ts.SyntaxKind.RegularExpressionLiteral:
+      case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      case ts.SyntaxKind.TemplateHead:
+      case ts.SyntaxKind.TemplateMiddle:
+      case ts.SyntaxKind.TemplateTail:
+        return '$lit';
+      case ts.SyntaxKind.JsxText:
+        return node.getText(sourceFile).trim() ? '$lit' : null;
+      default:
+        return `#${node.kind}`;
+    }
+  }
+
+  /**
+   * 获取标记键对应的整数编号
+   */
+  private getTokenId(key: string): number {
+    let id = this.tokenIds.get(key);
+    if (id === undefined) {
+      id = this.tokenIds.size + 1;
+      this.tokenIds.set(key, id);
+    }
+    return id;
+  }
+
+  /**
+   * 用滚动哈希索引所有窗口，找出克隆对
+   */
+  private findClonePairs(files: ITokenizedFile[]): IClonePair[] {
+    const windowSize = this.options.minTokens;
+    const buckets = new Map<number, Array<[number, number]>>();
+    let highestPower = 1;
+    for (let i = 1; i < windowSize; i++) {
+      highestPower = (highestPower * HASH_BASE) % HASH_MOD;
+    }
+
+    files.forEach((file, fileIndex) => {
+      const tokens = file.tokens;
+      if (tokens.length < windowSize) {
+        return;
+      }
+
+      let hash = 0;
+      for (let i = 0; i < tokens.length; i++) {
+        if (i >= windowSize) {
+          const outgoing =
+            (tokens[i - windowSize].id * highestPower) % HASH_MOD;
+          hash = (hash - outgoing + HASH_MOD) % HASH_MOD;
+        }
+        hash = (hash * HASH_BASE + tokens[i].id) % HASH_MOD;
+
+        if (i >= windowSize - 1) {
+          const bucket = buckets.get(hash) || [];
+          bucket.push([fileIndex, i - windowSize + 1]);
+          buckets.set(hash, bucket);
+        }
+      }
+    });
+
+    // 按文件对收集匹配的窗口起点
+    const matchesByFilePair = new Map<string, Array<[number, number]>>();
+    buckets.forEach((bucket) => {
+      if (bucket.length < 2 || bucket.length > this.options.maxBucketSize) {
+        return;
+      }
+
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const [fileA, startA] = bucket[i];
+          const [fileB, startB] = bucket[j];
+
+          // 同一文件内重叠的窗口不算克隆
+          if (fileA === fileB && Math.abs(startA - startB) < windowSize) {
+            continue;
+          }
+          if (!this.windowsEqual(files[fileA], startA, files[fileB], startB)) {
+            continue;
+          }
+
+          const key = `${fileA}:${fileB}`;
+          const matches = matchesByFilePair.get(key) || [];
+          matches.push([startA, startB]);
+          matchesByFilePair.set(key, matches);
+        }
+      }
+    });
+
+    const pairs: IClonePair[] = [];
+    matchesByFilePair.forEach((matches, key) => {
+      const [fileA, fileB] = key.split(':').map(Number);
+      const runs = this.buildExactRuns(matches).map((run) =>
+        this.extendRun(files[fileA], files[fileB], run)
+      );
+      this.mergeRuns(runs).forEach((run) => {
+        if (this.isValidRun(files[fileA], files[fileB], fileA === fileB, run)) {
+          pairs.push({
+            fileA,
+            fileB,
+            run,
+            similarity:
+              run.matched /
+              Math.max(run.endA - run.startA, run.endB - run.startB),
+          });
+        }
+      });
+    });
+
+    return pairs;
+  }
+
+  /**
+   * 校验两个窗口的标记序列是否一致，排除哈希冲突
+   */
+  private windowsEqual(
+    fileA: ITokenizedFile,
+    startA: number,
+    fileB: ITokenizedFile,
+    startB: number
+  ): boolean {
+    for (let k = 0; k < this.options.minTokens; k++) {
+      if (fileA.tokens[startA + k].id !== fileB.tokens[startB + k].id) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 将同一对角线上连续的窗口合并为精确匹配段
+   */
+  private buildExactRuns(matches: Array<[number, number]>): IMatchRun[] {
+    const windowSize = this.options.minTokens;
+    const sorted = [...matches].sort(
+      ([a1, b1], [a2, b2]) => b1 - a1 - (b2 - a2) || a1 - a2
+    );
+    const runs: IMatchRun[] = [];
+    let current: IMatchRun | null = null;
+
+    sorted.forEach(([startA, startB]) => {
+      if (
+        current &&
+        startB - startA === current.startB - current.startA &&
+        startA <= current.endA - windowSize + 1
+      ) {
+        current.endA = startA + windowSize;
+        current.endB = startB + windowSize;
+        current.matched = current.endA - current.startA;
+        return;
+      }
+
+      current = {
+        startA,
+        endA: startA + windowSize,
+        startB,
+        endB: startB + windowSize,
+        matched: windowSize,
+      };
+      runs.push(current);
+    });
+
+    return runs;
+  }
+
+  /**
+   * 越过不超过 maxGap 的插入、删除或修改，向前后延伸匹配段
+   * 间隔另一侧的匹配可能短于窗口大小，无法通过哈希找到
+   */
+  private extendRun(
+    fileA: ITokenizedFile,
+    fileB: ITokenizedFile,
+    run: IMatchRun
+  ): IMatchRun {
+    const extended = { ...run };
+
+    for (const direction of [1, -1] as const) {
+      for (;;) {
+        const step = this.findExtension(fileA, fileB, extended, direction);
+        if (!step) {
+          break;
+        }
+
+        if (direction === 1) {
+          extended.endA += step.gapA + step.length;
+          extended.endB += step.gapB + step.length;
+        } else {
+          extended.startA -= step.gapA + step.length;
+          extended.startB -= step.gapB + step.length;
+        }
+        extended.matched += step.length;
+      }
+    }
+
+    return extended;
+  }
+
+  /**
+   * 在匹配段的一侧寻找跳过间隔后最长的连续匹配
+   */
+  private findExtension(
+    fileA: ITokenizedFile,
+    fileB: ITokenizedFile,
+    run: IMatchRun,
+    direction: 1 | -1
+  ): { gapA: number; gapB: number; length: number } | null {
+    const tokensA = fileA.tokens;
+    const tokensB = fileB.tokens;
+    let best: { gapA: number; gapB: number; length: number } | null = null;
+
+    for (let gapA = 0; gapA <= this.options.maxGap; gapA++) {
+      for (let gapB = 0; gapB <= this.options.maxGap; gapB++) {
+        if (gapA === 0 && gapB === 0) {
+          continue;
+        }
+
+        // 从间隔之后的第一个标记开始，沿延伸方向逐个比较
+        let indexA = direction === 1 ? run.endA + gapA : run.startA - gapA - 1;
+        let indexB = direction === 1 ? run.endB + gapB : run.startB - gapB - 1;
+        let length = 0;
+        while (
+          indexA >= 0 &&
+          indexB >= 0 &&
+          indexA < tokensA.length &&
+          indexB < tokensB.length &&
+          tokensA[indexA].id === tokensB[indexB].id
+        ) {
+          length++;
+          indexA += direction;
+          indexB += direction;
+        }
+
+        if (
+          length >= MIN_EXTENSION_TOKENS &&
+          (!best ||
+            length > best.length ||
+            (length === best.length && gapA + gapB < best.gapA + best.gapB))
+        ) {
+          best = { gapA, gapB, length };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 将间隔不超过 maxGap 的精确匹配段按顺序串联成克隆区域
+   */
+  private mergeRuns(runs: IMatchRun[]): IMatchRun[] {
+    const chains: IMatchRun[] = [];
+    const sorted = [...runs].sort(
+      (a, b) => a.startA - b.startA || a.startB - b.startB
+    );
+
+    sorted.forEach((run) => {
+      const chain = chains.find(
+        (candidate) =>
+          run.startA >= candidate.endA &&
+          run.startB >= candidate.endB &&
+          run.startA - candidate.endA <= this.options.maxGap &&
+          run.startB - candidate.endB <= this.options.maxGap
+      );
+
+      if (chain) {
+        chain.endA = run.endA;
+        chain.endB = run.endB;
+        chain.matched += run.matched;
+      } else {
+        chains.push({ ...run });
+      }
+    });
+
+    // 丢弃被其他区域完全包含的区域（重复结构会在多条对角线上产生匹配）
+    return chains.filter(
+      (chain) =>
+        !chains.some(
+          (other) =>
+            other !== chain &&
+            other.startA <= chain.startA &&
+            other.endA >= chain.endA &&
+            other.startB <= chain.startB &&
+            other.endB >= chain.endB &&
+            other.matched >= chain.matched
+        )
+    );
+  }
+
+  /**
+   * 检查克隆区域是否满足行数、相似度要求，且同文件内的两段不重叠
+   */
+  private isValidRun(
+    fileA: ITokenizedFile,
+    fileB: ITokenizedFile,
+    sameFile: boolean,
+    run: IMatchRun
+  ): boolean {
+    if (sameFile && run.startB < run.endA) {
+      return false;
+    }
+
+    const similarity =
+      run.matched / Math.max(run.endA - run.startA, run.endB - run.startB);
+    if (similarity < this.options.minSimilarity) {
+      return false;
+    }
+
+    return (
+      this.countLines(fileA, run.startA, run.endA) >= this.options.minLines &&
+      this.countLines(fileB, run.startB, run.endB) >= this.options.minLines
+    );
+  }
+
+  /**
+   * 将区域完全相同的克隆对合并为克隆组
+   */
+  private groupPairs(
+    files: ITokenizedFile[],
+    pairs: IClonePair[]
+  ): ICloneGroup[] {
+    const parent = new Map<string, string>();
+    const regions = new Map<string, ICloneRegion>();
+    const similarities = new Map<string, number>();
+
+    const find = (key: string): string => {
+      let root = key;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(key, root);
+      return root;
+    };
+
+    const addRegion = (fileIndex: number, start: number, end: number) => {
+      const key = `${fileIndex}:${start}:${end}`;
+      if (!parent.has(key)) {
+        const file = files[fileIndex];
+        parent.set(key, key);
+        regions.set(key, {
+          filePath: file.filePath,
+          startLine: file.tokens[start].line,
+          endLine: file.tokens[end - 1].endLine,
+          tokenCount: end - start,
+        });
+      }
+      return key;
+    };
+
+    pairs.forEach(({ fileA, fileB, run, similarity }) => {
+      const rootA = find(addRegion(fileA, run.startA, run.endA));
+      const rootB = find(addRegion(fileB, run.startB, run.endB));
+      const merged = Math.min(
+        similarity,
+        similarities.get(rootA) ?? 1,
+        similarities.get(rootB) ?? 1
+      );
+      parent.set(rootB, rootA);
+      similarities.set(rootA, merged);
+    });
+
+    const members = new Map<string, string[]>();
+    parent.forEach((_, key) => {
+      const root = find(key);
+      members.set(root, [...(members.get(root) || []), key]);
+    });
+
+    const groups: ICloneGroup[] = [];
+    members.forEach((keys, root) => {
+      const sortedKeys = keys.sort((a, b) => {
+        const regionA = regions.get(a)!;
+        const regionB = regions.get(b)!;
+        return (
+          regionA.filePath.localeCompare(regionB.filePath) ||
+          regionA.startLine - regionB.startLine
+        );
+      });
+      const groupRegions = sortedKeys.map((key) => regions.get(key)!);
+      const [fileIndex, start, end] = sortedKeys[0].split(':').map(Number);
+      const file = files[fileIndex];
+
+      groups.push({
+        regions: groupRegions,
+        lines: Math.max(
+          ...groupRegions.map((region) => region.endLine - region.startLine + 1)
+        ),
+        similarity: Number((similarities.get(root) ?? 1).toFixed(4)),
+        snippet: file.content.slice(
+          file.tokens[start].pos,
+          file.tokens[end - 1].end
+        ),
+      });
+    });
+
+    return groups.sort(
+      (a, b) =>
+        b.lines - a.lines ||
+        a.regions[0].filePath.localeCompare(b.regions[0].filePath) ||
+        a.regions[0].startLine - b.regions[0].startLine
+    );
+  }
+
+  /**
+   * 计算标记区间跨越的行数
+   */
+  private countLines(file: ITokenizedFile, start: number, end: number): number {
+    return file.tokens[end - 1].endLine - file.tokens[start].line + 1;
+  }
+}
@@ -0,0 +1,674 @@
+import path from 'path';
+import fs from 'fs';
+import { Project, SourceFile, ts } from 'ts-morph';
+
+/**
+ * 复杂度指标
+ */
+export type ComplexityMetric =
+  | 'cyclomatic'
+  | 'cognitive'
+  | 'nestingDepth'
+  | 'parameters'
+  | 'loc';
+
+/**
+ * 各项指标的阈值，超过阈值的函数会被报告
+ */
+export type IComplexityThresholds = Record<ComplexityMetric, number>;
+
+/**
+ * 默认阈值
+ */
+export const DEFAULT_COMPLEXITY_THRESHOLDS: IComplexityThresholds = {
+  cyclomatic: 10,
+  cognitive: 15,
+  nestingDepth: 4,
+  parameters: 5,
+  loc: 50,
+};
+
+/**
+ * 函数的种类
+ */
+export type FunctionKind =
+  | 'function'
+  | 'method'
+  | 'constructor'
+  | 'getter'
+  | 'setter'
+  | 'arrow'
+  | 'function-expression';
+
+/**
+ * 单个函数的复杂度
+ */
+export interface IFunctionComplexity {
+  filePath: string;
+  name: string;
+  kind: FunctionKind;
+  line: number;
+  column: number;
+  endLine: number;
+
+  /**
+   * 圈复杂度：1 + 分支、循环、case、catch、条件表达式以及 &&、||、?? 的数量
+   */
+  cyclomatic: number;
+
+  /**
+   * 认知复杂度（SonarSource 规范），嵌套的控制结构会额外增加复杂度
+   */
+  cognitive: number;
+
+  /**
+   * 控制结构的最大嵌套深度
+   */
+  nestingDepth: number;
+
+  /**
+   * 参数个数
+   */
+  parameters: number;
+
+  /**
+   * 代码行数，不含空行和纯注释行
+   */
+  loc: number;
+
+  /**
+   * 超过阈值的指标
+   */
+  exceeded: ComplexityMetric[];
+}
+
+/**
+ * 复杂度统计
+ */
+export interface IComplexityStats {
+  totalFunctions: number;
+  averageCyclomatic: number;
+  averageCognitive: number;
+  maxCyclomatic: number;
+  maxCognitive: number;
+}
+
+/**
+ * 复杂度分析结果
+ */
+export interface IComplexityAnalysisResult extends IComplexityStats {
+  totalFiles: number;
+  thresholds: IComplexityThresholds;
+
+  /**
+   * 所有函数的复杂度（包括未超过阈值的）
+   */
+  functions: IFunctionComplexity[];
+}
+
+/**
+ * 复杂度分析选项
+ */
+export interface IComplexityAnalyzerOptions {
+  /**
+   * 阈值，未指定的指标使用默认值
+   */
+  thresholds?: Partial<IComplexityThresholds>;
+
+  /**
+   * 项目中要分析的文件（绝对路径），通常来自文件发现服务，未指定时按扩展名查找项目文件
+   */
+  files?: string[];
+}
+
+const SOURCE_GLOB = '**/*.{ts,tsx,js,jsx,mts,cts,mjs,cjs}';
+
+const DEFAULT_EXCLUDE_PATTERNS = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/*.d.ts',
+];
+
+/**
+ * 计入圈复杂度与认知复杂度的逻辑运算符
+ */
+const LOGICAL_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]);
+
+/**
+ * 只计入圈复杂度的逻辑赋值运算符
+ */
+const LOGICAL_ASSIGNMENT_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+/**
+ * 函数体遍历过程中累计的指标
+ */
+interface IBodyMetrics {
+  cyclomatic: number;
+  cognitive: number;
+  nestingDepth: number;
+}
+
+/**
+ * 可以被单独度量的函数节点
+ */
+type FunctionNode = ts.FunctionLikeDeclaration & { body?: ts.Node };
+
+/**
+ * 函数复杂度分析器
+ * 计算每个函数、方法、访问器和箭头函数的圈复杂度、认知复杂度、嵌套深度、参数个数和代码行数，
+ * 嵌套函数单独度量，不计入外层函数
+ */
+export class ComplexityAnalyzer {
+  private readonly basePath: string;
+  private readonly thresholds: IComplexityThresholds;
+  private readonly project: Project;
+  private readonly files?: string[];
+
+  /**
+   * 创建复杂度分析器
+   * @param basePath - 项目根路径
+   * @param options - 分析选项
+   */
+  constructor(basePath: string, options: IComplexityAnalyzerOptions = {}) {
+    this.basePath = path.resolve(basePath);
+    this.thresholds = { ...DEFAULT_COMPLEXITY_THRESHOLDS };
+    Object.entries(options.thresholds || {}).forEach(([metric, value]) => {
+      if (typeof value === 'number') {
+        this.thresholds[metric as ComplexityMetric] = value;
+      }
+    });
+    this.project = new Project({
+      compilerOptions: { allowJs: true },
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    });
+    this.files = options.files;
+  }
+
+  /**
+   * 分析项目中的函数复杂度
+   * @param filePaths - 只分析这些文件（增量分析），未指定时分析整个项目
+   * @returns 复杂度分析结果
+   */
+  analyze(filePaths?: string[]): IComplexityAnalysisResult {
+    const files =
+      filePaths ||
+      this.files?.filter((filePath) => !filePath.endsWith('.d.ts'));
+    const sourceFiles = files
+      ? files
+          .filter((filePath) => fs.existsSync(filePath))
+          .map((filePath) => this.project.addSourceFileAtPath(filePath))
+      : this.project.addSourceFilesAtPaths([
+          path.join(this.basePath, SOURCE_GLOB),
+          ...DEFAULT_EXCLUDE_PATTERNS.map(
+            (pattern) => `!${path.join(this.basePath, pattern)}`
+          ),
+        ]);
+
+    const functions = sourceFiles
+      .flatMap((sourceFile) => this.measureSourceFile(sourceFile))
+      .sort((a, b) =>
+        a.filePath === b.filePath
+          ? a.line - b.line
+          : a.filePath.localeCompare(b.filePath)
+      );
+
+    return {
+      totalFiles: sourceFiles.length,
+      thresholds: { ...this.thresholds },
+      functions,
+      ...summarizeComplexity(functions),
+    };
+  }
+
+  /**
+   * 度量单个文件中的所有函数
+   * @param filePath - 文件路径
+   * @param content - 文件内容，未指定时从磁盘读取
+   * @returns 文件中每个函数的复杂度
+   */
+  measureFile(filePath: string, content?: string): IFunctionComplexity[] {
+    const sourceFile = this.project.createSourceFile(
+      path.resolve(filePath),
+      content ?? fs.readFileSync(filePath, 'utf-8'),
+      { overwrite: true }
+    );
+    return this.measureSourceFile(sourceFile);
+  }
+
+  /**
+   * 度量源文件中的所有函数
+   */
+  private measureSourceFile(sourceFile: SourceFile): IFunctionComplexity[] {
+    const compilerFile = sourceFile.compilerNode;
+    const codeLines = this.getCodeLines(compilerFile);
+    const functions: IFunctionComplexity[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (this.isMeasurable(node)) {
+        functions.push(this.measureFunction(node, compilerFile, codeLines));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(compilerFile);
+
+    return functions;
+  }
+
+  /**
+   * 是否为有函数体的函数节点（重载签名和抽象方法没有函数体）
+   */
+  private isMeasurable(node: ts.Node): node is FunctionNode {
+    return (
+      (ts.isFunctionDeclaration(node) ||
+        ts.isMethodDeclaration(node) ||
+        ts.isConstructorDeclaration(node) ||
+        ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node) ||
+        ts.isArrowFunction(node) ||
+        ts.isFunctionExpression(node)) &&
+      node.body !== undefined
+    );
+  }
+
+  /**
+   * 度量单个函数
+   */
+  private measureFunction(
+    node: FunctionNode,
+    sourceFile: ts.SourceFile,
+    codeLines: Set<number>
+  ): IFunctionComplexity {
+    const start = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    const endLine =
+      sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+    const line = start.line + 1;
+
+    let loc = 0;
+    for (let current = line; current <= endLine; current++) {
+      if (codeLines.has(current)) {
+        loc++;
+      }
+    }
+
+    const metrics = this.measureBody(node);
+    const measured = {
+      cyclomatic: metrics.cyclomatic,
+      cognitive: metrics.cognitive,
+      nestingDepth: metrics.nestingDepth,
+      parameters: node.parameters.filter(
+        (parameter) =>
+          !(ts.isIdentifier(parameter.name) && parameter.name.text === 'this')
+      ).length,
+      loc,
+    };
+
+    return {
+      filePath: sourceFile.fileName,
+      name: this.getFunctionName(node),
+      kind: this.getFunctionKind(node),
+      line,
+      column: start.character + 1,
+      endLine,
+      ...measured,
+      exceeded: (Object.keys(measured) as ComplexityMetric[]).filter(
+        (metric) => measured[metric] > this.thresholds[metric]
+      ),
+    };
+  }
+
+  /**
+   * 遍历函数体，计算圈复杂度、认知复杂度和嵌套深度
+   * @param node - 函数节点
+   */
+  private measureBody(node: FunctionNode): IBodyMetrics {
+    const metrics: IBodyMetrics = {
+      cyclomatic: 1,
+      cognitive: 0,
+      nestingDepth: 0,
+    };
+    const selfName = this.getRecursionName(node);
+    const isMember =
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node);
+
+    // nesting 为认知复杂度的嵌套级别，depth 为控制结构的嵌套深度
+    const visit = (current: ts.Node, nesting: number, depth: number): void => {
+      if (ts.isFunctionLike(current) || ts.isClassLike(current)) {
+        return;
+      }
+
+      metrics.nestingDepth = Math.max(metrics.nestingDepth, depth);
+
+      switch (current.kind) {
+        case ts.SyntaxKind.IfStatement:
+          visitIf(current as ts.IfStatement, nesting, depth, false);
+          return;
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+          metrics.cyclomatic++;
+          metrics.cognitive += 1 + nesting;
+          ts.forEachChild(current, (child) =>
+            visit(child, nesting + 1, depth + 1)
+          );
+          return;
+        case ts.SyntaxKind.SwitchStatement: {
+          const statement = current as ts.SwitchStatement;
+          metrics.cyclomatic += statement.caseBlock.clauses.filter(
+            ts.isCaseClause
+          ).length;
+          metrics.cognitive += 1 + nesting;
+          visit(statement.expression, nesting, depth);
+          visit(statement.caseBlock, nesting + 1, depth + 1);
+          return;
+        }
+        case ts.SyntaxKind.TryStatement:
+          ts.forEachChild(current, (child) => visit(child, nesting, depth + 1));
+          return;
+        case ts.SyntaxKind.CatchClause:
+          // try 语句已经增加了嵌套深度
+          metrics.cyclomatic++;
+          metrics.cognitive += 1 + nesting;
+          ts.forEachChild(current, (child) => visit(child, nesting + 1, depth));
+          return;
+        case ts.SyntaxKind.ConditionalExpression: {
+          const expression = current as ts.ConditionalExpression;
+          metrics.cyclomatic++;
+          metrics.cognitive += 1 + nesting;
+          visit(expression.condition, nesting, depth);
+          visit(expression.whenTrue, nesting + 1, depth);
+          visit(expression.whenFalse, nesting + 1, depth);
+          return;
+        }
+        case ts.SyntaxKind.BinaryExpression: {
+          const expression = current as ts.BinaryExpression;
+          const operator = expression.operatorToken.kind;
+          if (LOGICAL_OPERATORS.has(operator)) {
+            metrics.cyclomatic++;
+            // 同一运算符组成的序列只计一次，如 a && b && c
+            if (!this.continuesSequence(expression)) {
+              metrics.cognitive++;
+            }
+          } else if (LOGICAL_ASSIGNMENT_OPERATORS.has(operator)) {
+            metrics.cyclomatic++;
+          }
+          break;
+        }
+        case ts.SyntaxKind.BreakStatement:
+        case ts.SyntaxKind.ContinueStatement:
+          if ((current as ts.BreakOrContinueStatement).label) {
+            metrics.cognitive++;
+          }
+          break;
+        case ts.SyntaxKind.CallExpression:
+          if (
+            selfName &&
+            this.isRecursiveCall(
+              current as ts.CallExpression,
+              selfName,
+              isMember
+            )
+          ) {
+            metrics.cognitive++;
+          }
+          break;
+        default:
+          break;
+      }
+
+      ts.forEachChild(current, (child) => visit(child, nesting, depth));
+    };
+
+    // else if 不增加嵌套级别，else 与 else if 各计 1
+    const visitIf = (
+      statement: ts.IfStatement,
+      nesting: number,
+      depth: number,
+      isElseIf: boolean
+    ): void => {
+      metrics.cyclomatic++;
+      metrics.cognitive += isElseIf ? 1 : 1 + nesting;
+      visit(statement.expression, nesting, depth);
+      visit(statement.thenStatement, nesting + 1, depth + 1);
+
+      const elseStatement = statement.elseStatement;
+      if (!elseStatement) {
+        return;
+      }
+      if (ts.isIfStatement(elseStatement)) {
+        visitIf(elseStatement, nesting, depth, true);
+      } else {
+        metrics.cognitive++;
+        visit(elseStatement, nesting + 1, depth + 1);
+      }
+    };
+
+    if (node.body) {
+      visit(node.body, 0, 0);
+    }
+    return metrics;
+  }
+
+  /**
+   * 逻辑表达式是否延续左侧相同运算符的序列
+   */
+  private continuesSequence(expression: ts.BinaryExpression): boolean {
+    let left = expression.left;
+    while (ts.isParenthesizedExpression(left)) {
+      left = left.expression;
+    }
+    return (
+      ts.isBinaryExpression(left) &&
+      left.operatorToken.kind === expression.operatorToken.kind
+    );
+  }
+
+  /**
+   * 是否为对函数自身的调用
+   */
+  private isRecursiveCall(
+    call: ts.CallExpression,
+    selfName: string,
+    isMember: boolean
+  ): boolean {
+    const callee = call.expression;
+    if (isMember) {
+      return (
+        ts.isPropertyAccessExpression(callee) &&
+        callee.expression.kind === ts.SyntaxKind.ThisKeyword &&
+        callee.name.text === selfName
+      );
+    }
+    return ts.isIdentifier(callee) && callee.text === selfName;
+  }
+
+  /**
+   * 函数在自身内部被调用时使用的名称
+   */
+  private getRecursionName(node: FunctionNode): string | undefined {
+    if (node.name && ts.isIdentifier(node.name)) {
+      return node.name.text;
+    }
+    if (
+      (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) &&
+      ts.isVariableDeclaration(node.parent) &&
+      ts.isIdentifier(node.parent.name)
+    ) {
+      return node.parent.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取函数的显示名称，类成员带类名前缀
+   */
+  private getFunctionName(node: FunctionNode): string {
+    const memberName = (name: ts.Node | undefined): string =>
+      name ? name.getText() : '(匿名)';
+    const owner = (member: ts.Node): string | undefined => {
+      const parent = member.parent;
+      if (ts.isClassLike(parent)) {
+        return parent.name?.text || '(匿名类)';
+      }
+      return undefined;
+    };
+    const qualify = (member: ts.Node, name: string): string => {
+      const className = owner(member);
+      return className ? `${className}.${name}` : name;
+    };
+
+    if (ts.isConstructorDeclaration(node)) {
+      return qualify(node, 'constructor');
+    }
+    if (
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)
+    ) {
+      return qualify(node, memberName(node.name));
+    }
+    if (ts.isFunctionDeclaration(node)) {
+      return node.name?.text || 'default';
+    }
+    if (ts.isFunctionExpression(node) && node.name) {
+      return node.name.text;
+    }
+
+    // 箭头函数和匿名函数表达式使用其被赋值的名称
+    const parent = node.parent;
+    if (
+      ts.isVariableDeclaration(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent)
+    ) {
+      return qualify(parent, memberName(parent.name));
+    }
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      return parent.left.getText();
+    }
+    // 作为回调传入的函数使用被调用的函数名，如 "(forEach 回调)"
+    if (ts.isCallExpression(parent) && parent.expression !== node) {
+      const callee = parent.expression;
+      const calleeName = ts.isPropertyAccessExpression(callee)
+        ? callee.name.text
+        : ts.isIdentifier(callee)
+          ? callee.text
+          : undefined;
+      if (calleeName) {
+        return `(${calleeName} 回调)`;
+      }
+    }
+    return '(匿名)';
+  }
+
+  /**
+   * 获取函数种类
+   */
+  private getFunctionKind(node: FunctionNode): FunctionKind {
+    if (ts.isConstructorDeclaration(node)) {
+      return 'constructor';
+    }
+    if (ts.isMethodDeclaration(node)) {
+      return 'method';
+    }
+    if (ts.isGetAccessorDeclaration(node)) {
+      return 'getter';
+    }
+    if (ts.isSetAccessorDeclaration(node)) {
+      return 'setter';
+    }
+    if (ts.isArrowFunction(node)) {
+      return 'arrow';
+    }
+    if (ts.isFunctionExpression(node)) {
+      return 'function-expression';
+    }
+    return 'function';
+  }
+
+  /**
+   * 获取包含代码（而非空白或注释）的行号集合
+   * 遍历所有语法记号，记号覆盖的行即为代码行
+   */
+  private getCodeLines(sourceFile: ts.SourceFile): Set<number> {
+    const lines = new Set<number>();
+
+    const visit = (node: ts.Node): void => {
+      if (
+        node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+        node.kind <= ts.SyntaxKind.LastJSDocNode
+      ) {
+        return;
+      }
+
+      const children = node.getChildren(sourceFile);
+      if (children.length > 0) {
+        children.forEach(visit);
+        return;
+      }
+
+      if (node.kind === ts.SyntaxKind.EndOfFileToken) {
+        return;
+      }
+      const startLine = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile)
+      ).line;
+      const endLine = sourceFile.getLineAndCharacterOfPosition(
+        node.getEnd()
+      ).line;
+      for (let line = startLine; line <= endLine; line++) {
+        lines.add(line + 1);
+      }
+    };
+    visit(sourceFile);
+
+    return lines;
+  }
+}
+
+/**
+ * 汇总函数复杂度统计，平均值保留两位小数
+ * @param functions - 函数复杂度列表
+ */
+export function summarizeComplexity(
+  functions: Array<Pick<IFunctionComplexity, 'cyclomatic' | 'cognitive'>>
+): IComplexityStats {
+  const total = functions.length;
+  const average = (values: number[]) =>
+    total > 0
+      ? Math.round(
+          (values.reduce((sum, value) => sum + value, 0) / total) * 100
+        ) / 100
+      : 0;
+  const cyclomatic = functions.map((fn) => fn.cyclomatic);
+  const cognitive = functions.map((fn) => fn.cognitive);
+  const max = (values: number[]) =>
+    values.reduce((result, value) => Math.max(result, value), 0);
+
+  return {
+    totalFunctions: total,
+    averageCyclomatic: average(cyclomatic),
+    averageCognitive: average(cognitive),
+    maxCyclomatic: max(cyclomatic),
+    maxCognitive: max(cognitive),
+  };
+}
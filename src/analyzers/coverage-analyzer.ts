@@ -1,64 +1,56 @@
-import path from 'path';
-import fs from 'fs-extra';
 import { spawn } from 'child_process';
 import { AstService } from '../core/ast-service';
 import { IAnalysisResult } from '../core/analysis-orchestrator';
 import { Logger } from '../utils/logger';
+import {
+  CoverageReportReader,
+  DEFAULT_COVERAGE_REPORT_PATHS,
+} from './coverage-report-reader';
 
 /**
- * 覆盖率信息接口
+ * 覆盖率分析选项
  */
-export interface ICoverageData {
-  total: {
-    lines: { total: number; covered: number; skipped: number; pct: number };
-    statements: {
-      total: number;
-      covered: number;
-      skipped: number;
-      pct: number;
-    };
-    functions: { total: number; covered: number; skipped: number; pct: number };
-    branches: { total: number; covered: number; skipped: number; pct: number };
-  };
-  files: Record<
-    string,
-    {
-      lines: { total: number; covered: number; skipped: number; pct: number };
-      statements: {
-        total: number;
-        covered: number;
-        skipped: number;
-        pct: number;
-      };
-      functions: {
-        total: number;
-        covered: number;
-        skipped: number;
-        pct: number;
-      };
-      branches: {
-        total: number;
-        covered: number;
-        skipped: number;
-        pct: number;
-      };
-    }
-  >;
+export interface ICoverageAnalyzerOptions {
+  /**
+   * 覆盖率报告路径（相对项目根目录），按顺序使用第一个存在的报告
+   */
+  reportPaths?: string[];
+
+  /**
+   * 是否在读取报告前运行测试命令，默认只读取已有的报告
+   */
+  runTests?: boolean;
+
+  /**
+   * 生成覆盖率报告的测试命令
+   */
+  testCommand?: string;
 }
 
+/**
+ * 默认的测试命令
+ */
+const DEFAULT_TEST_COMMAND = 'npm test -- --coverage';
+
 /**
  * 代码覆盖率分析器
- * 使用Istanbul/nyc分析代码覆盖率
+ * 读取项目已有的覆盖率报告（Istanbul、lcov、V8/c8），可选地先运行测试命令生成报告
  */
 export class CoverageAnalyzer {
   private logger: Logger;
   private targetPath: string;
   private astService: AstService;
+  private options: ICoverageAnalyzerOptions;
 
-  constructor(targetPath: string, astService: AstService) {
+  constructor(
+    targetPath: string,
+    astService: AstService,
+    options: ICoverageAnalyzerOptions = {}
+  ) {
     this.logger = new Logger();
     this.targetPath = targetPath;
     this.astService = astService;
+    this.options = options;
   }
 
   /**
@@ -69,204 +61,100 @@ export class CoverageAnalyzer {
   ): Promise<IAnalysisResult> {
     this.logger.debug('开始代码覆盖率分析');
 
-    if (progressCallback) {
-      progressCallback('检查项目测试配置...');
-    }
-
-    // 检查是否有测试脚本
-    const hasTests = await this.checkTestFiles();
-    if (!hasTests) {
-      return {
-        type: 'coverage',
-        data: null,
-        summary: {
-          title: '代码覆盖率分析',
-          description: '未检测到有效的测试文件，无法分析覆盖率',
-          metrics: {
-            status: 'error',
-            message: '未找到测试文件',
-          },
-        },
-      };
-    }
+    try {
+      if (this.options.runTests) {
+        const command = this.options.testCommand || DEFAULT_TEST_COMMAND;
+        progressCallback?.(`运行测试命令: ${command}`);
+        await this.runTestCommand(command, progressCallback);
+      }
 
-    if (progressCallback) {
-      progressCallback('运行测试并收集覆盖率数据...');
-    }
+      progressCallback?.('读取覆盖率报告...');
+      const reportPaths =
+        this.options.reportPaths || DEFAULT_COVERAGE_REPORT_PATHS;
+      const coverageData = await new CoverageReportReader(this.targetPath).read(
+        reportPaths
+      );
 
-    // 运行测试并收集覆盖率数据
-    try {
-      const coverageData = await this.runTestsWithCoverage(progressCallback);
+      if (!coverageData) {
+        return this.errorResult(
+          `未找到覆盖率报告（${reportPaths.join(', ')}），请先运行测试生成覆盖率，或在配置中启用 coverage.runTests`
+        );
+      }
 
-      // 分析结果
       return {
         type: 'coverage',
         data: coverageData,
         summary: {
           title: '代码覆盖率分析',
-          description: '分析完成',
+          description: `已读取 ${coverageData.format} 格式的覆盖率报告`,
           metrics: {
             lines: coverageData.total.lines.pct,
             statements: coverageData.total.statements.pct,
             functions: coverageData.total.functions.pct,
             branches: coverageData.total.branches.pct,
+            files: Object.keys(coverageData.files).length,
             status: 'success',
           },
         },
       };
     } catch (error) {
       this.logger.error('代码覆盖率分析失败:', error);
-
-      return {
-        type: 'coverage',
-        data: null,
-        summary: {
-          title: '代码覆盖率分析',
-          description: '分析过程中出错',
-          metrics: {
-            status: 'error',
-            message: error instanceof Error ? error.message : String(error),
-          },
-        },
-      };
+      return this.errorResult(
+        error instanceof Error ? error.message : String(error)
+      );
     }
   }
 
   /**
-   * 检查是否有测试文件
+   * 生成失败结果
    */
-  private async checkTestFiles(): Promise<boolean> {
-    try {
-      // 检查常见的测试目录和文件
-      const testPatterns = [
-        'test',
-        'tests',
-        'spec',
-        '__tests__',
-        '**/*.test.js',
-        '**/*.test.ts',
-        '**/*.spec.js',
-        '**/*.spec.ts',
-      ];
-
-      for (const pattern of testPatterns) {
-        const fullPath = path.join(this.targetPath, pattern);
-        if (fs.existsSync(fullPath)) {
-          return true;
-        }
-      }
-
-      // 检查package.json中是否有test脚本
-      const pkgPath = path.join(this.targetPath, 'package.json');
-      if (fs.existsSync(pkgPath)) {
-        const pkg = await fs.readJson(pkgPath);
-        if (pkg.scripts && pkg.scripts.test) {
-          return true;
-        }
-      }
-
-      return false;
-    } catch (error) {
-      this.logger.error('检查测试文件失败:', error);
-      return false;
-    }
+  private errorResult(message: string): IAnalysisResult {
+    return {
+      type: 'coverage',
+      data: null,
+      summary: {
+        title: '代码覆盖率分析',
+        description: message,
+        metrics: {
+          status: 'error',
+          message,
+        },
+      },
+    };
   }
 
   /**
-   * 运行测试并收集覆盖率数据
+   * 在项目目录中运行测试命令
    */
-  private async runTestsWithCoverage(
+  private runTestCommand(
+    command: string,
     progressCallback?: (message: string) => void
-  ): Promise<ICoverageData> {
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      // 创建临时目录存放覆盖率数据
-      const tempDir = path.join(this.targetPath, '.nyc_output');
-      fs.ensureDirSync(tempDir);
-
-      // nyc配置
-      const nycConfig = {
-        include: ['src/**/*.ts', 'src/**/*.tsx', 'src/**/*.js', 'src/**/*.jsx'],
-        exclude: [
-          'test/**',
-          'tests/**',
-          '**/*.spec.*',
-          '**/*.test.*',
-          '**/node_modules/**',
-        ],
-        reporter: ['json', 'text-summary', 'html'],
-        'report-dir': path.join(this.targetPath, 'coverage'),
-      };
-
-      // 将配置写入临时文件
-      const nycrcPath = path.join(this.targetPath, '.nycrc.json');
-      fs.writeJSONSync(nycrcPath, nycConfig);
-
-      if (progressCallback) {
-        progressCallback('执行测试...');
-      }
-
-      // 运行测试
-      const nycProcess = spawn(
-        'npx',
-        ['nyc', '--nycrc-path', nycrcPath, 'npm', 'test'],
-        {
-          cwd: this.targetPath,
-          stdio: 'pipe',
-          shell: true,
-        }
-      );
+      const testProcess = spawn(command, {
+        cwd: this.targetPath,
+        stdio: 'pipe',
+        shell: true,
+      });
 
       let stderrData = '';
 
-      nycProcess.stdout.on('data', (data) => {
-        const message = data.toString();
-        if (progressCallback) {
-          progressCallback(message.trim());
-        }
+      testProcess.stdout.on('data', (data) => {
+        progressCallback?.(data.toString().trim());
       });
 
-      nycProcess.stderr.on('data', (data) => {
+      testProcess.stderr.on('data', (data) => {
         stderrData += data.toString();
       });
 
-      nycProcess.on('close', (code) => {
-        try {
-          if (code !== 0) {
-            this.logger.error(`测试执行失败，退出代码: ${code}`);
-            this.logger.error(`Error: ${stderrData}`);
-            throw new Error(`测试执行失败，退出代码: ${code}`);
-          }
-
-          if (progressCallback) {
-            progressCallback('解析覆盖率数据...');
-          }
-
-          // 读取覆盖率数据
-          const coverageSummaryPath = path.join(
-            this.targetPath,
-            'coverage',
-            'coverage-summary.json'
-          );
+      testProcess.on('error', reject);
 
-          if (fs.existsSync(coverageSummaryPath)) {
-            const coverageData = fs.readJSONSync(
-              coverageSummaryPath
-            ) as ICoverageData;
-            resolve(coverageData);
-          } else {
-            const message = '未能生成有效的覆盖率数据文件';
-            this.logger.error(message);
-            throw new Error(message);
-          }
-        } catch (error) {
-          reject(error);
-        } finally {
-          // 清理临时文件
-          try {
-            fs.removeSync(nycrcPath);
-          } catch (e) {
-            this.logger.warn('清理临时文件失败:', e);
-          }
+      testProcess.on('close', (code) => {
+        if (code !== 0) {
+          this.logger.error(`Error: ${stderrData}`);
+          reject(new Error(`测试执行失败，退出代码: ${code}`));
+        } else {
+          resolve();
         }
       });
     });
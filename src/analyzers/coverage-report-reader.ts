@@ -0,0 +1,536 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+/**
+ * 单项覆盖率指标
+ */
+export interface ICoverageMetric {
+  total: number;
+  covered: number;
+  skipped: number;
+  pct: number;
+}
+
+/**
+ * 单个文件（或汇总）的覆盖率
+ */
+export interface ICoverageSummary {
+  lines: ICoverageMetric;
+  statements: ICoverageMetric;
+  functions: ICoverageMetric;
+  branches: ICoverageMetric;
+}
+
+/**
+ * 单个文件的覆盖率，包含未覆盖的行号
+ */
+export interface IFileCoverageSummary extends ICoverageSummary {
+  /**
+   * 未覆盖的行号（从1开始），覆盖率报告不含行信息时为空
+   */
+  uncoveredLines: number[];
+}
+
+/**
+ * 覆盖率报告格式
+ */
+export type CoverageReportFormat =
+  | 'istanbul-final'
+  | 'istanbul-summary'
+  | 'lcov'
+  | 'v8';
+
+/**
+ * 读取到的覆盖率报告
+ */
+export interface ICoverageReport {
+  /**
+   * 报告格式
+   */
+  format: CoverageReportFormat;
+
+  /**
+   * 读取的报告文件
+   */
+  sources: string[];
+
+  /**
+   * 汇总覆盖率
+   */
+  total: ICoverageSummary;
+
+  /**
+   * 各文件覆盖率，键为绝对路径
+   */
+  files: Record<string, IFileCoverageSummary>;
+}
+
+/**
+ * 覆盖率报告读取错误
+ */
+export class CoverageReportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'CoverageReportError';
+  }
+}
+
+/**
+ * 以命中次数记录的文件覆盖率，键用于合并多个报告中的同一条目
+ */
+interface IHitCounts {
+  lines: Map<number, number>;
+  statements: Map<string, number>;
+  functions: Map<string, number>;
+  branches: Map<string, number>;
+}
+
+/**
+ * Istanbul coverage-final.json 中的单个文件
+ */
+interface IIstanbulFileCoverage {
+  path?: string;
+  statementMap: Record<string, { start: { line: number } }>;
+  s: Record<string, number>;
+  f: Record<string, number>;
+  b: Record<string, number[]>;
+}
+
+/**
+ * V8 原始覆盖率中的函数
+ */
+interface IV8FunctionCoverage {
+  functionName: string;
+  isBlockCoverage: boolean;
+  ranges: Array<{ startOffset: number; endOffset: number; count: number }>;
+}
+
+/**
+ * 未指定路径时依次查找的覆盖率报告
+ */
+export const DEFAULT_COVERAGE_REPORT_PATHS = [
+  'coverage/coverage-final.json',
+  'coverage/lcov.info',
+  'coverage/tmp',
+  '.nyc_output',
+  'coverage/coverage-summary.json',
+];
+
+/**
+ * 覆盖率报告读取器
+ * 支持 Istanbul 的 coverage-final.json 与 coverage-summary.json、lcov.info 以及 V8/c8 的原始 JSON，
+ * 报告路径可以是文件或目录（目录中的全部 JSON 文件会被合并，如 .nyc_output 与 NODE_V8_COVERAGE 输出目录）
+ */
+export class CoverageReportReader {
+  private readonly projectPath: string;
+
+  /**
+   * @param projectPath 项目根路径，报告中的相对路径基于此解析
+   */
+  constructor(projectPath: string) {
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  /**
+   * 按顺序查找并读取第一个存在的覆盖率报告
+   * @param reportPaths 候选报告路径（相对项目根目录）
+   * @returns 覆盖率报告，全部路径都不存在时返回 null
+   */
+  async read(
+    reportPaths: string[] = DEFAULT_COVERAGE_REPORT_PATHS
+  ): Promise<ICoverageReport | null> {
+    for (const reportPath of reportPaths) {
+      const fullPath = path.resolve(this.projectPath, reportPath);
+      if (await fs.pathExists(fullPath)) {
+        return this.readPath(fullPath);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 读取单个报告文件或目录
+   */
+  private async readPath(fullPath: string): Promise<ICoverageReport> {
+    const stat = await fs.stat(fullPath);
+    const sources = stat.isDirectory()
+      ? (await fs.readdir(fullPath))
+          .filter((fileName) => fileName.endsWith('.json'))
+          .sort()
+          .map((fileName) => path.join(fullPath, fileName))
+      : [fullPath];
+
+    if (sources.length === 0) {
+      throw new CoverageReportError(
+        `目录中没有覆盖率报告: ${fullPath}`,
+        'ERR_COVERAGE_EMPTY'
+      );
+    }
+
+    if (sources.length === 1 && sources[0].endsWith('.info')) {
+      const files = this.parseLcov(await fs.readFile(sources[0], 'utf-8'));
+      return this.toReport('lcov', sources, files);
+    }
+
+    const documents = await Promise.all(
+      sources.map(async (source) => {
+        try {
+          return await fs.readJson(source);
+        } catch (error) {
+          throw new CoverageReportError(
+            `无法解析覆盖率报告 ${source}: ${error instanceof Error ? error.message : String(error)}`,
+            'ERR_COVERAGE_INVALID'
+          );
+        }
+      })
+    );
+
+    const format = this.detectFormat(documents[0]);
+    if (format === 'istanbul-summary') {
+      return this.readSummary(sources[0], documents[0]);
+    }
+
+    const files = new Map<string, IHitCounts>();
+    for (const document of documents) {
+      const parsed =
+        format === 'v8'
+          ? await this.parseV8(document)
+          : this.parseIstanbul(document);
+      parsed.forEach((counts, filePath) =>
+        this.mergeCounts(files, filePath, counts)
+      );
+    }
+
+    return this.toReport(format, sources, files);
+  }
+
+  /**
+   * 根据JSON内容判断报告格式
+   */
+  private detectFormat(
+    document: Record<string, unknown>
+  ): Exclude<CoverageReportFormat, 'lcov'> {
+    if (Array.isArray(document.result)) {
+      return 'v8';
+    }
+
+    const total = document.total as Record<string, unknown> | undefined;
+    if (total && typeof total === 'object' && 'lines' in total) {
+      return 'istanbul-summary';
+    }
+
+    const first = Object.values(document)[0] as Record<string, unknown>;
+    if (first && typeof first === 'object' && 'statementMap' in first) {
+      return 'istanbul-final';
+    }
+
+    throw new CoverageReportError(
+      '无法识别的覆盖率报告格式',
+      'ERR_COVERAGE_FORMAT'
+    );
+  }
+
+  /**
+   * 读取 Istanbul 的 coverage-summary.json，该格式不包含行级信息
+   */
+  private readSummary(
+    source: string,
+    document: Record<string, ICoverageSummary>
+  ): ICoverageReport {
+    const files: Record<string, IFileCoverageSummary> = {};
+
+    Object.entries(document)
+      .filter(([key]) => key !== 'total')
+      .forEach(([filePath, summary]) => {
+        const fullPath = this.resolveFile(filePath);
+        if (fullPath) {
+          files[fullPath] = { ...summary, uncoveredLines: [] };
+        }
+      });
+
+    return {
+      format: 'istanbul-summary',
+      sources: [source],
+      total: document.total,
+      files,
+    };
+  }
+
+  /**
+   * 解析 Istanbul 的 coverage-final.json（.nyc_output 中的文件格式相同）
+   * 行覆盖率与 Istanbul 一致：取起始于该行的语句的最大命中次数
+   */
+  private parseIstanbul(
+    document: Record<string, IIstanbulFileCoverage>
+  ): Map<string, IHitCounts> {
+    const files = new Map<string, IHitCounts>();
+
+    Object.entries(document).forEach(([key, coverage]) => {
+      const fullPath = this.resolveFile(coverage.path || key);
+      if (!fullPath) {
+        return;
+      }
+
+      const counts = this.createCounts();
+      Object.entries(coverage.s).forEach(([id, hits]) => {
+        const line = coverage.statementMap[id]?.start.line;
+        counts.statements.set(id, hits);
+        if (line) {
+          counts.lines.set(line, Math.max(counts.lines.get(line) ?? 0, hits));
+        }
+      });
+      Object.entries(coverage.f).forEach(([id, hits]) =>
+        counts.functions.set(id, hits)
+      );
+      Object.entries(coverage.b).forEach(([id, branchHits]) =>
+        branchHits.forEach((hits, index) =>
+          counts.branches.set(`${id}:${index}`, hits)
+        )
+      );
+
+      files.set(fullPath, counts);
+    });
+
+    return files;
+  }
+
+  /**
+   * 解析 lcov.info，lcov 没有语句信息，语句覆盖率使用行覆盖率
+   */
+  private parseLcov(content: string): Map<string, IHitCounts> {
+    const files = new Map<string, IHitCounts>();
+    let current: IHitCounts | null = null;
+
+    content.split(/\r?\n/).forEach((rawLine) => {
+      const line = rawLine.trim();
+      const separator = line.indexOf(':');
+      const tag = separator === -1 ? line : line.slice(0, separator);
+      const values = line.slice(separator + 1).split(',');
+
+      switch (tag) {
+        case 'SF': {
+          const fullPath = this.resolveFile(line.slice(separator + 1));
+          if (fullPath && !files.has(fullPath)) {
+            files.set(fullPath, this.createCounts());
+          }
+          current = fullPath ? files.get(fullPath)! : null;
+          break;
+        }
+        case 'DA':
+          current?.lines.set(Number(values[0]), Number(values[1]));
+          current?.statements.set(values[0], Number(values[1]));
+          break;
+        case 'FNDA':
+          current?.functions.set(values.slice(1).join(','), Number(values[0]));
+          break;
+        case 'BRDA':
+          current?.branches.set(
+            values.slice(0, 3).join(':'),
+            values[3] === '-' ? 0 : Number(values[3])
+          );
+          break;
+        case 'end_of_record':
+          current = null;
+          break;
+        default:
+          break;
+      }
+    });
+
+    return files;
+  }
+
+  /**
+   * 解析 V8/c8 的原始覆盖率
+   * 按函数和块的范围计算每个字符的命中次数（内层范围覆盖外层），整行都未执行的行视为未覆盖
+   */
+  private async parseV8(document: {
+    result: Array<{ url: string; functions: IV8FunctionCoverage[] }>;
+  }): Promise<Map<string, IHitCounts>> {
+    const files = new Map<string, IHitCounts>();
+
+    for (const script of document.result) {
+      if (!script.url.startsWith('file://')) {
+        continue;
+      }
+
+      const fullPath = this.resolveFile(fileURLToPath(script.url));
+      if (!fullPath || !(await fs.pathExists(fullPath))) {
+        continue;
+      }
+
+      const source = await fs.readFile(fullPath, 'utf-8');
+      const charCounts = new Array<number>(source.length).fill(0);
+      const ranges = script.functions
+        .flatMap((fn) => fn.ranges)
+        .sort(
+          (a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset
+        );
+      ranges.forEach(({ startOffset, endOffset, count }) =>
+        charCounts.fill(count, startOffset, Math.min(endOffset, source.length))
+      );
+
+      const counts = this.createCounts();
+      let offset = 0;
+      source.split('\n').forEach((text, index) => {
+        // V8 的偏移量以 UTF-16 码元计
+        const hits: number[] = [];
+        for (let column = 0; column < text.length; column++) {
+          if (!/\s/.test(text[column])) {
+            hits.push(charCounts[offset + column]);
+          }
+        }
+        if (hits.length > 0) {
+          const lineHits = Math.max(...hits);
+          counts.lines.set(index + 1, lineHits);
+          counts.statements.set(String(index + 1), lineHits);
+        }
+        offset += text.length + 1;
+      });
+
+      script.functions.forEach((fn) => {
+        const [range, ...blocks] = fn.ranges;
+        // 顶层模块包装函数覆盖整个脚本，不计入函数覆盖率
+        if (fn.functionName || range.startOffset > 0) {
+          counts.functions.set(
+            `${range.startOffset}:${range.endOffset}`,
+            range.count
+          );
+        }
+        if (fn.isBlockCoverage) {
+          blocks.forEach((block) =>
+            counts.branches.set(
+              `${block.startOffset}:${block.endOffset}`,
+              block.count
+            )
+          );
+        }
+      });
+
+      this.mergeCounts(files, fullPath, counts);
+    }
+
+    return files;
+  }
+
+  /**
+   * 合并同一文件的命中次数
+   */
+  private mergeCounts(
+    files: Map<string, IHitCounts>,
+    filePath: string,
+    counts: IHitCounts
+  ): void {
+    const existing = files.get(filePath);
+    if (!existing) {
+      files.set(filePath, counts);
+      return;
+    }
+
+    (['lines', 'statements', 'functions', 'branches'] as const).forEach(
+      (kind) => {
+        const target = existing[kind] as Map<string | number, number>;
+        (counts[kind] as Map<string | number, number>).forEach((hits, key) =>
+          target.set(key, (target.get(key) ?? 0) + hits)
+        );
+      }
+    );
+  }
+
+  /**
+   * 由命中次数生成覆盖率报告
+   */
+  private toReport(
+    format: CoverageReportFormat,
+    sources: string[],
+    counts: Map<string, IHitCounts>
+  ): ICoverageReport {
+    const files: Record<string, IFileCoverageSummary> = {};
+    const totals = {
+      lines: this.toMetric(0, 0),
+      statements: this.toMetric(0, 0),
+      functions: this.toMetric(0, 0),
+      branches: this.toMetric(0, 0),
+    };
+
+    counts.forEach((fileCounts, filePath) => {
+      const summary: IFileCoverageSummary = {
+        lines: this.summarize(fileCounts.lines),
+        statements: this.summarize(fileCounts.statements),
+        functions: this.summarize(fileCounts.functions),
+        branches: this.summarize(fileCounts.branches),
+        uncoveredLines: Array.from(fileCounts.lines.entries())
+          .filter(([, hits]) => hits === 0)
+          .map(([line]) => line)
+          .sort((a, b) => a - b),
+      };
+      files[filePath] = summary;
+
+      (Object.keys(totals) as Array<keyof ICoverageSummary>).forEach((key) => {
+        totals[key] = this.toMetric(
+          totals[key].total + summary[key].total,
+          totals[key].covered + summary[key].covered
+        );
+      });
+    });
+
+    return { format, sources, total: totals, files };
+  }
+
+  /**
+   * 统计命中次数大于0的条目
+   */
+  private summarize(hits: Map<string | number, number>): ICoverageMetric {
+    const values = Array.from(hits.values());
+    return this.toMetric(
+      values.length,
+      values.filter((count) => count > 0).length
+    );
+  }
+
+  /**
+   * 生成覆盖率指标，与 Istanbul 一致：没有条目时覆盖率为100%
+   */
+  private toMetric(total: number, covered: number): ICoverageMetric {
+    return {
+      total,
+      covered,
+      skipped: 0,
+      pct: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100,
+    };
+  }
+
+  /**
+   * 将报告中的路径解析为项目内的绝对路径，项目外和 node_modules 中的文件返回 null
+   */
+  private resolveFile(filePath: string): string | null {
+    const fullPath = path.resolve(this.projectPath, filePath);
+    const relativePath = path.relative(this.projectPath, fullPath);
+
+    if (
+      relativePath.startsWith('..') ||
+      path.isAbsolute(relativePath) ||
+      relativePath.split(path.sep).includes('node_modules')
+    ) {
+      return null;
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * 创建空的命中次数记录
+   */
+  private createCounts(): IHitCounts {
+    return {
+      lines: new Map(),
+      statements: new Map(),
+      functions: new Map(),
+      branches: new Map(),
+    };
+  }
+}
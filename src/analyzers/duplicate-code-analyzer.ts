@@ -2,6 +2,11 @@ import { Project, Node, SourceFile, SyntaxKind } from 'ts-morph';
 import { createHash } from 'crypto';
 import { IAnalyzer } from '../interfaces/analyzer';
 import { AnalysisResult } from '../types/analysis-result';
+import {
+  ICloneGroup,
+  TokenCloneDetector,
+  TokenCloneDetectorOptions,
+} from './clone-detector';
 
 /**
  * 表示一段可能重复的代码
@@ -21,7 +26,14 @@ export interface IDuplicateInfo {
  * 表示重复代码分析结果
  */
 export interface IDuplicateAnalysisResult extends AnalysisResult {
+  /**
+   * 函数级完全重复（按函数体指纹分组）
+   */
   duplicates: Map<string, IDuplicateInfo[]>;
+  /**
+   * 基于标记窗口检测到的克隆组，包含重命名和少量增删的克隆
+   */
+  clones: ICloneGroup[];
   totalDuplicates: number;
   duplicateLines: number;
   affectedFiles: string[];
@@ -35,22 +47,40 @@ export class DuplicateCodeAnalyzer
 {
   private project: Project;
   private minDuplicateLines: number;
+  private cloneDetector: TokenCloneDetector;
 
   /**
    * 创建重复代码分析器实例
    * @param projectPath 项目根路径
    * @param minDuplicateLines 最小重复行数阈值（默认为5）
+   * @param cloneOptions 标记窗口克隆检测选项
+   * @param filePaths 要分析的文件（绝对路径），通常来自文件发现服务，未指定时分析 src 下的全部TS文件
    */
-  constructor(projectPath: string, minDuplicateLines = 5) {
+  constructor(
+    projectPath: string,
+    minDuplicateLines = 5,
+    cloneOptions: TokenCloneDetectorOptions = {},
+    filePaths?: string[]
+  ) {
     this.project = new Project({
       tsConfigFilePath: `${projectPath}/tsconfig.json`,
       skipAddingFilesFromTsConfig: true,
     });
-    this.project.addSourceFilesAtPaths([
-      `${projectPath}/src/**/*.ts`,
-      `${projectPath}/src/**/*.tsx`,
-    ]);
+    if (filePaths) {
+      filePaths
+        .filter((filePath) => /\.tsx?$/.test(filePath))
+        .forEach((filePath) => this.project.addSourceFileAtPath(filePath));
+    } else {
+      this.project.addSourceFilesAtPaths([
+        `${projectPath}/src/**/*.ts`,
+        `${projectPath}/src/**/*.tsx`,
+      ]);
+    }
     this.minDuplicateLines = minDuplicateLines;
+    this.cloneDetector = new TokenCloneDetector({
+      minLines: minDuplicateLines,
+      ...cloneOptions,
+    });
   }
 
   /**
@@ -78,18 +108,36 @@ export class DuplicateCodeAnalyzer
     // 检测重复代码
     const result = this.findDuplicates(codeUnits);
 
+    // 基于标记窗口检测函数内部和跨文件的克隆片段
+    const clones = this.cloneDetector.detect(
+      this.project.getSourceFiles().map((sourceFile) => ({
+        filePath: sourceFile.getFilePath(),
+        content: sourceFile.getFullText(),
+      }))
+    );
+
     const endTime = Date.now();
 
     return {
       duplicates: result.duplicateMap,
-      totalDuplicates: result.totalDuplicates,
-      duplicateLines: result.duplicateLines,
+      clones,
+      totalDuplicates: clones.reduce(
+        (total, clone) => total + clone.regions.length,
+        0
+      ),
+      duplicateLines: clones.reduce(
+        (total, clone) => total + clone.lines * (clone.regions.length - 1),
+        0
+      ),
       affectedFiles: [
-        ...new Set(
-          Array.from(result.duplicateMap.values())
+        ...new Set([
+          ...Array.from(result.duplicateMap.values())
             .flat()
-            .map((d) => d.filePath)
-        ),
+            .map((d) => d.filePath),
+          ...clones.flatMap((clone) =>
+            clone.regions.map((region) => region.filePath)
+          ),
+        ]),
       ],
       duration: endTime - startTime,
     };
@@ -0,0 +1,720 @@
+import path from 'path';
+import fs from 'fs';
+import micromatch from 'micromatch';
+import { Project, SourceFile, Node, SyntaxKind, ts } from 'ts-morph';
+
+/**
+ * 模块使用分析选项
+ */
+export interface IModuleUsageOptions {
+  /**
+   * 额外的入口文件glob模式（相对项目根目录），入口文件的全部导出视为已使用
+   */
+  entries?: string[];
+
+  /**
+   * 测试文件glob模式，未指定时使用默认模式
+   */
+  testPatterns?: string[];
+
+  /**
+   * 项目中要分析的文件（绝对路径），通常来自文件发现服务，未指定时按扩展名查找项目文件
+   */
+  files?: string[];
+}
+
+/**
+ * 导出符号
+ */
+export interface IExportedSymbol {
+  filePath: string;
+  line: number;
+  column: number;
+  name: string;
+}
+
+/**
+ * 模块使用分析结果
+ */
+export interface IModuleUsageResult {
+  /**
+   * 识别出的入口文件（不含测试文件）
+   */
+  entryFiles: string[];
+
+  /**
+   * 没有被任何可达模块使用的导出
+   */
+  unusedExports: IExportedSymbol[];
+
+  /**
+   * 只被测试文件使用的导出
+   */
+  testOnlyExports: IExportedSymbol[];
+
+  /**
+   * 从入口和测试文件出发无法到达的文件
+   */
+  unreachableFiles: string[];
+}
+
+const SOURCE_EXTENSIONS = [
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'mts',
+  'cts',
+  'mjs',
+  'cjs',
+];
+
+const DEFAULT_EXCLUDE_PATTERNS = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/*.d.ts',
+];
+
+/**
+ * 默认的测试文件glob模式
+ */
+export const DEFAULT_TEST_PATTERNS = [
+  '**/*.{test,spec}.*',
+  '**/__tests__/**',
+  '**/__mocks__/**',
+  'test/**',
+  'tests/**',
+];
+
+/**
+ * 项目根目录下的工具配置文件，由对应工具加载
+ */
+const CONFIG_ENTRY_PATTERNS = ['*.config.*'];
+
+/**
+ * 框架约定的入口文件，在 package.json 中声明了对应依赖时生效
+ */
+const FRAMEWORK_ENTRY_PATTERNS: Record<string, string[]> = {
+  next: [
+    '{src/,}pages/**',
+    '{src/,}app/**/{page,layout,template,loading,error,not-found,default,route}.*',
+    '{src/,}middleware.*',
+  ],
+  nuxt: ['{pages,layouts,middleware,plugins,server}/**'],
+  '@remix-run/dev': ['app/root.*', 'app/entry.*', 'app/routes/**'],
+  vite: ['src/main.*'],
+  '@storybook/react': ['**/*.stories.*', '.storybook/**'],
+};
+
+/**
+ * 没有识别到任何入口时使用的默认入口
+ */
+const FALLBACK_ENTRY_PATTERNS = ['{src/,}index.*'];
+
+/**
+ * package.json 中与入口和依赖相关的字段
+ */
+interface IPackageJson {
+  main?: unknown;
+  module?: unknown;
+  exports?: unknown;
+  bin?: unknown;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * 导出使用情况
+ */
+type UsageKind = 'production' | 'test';
+
+/**
+ * 模块使用分析器
+ * 从入口文件（package.json 的 main/module/exports/bin、测试文件、框架约定和配置的入口）出发，
+ * 沿导入、重新导出和 barrel 文件解析每个导出的实际使用方，找出未使用的导出、只被测试使用的导出以及不可达的文件
+ */
+export class ModuleUsageAnalyzer {
+  private readonly basePath: string;
+  private readonly options: IModuleUsageOptions;
+  private project!: Project;
+  private compilerOptions: ts.CompilerOptions = {};
+  private readonly exportCache = new Map<
+    SourceFile,
+    ReadonlyMap<string, Node[]>
+  >();
+  private readonly usages = new Map<string, Set<UsageKind>>();
+  private readonly resolutionCache = new Map<string, SourceFile | undefined>();
+
+  /**
+   * 创建模块使用分析器
+   * @param basePath 项目根路径
+   * @param options 分析选项
+   */
+  constructor(basePath: string, options: IModuleUsageOptions = {}) {
+    this.basePath = path.resolve(basePath);
+    this.options = options;
+  }
+
+  /**
+   * 执行分析
+   * @returns 分析结果
+   */
+  analyze(): IModuleUsageResult {
+    this.createProject();
+    this.exportCache.clear();
+    this.usages.clear();
+    this.resolutionCache.clear();
+
+    const sourceFiles = this.project.getSourceFiles();
+    const testFiles = new Set(
+      sourceFiles.filter((sourceFile) => this.isTestFile(sourceFile))
+    );
+    const entryFiles = this.findEntryFiles(sourceFiles).filter(
+      (sourceFile) => !testFiles.has(sourceFile)
+    );
+
+    // 没有任何入口时无法判断可达性，此时所有文件都视为可达
+    const hasRoots = entryFiles.length > 0 || testFiles.size > 0;
+    const reachable = hasRoots
+      ? this.collectReachable([...entryFiles, ...testFiles])
+      : new Set(sourceFiles);
+
+    entryFiles.forEach((sourceFile) =>
+      this.markAllExports(sourceFile, 'production', new Set())
+    );
+    reachable.forEach((sourceFile) =>
+      this.collectUsages(
+        sourceFile,
+        testFiles.has(sourceFile) ? 'test' : 'production'
+      )
+    );
+
+    const unusedExports: IExportedSymbol[] = [];
+    const testOnlyExports: IExportedSymbol[] = [];
+    const entrySet = new Set(entryFiles);
+
+    for (const sourceFile of reachable) {
+      if (entrySet.has(sourceFile) || testFiles.has(sourceFile)) {
+        continue;
+      }
+
+      this.getExports(sourceFile).forEach((declarations, name) => {
+        declarations
+          .filter((declaration) => declaration.getSourceFile() === sourceFile)
+          .forEach((declaration) => {
+            const usage = this.usages.get(this.getKey(declaration));
+            if (usage?.has('production')) {
+              return;
+            }
+
+            const symbol = this.toSymbol(declaration, name);
+            if (usage?.has('test')) {
+              testOnlyExports.push(symbol);
+            } else {
+              unusedExports.push(symbol);
+            }
+          });
+      });
+    }
+
+    return {
+      entryFiles: entryFiles.map((sourceFile) => sourceFile.getFilePath()),
+      unusedExports,
+      testOnlyExports,
+      unreachableFiles: sourceFiles
+        .filter((sourceFile) => !reachable.has(sourceFile))
+        .map((sourceFile) => sourceFile.getFilePath()),
+    };
+  }
+
+  /**
+   * 创建包含项目全部源文件的 ts-morph 项目，模块解析遵循 tsconfig
+   */
+  private createProject(): void {
+    const tsConfigFilePath = path.join(this.basePath, 'tsconfig.json');
+    this.project = new Project({
+      tsConfigFilePath: fs.existsSync(tsConfigFilePath)
+        ? tsConfigFilePath
+        : undefined,
+      compilerOptions: { allowJs: true },
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    });
+    this.compilerOptions = this.project.getCompilerOptions();
+
+    if (this.options.files) {
+      this.options.files
+        .filter(
+          (filePath) =>
+            SOURCE_EXTENSIONS.includes(path.extname(filePath).slice(1)) &&
+            !filePath.endsWith('.d.ts') &&
+            fs.existsSync(filePath)
+        )
+        .forEach((filePath) => this.project.addSourceFileAtPath(filePath));
+      return;
+    }
+
+    this.project.addSourceFilesAtPaths([
+      path.join(this.basePath, `**/*.{${SOURCE_EXTENSIONS.join(',')}}`),
+      ...DEFAULT_EXCLUDE_PATTERNS.map(
+        (pattern) => `!${path.join(this.basePath, pattern)}`
+      ),
+    ]);
+  }
+
+  /**
+   * 查找入口文件
+   */
+  private findEntryFiles(sourceFiles: SourceFile[]): SourceFile[] {
+    const packageJson = this.readPackageJson();
+    const entries = new Set<SourceFile>();
+
+    this.getPackageEntryPaths(packageJson).forEach((entryPath) => {
+      const sourceFile = this.toSourceFile(
+        path.resolve(this.basePath, entryPath)
+      );
+      if (sourceFile) {
+        entries.add(sourceFile);
+      }
+    });
+
+    const dependencies = {
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+    };
+    const patterns = [
+      ...CONFIG_ENTRY_PATTERNS,
+      ...Object.entries(FRAMEWORK_ENTRY_PATTERNS)
+        .filter(([dependency]) => dependency in dependencies)
+        .flatMap(([, frameworkPatterns]) => frameworkPatterns),
+      ...(this.options.entries || []),
+    ];
+    sourceFiles
+      .filter((sourceFile) => this.matches(sourceFile, patterns))
+      .forEach((sourceFile) => entries.add(sourceFile));
+
+    if (entries.size === 0) {
+      sourceFiles
+        .filter((sourceFile) =>
+          this.matches(sourceFile, FALLBACK_ENTRY_PATTERNS)
+        )
+        .forEach((sourceFile) => entries.add(sourceFile));
+    }
+
+    return Array.from(entries);
+  }
+
+  /**
+   * 读取 package.json 中声明的入口路径（main、module、exports、bin）
+   */
+  private getPackageEntryPaths(packageJson: IPackageJson): string[] {
+    const paths: string[] = [];
+    const collect = (value: unknown): void => {
+      if (typeof value === 'string') {
+        paths.push(value);
+      } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(collect);
+      }
+    };
+
+    collect(packageJson.main);
+    collect(packageJson.module);
+    collect(packageJson.exports);
+    collect(packageJson.bin);
+
+    return paths.filter((entryPath) => !entryPath.endsWith('.d.ts'));
+  }
+
+  /**
+   * 读取项目的 package.json，不存在或无法解析时返回空对象
+   */
+  private readPackageJson(): IPackageJson {
+    try {
+      return JSON.parse(
+        fs.readFileSync(path.join(this.basePath, 'package.json'), 'utf-8')
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 将文件路径映射到项目源文件
+   * 指向构建输出目录（outDir、dist、lib、build）的路径会映射回源码目录
+   */
+  private toSourceFile(filePath: string): SourceFile | undefined {
+    const direct = this.project.getSourceFile(filePath);
+    if (direct) {
+      return direct;
+    }
+
+    const relativePath = path
+      .relative(this.basePath, filePath)
+      .split(path.sep)
+      .join('/');
+    const outDirs = [
+      this.compilerOptions.outDir
+        ? path
+            .relative(this.basePath, this.compilerOptions.outDir)
+            .split(path.sep)
+            .join('/')
+        : undefined,
+      'dist',
+      'lib',
+      'build',
+    ].filter((outDir): outDir is string => !!outDir);
+    const rootDir = this.compilerOptions.rootDir
+      ? path.relative(this.basePath, this.compilerOptions.rootDir)
+      : 'src';
+
+    const outDir = outDirs.find((dir) => relativePath.startsWith(`${dir}/`));
+    const candidates = [relativePath];
+    if (outDir) {
+      candidates.push(
+        path.posix.join(rootDir, relativePath.slice(outDir.length + 1))
+      );
+    }
+
+    for (const candidate of candidates) {
+      const withoutExtension = candidate.replace(/\.(c|m)?jsx?$/, '');
+      for (const extension of SOURCE_EXTENSIONS) {
+        for (const suffix of [`.${extension}`, `/index.${extension}`]) {
+          const sourceFile = this.project.getSourceFile(
+            path.resolve(this.basePath, withoutExtension + suffix)
+          );
+          if (sourceFile) {
+            return sourceFile;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 从根文件出发，沿模块引用收集全部可达文件
+   */
+  private collectReachable(roots: SourceFile[]): Set<SourceFile> {
+    const reachable = new Set<SourceFile>();
+    const queue = [...roots];
+
+    while (queue.length > 0) {
+      const sourceFile = queue.shift()!;
+      if (reachable.has(sourceFile)) {
+        continue;
+      }
+      reachable.add(sourceFile);
+
+      this.getReferencedFiles(sourceFile).forEach((referenced) => {
+        if (!reachable.has(referenced)) {
+          queue.push(referenced);
+        }
+      });
+    }
+
+    return reachable;
+  }
+
+  /**
+   * 获取文件通过 import、export ... from、import()、require() 引用的项目文件
+   */
+  private getReferencedFiles(sourceFile: SourceFile): SourceFile[] {
+    const referenced: SourceFile[] = [];
+
+    [
+      ...sourceFile.getImportDeclarations(),
+      ...sourceFile.getExportDeclarations(),
+    ].forEach((declaration) => {
+      const specifier = declaration.getModuleSpecifierValue();
+      const target = specifier && this.resolve(specifier, sourceFile);
+      if (target) {
+        referenced.push(target);
+      }
+    });
+
+    return [...referenced, ...this.getModuleCalls(sourceFile)];
+  }
+
+  /**
+   * 收集文件对其他模块导出的使用
+   */
+  private collectUsages(sourceFile: SourceFile, kind: UsageKind): void {
+    sourceFile.getImportDeclarations().forEach((declaration) => {
+      const target = this.resolve(
+        declaration.getModuleSpecifierValue(),
+        sourceFile
+      );
+      if (!target) {
+        return;
+      }
+
+      if (declaration.getDefaultImport()) {
+        this.markExport(target, 'default', kind);
+      }
+
+      declaration.getNamedImports().forEach((namedImport) => {
+        this.markExport(target, namedImport.getName(), kind);
+      });
+
+      const namespaceImport = declaration.getNamespaceImport();
+      if (namespaceImport) {
+        this.markNamespaceUsage(
+          sourceFile,
+          namespaceImport.getText(),
+          target,
+          kind
+        );
+      }
+    });
+
+    // import x = require()、import() 和 require() 无法静态确定使用了哪些导出
+    this.getModuleCalls(sourceFile).forEach((target) =>
+      this.markAllExports(target, kind, new Set())
+    );
+  }
+
+  /**
+   * 标记命名空间导入的使用：只通过 ns.name 访问时标记对应导出，否则视为使用全部导出
+   */
+  private markNamespaceUsage(
+    sourceFile: SourceFile,
+    namespace: string,
+    target: SourceFile,
+    kind: UsageKind
+  ): void {
+    const accessedNames: string[] = [];
+    let usedAsValue = false;
+
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.Identifier)
+      .filter((identifier) => identifier.getText() === namespace)
+      .forEach((identifier) => {
+        const parent = identifier.getParent();
+        if (Node.isNamespaceImport(parent)) {
+          return;
+        }
+
+        if (
+          Node.isPropertyAccessExpression(parent) &&
+          parent.getExpression() === identifier
+        ) {
+          accessedNames.push(parent.getName());
+        } else if (
+          Node.isQualifiedName(parent) &&
+          parent.getLeft() === identifier
+        ) {
+          accessedNames.push(parent.getRight().getText());
+        } else {
+          usedAsValue = true;
+        }
+      });
+
+    if (usedAsValue) {
+      this.markAllExports(target, kind, new Set());
+    } else {
+      accessedNames.forEach((name) => this.markExport(target, name, kind));
+    }
+  }
+
+  /**
+   * 标记模块的某个导出被使用，重新导出会被解析到原始声明
+   */
+  private markExport(
+    sourceFile: SourceFile,
+    name: string,
+    kind: UsageKind
+  ): void {
+    (this.getExports(sourceFile).get(name) || []).forEach((declaration) =>
+      this.markDeclaration(declaration, kind, new Set())
+    );
+  }
+
+  /**
+   * 标记模块的全部导出被使用
+   */
+  private markAllExports(
+    sourceFile: SourceFile,
+    kind: UsageKind,
+    visited: Set<SourceFile>
+  ): void {
+    if (visited.has(sourceFile)) {
+      return;
+    }
+    visited.add(sourceFile);
+
+    this.getExports(sourceFile).forEach((declarations) =>
+      declarations.forEach((declaration) =>
+        this.markDeclaration(declaration, kind, visited)
+      )
+    );
+  }
+
+  /**
+   * 标记声明被使用，export * as ns 导出的是整个模块
+   */
+  private markDeclaration(
+    declaration: Node,
+    kind: UsageKind,
+    visited: Set<SourceFile>
+  ): void {
+    if (Node.isSourceFile(declaration)) {
+      this.markAllExports(declaration, kind, visited);
+      return;
+    }
+
+    const key = this.getKey(declaration);
+    if (!this.usages.has(key)) {
+      this.usages.set(key, new Set());
+    }
+    this.usages.get(key)!.add(kind);
+  }
+
+  /**
+   * 获取 import x = require()、import() 与 require() 引用的项目文件
+   */
+  private getModuleCalls(sourceFile: SourceFile): SourceFile[] {
+    const specifiers: string[] = [];
+
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.ExternalModuleReference)
+      .forEach((reference) => {
+        const expression = reference.getExpression();
+        if (expression && Node.isStringLiteral(expression)) {
+          specifiers.push(expression.getLiteralValue());
+        }
+      });
+
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .forEach((call) => {
+        const expression = call.getExpression();
+        const isModuleCall =
+          expression.getKind() === SyntaxKind.ImportKeyword ||
+          (Node.isIdentifier(expression) && expression.getText() === 'require');
+        const [argument] = call.getArguments();
+
+        if (
+          isModuleCall &&
+          argument &&
+          (Node.isStringLiteral(argument) ||
+            Node.isNoSubstitutionTemplateLiteral(argument))
+        ) {
+          specifiers.push(argument.getLiteralValue());
+        }
+      });
+
+    return specifiers
+      .map((specifier) => this.resolve(specifier, sourceFile))
+      .filter((target): target is SourceFile => !!target);
+  }
+
+  /**
+   * 解析模块说明符为项目源文件，外部依赖返回 undefined
+   */
+  private resolve(
+    specifier: string,
+    containingFile: SourceFile
+  ): SourceFile | undefined {
+    const cacheKey = `${path.dirname(containingFile.getFilePath())}\0${specifier}`;
+    if (!this.resolutionCache.has(cacheKey)) {
+      this.resolutionCache.set(
+        cacheKey,
+        this.resolveUncached(specifier, containingFile)
+      );
+    }
+    return this.resolutionCache.get(cacheKey);
+  }
+
+  /**
+   * 使用 TypeScript 模块解析定位文件
+   */
+  private resolveUncached(
+    specifier: string,
+    containingFile: SourceFile
+  ): SourceFile | undefined {
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      containingFile.getFilePath(),
+      this.compilerOptions,
+      ts.sys
+    );
+
+    if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+      const resolved = this.toSourceFile(resolvedModule.resolvedFileName);
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    // 指向构建输出的相对引用（如 bin 脚本引用 ../dist/cli/index.js）映射回源码
+    if (specifier.startsWith('.')) {
+      return this.toSourceFile(
+        path.resolve(path.dirname(containingFile.getFilePath()), specifier)
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 获取文件的导出（名称 -> 原始声明），结果会被缓存
+   */
+  private getExports(sourceFile: SourceFile): ReadonlyMap<string, Node[]> {
+    if (!this.exportCache.has(sourceFile)) {
+      this.exportCache.set(sourceFile, sourceFile.getExportedDeclarations());
+    }
+    return this.exportCache.get(sourceFile)!;
+  }
+
+  /**
+   * 判断是否为测试文件
+   */
+  private isTestFile(sourceFile: SourceFile): boolean {
+    return this.matches(
+      sourceFile,
+      this.options.testPatterns || DEFAULT_TEST_PATTERNS
+    );
+  }
+
+  /**
+   * 判断文件的相对路径是否匹配任一glob模式
+   */
+  private matches(sourceFile: SourceFile, patterns: string[]): boolean {
+    return micromatch.isMatch(
+      this.toRelative(sourceFile.getFilePath()),
+      patterns,
+      {
+        dot: true,
+      }
+    );
+  }
+
+  /**
+   * 声明的唯一标识
+   */
+  private getKey(declaration: Node): string {
+    return `${declaration.getSourceFile().getFilePath()}:${declaration.getStart()}`;
+  }
+
+  /**
+   * 转换为导出符号
+   */
+  private toSymbol(declaration: Node, name: string): IExportedSymbol {
+    return {
+      filePath: declaration.getSourceFile().getFilePath(),
+      line: declaration.getStartLineNumber(),
+      column: declaration.getStart() - declaration.getStartLinePos(),
+      name,
+    };
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
@@ -1,6 +1,20 @@
-import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
+import {
+  Project,
+  SourceFile,
+  SyntaxKind,
+  Node,
+  ImportDeclaration,
+  VariableStatement,
+} from 'ts-morph';
 import { IAnalyzer } from '../interfaces/analyzer';
 import { AnalysisResult } from '../types/analysis-result';
+import { IIssueFix, ITextEdit } from '../types/analysis';
+import { removeListItem, removeNode } from '../core/fix/edit-builders';
+import {
+  IExportedSymbol,
+  IModuleUsageOptions,
+  ModuleUsageAnalyzer,
+} from './module-usage-analyzer';
 
 /**
  * 表示未使用代码元素
@@ -12,6 +26,10 @@ export interface IUnusedCodeItem {
   type: string;
   name: string;
   scope?: string;
+  /**
+   * 自动修复
+   */
+  fix?: IIssueFix;
 }
 
 /**
@@ -24,6 +42,26 @@ export interface IUnusedCodeAnalysisResult extends AnalysisResult {
   unusedClasses: IUnusedCodeItem[];
   unusedInterfaces: IUnusedCodeItem[];
   unusedTypes: IUnusedCodeItem[];
+  /**
+   * 没有被任何可达模块使用的导出
+   */
+  unusedExports: IUnusedCodeItem[];
+  /**
+   * 只被测试文件使用的导出
+   */
+  testOnlyExports: IUnusedCodeItem[];
+  /**
+   * 未使用的私有类成员
+   */
+  unusedPrivateMembers: IUnusedCodeItem[];
+  /**
+   * 只作为类型使用、可改为 import type 的导入（不计入 totalUnused）
+   */
+  typeOnlyImports: IUnusedCodeItem[];
+  /**
+   * 从入口文件和测试文件出发无法到达的文件
+   */
+  unreachableFiles: string[];
   totalUnused: number;
   affectedFiles: string[];
 }
@@ -36,21 +74,37 @@ export class UnusedCodeAnalyzer
 {
   private project: Project;
   private ignorePatterns: RegExp[];
+  private moduleUsageAnalyzer: ModuleUsageAnalyzer;
 
   /**
    * 创建未使用代码分析器实例
    * @param projectPath 项目根路径
    * @param ignorePatterns 忽略模式（正则表达式）
+   * @param usageOptions 跨文件导出分析选项（入口文件、测试文件模式、待分析的文件）
    */
-  constructor(projectPath: string, ignorePatterns: string[] = []) {
+  constructor(
+    projectPath: string,
+    ignorePatterns: string[] = [],
+    usageOptions: IModuleUsageOptions = {}
+  ) {
+    this.moduleUsageAnalyzer = new ModuleUsageAnalyzer(
+      projectPath,
+      usageOptions
+    );
     this.project = new Project({
       tsConfigFilePath: `${projectPath}/tsconfig.json`,
       skipAddingFilesFromTsConfig: true,
     });
-    this.project.addSourceFilesAtPaths([
-      `${projectPath}/src/**/*.ts`,
-      `${projectPath}/src/**/*.tsx`,
-    ]);
+    if (usageOptions.files) {
+      usageOptions.files
+        .filter((filePath) => /\.tsx?$/.test(filePath))
+        .forEach((filePath) => this.project.addSourceFileAtPath(filePath));
+    } else {
+      this.project.addSourceFilesAtPaths([
+        `${projectPath}/src/**/*.ts`,
+        `${projectPath}/src/**/*.tsx`,
+      ]);
+    }
 
     // 转换忽略模式字符串为正则表达式
     this.ignorePatterns = ignorePatterns.map((pattern) => new RegExp(pattern));
@@ -72,6 +126,11 @@ export class UnusedCodeAnalyzer
       unusedClasses: [],
       unusedInterfaces: [],
       unusedTypes: [],
+      unusedExports: [],
+      testOnlyExports: [],
+      unusedPrivateMembers: [],
+      typeOnlyImports: [],
+      unreachableFiles: [],
       totalUnused: 0,
       affectedFiles: [],
       duration: 0,
@@ -93,8 +152,14 @@ export class UnusedCodeAnalyzer
 
       // 找未使用的接口和类型
       this.findUnusedTypes(sourceFile, result);
+
+      // 找未使用的私有类成员
+      this.findUnusedPrivateMembers(sourceFile, result);
     }
 
+    // 导出是否被使用需要跨文件判断
+    this.findUnusedExports(result);
+
     // 计算总数和影响的文件
     result.totalUnused =
       result.unusedImports.length +
@@ -102,7 +167,11 @@ export class UnusedCodeAnalyzer
       result.unusedFunctions.length +
       result.unusedClasses.length +
       result.unusedInterfaces.length +
-      result.unusedTypes.length;
+      result.unusedTypes.length +
+      result.unusedExports.length +
+      result.testOnlyExports.length +
+      result.unusedPrivateMembers.length +
+      result.unreachableFiles.length;
 
     const affectedFilesSet = new Set<string>();
     [
@@ -112,7 +181,13 @@ export class UnusedCodeAnalyzer
       ...result.unusedClasses,
       ...result.unusedInterfaces,
       ...result.unusedTypes,
+      ...result.unusedExports,
+      ...result.testOnlyExports,
+      ...result.unusedPrivateMembers,
     ].forEach((item) => affectedFilesSet.add(item.filePath));
+    result.unreachableFiles.forEach((filePath) =>
+      affectedFilesSet.add(filePath)
+    );
 
     result.affectedFiles = Array.from(affectedFilesSet);
 
@@ -153,7 +228,27 @@ export class UnusedCodeAnalyzer
   }
 
   /**
-   * 查找未使用的导入
+   * 查找未使用的导出、只被测试使用的导出和不可达的文件
+   * @param result 分析结果
+   */
+  private findUnusedExports(result: IUnusedCodeAnalysisResult): void {
+    const usage = this.moduleUsageAnalyzer.analyze();
+    const toItem = (symbol: IExportedSymbol): IUnusedCodeItem => ({
+      ...symbol,
+      type: 'export',
+    });
+
+    result.unusedExports = usage.unusedExports
+      .filter((symbol) => !this.shouldIgnore(symbol.name))
+      .map(toItem);
+    result.testOnlyExports = usage.testOnlyExports
+      .filter((symbol) => !this.shouldIgnore(symbol.name))
+      .map(toItem);
+    result.unreachableFiles = usage.unreachableFiles;
+  }
+
+  /**
+   * 查找未使用的导入和只作为类型使用的导入
    * @param sourceFile 源文件
    * @param result 分析结果
    */
@@ -162,16 +257,21 @@ export class UnusedCodeAnalyzer
     result: IUnusedCodeAnalysisResult
   ): void {
     const importDeclarations = sourceFile.getImportDeclarations();
+    // 开启 emitDecoratorMetadata 时类型注解会在运行时引用导入的值
+    const checkTypeOnly =
+      !this.project.getCompilerOptions().emitDecoratorMetadata;
 
     for (const importDecl of importDeclarations) {
       const namedImports = importDecl.getNamedImports();
+      const unused = new Map<number, IUnusedCodeItem>();
+      const typeOnly = new Map<number, IUnusedCodeItem>();
 
-      for (const namedImport of namedImports) {
+      namedImports.forEach((namedImport, index) => {
         const name = namedImport.getName();
 
         // 忽略特定的标识符
         if (this.shouldIgnore(name)) {
-          continue;
+          return;
         }
 
         // 创建引用查找条件
@@ -188,21 +288,110 @@ export class UnusedCodeAnalyzer
           }
         );
 
+        const item: IUnusedCodeItem = {
+          filePath: sourceFile.getFilePath(),
+          line: namedImport.getStartLineNumber(),
+          column: namedImport.getStart() - namedImport.getStartLinePos(),
+          type: 'import',
+          name: name,
+        };
+
         // 无引用则为未使用导入
         if (refs.length === 0) {
-          const pos = namedImport.getStartLineNumber();
-          const col = namedImport.getStart() - namedImport.getStartLinePos();
-
-          result.unusedImports.push({
-            filePath: sourceFile.getFilePath(),
-            line: pos,
-            column: col,
-            type: 'import',
-            name: name,
-          });
+          unused.set(index, item);
+          result.unusedImports.push(item);
+        } else if (
+          checkTypeOnly &&
+          !importDecl.isTypeOnly() &&
+          !namedImport.isTypeOnly() &&
+          refs.every((ref) => this.isTypeOnlyReference(ref))
+        ) {
+          typeOnly.set(index, { ...item, type: 'type-only-import' });
+          result.typeOnlyImports.push(typeOnly.get(index)!);
         }
+      });
+
+      unused.forEach((item, index) => {
+        item.fix = {
+          description: `删除未使用的导入 ${item.name}`,
+          edits: [this.createImportRemovalEdit(importDecl, index, unused)],
+        };
+      });
+
+      // 所有命名导入都只作为类型使用时整条导入改为 import type，否则逐个加上 type 修饰符
+      const wholeDeclaration =
+        !importDecl.getDefaultImport() &&
+        namedImports.every((_, index) => typeOnly.has(index));
+      typeOnly.forEach((item, index) => {
+        item.fix = {
+          description: `把 ${item.name} 改为仅类型导入`,
+          edits: [
+            wholeDeclaration
+              ? {
+                  start: importDecl.getStart() + 'import'.length,
+                  end: importDecl.getStart() + 'import'.length,
+                  text: ' type',
+                }
+              : {
+                  start: namedImports[index].getStart(),
+                  end: namedImports[index].getStart(),
+                  text: 'type ',
+                },
+          ],
+        };
+      });
+    }
+  }
+
+  /**
+   * 生成删除一个未使用的命名导入的编辑；所有命名导入都未使用时删除整个导入声明，
+   * 同时存在默认导入时只删除命名导入部分
+   * @param importDecl 导入声明
+   * @param index 命名导入的序号
+   * @param unused 同一声明中未使用的命名导入
+   */
+  private createImportRemovalEdit(
+    importDecl: ImportDeclaration,
+    index: number,
+    unused: Map<number, IUnusedCodeItem>
+  ): ITextEdit {
+    const namedImports = importDecl.getNamedImports();
+    if (namedImports.some((_, other) => !unused.has(other))) {
+      return removeListItem(namedImports, index, (other) => unused.has(other));
+    }
+
+    const defaultImport = importDecl.getDefaultImport();
+    const namedBindings = importDecl.getImportClause()?.getNamedBindings();
+    return defaultImport && namedBindings
+      ? { start: defaultImport.getEnd(), end: namedBindings.getEnd(), text: '' }
+      : removeNode(importDecl);
+  }
+
+  /**
+   * 判断引用是否位于类型位置（类型注解、接口继承、implements 等）
+   * @param ref 引用节点
+   */
+  private isTypeOnlyReference(ref: Node): boolean {
+    for (let node = ref.getParent(); node; node = node.getParent()) {
+      if (Node.isComputedPropertyName(node)) {
+        return false;
+      }
+      if (Node.isExpressionWithTypeArguments(node)) {
+        // 类的 extends 子句引用的是值
+        const clause = node.getParentIfKind(SyntaxKind.HeritageClause);
+        return !(
+          clause?.getToken() === SyntaxKind.ExtendsKeyword &&
+          Node.isClassLikeDeclarationBase(clause.getParent())
+        );
+      }
+      if (Node.isTypeNode(node)) {
+        return true;
+      }
+      if (Node.isStatement(node) || Node.isSourceFile(node)) {
+        return false;
       }
     }
+    return false;
   }
 
   /**
@@ -217,6 +406,11 @@ export class UnusedCodeAnalyzer
     const variableDeclarations = sourceFile.getDescendantsOfKind(
       SyntaxKind.VariableDeclaration
     );
+    // 可以安全删除的未使用变量，按所在的变量语句分组
+    const removable = new Map<
+      VariableStatement,
+      Map<number, IUnusedCodeItem>
+    >();
 
     for (const varDecl of variableDeclarations) {
       const name = varDecl.getName();
@@ -253,16 +447,99 @@ export class UnusedCodeAnalyzer
           scope = `${funcName}`;
         }
 
-        result.unusedVariables.push({
+        const item: IUnusedCodeItem = {
           filePath: sourceFile.getFilePath(),
           line: varDecl.getStartLineNumber(),
           column: varDecl.getStart() - varDecl.getStartLinePos(),
           type: 'variable',
           name: name,
           scope,
-        });
+        };
+        result.unusedVariables.push(item);
+
+        // 只删除直接属于变量语句、以标识符命名且初始值没有副作用的声明
+        const statement = varDecl
+          .getParentIfKind(SyntaxKind.VariableDeclarationList)
+          ?.getParentIfKind(SyntaxKind.VariableStatement);
+        if (
+          statement &&
+          Node.isIdentifier(identifier) &&
+          this.isSideEffectFree(varDecl.getInitializer())
+        ) {
+          const declarations = removable.get(statement) || new Map();
+          declarations.set(statement.getDeclarations().indexOf(varDecl), item);
+          removable.set(statement, declarations);
+        }
       }
     }
+
+    removable.forEach((declarations, statement) => {
+      const all = statement.getDeclarations();
+      declarations.forEach((item, index) => {
+        item.fix = {
+          description: `删除未使用的变量 ${item.name}`,
+          edits: [
+            declarations.size === all.length
+              ? removeNode(statement)
+              : removeListItem(all, index, (other) => declarations.has(other)),
+          ],
+        };
+      });
+    });
+  }
+
+  /**
+   * 判断表达式求值是否没有副作用，删除这样的声明不会改变程序行为
+   * @param expression 表达式，未提供时视为没有副作用
+   */
+  private isSideEffectFree(expression?: Node): boolean {
+    if (!expression) {
+      return true;
+    }
+    if (
+      Node.isLiteralExpression(expression) ||
+      Node.isIdentifier(expression) ||
+      Node.isArrowFunction(expression) ||
+      Node.isFunctionExpression(expression) ||
+      [
+        SyntaxKind.TrueKeyword,
+        SyntaxKind.FalseKeyword,
+        SyntaxKind.NullKeyword,
+        SyntaxKind.ThisKeyword,
+      ].includes(expression.getKind())
+    ) {
+      return true;
+    }
+    if (
+      Node.isParenthesizedExpression(expression) ||
+      Node.isAsExpression(expression) ||
+      Node.isSatisfiesExpression(expression) ||
+      Node.isNonNullExpression(expression) ||
+      Node.isTypeAssertion(expression)
+    ) {
+      return this.isSideEffectFree(expression.getExpression());
+    }
+    if (Node.isPrefixUnaryExpression(expression)) {
+      return this.isSideEffectFree(expression.getOperand());
+    }
+    if (Node.isArrayLiteralExpression(expression)) {
+      return expression
+        .getElements()
+        .every((element) => this.isSideEffectFree(element));
+    }
+    if (Node.isObjectLiteralExpression(expression)) {
+      return expression
+        .getProperties()
+        .every(
+          (property) =>
+            Node.isShorthandPropertyAssignment(property) ||
+            Node.isMethodDeclaration(property) ||
+            (Node.isPropertyAssignment(property) &&
+              !Node.isComputedPropertyName(property.getNameNode()) &&
+              this.isSideEffectFree(property.getInitializer()))
+        );
+    }
+    return false;
   }
 
   /**
@@ -437,4 +714,96 @@ export class UnusedCodeAnalyzer
       }
     }
   }
+
+  /**
+   * 查找未使用的私有类成员（private 或 # 私有名称的属性、方法和访问器）
+   * @param sourceFile 源文件
+   * @param result 分析结果
+   */
+  private findUnusedPrivateMembers(
+    sourceFile: SourceFile,
+    result: IUnusedCodeAnalysisResult
+  ): void {
+    // 同名的标识符、私有名称或字符串字面量（如 this['name']）都视为引用
+    const references = new Map<string, Node[]>();
+    sourceFile.forEachDescendant((node) => {
+      const text = Node.isStringLiteral(node)
+        ? node.getLiteralText()
+        : Node.isIdentifier(node) || Node.isPrivateIdentifier(node)
+          ? node.getText()
+          : undefined;
+      if (text !== undefined) {
+        references.set(text, [...(references.get(text) || []), node]);
+      }
+    });
+
+    for (const cls of sourceFile.getDescendantsOfKind(
+      SyntaxKind.ClassDeclaration
+    )) {
+      for (const member of cls.getMembers()) {
+        if (
+          !Node.isPropertyDeclaration(member) &&
+          !Node.isMethodDeclaration(member) &&
+          !Node.isGetAccessorDeclaration(member) &&
+          !Node.isSetAccessorDeclaration(member)
+        ) {
+          continue;
+        }
+
+        // 带装饰器的成员可能由框架调用
+        const nameNode = member.getNameNode();
+        if (
+          member.getDecorators().length > 0 ||
+          !(
+            Node.isPrivateIdentifier(nameNode) ||
+            (Node.isIdentifier(nameNode) &&
+              member.hasModifier(SyntaxKind.PrivateKeyword))
+          )
+        ) {
+          continue;
+        }
+
+        const name = nameNode.getText();
+        if (this.shouldIgnore(name.replace(/^#/, ''))) {
+          continue;
+        }
+
+        // 成员自身（含重载签名和同名的另一个访问器）的名称不算引用
+        const refs = (references.get(name) || []).filter((ref) => {
+          const declaration = ref.getParent();
+          return !(
+            declaration?.getParent() === cls &&
+            (declaration as { getNameNode?: () => Node }).getNameNode?.() ===
+              ref
+          );
+        });
+        if (refs.length > 0) {
+          continue;
+        }
+
+        const item: IUnusedCodeItem = {
+          filePath: sourceFile.getFilePath(),
+          line: member.getStartLineNumber(),
+          column: member.getStart() - member.getStartLinePos(),
+          type: 'private-member',
+          name: `${cls.getName() || '(匿名类)'}.${name}`,
+        };
+
+        // 属性的初始值有副作用时只报告不修复
+        if (
+          !Node.isPropertyDeclaration(member) ||
+          this.isSideEffectFree(member.getInitializer())
+        ) {
+          const overloads = Node.isMethodDeclaration(member)
+            ? member.getOverloads()
+            : [];
+          item.fix = {
+            description: `删除未使用的私有成员 ${name}`,
+            edits: [...overloads, member].map((node) => removeNode(node)),
+          };
+        }
+        result.unusedPrivateMembers.push(item);
+      }
+    }
+  }
 }
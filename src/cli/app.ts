@@ -5,6 +5,8 @@ import { PermissionPrompt } from './prompt/permission-prompt';
 import { DependencyCommand } from './commands/dependency-command';
 import { WatchCommand } from './commands/watch-command';
 import { AnalyzeCommand } from './commands/analyze-command';
+import { BaselineCommand } from './commands/baseline-command';
+import { TrendCommand } from './commands/trend-command';
 import { InteractiveCommand } from './commands/interactive-command';
 import { ErrorHandler } from '../utils/error-handler';
 
@@ -82,6 +84,14 @@ export class CliApp {
     const analyzeCommand = new AnalyzeCommand();
     analyzeCommand.register(this.program);
 
+    // 注册基线命令
+    const baselineCommand = new BaselineCommand();
+    baselineCommand.register(this.program);
+
+    // 注册趋势命令
+    const trendCommand = new TrendCommand();
+    trendCommand.register(this.program);
+
     // 注册交互式命令
     const interactiveCommand = new InteractiveCommand();
     this.program.addCommand(interactiveCommand.getCommand());
@@ -1,11 +1,91 @@
 import { Command } from 'commander';
 import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
 import { ErrorHandler } from '../../utils/error-handler';
+import { AnalysisOrchestrator } from '../../core/analysis-orchestrator';
+import {
+  AnalysisResultBuilder,
+  collectIssues,
+  compareSeverity,
+} from '../../core/analysis-result-builder';
+import {
+  FILE_SKIP_REASON_LABELS,
+  IDiscoveredFile,
+  IFileDiscoveryResult,
+} from '../../core/file-discovery-service';
+import {
+  GitDiffReader,
+  IGitDiff,
+  splitByChangedLines,
+} from '../../core/incremental/git-diff';
+import {
+  createMetricsSnapshot,
+  HistoryStore,
+  readCommitInfo,
+} from '../../core/incremental/history-store';
+import { createRuleChecker, SuppressionScanner } from '../../core/suppression';
+import {
+  ConfigManager,
+  AnalysisConfig,
+} from '../../core/config/config-manager';
+import { BaselineManager, DEFAULT_BASELINE_FILE } from '../../core/baseline';
+import { FixEngine } from '../../core/fix/fix-engine';
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  ReportGeneratorFactory,
+} from '../../report';
+import { CHART_RENDERERS } from '../../report/visualizers/chart-visualizer';
+import {
+  IAnalysisResult,
+  IAnalysisStats,
+  IssueSeverity,
+} from '../../types/analysis';
+import { ChartRenderer } from '../../types/report';
+
+/**
+ * --fail-on 可选值
+ */
+type FailOnLevel = IssueSeverity | 'none';
+
+const FAIL_ON_LEVELS: FailOnLevel[] = ['error', 'warning', 'info', 'none'];
+
+/**
+ * 执行分析所需的参数
+ */
+export interface IAnalyzeOptions {
+  path: string;
+  ignore?: string[];
+  analyzers?: string[];
+  config?: string;
+}
+
+/**
+ * 分析执行结果
+ */
+export interface IAnalyzeOutcome {
+  targetPath: string;
+  config: AnalysisConfig;
+  result: IAnalysisResult;
+  analyzers: string[];
+
+  /**
+   * 文件发现结果：待分析文件和被跳过的文件及原因
+   */
+  discovery: IFileDiscoveryResult;
+}
 
 /**
  * 代码分析命令
+ *
+ * 退出码：0 表示分析完成且未达到失败阈值，1 表示存在达到 --fail-on 阈值的问题，
+ * 2 表示参数错误或分析执行失败
  */
 export class AnalyzeCommand {
+  private static readonly EXIT_THRESHOLD = 1;
+  private static readonly EXIT_ERROR = 2;
+
   private errorHandler = ErrorHandler.getInstance();
 
   /**
@@ -17,33 +97,493 @@ export class AnalyzeCommand {
       .command('analyze')
       .description('分析代码库并生成洞察报告')
       .option('-p, --path <path>', '要分析的代码路径', process.cwd())
+      .option('-o, --output <output>', '输出报告的路径')
+      .option('--ignore <patterns...>', '要忽略的文件模式')
+      .option('--analyzers <ids...>', '要运行的分析器（空格或逗号分隔）')
+      .option(
+        '-f, --format <formats...>',
+        `报告格式 (${REPORT_FORMATS.join(', ')})`
+      )
+      .option('-c, --config <file>', '指定配置文件')
+      .option(
+        '--fail-on <severity>',
+        `达到该严重性的问题使命令以退出码1结束 (${FAIL_ON_LEVELS.join(', ')})`
+      )
+      .option(
+        '--baseline <file>',
+        `基线文件，其中记录的已知问题不再报告 (默认: ${DEFAULT_BASELINE_FILE})`
+      )
+      .option('--no-baseline', '忽略基线文件，报告全部问题')
+      .option(
+        '--since <ref>',
+        '只报告与该引用（如 origin/main）相比新增或修改的行上的问题'
+      )
+      .option('--no-history', '不把本次分析的度量快照写入趋势历史')
+      .option('--fix', '自动修复可修复的问题并写入文件')
+      .option('--fix-dry-run', '只以统一差异格式显示自动修复的结果，不写入文件')
+      .option('--explain-files', '列出被跳过的文件和目录及其原因')
       .option(
-        '-o, --output <output>',
-        '输出报告的路径',
-        './code-insight-report'
+        '--chart-renderer <renderer>',
+        `HTML报告的图表渲染方式 (${CHART_RENDERERS.join(', ')})，默认 svg`
       )
-      .option('--ignore <patterns...>', '要忽略的文件模式', [
-        'node_modules',
-        'dist',
-        '.git',
-      ])
       .action(async (options) => {
         try {
-          const targetPath = path.resolve(options.path);
-          const outputPath = path.resolve(options.output);
-
-          console.log(`开始分析代码: ${targetPath}`);
-          console.log(`分析报告将保存到: ${outputPath}`);
-
-          // 这里添加代码分析逻辑
-          // 暂时只打印信息，后续实现具体分析功能
-          console.log('分析完成！');
+          const exitCode = await this.execute(options);
+          process.exit(exitCode);
         } catch (error) {
           this.errorHandler.error(
             error instanceof Error ? error : String(error)
           );
-          process.exit(1);
+          process.exit(AnalyzeCommand.EXIT_ERROR);
+        }
+      });
+  }
+
+  /**
+   * 运行分析器并构建分析结果（不应用基线）
+   * @param options 分析参数
+   * @param projectConfig 已加载的项目配置，未提供时按 options 加载
+   */
+  public async analyze(
+    options: IAnalyzeOptions,
+    projectConfig?: AnalysisConfig
+  ): Promise<IAnalyzeOutcome> {
+    const targetPath = path.resolve(options.path);
+    if (!fs.existsSync(targetPath) || !fs.statSync(targetPath).isDirectory()) {
+      throw new Error(`分析路径不存在或不是目录: ${targetPath}`);
+    }
+
+    const config =
+      projectConfig ||
+      ConfigManager.getInstance().loadProjectConfig(targetPath, options.config);
+
+    const analyzerIds = options.analyzers
+      ? this.splitList(options.analyzers)
+      : Object.entries(config.analyzers || {})
+          .filter(([, enabled]) => enabled)
+          .map(([id]) => id);
+    if (analyzerIds.length === 0) {
+      throw new Error('未指定任何分析器，请使用 --analyzers 或在配置中启用');
+    }
+
+    const excludePatterns = [
+      ...(config.exclude || []),
+      ...this.splitList(options.ignore || []),
+    ];
+
+    console.log(`开始分析代码: ${targetPath}`);
+
+    const startTime = new Date();
+    const orchestrator = new AnalysisOrchestrator();
+    const outputs = await orchestrator.run(analyzerIds, targetPath, {
+      ...config,
+      exclude: excludePatterns,
+    });
+    const discovery = orchestrator.getFileDiscovery()!;
+
+    const builder = new AnalysisResultBuilder(targetPath, {
+      projectName: config.projectName || undefined,
+      excludePatterns,
+    });
+    const { stats, files } = await this.collectStats(
+      discovery.files,
+      builder,
+      startTime
+    );
+    const result = builder.build(outputs, stats);
+    this.applySuppressions(result, targetPath, files, analyzerIds);
+
+    return { targetPath, config, result, analyzers: analyzerIds, discovery };
+  }
+
+  /**
+   * 执行分析并生成报告
+   * @returns 退出码
+   */
+  private async execute(
+    options: IAnalyzeOptions & {
+      output?: string;
+      format?: string[];
+      failOn?: string;
+      baseline?: string | false;
+      since?: string;
+      history?: boolean;
+      fix?: boolean;
+      fixDryRun?: boolean;
+      chartRenderer?: string;
+      explainFiles?: boolean;
+    }
+  ): Promise<number> {
+    // 先解析并校验全部参数，参数无效时不运行分析，也不记录历史快照
+    const config = ConfigManager.getInstance().loadProjectConfig(
+      path.resolve(options.path),
+      options.config
+    );
+    const formats = this.parseFormats(
+      options.format
+        ? this.splitList(options.format)
+        : [config.outputFormat || 'console']
+    );
+    const failOn = this.parseFailOn(options.failOn || config.failOn || 'error');
+    const chartRenderer = this.parseChartRenderer(
+      options.chartRenderer || config.chartRenderer || 'svg'
+    );
+    const outputPath = path.resolve(
+      options.output || config.outputPath || './code-insight-report'
+    );
+
+    // 先读取差异，基准引用无效时不必运行分析
+    const diff = options.since
+      ? new GitDiffReader(path.resolve(options.path)).getDiff(options.since)
+      : null;
+    const { targetPath, result, analyzers, discovery } = await this.analyze(
+      options,
+      config
+    );
+
+    if (options.explainFiles) {
+      this.explainFiles(discovery);
+    }
+
+    // 在基线和变更行过滤之前记录快照，趋势反映项目的全部问题
+    if (options.history !== false) {
+      await this.recordHistory(result, targetPath, analyzers);
+    }
+
+    if (options.baseline !== false) {
+      await this.applyBaseline(
+        result,
+        targetPath,
+        analyzers,
+        options.baseline || config.baseline
+      );
+    }
+
+    // 在基线之后过滤变更行，基线比较需要看到全部问题才能正确判断失效条目
+    if (options.since && diff) {
+      this.applyChangedLines(result, options.since, diff);
+    }
+
+    // 只修复最终会被报告的问题，写入修复后这些问题不再计入报告和退出码
+    if (options.fix || options.fixDryRun) {
+      await this.applyFixes(result, targetPath, Boolean(options.fixDryRun));
+    }
+
+    const reportPaths = await ReportGeneratorFactory.generateReports(
+      result,
+      formats,
+      {
+        outputPath,
+        projectName: result.projectName,
+        projectRoot: targetPath,
+        chartRenderer,
+      }
+    );
+    reportPaths.forEach((reportPath) =>
+      console.log(`报告已生成: ${chalk.cyan(reportPath)}`)
+    );
+
+    const issues = collectIssues(result);
+    const counts = { error: 0, warning: 0, info: 0 };
+    issues.forEach((issue) => counts[issue.severity]++);
+    console.log(
+      `分析完成: ${chalk.red(`${counts.error} 个错误`)}，${chalk.yellow(`${counts.warning} 个警告`)}，${counts.info} 个提示`
+    );
+    if (result.changedLines) {
+      const preExisting = { error: 0, warning: 0, info: 0 };
+      result.changedLines.preExisting.forEach(
+        (issue) => preExisting[issue.severity]++
+      );
+      console.log(
+        chalk.gray(
+          `只统计与 ${result.changedLines.since} 相比变更的 ${result.changedLines.files.length} 个文件中变更行上的问题；已有问题: ${preExisting.error} 个错误，${preExisting.warning} 个警告，${preExisting.info} 个提示`
+        )
+      );
+    }
+    if (result.baseline) {
+      console.log(
+        chalk.gray(
+          `基线: ${result.baseline.baselined.length} 个已知问题未计入，${result.baseline.stale.length} 个失效条目`
+        )
+      );
+      if (result.baseline.stale.length > 0) {
+        console.log(
+          chalk.yellow(
+            '存在失效的基线条目，可运行 baseline update --prune 清理'
+          )
+        );
+      }
+    }
+
+    if (
+      failOn !== 'none' &&
+      issues.some((issue) => compareSeverity(issue.severity, failOn) >= 0)
+    ) {
+      console.log(chalk.red(`存在严重性不低于 ${failOn} 的问题`));
+      return AnalyzeCommand.EXIT_THRESHOLD;
+    }
+
+    return 0;
+  }
+
+  /**
+   * 应用源码中的抑制注释，记录被抑制的问题和全部抑制注释
+   * @param files 被分析的文件，用于找出其中未使用的抑制注释
+   * @param analyzerIds 本次运行的分析器，只有这些分析器的规则上的抑制注释才可能被视为未使用
+   */
+  private applySuppressions(
+    result: IAnalysisResult,
+    targetPath: string,
+    files: string[],
+    analyzerIds: string[]
+  ): void {
+    const { suppressed, suppressions } = new SuppressionScanner(
+      targetPath
+    ).apply(
+      collectIssues(result),
+      files,
+      createRuleChecker(analyzerIds, Boolean(result.customRules))
+    );
+    result.suppressions = { suppressed, suppressions };
+  }
+
+  /**
+   * 把本次分析的度量快照追加到趋势历史，写入失败只给出警告
+   */
+  private async recordHistory(
+    result: IAnalysisResult,
+    targetPath: string,
+    analyzers: string[]
+  ): Promise<void> {
+    try {
+      await new HistoryStore(targetPath).append(
+        createMetricsSnapshot(result, {
+          analyzers,
+          ...readCommitInfo(targetPath),
+        })
+      );
+    } catch (error) {
+      await this.errorHandler.warning(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * 应用问题附带的自动修复；预览时输出统一格式差异
+   */
+  private async applyFixes(
+    result: IAnalysisResult,
+    targetPath: string,
+    dryRun: boolean
+  ): Promise<void> {
+    const { files, applied, skipped } = await new FixEngine(targetPath).fix(
+      collectIssues(result),
+      { dryRun }
+    );
+    const changedFiles = files
+      .filter((file) => file.applied.length > 0)
+      .map((file) => file.filePath);
+    result.fixes = { dryRun, fixed: applied, skipped, files: changedFiles };
+
+    if (dryRun) {
+      files
+        .filter((file) => file.diff)
+        .forEach((file) => console.log(this.colorizeDiff(file.diff)));
+    }
+    console.log(
+      dryRun
+        ? `可自动修复 ${applied.length} 个问题，涉及 ${changedFiles.length} 个文件（未写入）`
+        : chalk.green(
+            `已修复 ${applied.length} 个问题，修改了 ${changedFiles.length} 个文件`
+          )
+    );
+    skipped.forEach(({ issue, reason }) => {
+      const location = issue.location?.startLine
+        ? `${issue.location.filePath}:${issue.location.startLine}`
+        : issue.location?.filePath;
+      console.log(
+        chalk.yellow(`未能修复 ${issue.ruleId} (${location}): ${reason}`)
+      );
+    });
+  }
+
+  /**
+   * 为统一格式差异着色
+   */
+  private colorizeDiff(diff: string): string {
+    return diff
+      .trimEnd()
+      .split('\n')
+      .map((line) => {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+          return chalk.bold(line);
+        }
+        if (line.startsWith('@@')) {
+          return chalk.cyan(line);
         }
+        if (line.startsWith('+')) {
+          return chalk.green(line);
+        }
+        return line.startsWith('-') ? chalk.red(line) : line;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 根据与基准引用的差异，记录不在新增或修改行上的已有问题
+   */
+  private applyChangedLines(
+    result: IAnalysisResult,
+    since: string,
+    { baseCommit, files }: IGitDiff
+  ): void {
+    const { preExisting } = splitByChangedLines(collectIssues(result), files);
+
+    result.changedLines = { since, baseCommit, files, preExisting };
+    result.incrementalInfo = {
+      ...result.incrementalInfo,
+      baseCommit,
+      changedFiles: files.map((file) => file.filePath),
+    };
+  }
+
+  /**
+   * 读取基线文件并记录与之匹配的已知问题和失效条目，基线文件不存在时不做处理
+   * @param analyzerIds 本次运行的分析器，只有这些分析器的规则上的基线条目才可能失效
+   */
+  private async applyBaseline(
+    result: IAnalysisResult,
+    targetPath: string,
+    analyzerIds: string[],
+    baselinePath?: string
+  ): Promise<void> {
+    const manager = new BaselineManager(targetPath, baselinePath);
+    const baseline = await manager.load();
+    if (!baseline) {
+      return;
+    }
+
+    const { baselined, stale } = manager.compare(
+      baseline,
+      collectIssues(result),
+      createRuleChecker(analyzerIds, Boolean(result.customRules))
+    );
+    result.baseline = {
+      filePath: path
+        .relative(targetPath, manager.getFilePath())
+        .split(path.sep)
+        .join('/'),
+      baselined,
+      stale,
+    };
+  }
+
+  /**
+   * 统计被分析的文件数和代码行数，并返回被分析的文件
+   * @param discovered 文件发现服务找到的文件
+   */
+  private async collectStats(
+    discovered: IDiscoveredFile[],
+    builder: AnalysisResultBuilder,
+    startTime: Date
+  ): Promise<{ stats: IAnalysisStats; files: string[] }> {
+    const files = discovered.filter(
+      (file) => !builder.isExcluded(file.relativePath)
+    );
+
+    let totalLines = 0;
+    for (const file of files) {
+      const content = await fs.readFile(file.path, 'utf-8');
+      totalLines += content.split('\n').length;
+    }
+
+    const endTime = new Date();
+    return {
+      stats: {
+        totalFiles: files.length,
+        totalLines,
+        startTime,
+        endTime,
+        duration: endTime.getTime() - startTime.getTime(),
+      },
+      files: files.map((file) => file.path),
+    };
+  }
+
+  /**
+   * 输出被跳过的文件和目录，按原因分组
+   */
+  private explainFiles(discovery: IFileDiscoveryResult): void {
+    console.log(
+      chalk.bold(
+        `\n文件发现: ${discovery.files.length} 个待分析文件，跳过 ${discovery.skipped.length} 个文件或目录`
+      )
+    );
+
+    Object.entries(FILE_SKIP_REASON_LABELS).forEach(([reason, label]) => {
+      const skipped = discovery.skipped.filter(
+        (file) => file.reason === reason
+      );
+      if (skipped.length === 0) {
+        return;
+      }
+      console.log(chalk.yellow(`\n${label} (${skipped.length}):`));
+      skipped.forEach((file) => {
+        console.log(
+          `  ${file.relativePath}${file.directory ? '/' : ''}  ${chalk.gray(file.detail)}`
+        );
       });
+    });
+    console.log('');
+  }
+
+  /**
+   * 展开逗号分隔的列表参数
+   */
+  private splitList(values: string[]): string[] {
+    return values
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * 校验图表渲染方式
+   */
+  private parseChartRenderer(renderer: string): ChartRenderer {
+    if (!CHART_RENDERERS.includes(renderer as ChartRenderer)) {
+      throw new Error(
+        `不支持的图表渲染方式: ${renderer}，可选值: ${CHART_RENDERERS.join(', ')}`
+      );
+    }
+    return renderer as ChartRenderer;
+  }
+
+  /**
+   * 校验报告格式
+   */
+  private parseFormats(formats: string[]): ReportFormat[] {
+    const invalid = formats.filter(
+      (format) => !REPORT_FORMATS.includes(format as ReportFormat)
+    );
+    if (invalid.length > 0) {
+      throw new Error(
+        `不支持的报告格式: ${invalid.join(', ')}，可选值: ${REPORT_FORMATS.join(', ')}`
+      );
+    }
+    return [...new Set(formats)] as ReportFormat[];
+  }
+
+  /**
+   * 校验失败阈值
+   */
+  private parseFailOn(value: string): FailOnLevel {
+    if (!FAIL_ON_LEVELS.includes(value as FailOnLevel)) {
+      throw new Error(
+        `无效的 --fail-on 值: ${value}，可选值: ${FAIL_ON_LEVELS.join(', ')}`
+      );
+    }
+    return value as FailOnLevel;
   }
 }
@@ -0,0 +1,134 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ErrorHandler } from '../../utils/error-handler';
+import { collectIssues } from '../../core/analysis-result-builder';
+import { BaselineManager, DEFAULT_BASELINE_FILE } from '../../core/baseline';
+import { createRuleChecker } from '../../core/suppression';
+import { AnalyzeCommand, IAnalyzeOptions } from './analyze-command';
+
+/**
+ * baseline 子命令的参数
+ */
+interface IBaselineOptions extends IAnalyzeOptions {
+  baseline?: string;
+}
+
+/**
+ * 基线命令
+ * 把当前的全部问题记录到基线文件中，之后 analyze 只报告新出现的问题
+ */
+export class BaselineCommand {
+  private errorHandler = ErrorHandler.getInstance();
+  private analyzeCommand = new AnalyzeCommand();
+
+  /**
+   * 注册baseline命令
+   * @param program Commander程序实例
+   */
+  public register(program: Command): void {
+    const baseline = program
+      .command('baseline')
+      .description('管理已知问题基线，基线中的问题不再出现在分析结果中');
+
+    this.withAnalyzeOptions(
+      baseline.command('create').description('用当前的全部问题创建基线文件')
+    )
+      .option('--force', '基线文件已存在时覆盖')
+      .action(async (options) =>
+        this.run(() => this.create(options, Boolean(options.force)))
+      );
+
+    this.withAnalyzeOptions(
+      baseline
+        .command('update')
+        .description('更新基线：移除失效条目并加入当前的新问题')
+    )
+      .option('--prune', '只移除失效条目，不加入新问题')
+      .action(async (options) =>
+        this.run(() => this.update(options, Boolean(options.prune)))
+      );
+  }
+
+  /**
+   * 添加与 analyze 命令相同的分析参数
+   */
+  private withAnalyzeOptions(command: Command): Command {
+    return command
+      .option('-p, --path <path>', '要分析的代码路径', process.cwd())
+      .option('--ignore <patterns...>', '要忽略的文件模式')
+      .option('--analyzers <ids...>', '要运行的分析器（空格或逗号分隔）')
+      .option('-c, --config <file>', '指定配置文件')
+      .option(
+        '--baseline <file>',
+        `基线文件路径 (默认: ${DEFAULT_BASELINE_FILE})`
+      );
+  }
+
+  /**
+   * 执行子命令并统一处理错误
+   */
+  private async run(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+      process.exit(0);
+    } catch (error) {
+      this.errorHandler.error(error instanceof Error ? error : String(error));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * 创建基线
+   */
+  private async create(
+    options: IBaselineOptions,
+    force: boolean
+  ): Promise<void> {
+    const { manager, issues } = await this.collect(options);
+    const baseline = await manager.create(issues, force);
+
+    console.log(
+      chalk.green(
+        `基线已创建: ${manager.getFilePath()}，记录了 ${baseline.entries.length} 个问题`
+      )
+    );
+  }
+
+  /**
+   * 更新基线
+   */
+  private async update(
+    options: IBaselineOptions,
+    pruneOnly: boolean
+  ): Promise<void> {
+    const { manager, issues, isChecked } = await this.collect(options);
+    const { baseline, added, removed } = await manager.update(
+      issues,
+      pruneOnly,
+      isChecked
+    );
+
+    console.log(
+      chalk.green(
+        `基线已更新: ${manager.getFilePath()}，新增 ${added} 个，移除 ${removed} 个失效条目，共 ${baseline.entries.length} 个`
+      )
+    );
+  }
+
+  /**
+   * 运行分析并收集全部问题
+   */
+  private async collect(options: IBaselineOptions) {
+    const { targetPath, config, result, analyzers } =
+      await this.analyzeCommand.analyze(options);
+
+    return {
+      manager: new BaselineManager(
+        targetPath,
+        options.baseline || config.baseline
+      ),
+      issues: collectIssues(result),
+      isChecked: createRuleChecker(analyzers, Boolean(result.customRules)),
+    };
+  }
+}
@@ -4,8 +4,17 @@ import path from 'path';
 import { PermissionPrompt } from '../prompt/permission-prompt';
 import { DependencyService } from '../../services/dependency-service';
 import { ConfigManager } from '../../utils/config-manager';
-import { AnalysisConfig } from '../../core/config/config-manager';
+import {
+  AnalysisConfig,
+  ConfigManager as ProjectConfigManager,
+} from '../../core/config/config-manager';
 import { ErrorHandler } from '../../utils/error-handler';
+import {
+  GRAPH_FORMATS,
+  GraphExportError,
+  GraphExportOptions,
+  GraphFormat,
+} from '../../core/report/dependency-graph-exporter';
 
 /**
  * 依赖分析命令
@@ -45,6 +54,13 @@ export class DependencyCommand {
       .option('-o, --output <dir>', '报告输出目录', './reports')
       .option('-c, --circular', '仅检测循环依赖')
       .option('-v, --verbose', '显示详细信息', false)
+      .option(
+        '--graph-format <format>',
+        `导出依赖图文件 (${GRAPH_FORMATS.join(', ')})`
+      )
+      .option('--focus <file>', '只导出指定文件周围的子图')
+      .option('--depth <n>', '--focus 子图包含的依赖层数', '1')
+      .option('--collapse [depth]', '按目录折叠依赖图，可指定保留的目录层数')
       .action(async (dir, options) => {
         try {
           // 解析项目路径
@@ -65,6 +81,14 @@ export class DependencyCommand {
             return;
           }
 
+          const graph = options.graphFormat
+            ? this.parseGraphOptions(projectPath, options)
+            : undefined;
+
+          // 文件发现和耦合度量沿用项目配置文件中的设置
+          const projectConfig =
+            ProjectConfigManager.getInstance().loadProjectConfig(projectPath);
+
           // 创建分析配置
           const analysisConfig: AnalysisConfig = {
             projectName: path.basename(projectPath),
@@ -77,10 +101,19 @@ export class DependencyCommand {
             dependency: {
               includeNpm: false,
               includeTypeImports: true,
-              generateGraph: true,
+              generateGraph: Boolean(graph),
+              graph,
+              coupling: projectConfig.dependency?.coupling,
             },
             includeExtensions: ['ts', 'tsx', 'js', 'jsx'],
-            exclude: ['node_modules', 'dist', 'build', '.git'],
+            include: projectConfig.include,
+            exclude: projectConfig.exclude || [
+              'node_modules',
+              'dist',
+              'build',
+              '.git',
+            ],
+            files: projectConfig.files,
             performance: {
               useCache: true,
               cacheTTL: 86400,
@@ -101,6 +134,59 @@ export class DependencyCommand {
       });
   }
 
+  /**
+   * 解析依赖图导出选项，focus 文件相对当前目录解析并转换为相对项目根目录的路径
+   */
+  private parseGraphOptions(
+    projectPath: string,
+    options: {
+      graphFormat: string;
+      focus?: string;
+      depth: string;
+      collapse?: boolean | string;
+    }
+  ): GraphExportOptions {
+    if (!GRAPH_FORMATS.includes(options.graphFormat as GraphFormat)) {
+      throw new GraphExportError(
+        `不支持的依赖图格式: ${options.graphFormat}，可选格式: ${GRAPH_FORMATS.join(', ')}`,
+        'ERR_UNSUPPORTED_FORMAT'
+      );
+    }
+
+    const depth = Number(options.depth);
+    const collapse =
+      typeof options.collapse === 'string'
+        ? Number(options.collapse)
+        : options.collapse;
+    if (!Number.isInteger(depth) || depth < 0) {
+      throw new GraphExportError(
+        `--depth 必须是非负整数: ${options.depth}`,
+        'ERR_INVALID_DEPTH'
+      );
+    }
+    if (
+      typeof collapse === 'number' &&
+      (!Number.isInteger(collapse) || collapse < 1)
+    ) {
+      throw new GraphExportError(
+        `--collapse 的目录层数必须是正整数: ${options.collapse}`,
+        'ERR_INVALID_DEPTH'
+      );
+    }
+
+    return {
+      format: options.graphFormat as GraphFormat,
+      focus: options.focus
+        ? path
+            .relative(projectPath, path.resolve(process.cwd(), options.focus))
+            .split(path.sep)
+            .join('/')
+        : undefined,
+      depth,
+      collapse,
+    };
+  }
+
   /**
    * 获取命令实例
    */
@@ -0,0 +1,174 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { ErrorHandler } from '../../utils/error-handler';
+import { HistoryStore } from '../../core/incremental/history-store';
+import { HistoryBackfiller } from '../../core/incremental/history-backfill';
+import {
+  TREND_FORMATS,
+  TrendFormat,
+  TrendReportGenerator,
+} from '../../report/trend-report';
+import { AnalyzeCommand } from './analyze-command';
+import { CHART_RENDERERS } from '../../report/visualizers/chart-visualizer';
+import { ChartRenderer } from '../../types/report';
+
+/**
+ * trend 命令的参数
+ */
+interface ITrendOptions {
+  path: string;
+  output?: string;
+  format?: string;
+  chartRenderer: string;
+  limit: string;
+  backfill?: string;
+  ignore?: string[];
+  analyzers?: string[];
+  config?: string;
+}
+
+/**
+ * 趋势命令
+ * 展示 analyze 每次运行记录的度量快照，并可通过分析过去的提交回填历史
+ */
+export class TrendCommand {
+  private errorHandler = ErrorHandler.getInstance();
+  private analyzeCommand = new AnalyzeCommand();
+
+  /**
+   * 注册trend命令
+   * @param program Commander程序实例
+   */
+  public register(program: Command): void {
+    program
+      .command('trend')
+      .description('展示代码质量指标的历史趋势')
+      .option('-p, --path <path>', '项目路径', process.cwd())
+      .option(
+        '-o, --output <output>',
+        '输出报告的路径',
+        './code-insight-report'
+      )
+      .option(
+        '-f, --format <format>',
+        `报告格式 (${TREND_FORMATS.join(', ')})`,
+        'console'
+      )
+      .option(
+        '--chart-renderer <renderer>',
+        `HTML趋势图的渲染方式 (${CHART_RENDERERS.join(', ')})`,
+        'svg'
+      )
+      .option('--limit <count>', '展示最近的快照数量', '30')
+      .option(
+        '--backfill <count>',
+        '先在临时 worktree 中分析最近的若干个提交，补全缺失的历史'
+      )
+      .option('--ignore <patterns...>', '回填时要忽略的文件模式')
+      .option('--analyzers <ids...>', '回填时运行的分析器（空格或逗号分隔）')
+      .option('-c, --config <file>', '回填时使用的配置文件')
+      .action(async (options) => {
+        try {
+          await this.execute(options);
+          process.exit(0);
+        } catch (error) {
+          this.errorHandler.error(
+            error instanceof Error ? error : String(error)
+          );
+          process.exit(1);
+        }
+      });
+  }
+
+  /**
+   * 回填历史并生成趋势报告
+   */
+  private async execute(options: ITrendOptions): Promise<void> {
+    const format = options.format as TrendFormat;
+    if (!TREND_FORMATS.includes(format)) {
+      throw new Error(
+        `不支持的趋势报告格式: ${options.format}，可选值: ${TREND_FORMATS.join(', ')}`
+      );
+    }
+    const chartRenderer = options.chartRenderer as ChartRenderer;
+    if (!CHART_RENDERERS.includes(chartRenderer)) {
+      throw new Error(
+        `不支持的图表渲染方式: ${options.chartRenderer}，可选值: ${CHART_RENDERERS.join(', ')}`
+      );
+    }
+    const limit = this.parseCount(options.limit, '--limit');
+
+    const projectRoot = path.resolve(options.path);
+    const store = new HistoryStore(projectRoot);
+
+    if (options.backfill !== undefined) {
+      await this.backfill(
+        projectRoot,
+        store,
+        this.parseCount(options.backfill, '--backfill'),
+        options
+      );
+    }
+
+    const snapshots = (await store.load()).slice(-limit);
+    const reportPath = await new TrendReportGenerator({
+      outputPath: path.resolve(options.output || './code-insight-report'),
+      projectName: path.basename(projectRoot),
+      chartRenderer,
+    }).generate(snapshots, format);
+    if (reportPath) {
+      console.log(`趋势报告已生成: ${chalk.cyan(reportPath)}`);
+    }
+  }
+
+  /**
+   * 分析最近的提交，补全缺失的历史
+   */
+  private async backfill(
+    projectRoot: string,
+    store: HistoryStore,
+    count: number,
+    options: ITrendOptions
+  ): Promise<void> {
+    const { added, skipped, failed } = await new HistoryBackfiller(
+      projectRoot,
+      store
+    ).backfill(
+      count,
+      async (checkoutPath) => {
+        const { result, analyzers } = await this.analyzeCommand.analyze({
+          path: checkoutPath,
+          ignore: options.ignore,
+          analyzers: options.analyzers,
+          config: options.config,
+        });
+        return { result, analyzers };
+      },
+      (commit, index, total) =>
+        console.log(
+          chalk.gray(`回填 ${index + 1}/${total}: ${commit.slice(0, 7)}`)
+        )
+    );
+
+    console.log(
+      chalk.green(
+        `回填完成: 新增 ${added.length} 个快照，跳过 ${skipped} 个已记录的提交`
+      )
+    );
+    failed.forEach(({ commit, error }) =>
+      console.log(chalk.yellow(`提交 ${commit.slice(0, 7)} 分析失败: ${error}`))
+    );
+  }
+
+  /**
+   * 校验正整数参数
+   */
+  private parseCount(value: string, option: string): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error(`${option} 必须是正整数: ${value}`);
+    }
+    return count;
+  }
+}
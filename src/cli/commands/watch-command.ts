@@ -5,13 +5,26 @@ import ora from 'ora';
 import path from 'path';
 import { Logger } from '../../utils/logger';
 import { ConfigManager } from '../../utils/config-manager';
+import {
+  AnalysisConfig,
+  ConfigManager as ProjectConfigManager,
+} from '../../core/config/config-manager';
 import { PermissionManager } from '../../core/permission-manager';
 import {
   WatchService,
   FileChangeInfo,
   FileChangeType,
 } from '../../core/watch/watch-service';
+import {
+  DependencyTracker,
+  IDanglingImport,
+} from '../../core/watch/dependency-tracker';
+import { IIssueDelta, IssueDeltaTracker } from '../../core/watch/issue-delta';
+import { IFingerprintedIssue } from '../../core/issue-fingerprint';
 import { AnalysisOrchestrator } from '../../core/analysis-orchestrator';
+import { AnalyzerRegistry } from '../../core/analyzer-registry';
+import { registerBuiltinAnalyzers } from '../../analyzers/builtin-analyzers';
+import { getAnalysisOptions } from '../options';
 
 /**
  * 监测命令类
@@ -23,13 +36,21 @@ export class WatchCommand {
   private permissionManager: PermissionManager;
   private watchService: WatchService;
   private analysisOrchestrator: AnalysisOrchestrator;
+  private analyzerRegistry: AnalyzerRegistry;
+  private dependencyTracker: DependencyTracker | null = null;
+  private issueDelta: IssueDeltaTracker | null = null;
+  private analyzers: string[] = [];
+  private ndjson = false;
+  private projectPath: string = process.cwd();
+  private projectConfig?: AnalysisConfig;
 
   constructor() {
     this.logger = new Logger();
     this.configManager = new ConfigManager();
     this.permissionManager = new PermissionManager();
     this.watchService = new WatchService();
-    this.analysisOrchestrator = new AnalysisOrchestrator();
+    this.analyzerRegistry = registerBuiltinAnalyzers();
+    this.analysisOrchestrator = new AnalysisOrchestrator(this.analyzerRegistry);
 
     // 监听变更事件
     this.watchService.on('changes', this.handleFileChanges.bind(this));
@@ -51,6 +72,11 @@ export class WatchCommand {
       )
       .option('--no-prompt', '禁用交互式提示')
       .option('--analyzers <items>', '指定要使用的分析器，逗号分隔')
+      .option('-c, --config <file>', '指定配置文件，默认在项目目录中查找')
+      .option(
+        '--ndjson',
+        '在标准输出中以 NDJSON 格式输出问题变化事件（日志改写到标准错误），供编辑器集成使用'
+      )
       .action(async (options) => {
         try {
           await this.execute(options);
@@ -69,8 +95,13 @@ export class WatchCommand {
     interval: number;
     prompt?: boolean;
     analyzers?: string;
+    ndjson?: boolean;
+    config?: string;
   }): Promise<void> {
     const projectPath = path.resolve(options.path);
+    this.projectPath = projectPath;
+    this.ndjson = !!options.ndjson;
+    Logger.reserveStdout(this.ndjson);
 
     // 请求权限
     if (
@@ -80,11 +111,18 @@ export class WatchCommand {
       return;
     }
 
+    // 与 analyze 相同，加载项目配置中的 include/exclude、规则和分析器设置
+    this.projectConfig = ProjectConfigManager.getInstance().loadProjectConfig(
+      projectPath,
+      options.config
+    );
+
     // 更新配置
     await this.updateWatchConfig(options);
 
     // 选择分析器
     const analyzers = await this.selectAnalyzers(options);
+    this.analyzers = analyzers;
     if (!analyzers.length) {
       this.logger.warn('未选择任何分析器，将仅监控文件变更');
     } else {
@@ -93,8 +131,51 @@ export class WatchCommand {
       );
     }
 
+    // 构建导入关系图，用于把变更扩展到受影响的依赖方
+    const spinner = ora('构建导入关系图...').start();
+    try {
+      this.dependencyTracker = new DependencyTracker(projectPath);
+      this.dependencyTracker.initialize();
+      spinner.text = `导入关系图已就绪（${this.dependencyTracker.size} 个文件），启动监测服务...`;
+    } catch (error) {
+      this.dependencyTracker = null;
+      this.logger.warn('构建导入关系图失败，将只分析变更文件:', error);
+    }
+
+    // 先完整分析一次，作为第一轮变更的比较基线
+    const watchConfig = this.configManager.get('watchMode') as
+      | { exclude?: string[] }
+      | undefined;
+    this.issueDelta = new IssueDeltaTracker(projectPath, [
+      ...(watchConfig?.exclude || []),
+      ...(this.projectConfig.exclude || []),
+    ]);
+    if (analyzers.length && this.dependencyTracker) {
+      spinner.text = '建立问题基线...';
+      try {
+        const results = await this.analysisOrchestrator.runIncremental(
+          this.dependencyTracker.getFiles(),
+          analyzers,
+          projectPath,
+          [],
+          this.projectConfig
+        );
+        this.issueDelta.update(results, {});
+      } catch (error) {
+        this.logger.warn(
+          '建立问题基线失败，首轮变更中的问题都将视为新增:',
+          error
+        );
+      }
+    }
+    this.emitEvent({
+      event: 'ready',
+      projectPath,
+      analyzers,
+      issues: this.issueDelta.getIssues().length,
+    });
+
     // 启动监测服务
-    const spinner = ora('启动监测服务...').start();
     try {
       await this.watchService.start(projectPath);
       spinner.succeed('监测服务已启动');
@@ -149,20 +230,54 @@ export class WatchCommand {
       );
     }
 
+    // 更新导入关系图，找出受影响的依赖方和失效的引用
+    let affectedFiles: string[] = [];
+    let danglingImports: IDanglingImport[] = [];
+    if (this.dependencyTracker) {
+      try {
+        const impact = this.dependencyTracker.applyChanges(changes);
+        affectedFiles = impact.affected;
+        danglingImports = impact.danglingImports;
+
+        if (affectedFiles.length) {
+          this.logger.info(
+            chalk.magenta(`  受影响: ${affectedFiles.length} 个依赖文件`)
+          );
+          affectedFiles.forEach((filePath) =>
+            this.logger.debug(
+              chalk.magenta(`    * ${path.relative(process.cwd(), filePath)}`)
+            )
+          );
+        }
+
+        danglingImports.forEach((item) => {
+          const target =
+            item.reason === 'missing-export'
+              ? `'${item.specifier}' 中已不存在导出 ${item.name}`
+              : `无法解析模块 '${item.specifier}'`;
+          this.logger.warn(`失效的引用: ${item.source}:${item.line} ${target}`);
+        });
+      } catch (error) {
+        this.logger.warn('更新导入关系图失败:', error);
+      }
+    }
+
     // 执行分析
-    const watchConfig = this.configManager.get('watchMode');
-    const analysisOptions = watchConfig?.analyzers || [];
+    const filesToAnalyze = [...added, ...modified].map((c) => c.path);
+    const deletedFiles = deleted.map((c) => c.path);
+    let results: Record<string, any> = {};
 
-    if (analysisOptions.length) {
+    if (this.analyzers.length) {
       try {
-        this.logger.info('开始分析变更文件...');
-
-        // 筛选只分析新增和修改的文件
-        const filesToAnalyze = [...added, ...modified].map((c) => c.path);
-        if (filesToAnalyze.length) {
-          const results = await this.analysisOrchestrator.runIncremental(
+        // 变更文件交给所有分析器，受影响的依赖方只交给跨文件分析器
+        if (filesToAnalyze.length || affectedFiles.length) {
+          this.logger.info('开始分析变更文件...');
+          results = await this.analysisOrchestrator.runIncremental(
             filesToAnalyze,
-            analysisOptions as string[]
+            this.analyzers,
+            this.projectPath,
+            affectedFiles,
+            this.projectConfig
           );
           this.logger.info('分析完成');
           this.displayResults(results);
@@ -171,6 +286,87 @@ export class WatchCommand {
         this.logger.error('分析失败:', error);
       }
     }
+
+    // 与上一轮比较问题变化，并通知插件
+    if (!this.issueDelta) {
+      return;
+    }
+    const scopes = Object.fromEntries(
+      this.analyzers.map((id) => [
+        id,
+        this.analysisOrchestrator.getIncrementalScope(
+          id,
+          filesToAnalyze,
+          affectedFiles
+        ),
+      ])
+    );
+    let delta = this.issueDelta.update(results, scopes, deletedFiles);
+    try {
+      delta = await this.watchService.notifyIncrementalAnalysis(delta, results);
+    } catch (error) {
+      this.logger.warn('插件处理问题变化失败:', error);
+    }
+
+    this.displayDelta(delta);
+    this.emitEvent({
+      event: 'delta',
+      timestamp: new Date().toISOString(),
+      changed: filesToAnalyze.map((filePath) => this.toRelative(filePath)),
+      deleted: deletedFiles.map((filePath) => this.toRelative(filePath)),
+      affected: affectedFiles.map((filePath) => this.toRelative(filePath)),
+      summary: {
+        added: delta.added.length,
+        resolved: delta.resolved.length,
+        unchanged: delta.unchanged.length,
+      },
+      files: delta.files,
+      danglingImports,
+    });
+  }
+
+  /**
+   * 展示问题变化，按文件列出新增和已解决的问题
+   */
+  private displayDelta(delta: IIssueDelta): void {
+    this.logger.info(
+      chalk.bold(
+        `问题变化: ${chalk.red(`${delta.added.length} 个新增`)}，${chalk.green(`${delta.resolved.length} 个已解决`)}，${delta.unchanged.length} 个未变化`
+      )
+    );
+
+    const formatIssue = (issue: IFingerprintedIssue) => {
+      const line = issue.location?.startLine;
+      const column = issue.location?.startColumn;
+      const position = line ? `${line}${column ? `:${column}` : ''} ` : '';
+      return `${position}[${issue.ruleId}] ${issue.message}`;
+    };
+
+    delta.files.forEach((file) => {
+      this.logger.info(chalk.cyan(`  ${file.filePath || '(项目)'}`));
+      file.added.forEach((issue) =>
+        this.logger.info(chalk.red(`    + ${formatIssue(issue)}`))
+      );
+      file.resolved.forEach((issue) =>
+        this.logger.info(chalk.green(`    - ${formatIssue(issue)}`))
+      );
+    });
+  }
+
+  /**
+   * 在 NDJSON 模式下向标准输出写入一行事件
+   */
+  private emitEvent(event: Record<string, unknown>): void {
+    if (this.ndjson) {
+      process.stdout.write(`${JSON.stringify(event)}\n`);
+    }
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.projectPath, filePath).split(path.sep).join('/');
   }
 
   /**
@@ -182,16 +378,10 @@ export class WatchCommand {
     for (const [analyzer, result] of Object.entries(results)) {
       this.logger.info(chalk.cyan(`${analyzer}:`));
 
-      if (typeof result === 'object' && result !== null) {
-        if (Array.isArray(result)) {
-          this.logger.info(`  发现 ${result.length} 个问题`);
-        } else if ('issues' in result && Array.isArray(result.issues)) {
-          this.logger.info(`  发现 ${result.issues.length} 个问题`);
-        } else if ('warnings' in result && Array.isArray(result.warnings)) {
-          this.logger.info(`  发现 ${result.warnings.length} 个警告`);
-        } else {
-          this.logger.info('  分析完成');
-        }
+      if (result && result.error) {
+        this.logger.warn(`  ${result.error}`);
+      } else if (result && result.summary) {
+        this.logger.info(`  ${result.summary.description}`);
       } else {
         this.logger.info('  分析完成');
       }
@@ -269,9 +459,18 @@ export class WatchCommand {
     analyzers?: string;
     prompt?: boolean;
   }): Promise<string[]> {
-    // 如果命令行指定了分析器，直接使用
+    // 如果命令行指定了分析器，直接使用（忽略未注册的分析器）
     if (options.analyzers) {
-      return options.analyzers.split(',').map((a) => a.trim());
+      return options.analyzers
+        .split(',')
+        .map((a) => a.trim())
+        .filter((id) => {
+          if (!this.analyzerRegistry.has(id)) {
+            this.logger.warn(`未找到分析器: ${id}，已忽略`);
+            return false;
+          }
+          return true;
+        });
     }
 
     // 获取配置中的分析器
@@ -290,22 +489,13 @@ export class WatchCommand {
     }
 
     // 交互式选择分析器
-    const ANALYSIS_OPTIONS = [
-      { name: 'TS覆盖率检测 (预计耗时: ~2分钟/次)', value: 'coverage' },
-      { name: '方法重复检测 (预计耗时: ~1分钟/次)', value: 'method-dup' },
-      { name: '未使用代码检测 (预计耗时: ~3分钟/次)', value: 'unused-code' },
-      { name: '依赖关系分析 (预计耗时: ~1分钟/次)', value: 'dependencies' },
-      {
-        name: '内存泄漏检测 [实验] (预计耗时: ~3分钟/次)',
-        value: 'memory-leak',
-      },
-      {
-        name: '死循环风险检测 [实验] (预计耗时: ~2分钟/次)',
-        value: 'infinite-loop',
-      },
-    ];
+    const ANALYSIS_OPTIONS = getAnalysisOptions('分钟/次');
 
-    const { analyzerChoices } = await inquirer.prompt([
+    // NDJSON 模式下标准输出只输出事件，交互提示改写到标准错误
+    const prompt = this.ndjson
+      ? inquirer.createPromptModule({ output: process.stderr })
+      : inquirer.prompt;
+    const { analyzerChoices } = await prompt([
       {
         type: 'checkbox',
         name: 'analyzerChoices',
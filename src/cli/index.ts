@@ -7,6 +7,8 @@ import { Command } from 'commander';
 import { AnalyzeCommand } from './commands/analyze-command';
 import { DependencyCommand } from './commands/dependency-command';
 import { WatchCommand } from './commands/watch-command';
+import { BaselineCommand } from './commands/baseline-command';
+import { TrendCommand } from './commands/trend-command';
 import { InteractiveCommand } from './commands/interactive-command';
 import { version } from '../../package.json';
 
@@ -26,6 +28,8 @@ export function run(): void {
     const analyzeCommand = new AnalyzeCommand();
     const dependencyCommand = new DependencyCommand();
     const watchCommand = new WatchCommand();
+    const baselineCommand = new BaselineCommand();
+    const trendCommand = new TrendCommand();
     const interactiveCommand = new InteractiveCommand();
 
     // 先检查命令是否存在
@@ -33,6 +37,8 @@ export function run(): void {
       !analyzeCommand ||
       !dependencyCommand ||
       !watchCommand ||
+      !baselineCommand ||
+      !trendCommand ||
       !interactiveCommand
     ) {
       console.error('命令对象初始化失败');
@@ -62,6 +68,8 @@ export function run(): void {
     analyzeCommand.register(program);
     dependencyCommand.register(program);
     watchCommand.register(program);
+    baselineCommand.register(program);
+    trendCommand.register(program);
     program.addCommand(interactiveCommand.getCommand());
 
     // 添加帮助信息
@@ -73,6 +81,8 @@ export function run(): void {
   $ code-insight dependency                  # 分析当前项目的依赖关系
   $ code-insight dep -p ./my-project         # 分析指定项目的依赖关系
   $ code-insight dep -f html -o ./reports    # 生成HTML格式报告并保存到指定目录
+  $ code-insight baseline create             # 用当前的全部问题创建基线文件
+  $ code-insight trend                       # 展示代码质量指标的历史趋势
   `
     );
 
@@ -1,10 +1,14 @@
+import path from 'path';
 import { Listr } from 'listr2';
 import { Logger } from '../utils/logger';
-import { ANALYSIS_OPTIONS, IAnalysisOption } from '../cli/options';
-import { FileSystemService } from './file-system-service';
+import {
+  FileDiscoveryService,
+  IFileDiscoveryResult,
+} from './file-discovery-service';
 import { AstService } from './ast-service';
-import { CoverageAnalyzer } from '../analyzers/coverage-analyzer';
-import { ExampleIncrementalAnalyzer } from '../analyzers/example-incremental-analyzer';
+import { AnalyzerRegistry, IRunnableAnalyzer } from './analyzer-registry';
+import { registerBuiltinAnalyzers } from '../analyzers/builtin-analyzers';
+import { AnalysisConfig } from './config/config-manager';
 
 // 分析结果接口
 export interface IAnalysisResult {
@@ -28,30 +32,50 @@ interface ListrContext {
  */
 export class AnalysisOrchestrator {
   private logger: Logger;
-  private fsService: FileSystemService;
   private astService: AstService;
+  private registry: AnalyzerRegistry;
   private targetPath: string = '';
+  private config?: AnalysisConfig;
+  private discovery: IFileDiscoveryResult | null = null;
 
-  constructor() {
+  /**
+   * @param registry 分析器注册表，默认使用注册了内置分析器的全局注册表
+   */
+  constructor(registry?: AnalyzerRegistry) {
     this.logger = new Logger();
-    this.fsService = new FileSystemService();
     this.astService = new AstService();
+    this.registry = registry || registerBuiltinAnalyzers();
   }
 
   /**
    * 执行分析
    * @param options 分析选项
    * @param targetPath 目标路径
+   * @param config 项目分析配置，传递给各分析器
    */
-  async run(options: string[], targetPath: string): Promise<IAnalysisResult[]> {
+  async run(
+    options: string[],
+    targetPath: string,
+    config?: AnalysisConfig
+  ): Promise<IAnalysisResult[]> {
     this.logger.debug(
       `开始分析，选项: ${options.join(', ')}, 路径: ${targetPath}`
     );
 
     this.targetPath = targetPath;
+    this.config = config;
 
-    // 分析前的准备，扫描目标目录
-    await this.fsService.scanDirectory(targetPath);
+    // 提前解析全部分析器，未知的分析器直接报错
+    this.registry.resolve(options);
+
+    // 分析前的准备，查找待分析的文件，所有分析器共用同一份文件列表
+    this.discovery = await FileDiscoveryService.fromConfig(
+      targetPath,
+      config
+    ).discover();
+    this.logger.debug(
+      `找到 ${this.discovery.files.length} 个待分析文件，跳过 ${this.discovery.skipped.length} 个文件或目录`
+    );
 
     // 创建任务列表
     const tasks = new Listr<ListrContext>(
@@ -93,13 +117,19 @@ export class AnalysisOrchestrator {
    * 执行增量分析
    * @param files 要分析的文件路径数组
    * @param options 分析选项
+   * @param projectPath 项目根路径，不支持增量分析的分析器会在此路径上执行完整分析
+   * @param affectedFiles 受变更影响的其他文件（如依赖方），只交给跨文件分析器
+   * @param config 项目分析配置，传递给文件发现和各分析器，未提供时沿用上次的配置
    * @returns 分析结果
    */
   async runIncremental(
     files: string[],
-    options: string[]
+    options: string[],
+    projectPath?: string,
+    affectedFiles: string[] = [],
+    config?: AnalysisConfig
   ): Promise<Record<string, any>> {
-    if (!files.length) {
+    if (!files.length && !affectedFiles.length) {
       this.logger.debug('没有可分析的文件');
       return {};
     }
@@ -108,24 +138,44 @@ export class AnalysisOrchestrator {
       `开始增量分析，文件: ${files.length} 个，选项: ${options.join(', ')}`
     );
 
+    if (projectPath) {
+      this.targetPath = projectPath;
+    }
+    if (config) {
+      this.config = config;
+    }
+
     // 确保目标路径已设置，如果未设置，使用第一个文件的目录
     if (!this.targetPath) {
-      const path = require('path');
-      this.targetPath = path.dirname(files[0]);
+      this.targetPath = path.dirname([...files, ...affectedFiles][0]);
     }
 
+    // 跨文件分析器需要项目的全部文件，每次重新查找以包含新增和删除的文件
+    this.discovery = await FileDiscoveryService.fromConfig(
+      this.targetPath,
+      this.config
+    ).discover();
+
     const results: Record<string, any> = {};
 
     for (const opt of options) {
       try {
         // 获取分析器
         const analyzer = this.getAnalyzer(opt, this.targetPath);
+        const scope = this.getIncrementalScope(opt, files, affectedFiles);
 
         // 如果分析器支持增量分析，执行增量分析
-        if (typeof analyzer.analyzeIncremental === 'function') {
+        if (scope && typeof analyzer.analyzeIncremental === 'function') {
+          if (!scope.length) {
+            this.logger.debug(
+              `${this.getOptionName(opt)} 没有需要分析的文件，已跳过`
+            );
+            continue;
+          }
+
           this.logger.debug(`执行 ${this.getOptionName(opt)} 增量分析...`);
           const result = await analyzer.analyzeIncremental(
-            files,
+            scope,
             (message: string) => {
               this.logger.debug(`${this.getOptionName(opt)}: ${message}`);
             }
@@ -155,45 +205,61 @@ export class AnalysisOrchestrator {
     return results;
   }
 
+  /**
+   * 获取分析器在增量分析中实际分析的文件
+   * @param option 分析器标识
+   * @param files 变更的文件
+   * @param affectedFiles 受变更影响的其他文件，只交给跨文件分析器
+   * @returns 文件列表，不支持增量分析（执行完整分析）时返回 null
+   */
+  getIncrementalScope(
+    option: string,
+    files: string[],
+    affectedFiles: string[] = []
+  ): string[] | null {
+    const definition = this.registry.get(option);
+    if (!definition || !definition.modes.includes('incremental')) {
+      return null;
+    }
+
+    // 跨文件分析器还需要检查受影响的依赖方
+    return definition.crossFile
+      ? Array.from(new Set([...files, ...affectedFiles]))
+      : files;
+  }
+
+  /**
+   * 获取最近一次完整分析的文件发现结果
+   * @returns 待分析文件和被跳过的文件，尚未执行完整分析时返回 null
+   */
+  getFileDiscovery(): IFileDiscoveryResult | null {
+    return this.discovery;
+  }
+
   /**
    * 获取预估分析时间
    * @param options 分析选项
    */
   getEstimatedTime(options: string[]): number {
-    return options.reduce((total, opt) => {
-      const option = ANALYSIS_OPTIONS.find(
-        (o: IAnalysisOption) => o.value === opt
-      );
-      return total + (option?.estimatedTime || 1);
-    }, 0);
+    return this.registry.getEstimatedTime(options);
   }
 
   /**
    * 获取分析器实例
    */
-  private getAnalyzer(type: string, projectPath: string): any {
-    // 这里根据type返回对应的分析器实例
-    // 实际项目中应该维护一个分析器注册表
-    if (type === 'ts-coverage') {
-      return new CoverageAnalyzer(projectPath, this.astService);
-    }
-
-    if (type === 'duplicate-method') {
-      return new ExampleIncrementalAnalyzer(projectPath, this.astService);
-    }
-
-    // 添加更多分析器...
-
-    throw new Error(`未找到分析器: ${type}`);
+  private getAnalyzer(type: string, projectPath: string): IRunnableAnalyzer {
+    return this.registry.create(type, {
+      projectPath,
+      astService: this.astService,
+      config: this.config,
+      files: this.discovery?.files.map((file) => file.path),
+    });
   }
 
   /**
    * 根据选项值获取选项名称
    */
   private getOptionName(value: string): string {
-    const option = ANALYSIS_OPTIONS.find(
-      (opt: IAnalysisOption) => opt.value === value
-    );
-    return option ? option.name.split(' ')[0] : value;
+    return this.registry.get(value)?.name || value;
   }
 }
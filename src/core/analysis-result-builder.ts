@@ -0,0 +1,1014 @@
+import path from 'path';
+import micromatch from 'micromatch';
+import { IAnalysisResult as IAnalyzerOutput } from './analysis-orchestrator';
+import {
+  IAnalysisIssue,
+  IAnalysisResult,
+  IAnalysisStats,
+  IComplexityResult,
+  ICoverageResult,
+  ICustomRuleResult,
+  IDependencyResult,
+  IDuplicateResult,
+  IFunctionComplexityResult,
+  IInfiniteLoopResult,
+  ILocation,
+  IMemoryLeakResult,
+  IRulesAnalysisData,
+  ISymbolLocation,
+  IUnusedCodeResult,
+  IssueSeverity,
+  ComplexityMetric,
+} from '../types/analysis';
+import {
+  IComplexityAnalysisResult,
+  summarizeComplexity,
+} from '../analyzers/complexity-analyzer';
+import { ICoverageReport } from '../analyzers/coverage-report-reader';
+import { IDuplicateAnalysisResult } from '../analyzers/duplicate-code-analyzer';
+import {
+  IUnusedCodeAnalysisResult,
+  IUnusedCodeItem,
+} from '../analyzers/unused-code-analyzer';
+import {
+  DependencyAnalysisResult,
+  PackageDependencyReport,
+  ReferencedPackage,
+} from '../types/dependency-types';
+import { MemoryLeakAnalysisResult } from './analyzers/memory-leak';
+import { LeakSeverity } from './analyzers/memory-leak/types';
+import { InfiniteLoopAnalysisResult } from './analyzers/infinite-loop';
+import { LoopRiskLevel } from './analyzers/infinite-loop/types';
+import { getIssueRule } from './issue-rules';
+
+/**
+ * 严重性从低到高的顺序
+ */
+const SEVERITY_ORDER: IssueSeverity[] = ['info', 'warning', 'error'];
+
+/**
+ * 风险级别到问题严重性的映射
+ */
+const RISK_SEVERITY: Record<'low' | 'medium' | 'high', IssueSeverity> = {
+  low: 'info',
+  medium: 'warning',
+  high: 'error',
+};
+
+/**
+ * 复杂度指标对应的问题规则与名称，engineRule 为规则引擎中度量相同的内置规则
+ */
+const COMPLEXITY_ISSUES: Record<
+  ComplexityMetric,
+  { ruleId: string; label: string; engineRule: string }
+> = {
+  cyclomatic: {
+    ruleId: 'complexity/cyclomatic',
+    label: '圈复杂度',
+    engineRule: 'max-cyclomatic-complexity',
+  },
+  cognitive: {
+    ruleId: 'complexity/cognitive',
+    label: '认知复杂度',
+    engineRule: 'max-cognitive-complexity',
+  },
+  nestingDepth: {
+    ruleId: 'complexity/nesting-depth',
+    label: '嵌套深度',
+    engineRule: 'max-nesting-depth',
+  },
+  parameters: {
+    ruleId: 'complexity/parameters',
+    label: '参数个数',
+    engineRule: 'max-params',
+  },
+  loc: {
+    ruleId: 'complexity/function-length',
+    label: '代码行数',
+    engineRule: 'max-function-length',
+  },
+};
+
+/**
+ * 未使用代码中各类符号对应的问题规则与名称
+ */
+const UNUSED_CODE_ISSUES: Array<{
+  key: Exclude<keyof IUnusedCodeResult, 'unreachableFiles'>;
+  ruleId: string;
+  label: string;
+}> = [
+  { key: 'unusedImports', ruleId: 'unused-import', label: '未使用的导入' },
+  { key: 'unusedVariables', ruleId: 'unused-variable', label: '未使用的变量' },
+  { key: 'unusedFunctions', ruleId: 'unused-function', label: '未使用的函数' },
+  { key: 'unusedClasses', ruleId: 'unused-class', label: '未使用的类' },
+  { key: 'unusedExports', ruleId: 'unused-export', label: '未使用的导出' },
+  { key: 'unusedTypes', ruleId: 'unused-type', label: '未使用的类型' },
+  {
+    key: 'testOnlyExports',
+    ruleId: 'test-only-export',
+    label: '只被测试使用的导出',
+  },
+  {
+    key: 'unusedPrivateMembers',
+    ruleId: 'unused-private-member',
+    label: '未使用的私有成员',
+  },
+  {
+    key: 'typeOnlyImports',
+    ruleId: 'type-only-import',
+    label: '只作为类型使用的导入',
+  },
+];
+
+/**
+ * npm 包依赖问题对应的问题规则
+ */
+const PACKAGE_ISSUES: Array<{
+  key: 'unusedDependencies' | 'missingDependencies' | 'misplacedDependencies';
+  ruleId: string;
+  severity: IssueSeverity;
+  label: string;
+}> = [
+  {
+    key: 'unusedDependencies',
+    ruleId: 'unused-dependency',
+    severity: 'warning',
+    label: '未使用的依赖',
+  },
+  {
+    key: 'missingDependencies',
+    ruleId: 'missing-dependency',
+    severity: 'error',
+    label: '缺失的依赖',
+  },
+  {
+    key: 'misplacedDependencies',
+    ruleId: 'misplaced-dependency',
+    severity: 'warning',
+    label: '运行时代码导入了 devDependencies 中的包',
+  },
+];
+
+type DuplicateBlock = IDuplicateResult['duplicates'][number];
+type DependencyRuleViolation = NonNullable<
+  IDependencyResult['ruleViolations']
+>[number];
+type PotentialLeak = IMemoryLeakResult['potentialLeaks'][number];
+type PotentialInfiniteLoop =
+  IInfiniteLoopResult['potentialInfiniteLoops'][number];
+type CustomRuleIssue = ICustomRuleResult['issues'][number];
+
+/**
+ * 分析结果构建选项
+ */
+export interface AnalysisResultBuilderOptions {
+  /**
+   * 项目名称，默认为项目目录名
+   */
+  projectName?: string;
+
+  /**
+   * 要从结果中排除的文件模式，不含通配符的模式按路径片段匹配
+   */
+  excludePatterns?: string[];
+}
+
+/**
+ * 分析结果构建器
+ * 将注册表中各分析器的原始输出合并为报告使用的统一分析结果模型
+ */
+export class AnalysisResultBuilder {
+  private readonly projectPath: string;
+  private readonly options: AnalysisResultBuilderOptions;
+
+  /**
+   * @param projectPath 项目根路径
+   * @param options 构建选项
+   */
+  constructor(projectPath: string, options: AnalysisResultBuilderOptions = {}) {
+    this.projectPath = path.resolve(projectPath);
+    this.options = options;
+  }
+
+  /**
+   * 合并分析器输出
+   * @param outputs 各分析器的输出（type 为分析器标识）
+   * @param stats 分析统计信息
+   * @returns 统一分析结果
+   */
+  build(outputs: IAnalyzerOutput[], stats: IAnalysisStats): IAnalysisResult {
+    const result: IAnalysisResult = {
+      projectName: this.options.projectName || path.basename(this.projectPath),
+      stats,
+    };
+
+    outputs.forEach((output) => {
+      if (!output.data) {
+        return;
+      }
+
+      switch (output.type) {
+        case 'coverage':
+          result.coverage = this.mapCoverage(output.data as ICoverageReport);
+          break;
+        case 'method-dup':
+          result.duplicates = this.mapDuplicates(
+            output.data as IDuplicateAnalysisResult,
+            stats.totalLines
+          );
+          break;
+        case 'unused-code':
+          result.unusedCode = this.mapUnusedCode(
+            output.data as IUnusedCodeAnalysisResult
+          );
+          break;
+        case 'complexity':
+          result.complexity = this.mapComplexity(
+            output.data as IComplexityAnalysisResult
+          );
+          break;
+        case 'dependencies':
+          result.dependencies = this.mapDependencies(
+            output.data as DependencyAnalysisResult,
+            result.dependencies
+          );
+          break;
+        case 'npm-deps':
+          result.dependencies = this.mapPackages(
+            output.data as PackageDependencyReport,
+            result.dependencies
+          );
+          break;
+        case 'memory-leak':
+          result.memoryLeaks = this.mapMemoryLeaks(
+            output.data as MemoryLeakAnalysisResult
+          );
+          break;
+        case 'infinite-loop':
+          result.infiniteLoops = this.mapInfiniteLoops(
+            output.data as InfiniteLoopAnalysisResult
+          );
+          break;
+        case 'rules': {
+          const data = output.data as IRulesAnalysisData;
+          result.customRules = this.mapCustomRules(data.results);
+          result.ruleCatalog = data.rules;
+          break;
+        }
+        default:
+          // 其他分析器（如插件提供的）没有对应的报告模型，原样保留其输出
+          result.analyzerOutputs = {
+            ...result.analyzerOutputs,
+            [output.type]: output.data,
+          };
+          break;
+      }
+    });
+
+    if (result.complexity && result.customRules) {
+      result.customRules = this.dropComplexityDuplicates(
+        result.customRules,
+        result.complexity
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 复杂度分析器和规则引擎同时运行时，同一函数超过阈值的同一指标只保留分析器的问题；
+   * 规则阈值低于分析器阈值时，只被规则报告的函数仍然保留
+   */
+  private dropComplexityDuplicates(
+    rules: ICustomRuleResult[],
+    complexity: IComplexityResult
+  ): ICustomRuleResult[] {
+    const functionKey = (
+      engineRule: string,
+      { filePath, startLine, startColumn }: ILocation
+    ) => [engineRule, filePath, startLine || 0, startColumn || 0].join('\0');
+    const reported = new Set(
+      complexity.complexFunctions.flatMap((fn) =>
+        fn.exceeded.map((metric) =>
+          functionKey(COMPLEXITY_ISSUES[metric].engineRule, fn)
+        )
+      )
+    );
+
+    return rules
+      .map((rule) => ({
+        ...rule,
+        issues: rule.issues.filter(
+          (issue) => !reported.has(functionKey(rule.ruleName, issue.location))
+        ),
+      }))
+      .filter((rule) => rule.issues.length > 0);
+  }
+
+  /**
+   * 判断文件是否被排除
+   * @param filePath 相对项目根目录的路径
+   */
+  isExcluded(filePath: string): boolean {
+    const patterns = this.options.excludePatterns || [];
+    const segments = filePath.split('/');
+
+    return patterns.some((pattern) =>
+      micromatch.scan(pattern).isGlob
+        ? micromatch.isMatch(filePath, pattern, { dot: true })
+        : segments.includes(pattern) || filePath === pattern
+    );
+  }
+
+  /**
+   * 转换覆盖率数据，百分比转换为 0~1 的比例
+   */
+  private mapCoverage(data: ICoverageReport): ICoverageResult[] {
+    return Object.entries(data.files)
+      .map(([filePath, summary]) => ({
+        filePath: this.toRelative(filePath),
+        lineCoverage: summary.lines.pct / 100,
+        statementCoverage: summary.statements.pct / 100,
+        branchCoverage: summary.branches.pct / 100,
+        functionCoverage: summary.functions.pct / 100,
+        uncoveredLines: summary.uncoveredLines,
+      }))
+      .filter((coverage) => !this.isExcluded(coverage.filePath));
+  }
+
+  /**
+   * 转换重复代码数据
+   */
+  private mapDuplicates(
+    data: IDuplicateAnalysisResult,
+    totalLines: number
+  ): IDuplicateResult {
+    const duplicates: IDuplicateResult['duplicates'] = [];
+
+    data.clones.forEach((clone) => {
+      const locations = clone.regions
+        .map((region) => ({
+          filePath: this.toRelative(region.filePath),
+          startLine: region.startLine,
+          endLine: region.endLine,
+        }))
+        .filter((location) => !this.isExcluded(location.filePath));
+
+      if (locations.length >= 2) {
+        duplicates.push({
+          locations,
+          lines: clone.lines,
+          similarity: clone.similarity,
+          snippet: clone.snippet,
+        });
+      }
+    });
+
+    const duplicateLines = duplicates.reduce(
+      (total, duplicate) =>
+        total + duplicate.lines * (duplicate.locations.length - 1),
+      0
+    );
+
+    return {
+      duplicates,
+      totalDuplicationRate:
+        totalLines > 0 ? Math.min(1, duplicateLines / totalLines) : 0,
+    };
+  }
+
+  /**
+   * 转换未使用代码数据
+   */
+  private mapUnusedCode(data: IUnusedCodeAnalysisResult): IUnusedCodeResult {
+    const toSymbols = (items: IUnusedCodeItem[]): ISymbolLocation[] =>
+      items
+        .map((item) => ({
+          filePath: this.toRelative(item.filePath),
+          startLine: item.line,
+          startColumn: item.column,
+          name: item.name,
+          ...(item.fix ? { fix: item.fix } : {}),
+        }))
+        .filter((symbol) => !this.isExcluded(symbol.filePath));
+
+    return {
+      unusedImports: toSymbols(data.unusedImports),
+      unusedVariables: toSymbols(data.unusedVariables),
+      unusedFunctions: toSymbols(data.unusedFunctions),
+      unusedClasses: toSymbols(data.unusedClasses),
+      unusedExports: toSymbols(data.unusedExports),
+      unusedTypes: toSymbols([...data.unusedInterfaces, ...data.unusedTypes]),
+      testOnlyExports: toSymbols(data.testOnlyExports),
+      unusedPrivateMembers: toSymbols(data.unusedPrivateMembers || []),
+      typeOnlyImports: toSymbols(data.typeOnlyImports || []),
+      unreachableFiles: data.unreachableFiles
+        .map((filePath) => this.toRelative(filePath))
+        .filter((filePath) => !this.isExcluded(filePath)),
+    };
+  }
+
+  /**
+   * 转换复杂度数据，统计值只计算未被排除的文件中的函数
+   */
+  private mapComplexity(data: IComplexityAnalysisResult): IComplexityResult {
+    const functions = data.functions
+      .map((fn) => ({ ...fn, filePath: this.toRelative(fn.filePath) }))
+      .filter((fn) => !this.isExcluded(fn.filePath));
+
+    return {
+      ...summarizeComplexity(functions),
+      thresholds: data.thresholds,
+      complexFunctions: functions
+        .filter((fn) => fn.exceeded.length > 0)
+        .map((fn) => ({
+          filePath: fn.filePath,
+          startLine: fn.line,
+          startColumn: fn.column,
+          endLine: fn.endLine,
+          name: fn.name,
+          kind: fn.kind,
+          cyclomatic: fn.cyclomatic,
+          cognitive: fn.cognitive,
+          nestingDepth: fn.nestingDepth,
+          parameters: fn.parameters,
+          loc: fn.loc,
+          exceeded: fn.exceeded,
+        })),
+    };
+  }
+
+  /**
+   * 转换依赖分析数据
+   * 依赖图中的边为 {source: 被依赖文件, target: 导入方}，这里转换为 导入方 -> 被依赖文件 的邻接表
+   * @param data 依赖分析数据
+   * @param previous 已有的依赖结果，保留其中的npm包检查结果
+   */
+  private mapDependencies(
+    data: DependencyAnalysisResult,
+    previous?: IDependencyResult
+  ): IDependencyResult {
+    const dependencyGraph: Record<string, string[]> = {};
+
+    data.graph.nodes.forEach((node) => {
+      if (!this.isExcluded(node.id)) {
+        dependencyGraph[node.id] = [];
+      }
+    });
+
+    data.graph.edges.forEach((edge) => {
+      if (dependencyGraph[edge.target] && dependencyGraph[edge.source]) {
+        dependencyGraph[edge.target].push(edge.source);
+      }
+    });
+
+    const circularDependencies = data.graph.circularDependencies
+      .map(({ cycle }) =>
+        cycle.length > 1 && cycle[0] === cycle[cycle.length - 1]
+          ? cycle.slice(0, -1)
+          : cycle
+      )
+      .filter((cycle) => !cycle.some((file) => this.isExcluded(file)));
+
+    const mapped: IDependencyResult = {
+      dependencyGraph,
+      circularDependencies,
+      unusedDependencies: previous?.unusedDependencies || [],
+      missingDependencies: previous?.missingDependencies || [],
+      misplacedDependencies: previous?.misplacedDependencies,
+      ...(data.violations
+        ? {
+            ruleViolations: data.violations
+              .filter((violation) => !this.isExcluded(violation.file))
+              .map((violation) => ({
+                ruleId: violation.kind,
+                message: violation.message,
+                location: {
+                  filePath: violation.file,
+                  startLine: violation.line,
+                },
+              })),
+          }
+        : {}),
+    };
+
+    return data.packages ? this.mapPackages(data.packages, mapped) : mapped;
+  }
+
+  /**
+   * 转换npm包依赖检查结果，只在排除的文件中引用的包不会被报告
+   * @param report npm包依赖检查结果
+   * @param previous 已有的依赖结果，保留其中的依赖图
+   */
+  private mapPackages(
+    report: PackageDependencyReport,
+    previous?: IDependencyResult
+  ): IDependencyResult {
+    const toNames = (packages: ReferencedPackage[]): string[] =>
+      packages
+        .filter((pkg) => pkg.imports.some(({ file }) => !this.isExcluded(file)))
+        .map((pkg) => pkg.name);
+
+    return {
+      dependencyGraph: previous?.dependencyGraph || {},
+      circularDependencies: previous?.circularDependencies || [],
+      unusedDependencies: [...new Set(report.unused.map((pkg) => pkg.name))],
+      missingDependencies: toNames(report.missing),
+      misplacedDependencies: toNames(report.misplaced),
+      ...(previous?.ruleViolations
+        ? { ruleViolations: previous.ruleViolations }
+        : {}),
+    };
+  }
+
+  /**
+   * 转换内存泄漏数据
+   */
+  private mapMemoryLeaks(data: MemoryLeakAnalysisResult): IMemoryLeakResult {
+    const riskLevels: Record<LeakSeverity, 'low' | 'medium' | 'high'> = {
+      [LeakSeverity.LOW]: 'low',
+      [LeakSeverity.MEDIUM]: 'medium',
+      [LeakSeverity.HIGH]: 'high',
+    };
+
+    return {
+      potentialLeaks: data.warnings
+        .map((warning) => ({
+          location: {
+            filePath: this.toRelative(warning.filePath),
+            startLine: warning.location.line,
+            startColumn: warning.location.column,
+          },
+          riskLevel: riskLevels[warning.severity],
+          type: warning.type,
+          description: warning.message,
+        }))
+        .filter((leak) => !this.isExcluded(leak.location.filePath)),
+    };
+  }
+
+  /**
+   * 转换规则引擎结果，路径转换为相对路径并过滤排除的文件
+   */
+  private mapCustomRules(data: ICustomRuleResult[]): ICustomRuleResult[] {
+    return data
+      .map((rule) => ({
+        ...rule,
+        issues: rule.issues
+          .map((issue) => ({
+            ...issue,
+            location: {
+              ...issue.location,
+              filePath: this.toRelative(issue.location.filePath),
+            },
+          }))
+          .filter((issue) => !this.isExcluded(issue.location.filePath)),
+      }))
+      .filter((rule) => rule.issues.length > 0);
+  }
+
+  /**
+   * 转换死循环检测数据
+   */
+  private mapInfiniteLoops(
+    data: InfiniteLoopAnalysisResult
+  ): IInfiniteLoopResult {
+    const riskLevels: Record<LoopRiskLevel, 'low' | 'medium' | 'high'> = {
+      [LoopRiskLevel.LOW]: 'low',
+      [LoopRiskLevel.MEDIUM]: 'medium',
+      [LoopRiskLevel.HIGH]: 'high',
+      [LoopRiskLevel.CRITICAL]: 'high',
+    };
+
+    return {
+      potentialInfiniteLoops: data.issues
+        .map((issue) => {
+          const position = issue.loopInfo.position;
+          return {
+            location: {
+              filePath: this.toRelative(position.filePath),
+              startLine: position.startLine,
+              startColumn: position.startColumn,
+              endLine: position.endLine,
+              endColumn: position.endColumn,
+            },
+            riskLevel: riskLevels[issue.risk],
+            reason: issue.message,
+            suggestion: issue.suggestion,
+            ...(issue.fix ? { fix: issue.fix } : {}),
+          };
+        })
+        .filter((loop) => !this.isExcluded(loop.location.filePath)),
+    };
+  }
+
+  /**
+   * 转换为相对项目根目录的 posix 路径
+   */
+  private toRelative(filePath: string): string {
+    const relativePath = path.isAbsolute(filePath)
+      ? path.relative(this.projectPath, filePath)
+      : filePath;
+    return relativePath.split(path.sep).join('/');
+  }
+}
+
+/**
+ * 比较两个严重性
+ * @returns 正数表示 a 比 b 严重
+ */
+export function compareSeverity(a: IssueSeverity, b: IssueSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+/**
+ * 重复代码块的每个位置各产生一个问题
+ * 以下转换函数由 collectIssues 和 filterReportedResult 共用，保证两者对同一条目产生相同的问题
+ */
+function duplicateIssues(duplicate: DuplicateBlock): IAnalysisIssue[] {
+  return duplicate.locations.map((location, index) => {
+    const others = duplicate.locations
+      .filter((_, otherIndex) => otherIndex !== index)
+      .map(formatLocation);
+    return {
+      ruleId: 'duplicate-code',
+      severity: 'warning',
+      message: `重复代码（${duplicate.lines} 行，相似度 ${Math.round(duplicate.similarity * 100)}%），另见 ${others.join(', ')}`,
+      location,
+    };
+  });
+}
+
+/**
+ * 未使用的符号产生的问题
+ */
+function unusedSymbolIssue(
+  ruleId: string,
+  label: string,
+  { name, fix, ...location }: ISymbolLocation
+): IAnalysisIssue {
+  return {
+    ruleId,
+    severity: 'info',
+    message: `${label}: ${name}`,
+    location,
+    ...(fix ? { fix } : {}),
+  };
+}
+
+/**
+ * 不可达文件产生的问题
+ */
+function unreachableFileIssue(filePath: string): IAnalysisIssue {
+  return {
+    ruleId: 'unused-file',
+    severity: 'info',
+    message: `文件无法从任何入口到达: ${filePath}`,
+    location: { filePath },
+  };
+}
+
+/**
+ * 函数的每项超过阈值的指标各产生一个问题
+ */
+function complexityIssues(
+  { name, exceeded, ...fn }: IFunctionComplexityResult,
+  thresholds: IComplexityResult['thresholds']
+): IAnalysisIssue[] {
+  return exceeded.map((metric) => {
+    const { ruleId, label } = COMPLEXITY_ISSUES[metric];
+    return {
+      ruleId,
+      severity: 'warning',
+      message: `函数 ${name} 的${label}为 ${fn[metric]}，超过阈值 ${thresholds[metric]}`,
+      location: {
+        filePath: fn.filePath,
+        startLine: fn.startLine,
+        startColumn: fn.startColumn,
+        endLine: fn.endLine,
+      },
+    };
+  });
+}
+
+/**
+ * 循环依赖产生的问题，位置为环中的第一个文件
+ */
+function circularDependencyIssue(cycle: string[]): IAnalysisIssue {
+  return {
+    ruleId: 'circular-dependency',
+    severity: 'warning',
+    message: `循环依赖: ${[...cycle, cycle[0]].join(' → ')}`,
+    location: { filePath: cycle[0] },
+  };
+}
+
+/**
+ * npm 包依赖问题，位置为 package.json
+ */
+function packageIssue(
+  { ruleId, severity, label }: (typeof PACKAGE_ISSUES)[number],
+  name: string
+): IAnalysisIssue {
+  return {
+    ruleId,
+    severity,
+    message: `${label}: ${name}`,
+    location: { filePath: 'package.json' },
+  };
+}
+
+/**
+ * 违反架构约束的导入产生的问题
+ */
+function ruleViolationIssue(
+  violation: DependencyRuleViolation
+): IAnalysisIssue {
+  return {
+    ruleId: violation.ruleId,
+    severity: 'error',
+    message: violation.message,
+    location: violation.location,
+  };
+}
+
+/**
+ * 内存泄漏风险产生的问题
+ */
+function memoryLeakIssue(leak: PotentialLeak): IAnalysisIssue {
+  return {
+    ruleId: `memory-leak/${leak.type}`,
+    severity: RISK_SEVERITY[leak.riskLevel],
+    message: leak.description,
+    location: leak.location,
+  };
+}
+
+/**
+ * 死循环风险产生的问题
+ */
+function infiniteLoopIssue(loop: PotentialInfiniteLoop): IAnalysisIssue {
+  return {
+    ruleId: 'infinite-loop',
+    severity: RISK_SEVERITY[loop.riskLevel],
+    message: loop.reason,
+    location: loop.location,
+    suggestion: loop.suggestion,
+    ...(loop.fix ? { fix: loop.fix } : {}),
+  };
+}
+
+/**
+ * 规则引擎中的规则产生的问题
+ */
+function customRuleIssue(
+  ruleName: string,
+  issue: CustomRuleIssue
+): IAnalysisIssue {
+  return {
+    ruleId: ruleName,
+    severity: issue.severity,
+    message: issue.message,
+    location: issue.location,
+    suggestion: issue.suggestion,
+    ...(issue.fix ? { fix: issue.fix } : {}),
+  };
+}
+
+/**
+ * 创建判断问题是否会被报告的函数：
+ * 被抑制注释抑制、不在变更行上的已有问题、基线中的已知问题和已写入修复的问题不再计入
+ */
+function createReportedFilter(
+  result: IAnalysisResult
+): (issue: IAnalysisIssue) => boolean {
+  const excluded = new Set(
+    [
+      ...(result.suppressions?.suppressed || []),
+      ...(result.changedLines?.preExisting || []),
+      ...(result.baseline?.baselined || []),
+      ...(result.fixes && !result.fixes.dryRun ? result.fixes.fixed : []),
+    ].map(issueKey)
+  );
+  return (issue) => !excluded.has(issueKey(issue));
+}
+
+/**
+ * 从统一分析结果中汇总问题列表
+ * @param result 统一分析结果
+ * @returns 问题列表
+ */
+export function collectIssues(result: IAnalysisResult): IAnalysisIssue[] {
+  const issues: IAnalysisIssue[] = [];
+
+  result.duplicates?.duplicates.forEach((duplicate) => {
+    issues.push(...duplicateIssues(duplicate));
+  });
+
+  if (result.unusedCode) {
+    const unusedCode = result.unusedCode;
+    UNUSED_CODE_ISSUES.forEach(({ key, ruleId, label }) => {
+      (unusedCode[key] || []).forEach((symbol) => {
+        issues.push(unusedSymbolIssue(ruleId, label, symbol));
+      });
+    });
+    (unusedCode.unreachableFiles || []).forEach((filePath) => {
+      issues.push(unreachableFileIssue(filePath));
+    });
+  }
+
+  if (result.complexity) {
+    const thresholds = result.complexity.thresholds;
+    result.complexity.complexFunctions.forEach((fn) => {
+      issues.push(...complexityIssues(fn, thresholds));
+    });
+  }
+
+  if (result.dependencies) {
+    const dependencies = result.dependencies;
+    dependencies.circularDependencies.forEach((cycle) => {
+      issues.push(circularDependencyIssue(cycle));
+    });
+    PACKAGE_ISSUES.forEach((packageRule) => {
+      (dependencies[packageRule.key] || []).forEach((name) => {
+        issues.push(packageIssue(packageRule, name));
+      });
+    });
+    (dependencies.ruleViolations || []).forEach((violation) => {
+      issues.push(ruleViolationIssue(violation));
+    });
+  }
+
+  result.memoryLeaks?.potentialLeaks.forEach((leak) => {
+    issues.push(memoryLeakIssue(leak));
+  });
+
+  result.infiniteLoops?.potentialInfiniteLoops.forEach((loop) => {
+    issues.push(infiniteLoopIssue(loop));
+  });
+
+  result.customRules?.forEach((rule) => {
+    rule.issues.forEach((issue) => {
+      issues.push(customRuleIssue(rule.ruleName, issue));
+    });
+  });
+
+  // 未使用、已过期和无效的抑制注释本身作为问题报告
+  result.suppressions?.suppressions.forEach((suppression) => {
+    if (suppression.status === 'active') {
+      return;
+    }
+    const rules = suppression.rules.join(', ') || '所有规则';
+    const messages: Record<typeof suppression.status, string> = {
+      unused: `未使用的抑制注释（${rules}）`,
+      expired: `抑制注释（${rules}）已于 ${suppression.until} 过期`,
+      invalid: `抑制注释（${rules}）的 until 日期无效: ${suppression.until}`,
+    };
+    issues.push({
+      ruleId: `suppression/${suppression.status}`,
+      severity: suppression.status === 'unused' ? 'info' : 'warning',
+      message: messages[suppression.status],
+      location: { filePath: suppression.filePath, startLine: suppression.line },
+    });
+  });
+
+  // 没有具体建议的问题使用规则目录中的通用修复建议
+  return issues
+    .filter(createReportedFilter(result))
+    .map((issue) =>
+      issue.suggestion
+        ? issue
+        : { ...issue, suggestion: getIssueRule(issue.ruleId)?.help }
+    );
+}
+
+/**
+ * 只保留会被报告的问题的分析结果副本，供报告按分析器展示问题列表：
+ * 各分析器结果中不计入 collectIssues 的条目被移除，统计指标保持不变
+ * @param result 统一分析结果
+ * @returns 过滤后的分析结果
+ */
+export function filterReportedResult(result: IAnalysisResult): IAnalysisResult {
+  const isReported = createReportedFilter(result);
+  const filtered: IAnalysisResult = { ...result };
+
+  if (result.duplicates) {
+    // 重复代码块的任一位置仍被报告时保留整个代码块
+    filtered.duplicates = {
+      ...result.duplicates,
+      duplicates: result.duplicates.duplicates.filter((duplicate) =>
+        duplicateIssues(duplicate).some(isReported)
+      ),
+    };
+  }
+
+  if (result.unusedCode) {
+    const unusedCode = { ...result.unusedCode };
+    UNUSED_CODE_ISSUES.forEach(({ key, ruleId, label }) => {
+      if (unusedCode[key]) {
+        unusedCode[key] = unusedCode[key]!.filter((symbol) =>
+          isReported(unusedSymbolIssue(ruleId, label, symbol))
+        );
+      }
+    });
+    if (unusedCode.unreachableFiles) {
+      unusedCode.unreachableFiles = unusedCode.unreachableFiles.filter(
+        (filePath) => isReported(unreachableFileIssue(filePath))
+      );
+    }
+    filtered.unusedCode = unusedCode;
+  }
+
+  if (result.complexity) {
+    const thresholds = result.complexity.thresholds;
+    // 只保留仍被报告的超标指标，没有超标指标的函数被移除
+    filtered.complexity = {
+      ...result.complexity,
+      complexFunctions: result.complexity.complexFunctions
+        .map((fn) => {
+          const issues = complexityIssues(fn, thresholds);
+          return {
+            ...fn,
+            exceeded: fn.exceeded.filter((_, index) =>
+              isReported(issues[index])
+            ),
+          };
+        })
+        .filter((fn) => fn.exceeded.length > 0),
+    };
+  }
+
+  if (result.dependencies) {
+    const dependencies = { ...result.dependencies };
+    dependencies.circularDependencies =
+      dependencies.circularDependencies.filter((cycle) =>
+        isReported(circularDependencyIssue(cycle))
+      );
+    PACKAGE_ISSUES.forEach((packageRule) => {
+      if (dependencies[packageRule.key]) {
+        dependencies[packageRule.key] = dependencies[packageRule.key]!.filter(
+          (name) => isReported(packageIssue(packageRule, name))
+        );
+      }
+    });
+    if (dependencies.ruleViolations) {
+      dependencies.ruleViolations = dependencies.ruleViolations.filter(
+        (violation) => isReported(ruleViolationIssue(violation))
+      );
+    }
+    filtered.dependencies = dependencies;
+  }
+
+  if (result.memoryLeaks) {
+    filtered.memoryLeaks = {
+      potentialLeaks: result.memoryLeaks.potentialLeaks.filter((leak) =>
+        isReported(memoryLeakIssue(leak))
+      ),
+    };
+  }
+
+  if (result.infiniteLoops) {
+    filtered.infiniteLoops = {
+      potentialInfiniteLoops:
+        result.infiniteLoops.potentialInfiniteLoops.filter((loop) =>
+          isReported(infiniteLoopIssue(loop))
+        ),
+    };
+  }
+
+  if (result.customRules) {
+    filtered.customRules = result.customRules
+      .map((rule) => ({
+        ...rule,
+        issues: rule.issues.filter((issue) =>
+          isReported(customRuleIssue(rule.ruleName, issue))
+        ),
+      }))
+      .filter((rule) => rule.issues.length > 0);
+  }
+
+  return filtered;
+}
+
+/**
+ * 问题的唯一标识，用于在同一次分析结果中匹配问题
+ */
+function issueKey(issue: IAnalysisIssue): string {
+  const location = issue.location;
+  return [
+    issue.ruleId,
+    location?.filePath || '',
+    location?.startLine || 0,
+    location?.startColumn || 0,
+    issue.message,
+  ].join('\0');
+}
+
+/**
+ * 格式化位置信息为 file:line
+ */
+function formatLocation(location: ILocation): string {
+  return location.startLine
+    ? `${location.filePath}:${location.startLine}`
+    : location.filePath;
+}
@@ -0,0 +1,245 @@
+import { AstService } from './ast-service';
+import { IAnalysisResult } from './analysis-orchestrator';
+import { AnalysisConfig } from './config/config-manager';
+
+/**
+ * 分析器支持的运行模式
+ * full: 全量分析整个项目；incremental: 只分析变更的文件
+ */
+export type AnalyzerMode = 'full' | 'incremental';
+
+/**
+ * 分析进度回调
+ */
+export type AnalysisProgressCallback = (message: string) => void;
+
+/**
+ * 分析器创建上下文
+ */
+export interface IAnalyzerContext {
+  /**
+   * 项目根路径
+   */
+  projectPath: string;
+
+  /**
+   * 共享的AST服务
+   */
+  astService: AstService;
+
+  /**
+   * 项目分析配置
+   */
+  config?: AnalysisConfig;
+
+  /**
+   * 文件发现服务找到的待分析文件（绝对路径），未提供时分析器自行查找项目文件
+   */
+  files?: string[];
+}
+
+/**
+ * 注册表中可运行的分析器实例
+ */
+export interface IRunnableAnalyzer {
+  /**
+   * 全量分析
+   */
+  analyze(progress: AnalysisProgressCallback): Promise<IAnalysisResult>;
+
+  /**
+   * 增量分析，仅在声明支持 incremental 模式时提供
+   */
+  analyzeIncremental?(
+    files: string[],
+    progress: AnalysisProgressCallback
+  ): Promise<IAnalysisResult>;
+}
+
+/**
+ * 分析器定义
+ */
+export interface IAnalyzerDefinition {
+  /**
+   * 唯一标识，如 'unused-code'
+   */
+  id: string;
+
+  /**
+   * 显示名称
+   */
+  name: string;
+
+  /**
+   * 功能描述
+   */
+  description?: string;
+
+  /**
+   * 预计耗时（分钟）
+   */
+  estimatedTime: number;
+
+  /**
+   * 支持的运行模式
+   */
+  modes: AnalyzerMode[];
+
+  /**
+   * 是否为实验性功能
+   */
+  isExperimental?: boolean;
+
+  /**
+   * 兼容的旧标识
+   */
+  aliases?: string[];
+
+  /**
+   * 结果是否依赖跨文件信息（如导入关系），监测模式会把变更扩展到受影响的依赖方后再交给增量分析
+   */
+  crossFile?: boolean;
+
+  /**
+   * 创建分析器实例
+   */
+  create(context: IAnalyzerContext): IRunnableAnalyzer;
+}
+
+/**
+ * 分析器注册表错误
+ */
+export class AnalyzerRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'AnalyzerRegistryError';
+  }
+}
+
+/**
+ * 分析器注册表
+ * 统一管理所有分析器的元数据与创建方式，CLI、监测模式、交互模式和插件都通过它解析分析器
+ */
+export class AnalyzerRegistry {
+  private static instance: AnalyzerRegistry;
+  private definitions = new Map<string, IAnalyzerDefinition>();
+  private aliases = new Map<string, string>();
+
+  /**
+   * 获取全局注册表实例
+   */
+  static getInstance(): AnalyzerRegistry {
+    if (!AnalyzerRegistry.instance) {
+      AnalyzerRegistry.instance = new AnalyzerRegistry();
+    }
+    return AnalyzerRegistry.instance;
+  }
+
+  /**
+   * 注册分析器
+   * @param definition 分析器定义
+   * @param override 是否允许覆盖同名分析器
+   */
+  register(definition: IAnalyzerDefinition, override = false): void {
+    if (this.definitions.has(definition.id) && !override) {
+      throw new AnalyzerRegistryError(
+        `分析器已注册: ${definition.id}`,
+        'ERR_ANALYZER_EXISTS'
+      );
+    }
+
+    if (!definition.modes.includes('full')) {
+      throw new AnalyzerRegistryError(
+        `分析器 ${definition.id} 必须支持全量分析模式`,
+        'ERR_INVALID_DEFINITION'
+      );
+    }
+
+    this.definitions.set(definition.id, definition);
+    (definition.aliases || []).forEach((alias) =>
+      this.aliases.set(alias, definition.id)
+    );
+  }
+
+  /**
+   * 注销分析器
+   * @param id 分析器标识
+   */
+  unregister(id: string): boolean {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      return false;
+    }
+
+    (definition.aliases || []).forEach((alias) => this.aliases.delete(alias));
+    return this.definitions.delete(id);
+  }
+
+  /**
+   * 判断分析器是否已注册（支持别名）
+   */
+  has(idOrAlias: string): boolean {
+    return this.get(idOrAlias) !== undefined;
+  }
+
+  /**
+   * 获取分析器定义（支持别名）
+   */
+  get(idOrAlias: string): IAnalyzerDefinition | undefined {
+    return this.definitions.get(this.aliases.get(idOrAlias) || idOrAlias);
+  }
+
+  /**
+   * 获取所有分析器定义
+   */
+  getAll(): IAnalyzerDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * 解析分析器标识列表，遇到未注册的标识时抛出错误
+   * @param ids 分析器标识或别名
+   * @returns 去重后的分析器定义
+   */
+  resolve(ids: string[]): IAnalyzerDefinition[] {
+    const resolved: IAnalyzerDefinition[] = [];
+
+    ids.forEach((id) => {
+      const definition = this.get(id);
+      if (!definition) {
+        throw new AnalyzerRegistryError(
+          `未找到分析器: ${id}`,
+          'ERR_ANALYZER_NOT_FOUND'
+        );
+      }
+      if (!resolved.includes(definition)) {
+        resolved.push(definition);
+      }
+    });
+
+    return resolved;
+  }
+
+  /**
+   * 创建分析器实例
+   * @param idOrAlias 分析器标识或别名
+   * @param context 创建上下文
+   */
+  create(idOrAlias: string, context: IAnalyzerContext): IRunnableAnalyzer {
+    const [definition] = this.resolve([idOrAlias]);
+    return definition.create(context);
+  }
+
+  /**
+   * 预估分析总耗时（分钟），未注册的分析器按1分钟计算
+   */
+  getEstimatedTime(ids: string[]): number {
+    return ids.reduce(
+      (total, id) => total + (this.get(id)?.estimatedTime || 1),
+      0
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import { Project } from 'ts-morph';
+import {
+  CouplingConfig,
+  CouplingReport,
+  DependencyGraph,
+  DependencyNode,
+  ModuleCoupling,
+} from '../../types/dependency-types';
+import { DependencyAnalysisError } from './dependency-analyzer';
+
+/**
+ * 未配置 distanceThreshold 时的默认距离阈值
+ */
+const DEFAULT_DISTANCE_THRESHOLD = 0.5;
+
+/**
+ * 模块耦合分析器
+ * 把依赖图中的文件按目录聚合为模块，计算 Robert C. Martin 的包度量：
+ * 传入耦合 Ca、传出耦合 Ce、不稳定性 I、抽象程度 A 以及与主序列的距离 D，
+ * 并标记落入痛苦区或无用区的模块
+ */
+export class CouplingAnalyzer {
+  private readonly depth?: number;
+  private readonly distanceThreshold: number;
+
+  /**
+   * 创建模块耦合分析器
+   * @param config - 耦合度量配置
+   * @throws {DependencyAnalysisError} 目录层数不是正整数或距离阈值不在 0~1 之间时抛出
+   */
+  constructor(config: CouplingConfig = {}) {
+    if (
+      config.depth !== undefined &&
+      !(Number.isInteger(config.depth) && config.depth > 0)
+    ) {
+      throw new DependencyAnalysisError(
+        `dependency.coupling.depth 必须是正整数: ${config.depth}`,
+        'ERR_INVALID_COUPLING_CONFIG'
+      );
+    }
+    const threshold = config.distanceThreshold ?? DEFAULT_DISTANCE_THRESHOLD;
+    if (!(threshold >= 0 && threshold <= 1)) {
+      throw new DependencyAnalysisError(
+        `dependency.coupling.distanceThreshold 必须在 0 到 1 之间: ${config.distanceThreshold}`,
+        'ERR_INVALID_COUPLING_CONFIG'
+      );
+    }
+    this.depth = config.depth;
+    this.distanceThreshold = threshold;
+  }
+
+  /**
+   * 计算依赖图中各模块的耦合度量
+   * @param graph - 依赖分析器构建的依赖图
+   * @returns 按模块路径排序的度量结果
+   */
+  analyze(graph: DependencyGraph): CouplingReport {
+    const modules = new Map<
+      string,
+      { nodes: DependencyNode[]; afferent: Set<string>; efferent: Set<string> }
+    >();
+    const moduleOf = new Map<string, string>();
+
+    graph.nodes.forEach((node) => {
+      const id = this.moduleOf(node.id);
+      moduleOf.set(node.id, id);
+      const module = modules.get(id);
+      if (module) {
+        module.nodes.push(node);
+      } else {
+        modules.set(id, {
+          nodes: [node],
+          afferent: new Set(),
+          efferent: new Set(),
+        });
+      }
+    });
+
+    // 依赖图中的边为 {source: 被依赖文件, target: 导入方}，模块内部的依赖不计入耦合
+    graph.edges.forEach(({ source: dependency, target: importer }) => {
+      const from = moduleOf.get(importer);
+      const to = moduleOf.get(dependency);
+      if (!from || !to || from === to) {
+        return;
+      }
+      modules.get(from)!.efferent.add(dependency);
+      modules.get(to)!.afferent.add(importer);
+    });
+
+    const project = new Project({
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    });
+
+    const results = Array.from(modules.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([id, module]) => {
+        const { abstractTypes, totalTypes } = this.countTypes(
+          project,
+          module.nodes
+        );
+        return this.measure(
+          id,
+          module.nodes.length,
+          module.afferent.size,
+          module.efferent.size,
+          abstractTypes,
+          totalTypes
+        );
+      });
+
+    return {
+      ...(this.depth ? { depth: this.depth } : {}),
+      distanceThreshold: this.distanceThreshold,
+      modules: results,
+      averageDistance:
+        results.length > 0
+          ? this.round(
+              results.reduce((sum, module) => sum + module.distance, 0) /
+                results.length
+            )
+          : 0,
+    };
+  }
+
+  /**
+   * 由耦合数和类型数计算单个模块的度量
+   */
+  private measure(
+    module: string,
+    files: number,
+    afferent: number,
+    efferent: number,
+    abstractTypes: number,
+    totalTypes: number
+  ): ModuleCoupling {
+    const coupled = afferent + efferent;
+    const instability = coupled > 0 ? efferent / coupled : 0;
+    const abstractness = totalTypes > 0 ? abstractTypes / totalTypes : 0;
+    const distance = Math.abs(abstractness + instability - 1);
+
+    // 没有任何跨模块依赖的模块不在主序列的讨论范围内，不做标记
+    const zone =
+      coupled > 0 && distance >= this.distanceThreshold
+        ? abstractness + instability < 1
+          ? ('pain' as const)
+          : ('uselessness' as const)
+        : undefined;
+
+    return {
+      module,
+      files,
+      afferent,
+      efferent,
+      instability: this.round(instability),
+      abstractness: this.round(abstractness),
+      distance: this.round(distance),
+      abstractTypes,
+      totalTypes,
+      ...(zone ? { zone } : {}),
+    };
+  }
+
+  /**
+   * 统计模块中的类、抽象类和接口数量
+   */
+  private countTypes(
+    project: Project,
+    nodes: DependencyNode[]
+  ): { abstractTypes: number; totalTypes: number } {
+    let abstractTypes = 0;
+    let totalTypes = 0;
+
+    nodes.forEach((node) => {
+      if (!fs.existsSync(node.path)) {
+        return;
+      }
+      const sourceFile = project.addSourceFileAtPath(node.path);
+      const classes = sourceFile.getClasses();
+      const interfaces = sourceFile.getInterfaces();
+      abstractTypes +=
+        interfaces.length +
+        classes.filter((declaration) => declaration.isAbstract()).length;
+      totalTypes += interfaces.length + classes.length;
+      project.removeSourceFile(sourceFile);
+    });
+
+    return { abstractTypes, totalTypes };
+  }
+
+  /**
+   * 文件所属的模块：文件所在目录，配置了 depth 时只保留前 depth 级目录
+   */
+  private moduleOf(file: string): string {
+    const directories = file.split('/').slice(0, -1);
+    const kept = this.depth ? directories.slice(0, this.depth) : directories;
+    return kept.length > 0 ? kept.join('/') : '.';
+  }
+
+  /**
+   * 度量保留两位小数
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
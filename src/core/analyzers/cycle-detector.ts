@@ -0,0 +1,287 @@
+/**
+ * 邻接表：文件 -> 该文件导入的文件列表
+ */
+export type AdjacencyMap = Record<string, string[]>;
+
+/**
+ * 强连通分量中枚举出的基本环
+ */
+export interface ComponentCycles {
+  /**
+   * 分量内的文件（按文件名排序）
+   */
+  files: string[];
+
+  /**
+   * 基本环列表，每个环以起点结尾，如 [a, b, a]
+   */
+  cycles: string[][];
+
+  /**
+   * 是否因达到上限而提前停止枚举
+   */
+  truncated: boolean;
+}
+
+/**
+ * 建议断开的导入边（from 导入 to）
+ */
+export interface BreakEdge {
+  from: string;
+  to: string;
+  cyclesBroken: number;
+}
+
+/**
+ * 循环检测结果
+ */
+export interface CycleDetectionResult {
+  components: ComponentCycles[];
+  breakEdges: BreakEdge[];
+}
+
+/**
+ * 循环检测选项
+ */
+export interface CycleDetectorOptions {
+  /**
+   * 每个强连通分量最多枚举的环数量
+   */
+  maxCyclesPerComponent?: number;
+}
+
+/**
+ * 循环依赖检测器
+ * 使用 Tarjan 算法求强连通分量，在每个分量内用 Johnson 算法有界枚举基本环，
+ * 并以贪心近似给出能打破全部循环的导入边（不保证边数最少）
+ */
+export class CycleDetector {
+  private readonly maxCyclesPerComponent: number;
+
+  /**
+   * 创建循环检测器
+   * @param options - 检测选项
+   */
+  constructor(options: CycleDetectorOptions = {}) {
+    this.maxCyclesPerComponent = options.maxCyclesPerComponent ?? 100;
+  }
+
+  /**
+   * 执行完整的循环检测
+   * @param adjacency - 依赖邻接表
+   * @returns 强连通分量、基本环与断边建议
+   */
+  detect(adjacency: AdjacencyMap): CycleDetectionResult {
+    const components = this.findCyclicComponents(adjacency).map((files) =>
+      this.enumerateCycles(adjacency, files)
+    );
+
+    return {
+      components,
+      breakEdges: this.suggestBreakEdges(
+        adjacency,
+        components.flatMap((component) => component.cycles)
+      ),
+    };
+  }
+
+  /**
+   * Tarjan 算法求全部强连通分量
+   * @param adjacency - 依赖邻接表
+   * @returns 强连通分量列表（按逆拓扑序，即被依赖的分量在前）
+   */
+  findStronglyConnectedComponents(adjacency: AdjacencyMap): string[][] {
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let index = 0;
+
+    const strongConnect = (node: string): void => {
+      indexes.set(node, index);
+      lowLinks.set(node, index);
+      index++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const next of adjacency[node] || []) {
+        if (!indexes.has(next)) {
+          strongConnect(next);
+          lowLinks.set(
+            node,
+            Math.min(lowLinks.get(node)!, lowLinks.get(next)!)
+          );
+        } else if (onStack.has(next)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(next)!));
+        }
+      }
+
+      // 当前节点是分量的根节点，出栈得到完整分量
+      if (lowLinks.get(node) === indexes.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    };
+
+    Object.keys(adjacency).forEach((node) => {
+      if (!indexes.has(node)) {
+        strongConnect(node);
+      }
+    });
+
+    return components;
+  }
+
+  /**
+   * 找出包含环的强连通分量（多于一个文件，或文件导入自身）
+   */
+  private findCyclicComponents(adjacency: AdjacencyMap): string[][] {
+    return this.findStronglyConnectedComponents(adjacency)
+      .filter(
+        (component) =>
+          component.length > 1 ||
+          (adjacency[component[0]] || []).includes(component[0])
+      )
+      .map((component) => [...component].sort());
+  }
+
+  /**
+   * Johnson 算法枚举分量内的基本环，数量达到上限时停止
+   */
+  private enumerateCycles(
+    adjacency: AdjacencyMap,
+    files: string[]
+  ): ComponentCycles {
+    const members = new Set(files);
+    const cycles: string[][] = [];
+    let truncated = false;
+
+    for (let startIndex = 0; startIndex < files.length; startIndex++) {
+      const start = files[startIndex];
+      // 只在排序位置不小于起点的文件中搜索，保证每个环只被枚举一次
+      const allowed = new Set(files.slice(startIndex));
+      const neighbours = (node: string): string[] =>
+        (adjacency[node] || []).filter(
+          (next) => members.has(next) && allowed.has(next)
+        );
+
+      const blocked = new Set<string>();
+      const blockMap = new Map<string, Set<string>>();
+      const path: string[] = [];
+
+      const unblock = (node: string): void => {
+        blocked.delete(node);
+        const dependents = blockMap.get(node);
+        if (dependents) {
+          blockMap.delete(node);
+          dependents.forEach((dependent) => {
+            if (blocked.has(dependent)) {
+              unblock(dependent);
+            }
+          });
+        }
+      };
+
+      const circuit = (node: string): boolean => {
+        let found = false;
+        path.push(node);
+        blocked.add(node);
+
+        for (const next of neighbours(node)) {
+          if (truncated) {
+            break;
+          }
+          if (next === start) {
+            cycles.push([...path, start]);
+            found = true;
+            if (cycles.length >= this.maxCyclesPerComponent) {
+              truncated = true;
+            }
+          } else if (!blocked.has(next) && circuit(next)) {
+            found = true;
+          }
+        }
+
+        if (found) {
+          unblock(node);
+        } else {
+          neighbours(node).forEach((next) => {
+            if (!blockMap.has(next)) {
+              blockMap.set(next, new Set());
+            }
+            blockMap.get(next)!.add(node);
+          });
+        }
+
+        path.pop();
+        return found;
+      };
+
+      circuit(start);
+      if (truncated) {
+        break;
+      }
+    }
+
+    return { files, cycles, truncated };
+  }
+
+  /**
+   * 贪心求能打破全部循环的导入边集合
+   * 每轮选择出现在最多未打破环中的边；若枚举被截断导致仍有残余循环，
+   * 则在移除已选边后的图上重新检测，直到图中不再有环。
+   * 最小反馈边集是 NP 难问题，这里的结果只是近似解，不保证边数最少
+   */
+  private suggestBreakEdges(
+    adjacency: AdjacencyMap,
+    initialCycles: string[][]
+  ): BreakEdge[] {
+    const breakEdges: BreakEdge[] = [];
+    const removed = new Set<string>();
+    const edgeKey = (from: string, to: string): string => `${from}\0${to}`;
+    let cycles = initialCycles;
+
+    while (cycles.length > 0) {
+      let remaining = cycles.map((cycle) =>
+        cycle.slice(0, -1).map((from, i) => edgeKey(from, cycle[i + 1]))
+      );
+
+      while (remaining.length > 0) {
+        const frequency = new Map<string, number>();
+        remaining.forEach((edges) =>
+          new Set(edges).forEach((key) =>
+            frequency.set(key, (frequency.get(key) || 0) + 1)
+          )
+        );
+
+        // 出现次数最多者优先，次数相同时按文件名排序保证结果稳定
+        const [bestKey, bestCount] = Array.from(frequency.entries()).sort(
+          (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+        )[0];
+
+        const [from, to] = bestKey.split('\0');
+        breakEdges.push({ from, to, cyclesBroken: bestCount });
+        removed.add(bestKey);
+        remaining = remaining.filter((edges) => !edges.includes(bestKey));
+      }
+
+      const reduced: AdjacencyMap = {};
+      Object.entries(adjacency).forEach(([from, targets]) => {
+        reduced[from] = targets.filter((to) => !removed.has(edgeKey(from, to)));
+      });
+
+      cycles = this.findCyclicComponents(reduced).flatMap(
+        (files) => this.enumerateCycles(reduced, files).cycles
+      );
+    }
+
+    return breakEdges;
+  }
+}
@@ -5,65 +5,14 @@ import {
   DependencyNode,
   CircularDependency,
   DependencyAnalysisResult,
+  CycleAnalysis,
 } from '../../types/dependency-types';
-// 注：使用前需安装 madge 依赖
-// 模拟 madge 功能，用于演示目的
-// 在实际项目中，应该使用真正的 madge 库
-
-// 模拟 madge 分析
-const madge = async (
-  projectPath: string
-  // 移除未使用的参数
-): Promise<{
-  obj(): Record<string, string[]>;
-  circular(): string[][];
-}> => {
-  console.info(`模拟分析项目依赖关系: ${projectPath}`);
-
-  // 创建一个演示用的依赖图
-  const mockDependencies: Record<string, string[]> = {
-    'src/index.ts': [
-      'src/core/analyzers/dependency-analyzer.ts',
-      'src/services/dependency-service.ts',
-    ],
-    'src/cli/index.ts': ['src/cli/app.ts'],
-    'src/cli/app.ts': [
-      'src/cli/commands/dependency-command.ts',
-      'src/cli/commands/watch-command.ts',
-    ],
-    'src/cli/commands/dependency-command.ts': [
-      'src/services/dependency-service.ts',
-    ],
-    'src/cli/commands/watch-command.ts': ['src/services/watch-service.ts'],
-    'src/services/dependency-service.ts': [
-      'src/core/analyzers/dependency-analyzer.ts',
-      'src/core/report/report-generator.ts',
-    ],
-    'src/services/watch-service.ts': [
-      'src/core/analyzers/dependency-analyzer.ts',
-    ],
-    'src/core/analyzers/dependency-analyzer.ts': [
-      'src/types/dependency-types.ts',
-    ],
-    'src/core/report/report-generator.ts': ['src/types/dependency-types.ts'],
-    'src/types/dependency-types.ts': [],
-  };
-
-  // 模拟循环依赖
-  const mockCircular = [
-    [
-      'src/index.ts',
-      'src/core/analyzers/dependency-analyzer.ts',
-      'src/types/dependency-types.ts',
-      'src/index.ts',
-    ],
-  ];
-
-  return {
-    obj: () => mockDependencies,
-    circular: () => mockCircular,
-  };
-};
+import {
+  ExternalImport,
+  ImportGraphBuilder,
+  ImportReference,
+} from './import-graph-builder';
+import { CycleDetector, CycleDetectionResult } from './cycle-detector';
 
 /**
  * 依赖关系分析错误类
@@ -85,19 +34,27 @@ export class DependencyAnalysisError extends Error {
 export class DependencyAnalyzer {
   private readonly basePath: string;
   private readonly fileExtensions: string[];
+  private readonly files?: string[];
   private graph: DependencyGraph | null = null;
+  private references: ImportReference[] = [];
+  private external: ExternalImport[] = [];
+  private cycleAnalysis: CycleAnalysis | null = null;
+  private components: string[][] = [];
 
   /**
    * 创建依赖分析器实例
    * @param basePath - 项目根路径
    * @param fileExtensions - 要分析的文件扩展名
+   * @param files - 要分析的文件（绝对路径），通常来自文件发现服务，未指定时按扩展名查找项目文件
    */
   constructor(
     basePath: string,
-    fileExtensions: string[] = ['js', 'jsx', 'ts', 'tsx']
+    fileExtensions: string[] = ['js', 'jsx', 'ts', 'tsx'],
+    files?: string[]
   ) {
     this.basePath = path.resolve(basePath);
     this.fileExtensions = fileExtensions;
+    this.files = files;
   }
 
   /**
@@ -114,18 +71,34 @@ export class DependencyAnalyzer {
     }
 
     try {
-      // 使用madge分析项目依赖
-      const madgeResult = await madge(this.basePath);
+      const builder = new ImportGraphBuilder(this.basePath, {
+        fileExtensions: this.fileExtensions,
+        files: this.files,
+      });
+      const importGraph = builder.build();
+      this.references = importGraph.references;
+      this.external = importGraph.external;
+
+      // 转换为 文件 -> 依赖文件列表 的映射，同一文件的重复引用只保留一条
+      const dependencyMap: Record<string, string[]> = {};
+      importGraph.files.forEach((file) => {
+        dependencyMap[file] = [];
+      });
+      importGraph.references.forEach(({ source, target }) => {
+        if (!dependencyMap[source].includes(target)) {
+          dependencyMap[source].push(target);
+        }
+      });
 
-      // 转换madge结果为我们的依赖图格式
-      const dependencyMap = (
-        madgeResult as { obj(): Record<string, string[]> }
-      ).obj();
+      const detector = new CycleDetector();
+      const detection = detector.detect(dependencyMap);
+      this.components = detector.findStronglyConnectedComponents(dependencyMap);
+      this.cycleAnalysis = this.buildCycleAnalysis(detection);
 
       this.graph = {
         nodes: this.buildNodes(dependencyMap),
         edges: this.buildEdges(dependencyMap),
-        circularDependencies: this.extractCircularDependencies(madgeResult),
+        circularDependencies: this.extractCircularDependencies(detection),
       };
 
       return this.graph;
@@ -137,6 +110,22 @@ export class DependencyAnalyzer {
     }
   }
 
+  /**
+   * 获取构建依赖图时收集到的原始导入语句
+   * @returns 导入语句列表（含文件与行号）
+   */
+  getImportReferences(): ImportReference[] {
+    return this.references;
+  }
+
+  /**
+   * 获取构建依赖图时收集到的外部npm包引用
+   * @returns 外部包引用列表（含文件与行号）
+   */
+  getExternalImports(): ExternalImport[] {
+    return this.external;
+  }
+
   /**
    * 执行完整的依赖分析
    * @returns 完整的依赖分析结果
@@ -157,6 +146,13 @@ export class DependencyAnalyzer {
       graph,
       levels,
       counts,
+      cycleAnalysis: this.cycleAnalysis!,
+      imports: this.references.map((reference) => ({
+        file: reference.source,
+        line: reference.line,
+        specifier: reference.specifier,
+        target: reference.target,
+      })),
       stats,
     };
   }
@@ -184,54 +180,62 @@ export class DependencyAnalyzer {
     const levels = new Map<string, number>();
     const { nodes, edges } = this.graph!;
 
-    const calculateLevel = (
-      nodeId: string,
-      visited = new Set<string>()
-    ): number => {
-      // 防止循环依赖导致无限递归
-      if (visited.has(nodeId)) {
-        return 0;
-      }
+    // 同一强连通分量内的文件互相依赖，共享同一层级；
+    // 在分量缩点后的有向无环图上计算层级，避免循环导致层级被低估
+    const componentOf = new Map<string, number>();
+    this.components.forEach((component, index) => {
+      component.forEach((file) => componentOf.set(file, index));
+    });
 
-      // 如果已计算过层级，直接返回
-      if (levels.has(nodeId)) {
-        return levels.get(nodeId)!;
+    const componentDependencies = this.components.map(() => new Set<number>());
+    edges.forEach((edge): void => {
+      const from = componentOf.get(edge.target);
+      const to = componentOf.get(edge.source);
+      if (from !== undefined && to !== undefined && from !== to) {
+        componentDependencies[from].add(to);
       }
+    });
 
-      // 找出当前节点的所有依赖
-      const dependencies = edges
-        .filter((edge): boolean => edge.target === nodeId)
-        .map((edge): string => edge.source);
-
-      if (dependencies.length === 0) {
-        // 没有依赖的节点为0级
-        levels.set(nodeId, 0);
-        return 0;
+    const componentLevels = new Map<number, number>();
+    const calculateLevel = (componentIndex: number): number => {
+      if (componentLevels.has(componentIndex)) {
+        return componentLevels.get(componentIndex)!;
       }
 
-      // 标记为已访问
-      visited.add(nodeId);
+      // 没有依赖的分量为0级，否则为所有依赖中的最大层级+1
+      const dependencies = Array.from(componentDependencies[componentIndex]);
+      const level =
+        dependencies.length === 0
+          ? 0
+          : Math.max(...dependencies.map(calculateLevel)) + 1;
 
-      // 计算所有依赖中的最大层级，然后+1
-      const maxLevel = Math.max(
-        ...dependencies.map((dep): number =>
-          calculateLevel(dep, new Set([...visited]))
-        )
-      );
-
-      const level = maxLevel + 1;
-      levels.set(nodeId, level);
+      componentLevels.set(componentIndex, level);
       return level;
     };
 
     // 计算每个节点的层级
     nodes.forEach((node): void => {
-      calculateLevel(node.id);
+      const componentIndex = componentOf.get(node.id);
+      levels.set(
+        node.id,
+        componentIndex === undefined ? 0 : calculateLevel(componentIndex)
+      );
     });
 
     return levels;
   }
 
+  /**
+   * 获取循环依赖分析结果
+   * @returns 强连通分量与断边建议
+   */
+  async getCycleAnalysis(): Promise<CycleAnalysis> {
+    if (!this.graph) {
+      await this.buildGraph();
+    }
+    return this.cycleAnalysis!;
+  }
+
   /**
    * 计算每个文件的依赖数量
    * @returns 每个文件的依赖数量统计
@@ -315,7 +319,7 @@ export class DependencyAnalyzer {
   }
 
   /**
-   * 将madge依赖对象转换为节点列表
+   * 将依赖映射转换为节点列表
    */
   private buildNodes(
     dependencyMap: Record<string, string[]>
@@ -328,7 +332,7 @@ export class DependencyAnalyzer {
   }
 
   /**
-   * 将madge依赖对象转换为边列表
+   * 将依赖映射转换为边列表
    */
   private buildEdges(
     dependencyMap: Record<string, string[]>
@@ -348,23 +352,53 @@ export class DependencyAnalyzer {
   }
 
   /**
-   * 从madge结果中提取循环依赖信息
+   * 将各强连通分量中枚举出的基本环转换为循环依赖信息
    */
-  private extractCircularDependencies(madgeResult: {
-    circular(): string[][];
-  }): CircularDependency[] {
-    try {
-      const circular = madgeResult.circular();
+  private extractCircularDependencies(
+    detection: CycleDetectionResult
+  ): CircularDependency[] {
+    const circular: CircularDependency[] = [];
+
+    detection.components.forEach((component, componentIndex) => {
+      component.cycles.forEach((dependencyCycle) => {
+        circular.push({
+          id: `cycle-${circular.length}`,
+          componentId: `scc-${componentIndex}`,
+          cycle: dependencyCycle,
+          length: dependencyCycle.length - 1,
+        });
+      });
+    });
 
-      return circular.map((dependencyCycle: string[], index: number) => ({
-        id: `cycle-${index}`,
-        cycle: dependencyCycle,
-        length: dependencyCycle.length,
-      }));
-    } catch (error) {
-      console.error('获取循环依赖失败:', error);
-      return [];
-    }
+    return circular;
+  }
+
+  /**
+   * 组装循环分析结果，为每条断边建议关联产生它的导入语句
+   */
+  private buildCycleAnalysis(detection: CycleDetectionResult): CycleAnalysis {
+    return {
+      components: detection.components.map((component, index) => ({
+        id: `scc-${index}`,
+        files: component.files,
+        cycleCount: component.cycles.length,
+        truncated: component.truncated,
+      })),
+      suggestions: detection.breakEdges.map((edge) => ({
+        ...edge,
+        imports: this.references
+          .filter(
+            (reference) =>
+              reference.source === edge.from && reference.target === edge.to
+          )
+          .map((reference) => ({
+            file: reference.source,
+            line: reference.line,
+            specifier: reference.specifier,
+          })),
+      })),
+      truncated: detection.components.some((component) => component.truncated),
+    };
   }
 
   /**
@@ -0,0 +1,248 @@
+import micromatch from 'micromatch';
+import {
+  DependencyGraph,
+  DependencyRuleKind,
+  DependencyRuleViolation,
+  DependencyRulesConfig,
+} from '../../types/dependency-types';
+import { ExternalImport, ImportReference } from './import-graph-builder';
+import { DependencyAnalysisError } from './dependency-analyzer';
+
+/**
+ * 未指定入口文件时模块的默认公开入口
+ */
+const DEFAULT_PUBLIC_ENTRIES = [
+  'index.ts',
+  'index.tsx',
+  'index.js',
+  'index.jsx',
+];
+
+/**
+ * 架构约束检查器
+ * 按 dependency.rules 中的分层、公开入口和禁用包约束检查依赖图中的每条导入边，
+ * 违规结果带有产生该依赖的导入语句位置
+ */
+export class DependencyRuleChecker {
+  private readonly layers: Array<{ name: string; patterns: string[] }>;
+  private readonly rules: DependencyRulesConfig;
+
+  /**
+   * 创建架构约束检查器
+   * @param rules - 架构约束配置
+   * @throws {DependencyAnalysisError} 约束引用了未定义的层或配置格式无效时抛出
+   */
+  constructor(rules: DependencyRulesConfig) {
+    this.rules = rules;
+    this.layers = Object.entries(rules.layers || {}).map(
+      ([name, patterns]) => ({
+        name,
+        patterns: Array.isArray(patterns) ? patterns : [patterns],
+      })
+    );
+    this.validate();
+  }
+
+  /**
+   * 检查依赖图和外部包引用
+   * @param graph - 依赖分析器构建的依赖图
+   * @param references - 构建依赖图时收集到的导入语句
+   * @param external - 构建依赖图时收集到的外部包引用
+   * @returns 按文件和行号排序的违规列表
+   */
+  check(
+    graph: DependencyGraph,
+    references: ImportReference[],
+    external: ExternalImport[]
+  ): DependencyRuleViolation[] {
+    const importsByEdge = new Map<string, ImportReference[]>();
+    references.forEach((reference) => {
+      const key = `${reference.source}\0${reference.target}`;
+      importsByEdge.set(key, [...(importsByEdge.get(key) || []), reference]);
+    });
+
+    const violations: DependencyRuleViolation[] = [];
+
+    // 依赖图中的边为 {source: 被依赖文件, target: 导入方}
+    graph.edges.forEach(({ source: dependency, target: importer }) => {
+      const layerMessage = this.checkLayers(importer, dependency);
+      const found: Array<{ kind: DependencyRuleKind; message: string }> = [
+        ...(layerMessage
+          ? [{ kind: 'layer-violation' as const, message: layerMessage }]
+          : []),
+        ...this.checkPublicEntries(importer, dependency).map((message) => ({
+          kind: 'public-entry-violation' as const,
+          message,
+        })),
+      ];
+
+      (importsByEdge.get(`${importer}\0${dependency}`) || []).forEach(
+        (reference) => {
+          found.forEach(({ kind, message }) => {
+            violations.push({
+              kind,
+              file: importer,
+              line: reference.line,
+              specifier: reference.specifier,
+              target: dependency,
+              message,
+            });
+          });
+        }
+      );
+    });
+
+    external.forEach((reference) => {
+      const message = this.checkPackage(
+        reference.source,
+        reference.packageName
+      );
+      if (message) {
+        violations.push({
+          kind: 'banned-package',
+          file: reference.source,
+          line: reference.line,
+          specifier: reference.specifier,
+          target: reference.packageName,
+          message,
+        });
+      }
+    });
+
+    return violations.sort(
+      (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+    );
+  }
+
+  /**
+   * 获取文件所属的层
+   * @param file - 相对项目根目录的文件路径
+   * @returns 层名，不属于任何层时返回 undefined
+   */
+  getLayer(file: string): string | undefined {
+    return this.layers.find((layer) =>
+      micromatch.isMatch(file, layer.patterns, { dot: true })
+    )?.name;
+  }
+
+  /**
+   * 检查层间依赖，本层内部和不属于任何层的文件不受约束
+   */
+  private checkLayers(importer: string, dependency: string): string | null {
+    const from = this.getLayer(importer);
+    const to = this.getLayer(dependency);
+    if (!from || !to || from === to) {
+      return null;
+    }
+
+    if (this.rules.deny?.[from]?.includes(to)) {
+      return `违反分层约束: ${from} 层不能依赖 ${to} 层: ${dependency}`;
+    }
+
+    const allowed = this.rules.allow?.[from];
+    if (allowed && !allowed.includes(to)) {
+      const scope = allowed.length > 0 ? allowed.join('、') : '本层';
+      return `违反分层约束: ${from} 层只能依赖 ${scope}，不能依赖 ${to} 层: ${dependency}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 检查模块外的文件是否绕过公开入口直接导入模块内部文件
+   */
+  private checkPublicEntries(importer: string, dependency: string): string[] {
+    return (this.rules.publicEntries || []).flatMap((rule) => {
+      const moduleRoot = this.getModuleRoot(dependency, rule.modules);
+      if (
+        !moduleRoot ||
+        this.getModuleRoot(importer, rule.modules) === moduleRoot
+      ) {
+        return [];
+      }
+
+      const entries = rule.entries || DEFAULT_PUBLIC_ENTRIES;
+      const entry = dependency.slice(moduleRoot.length + 1);
+      return entries.includes(entry)
+        ? []
+        : [
+            `应通过模块 ${moduleRoot} 的公开入口导入，而不是直接导入 ${dependency}`,
+          ];
+    });
+  }
+
+  /**
+   * 检查文件所属的层是否禁止导入该npm包
+   */
+  private checkPackage(file: string, packageName: string): string | null {
+    const layer = this.getLayer(file);
+    const banned = layer ? this.rules.bannedPackages?.[layer] : undefined;
+    if (!banned || !micromatch.isMatch(packageName, banned)) {
+      return null;
+    }
+    return `${layer} 层禁止导入npm包 ${packageName}`;
+  }
+
+  /**
+   * 获取文件所在的模块目录：文件路径中与模块模式段数相同的前缀匹配该模式时即为模块目录
+   */
+  private getModuleRoot(file: string, pattern: string): string | null {
+    const depth = pattern.replace(/\/+$/, '').split('/').length;
+    const segments = file.split('/');
+    if (segments.length <= depth) {
+      return null;
+    }
+
+    const prefix = segments.slice(0, depth).join('/');
+    return micromatch.isMatch(prefix, pattern, { dot: true }) ? prefix : null;
+  }
+
+  /**
+   * 校验约束配置
+   */
+  private validate(): void {
+    const names = new Set(this.layers.map((layer) => layer.name));
+    const checkLayer = (name: string, field: string) => {
+      if (!names.has(name)) {
+        throw new DependencyAnalysisError(
+          `dependency.rules.${field} 引用了未定义的层: ${name}`,
+          'ERR_INVALID_RULES'
+        );
+      }
+    };
+
+    (['allow', 'deny'] as const).forEach((field) => {
+      Object.entries(this.rules[field] || {}).forEach(([from, targets]) => {
+        checkLayer(from, field);
+        if (!Array.isArray(targets)) {
+          throw new DependencyAnalysisError(
+            `dependency.rules.${field}.${from} 必须是层名数组`,
+            'ERR_INVALID_RULES'
+          );
+        }
+        targets.forEach((to) => checkLayer(to, field));
+      });
+    });
+
+    Object.entries(this.rules.bannedPackages || {}).forEach(
+      ([layer, packages]) => {
+        checkLayer(layer, 'bannedPackages');
+        if (!Array.isArray(packages)) {
+          throw new DependencyAnalysisError(
+            `dependency.rules.bannedPackages.${layer} 必须是包名数组`,
+            'ERR_INVALID_RULES'
+          );
+        }
+      }
+    );
+
+    (this.rules.publicEntries || []).forEach((rule, index) => {
+      if (!rule || typeof rule.modules !== 'string' || !rule.modules) {
+        throw new DependencyAnalysisError(
+          `dependency.rules.publicEntries[${index}] 缺少 modules`,
+          'ERR_INVALID_RULES'
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,505 @@
+import path from 'path';
+import fs from 'fs';
+import { builtinModules } from 'module';
+import { Project, SourceFile, Node, SyntaxKind, ts } from 'ts-morph';
+
+/**
+ * 导入语句类型
+ */
+export type ImportKind =
+  | 'import'
+  | 'export'
+  | 'dynamic-import'
+  | 'require'
+  | 'import-equals';
+
+/**
+ * 源文件中的一条模块引用
+ */
+export interface ImportReference {
+  /**
+   * 发起引用的文件（相对项目根目录）
+   */
+  source: string;
+
+  /**
+   * 被引用文件（相对项目根目录）
+   */
+  target: string;
+
+  /**
+   * 原始模块说明符，如 './utils' 或 '@/core/ast-service'
+   */
+  specifier: string;
+
+  /**
+   * 引用方式
+   */
+  kind: ImportKind;
+
+  /**
+   * 引用语句所在行（从1开始）
+   */
+  line: number;
+}
+
+/**
+ * 无法解析的项目内模块引用
+ */
+export type UnresolvedImport = Omit<ImportReference, 'target'>;
+
+/**
+ * 对外部npm包的引用
+ */
+export interface ExternalImport extends Omit<ImportReference, 'target'> {
+  /**
+   * 包名，如 'lodash' 或 '@scope/pkg'
+   */
+  packageName: string;
+
+  /**
+   * 是否只引用了类型（import type、export type 或 typeof import()）
+   */
+  typeOnly: boolean;
+}
+
+/**
+ * 导入关系图
+ */
+export interface ImportGraph {
+  /**
+   * 参与分析的全部文件（相对项目根目录）
+   */
+  files: string[];
+
+  /**
+   * 解析成功的项目内引用
+   */
+  references: ImportReference[];
+
+  /**
+   * 相对路径或路径别名引用但未能解析到文件的记录
+   */
+  unresolved: UnresolvedImport[];
+
+  /**
+   * 通过裸模块说明符引用的外部包（不含Node内置模块）
+   */
+  external: ExternalImport[];
+}
+
+/**
+ * 导入图构建选项
+ */
+export interface ImportGraphBuilderOptions {
+  /**
+   * 要分析的文件扩展名（不含点）
+   */
+  fileExtensions?: string[];
+
+  /**
+   * 额外排除的glob模式（相对项目根目录）
+   */
+  excludePatterns?: string[];
+
+  /**
+   * 指定tsconfig路径，默认查找项目根目录下的 tsconfig.json
+   */
+  tsConfigFilePath?: string;
+
+  /**
+   * 要分析的文件（绝对路径），通常来自文件发现服务；指定后不再按扩展名查找项目文件，excludePatterns 不再生效
+   */
+  files?: string[];
+}
+
+/**
+ * 收集到的原始模块引用
+ */
+interface CollectedImport {
+  specifier: string;
+  kind: ImportKind;
+  line: number;
+  typeOnly: boolean;
+}
+
+const NODE_BUILTIN_MODULES = new Set(builtinModules);
+
+const DEFAULT_EXCLUDE_PATTERNS = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/*.d.ts',
+];
+
+/**
+ * 导入图构建器
+ * 基于 ts-morph 遍历源文件中的 import、export ... from、动态 import() 与 require()，
+ * 并使用 TypeScript 模块解析（遵循 tsconfig 的 baseUrl/paths）定位被引用文件
+ */
+export class ImportGraphBuilder {
+  private readonly basePath: string;
+  private readonly fileExtensions: string[];
+  private readonly excludePatterns: string[];
+  private readonly files?: string[];
+  private readonly tsConfigFilePath?: string;
+  private readonly resolutionCache = new Map<string, string | null>();
+  private compilerOptions: ts.CompilerOptions = {};
+
+  /**
+   * 创建导入图构建器
+   * @param basePath - 项目根路径
+   * @param options - 构建选项
+   */
+  constructor(basePath: string, options: ImportGraphBuilderOptions = {}) {
+    this.basePath = path.resolve(basePath);
+    this.fileExtensions = options.fileExtensions || ['js', 'jsx', 'ts', 'tsx'];
+    this.excludePatterns = [
+      ...DEFAULT_EXCLUDE_PATTERNS,
+      ...(options.excludePatterns || []),
+    ];
+    this.tsConfigFilePath =
+      options.tsConfigFilePath || this.findTsConfig(this.basePath);
+    this.files = options.files;
+  }
+
+  /**
+   * 构建导入关系图
+   * @returns 导入关系图
+   */
+  build(): ImportGraph {
+    this.compilerOptions = this.loadCompilerOptions();
+    this.resolutionCache.clear();
+
+    const project = new Project({
+      compilerOptions: this.compilerOptions,
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    });
+
+    if (this.files) {
+      this.files
+        .filter(
+          (filePath) =>
+            this.fileExtensions.includes(path.extname(filePath).slice(1)) &&
+            fs.existsSync(filePath)
+        )
+        .forEach((filePath) => project.addSourceFileAtPath(filePath));
+    } else {
+      project.addSourceFilesAtPaths([
+        path.join(this.basePath, `**/*.{${this.fileExtensions.join(',')}}`),
+        ...this.excludePatterns.map(
+          (pattern) => `!${path.join(this.basePath, pattern)}`
+        ),
+      ]);
+    }
+
+    const sourceFiles = project.getSourceFiles();
+    const fileSet = new Set(
+      sourceFiles.map((sourceFile) => path.normalize(sourceFile.getFilePath()))
+    );
+
+    const { references, unresolved, external } = this.collectReferences(
+      sourceFiles,
+      fileSet
+    );
+
+    return {
+      files: Array.from(fileSet)
+        .map((filePath) => this.toRelative(filePath))
+        .sort(),
+      references,
+      unresolved,
+      external,
+    };
+  }
+
+  /**
+   * 重新读取指定文件并收集其模块引用，用于在不重建整张图的情况下增量更新
+   * @param filePaths - 要重新收集的文件（绝对路径），已不存在的文件会被忽略
+   * @param knownFiles - 当前项目中的全部文件（绝对路径），只有指向这些文件的引用才计入 references
+   * @returns 这些文件的引用、未解析引用和外部包引用
+   */
+  collectFiles(
+    filePaths: string[],
+    knownFiles: Iterable<string>
+  ): Omit<ImportGraph, 'files'> {
+    this.compilerOptions = this.loadCompilerOptions();
+    this.resolutionCache.clear();
+
+    const project = new Project({
+      compilerOptions: this.compilerOptions,
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    });
+    const sourceFiles = filePaths
+      .filter((filePath) => fs.existsSync(filePath))
+      .map((filePath) => project.addSourceFileAtPath(filePath));
+    const fileSet = new Set(
+      Array.from(knownFiles, (filePath) => path.normalize(filePath))
+    );
+
+    return this.collectReferences(sourceFiles, fileSet);
+  }
+
+  /**
+   * 解析源文件中的模块引用，并按项目内文件、外部包和未解析引用分类
+   */
+  private collectReferences(
+    sourceFiles: SourceFile[],
+    fileSet: Set<string>
+  ): Omit<ImportGraph, 'files'> {
+    const references: ImportReference[] = [];
+    const unresolved: UnresolvedImport[] = [];
+    const external: ExternalImport[] = [];
+
+    for (const sourceFile of sourceFiles) {
+      const containingFile = path.normalize(sourceFile.getFilePath());
+      const source = this.toRelative(containingFile);
+
+      for (const { specifier, kind, line, typeOnly } of this.collectImports(
+        sourceFile
+      )) {
+        const resolved = this.resolve(specifier, containingFile);
+        const packageName = resolved ? null : this.getPackageName(specifier);
+
+        if (resolved && fileSet.has(resolved)) {
+          references.push({
+            source,
+            target: this.toRelative(resolved),
+            specifier,
+            kind,
+            line,
+          });
+        } else if (packageName) {
+          external.push({
+            source,
+            specifier,
+            packageName,
+            kind,
+            line,
+            typeOnly,
+          });
+        } else if (!resolved && this.isProjectSpecifier(specifier)) {
+          unresolved.push({ source, specifier, kind, line });
+        }
+      }
+    }
+
+    return { references, unresolved, external };
+  }
+
+  /**
+   * 收集源文件中的所有模块引用
+   */
+  private collectImports(sourceFile: SourceFile): CollectedImport[] {
+    const imports: CollectedImport[] = [];
+
+    sourceFile.getImportDeclarations().forEach((declaration) => {
+      const namedImports = declaration.getNamedImports();
+      imports.push({
+        specifier: declaration.getModuleSpecifierValue(),
+        kind: 'import',
+        line: declaration.getStartLineNumber(),
+        typeOnly:
+          declaration.isTypeOnly() ||
+          (namedImports.length > 0 &&
+            !declaration.getDefaultImport() &&
+            !declaration.getNamespaceImport() &&
+            namedImports.every((namedImport) => namedImport.isTypeOnly())),
+      });
+    });
+
+    sourceFile.getExportDeclarations().forEach((declaration) => {
+      const specifier = declaration.getModuleSpecifierValue();
+      if (specifier) {
+        imports.push({
+          specifier,
+          kind: 'export',
+          line: declaration.getStartLineNumber(),
+          typeOnly: declaration.isTypeOnly(),
+        });
+      }
+    });
+
+    // 类型位置中的 import('pkg').Type 只引用类型
+    sourceFile.getDescendantsOfKind(SyntaxKind.ImportType).forEach((node) => {
+      const argument = node.getArgument();
+      if (Node.isLiteralTypeNode(argument)) {
+        const literal = argument.getLiteral();
+        if (Node.isStringLiteral(literal)) {
+          imports.push({
+            specifier: literal.getLiteralValue(),
+            kind: 'dynamic-import',
+            line: node.getStartLineNumber(),
+            typeOnly: true,
+          });
+        }
+      }
+    });
+
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.ExternalModuleReference)
+      .forEach((reference) => {
+        const expression = reference.getExpression();
+        if (expression && Node.isStringLiteral(expression)) {
+          imports.push({
+            specifier: expression.getLiteralValue(),
+            kind: 'import-equals',
+            line: reference.getStartLineNumber(),
+            typeOnly: false,
+          });
+        }
+      });
+
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .forEach((call) => {
+        const expression = call.getExpression();
+        let kind: ImportKind | null = null;
+
+        if (expression.getKind() === SyntaxKind.ImportKeyword) {
+          kind = 'dynamic-import';
+        } else if (
+          Node.isIdentifier(expression) &&
+          expression.getText() === 'require'
+        ) {
+          kind = 'require';
+        }
+
+        if (!kind) {
+          return;
+        }
+
+        // 只处理字面量参数，模板拼接等动态路径无法静态解析
+        const [argument] = call.getArguments();
+        if (
+          argument &&
+          (Node.isStringLiteral(argument) ||
+            Node.isNoSubstitutionTemplateLiteral(argument))
+        ) {
+          imports.push({
+            specifier: argument.getLiteralValue(),
+            kind,
+            line: call.getStartLineNumber(),
+            typeOnly: false,
+          });
+        }
+      });
+
+    return imports;
+  }
+
+  /**
+   * 解析模块说明符为绝对文件路径
+   * @returns 解析到的文件路径，外部依赖或无法解析时返回 null
+   */
+  private resolve(specifier: string, containingFile: string): string | null {
+    const cacheKey = `${path.dirname(containingFile)}\0${specifier}`;
+    if (this.resolutionCache.has(cacheKey)) {
+      return this.resolutionCache.get(cacheKey)!;
+    }
+
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      this.compilerOptions,
+      ts.sys
+    );
+
+    let resolved: string | null = null;
+    if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+      resolved = path.normalize(resolvedModule.resolvedFileName);
+    }
+
+    this.resolutionCache.set(cacheKey, resolved);
+    return resolved;
+  }
+
+  /**
+   * 获取裸模块说明符对应的npm包名
+   * @returns 包名，相对路径、路径别名、Node内置模块或带协议的说明符返回 null
+   */
+  private getPackageName(specifier: string): string | null {
+    if (
+      this.isProjectSpecifier(specifier) ||
+      specifier.includes(':') ||
+      NODE_BUILTIN_MODULES.has(specifier.split('/')[0])
+    ) {
+      return null;
+    }
+
+    const segments = specifier.split('/');
+    if (specifier.startsWith('@')) {
+      return segments.length >= 2 ? `${segments[0]}/${segments[1]}` : null;
+    }
+    return segments[0] || null;
+  }
+
+  /**
+   * 判断说明符是否指向项目内部文件（相对路径、绝对路径或tsconfig路径别名）
+   */
+  private isProjectSpecifier(specifier: string): boolean {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return true;
+    }
+
+    const aliases = Object.keys(this.compilerOptions.paths || {});
+    return aliases.some((alias) => {
+      const prefix = alias.replace(/\*$/, '');
+      return alias.endsWith('*')
+        ? specifier.startsWith(prefix)
+        : specifier === alias;
+    });
+  }
+
+  /**
+   * 读取tsconfig中的编译选项（支持extends），并确保JS文件可被解析
+   */
+  private loadCompilerOptions(): ts.CompilerOptions {
+    const defaults: ts.CompilerOptions = {
+      allowJs: true,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    };
+
+    if (!this.tsConfigFilePath) {
+      return defaults;
+    }
+
+    const { config, error } = ts.readConfigFile(
+      this.tsConfigFilePath,
+      ts.sys.readFile
+    );
+    if (error) {
+      return defaults;
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(this.tsConfigFilePath)
+    );
+
+    return {
+      ...defaults,
+      ...parsed.options,
+      allowJs: true,
+    };
+  }
+
+  /**
+   * 查找项目根目录下的tsconfig.json
+   */
+  private findTsConfig(projectPath: string): string | undefined {
+    const tsConfigPath = path.join(projectPath, 'tsconfig.json');
+    return fs.existsSync(tsConfigPath) ? tsConfigPath : undefined;
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
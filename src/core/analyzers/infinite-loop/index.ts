@@ -49,8 +49,10 @@ export class InfiniteLoopAnalyzer {
       '**/build/**',
     ];
 
+    // 指定了文件列表时（增量分析）只加载这些文件
     project.addSourceFilesAtPaths(
-      filePatterns.map((pattern) => path.join(projectPath, pattern))
+      options.filePaths ||
+        filePatterns.map((pattern) => path.join(projectPath, pattern))
     );
 
     // 过滤排除的文件
@@ -151,6 +153,7 @@ export class InfiniteLoopAnalyzer {
  */
 export interface InfiniteLoopAnalysisOptions {
   filePatterns?: string[];
+  filePaths?: string[];
   excludePatterns?: string[];
   maxFiles?: number;
 }
@@ -1,3 +1,5 @@
+import { IIssueFix } from '../../../types/analysis';
+
 /**
  * 循环类型枚举
  */
@@ -130,4 +132,8 @@ export interface PotentialInfiniteLoop {
   risk: LoopRiskLevel;
   code: string;
   suggestion: string;
+  /**
+   * 结构化的自动修复，suggestion 只是文字说明
+   */
+  fix?: IIssueFix;
 }
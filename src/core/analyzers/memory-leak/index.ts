@@ -55,8 +55,10 @@ export class MemoryLeakAnalyzer {
       '**/build/**',
     ];
 
+    // 指定了文件列表时（增量分析）只加载这些文件
     project.addSourceFilesAtPaths(
-      filePatterns.map((pattern) => path.join(projectPath, pattern))
+      options.filePaths ||
+        filePatterns.map((pattern) => path.join(projectPath, pattern))
     );
 
     // 过滤排除的文件
@@ -156,6 +158,7 @@ export class MemoryLeakAnalyzer {
  */
 export interface MemoryLeakAnalysisOptions {
   filePatterns?: string[];
+  filePaths?: string[];
   excludePatterns?: string[];
   maxFiles?: number;
 }
@@ -0,0 +1,336 @@
+import path from 'path';
+import fs from 'fs';
+import micromatch from 'micromatch';
+import {
+  ImportLocation,
+  PackageDependencyReport,
+  PackageDependencySection,
+  ReferencedPackage,
+  UnusedPackage,
+} from '../../types/dependency-types';
+import { ExternalImport, ImportGraphBuilder } from './import-graph-builder';
+import { DependencyAnalysisError } from './dependency-analyzer';
+import { DEFAULT_TEST_PATTERNS } from '../../analyzers/module-usage-analyzer';
+
+/**
+ * package.json 中与依赖检查相关的字段
+ */
+interface IPackageJson {
+  name?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+const DEPENDENCY_SECTIONS: PackageDependencySection[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * 只在开发阶段运行的文件，其中导入 devDependencies 是正常的
+ */
+const DEV_FILE_PATTERNS = [
+  ...DEFAULT_TEST_PATTERNS,
+  '*.config.*',
+  '.*',
+  '.*/**',
+  'scripts/**',
+  '**/*.stories.*',
+];
+
+/**
+ * 项目根目录下按文本扫描包名引用的工具配置文件
+ */
+const CONFIG_FILE_PATTERN =
+  /^(.+\.config\.[cm]?[jt]s|\.[\w-]+rc(\.(json|[cm]?js|ya?ml))?)$/;
+
+/**
+ * npm包依赖分析器
+ * 对比源码和配置文件中引用的包与 package.json 中声明的依赖，
+ * 找出未使用的包、未声明的包以及运行时代码导入的 devDependencies
+ */
+export class NpmDependencyAnalyzer {
+  private readonly basePath: string;
+
+  /**
+   * 创建npm包依赖分析器
+   * @param basePath - 项目根路径
+   */
+  constructor(basePath: string) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  /**
+   * 执行依赖检查
+   * @returns npm包依赖检查结果
+   */
+  async analyze(): Promise<PackageDependencyReport> {
+    const packageJson = this.readPackageJson();
+    const declared = new Map<string, PackageDependencySection[]>();
+    DEPENDENCY_SECTIONS.forEach((section) => {
+      Object.keys(packageJson[section] || {}).forEach((name) => {
+        declared.set(name, [...(declared.get(name) || []), section]);
+      });
+    });
+
+    const imports = new ImportGraphBuilder(this.basePath, {
+      fileExtensions: ['js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'mts', 'cts'],
+    })
+      .build()
+      .external.filter(({ packageName }) => packageName !== packageJson.name);
+
+    const used = new Set(imports.map(({ packageName }) => packageName));
+    this.collectConfigReferences(packageJson, declared).forEach((name) =>
+      used.add(name)
+    );
+    this.collectScriptReferences(packageJson, declared).forEach((name) =>
+      used.add(name)
+    );
+    this.collectImplicitReferences(declared, used).forEach((name) =>
+      used.add(name)
+    );
+
+    return {
+      unused: this.findUnused(declared, used),
+      missing: this.groupByPackage(
+        imports.filter(
+          ({ packageName, typeOnly }) =>
+            !declared.has(packageName) &&
+            !(typeOnly && declared.has(this.getTypesPackage(packageName)))
+        )
+      ),
+      misplaced: this.groupByPackage(
+        imports.filter(({ packageName, typeOnly, source }) => {
+          const sections = declared.get(packageName) || [];
+          return (
+            !typeOnly &&
+            sections.length === 1 &&
+            sections[0] === 'devDependencies' &&
+            !micromatch.isMatch(source, DEV_FILE_PATTERNS, { dot: true })
+          );
+        })
+      ),
+    };
+  }
+
+  /**
+   * 读取项目的 package.json
+   */
+  private readPackageJson(): IPackageJson {
+    const packageJsonPath = path.join(this.basePath, 'package.json');
+    if (!fs.existsSync(packageJsonPath)) {
+      throw new DependencyAnalysisError(
+        `未找到 package.json: ${packageJsonPath}`,
+        'ERR_PACKAGE_JSON_NOT_FOUND'
+      );
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    } catch (error) {
+      throw new DependencyAnalysisError(
+        `无法解析 package.json: ${error instanceof Error ? error.message : String(error)}`,
+        'ERR_PACKAGE_JSON_INVALID'
+      );
+    }
+  }
+
+  /**
+   * 收集配置中以字符串形式引用的包，如 jest 的 preset、eslint 的插件
+   * 扫描根目录下的工具配置文件以及 package.json 中除依赖和脚本外的字段
+   */
+  private collectConfigReferences(
+    packageJson: IPackageJson,
+    declared: Map<string, PackageDependencySection[]>
+  ): string[] {
+    const texts: string[] = [];
+
+    fs.readdirSync(this.basePath)
+      .filter((fileName) => CONFIG_FILE_PATTERN.test(fileName))
+      .forEach((fileName) => {
+        const filePath = path.join(this.basePath, fileName);
+        if (fs.statSync(filePath).isFile()) {
+          texts.push(fs.readFileSync(filePath, 'utf-8'));
+        }
+      });
+
+    // package.json 中与依赖包同名的字段是该工具的配置，如 "jest"、"lint-staged"
+    const references = Object.keys(packageJson).filter((key) =>
+      declared.has(key)
+    );
+    Object.entries(packageJson)
+      .filter(
+        ([key]) =>
+          key !== 'scripts' &&
+          !DEPENDENCY_SECTIONS.includes(key as PackageDependencySection)
+      )
+      .forEach(([, value]) => texts.push(JSON.stringify(value)));
+
+    texts.forEach((text) => {
+      for (const match of text.matchAll(/["'`]([^"'`\s]+)["'`]/g)) {
+        this.getReferenceCandidates(match[1])
+          .filter((name) => declared.has(name))
+          .forEach((name) => references.push(name));
+      }
+    });
+
+    return references;
+  }
+
+  /**
+   * 收集 package.json 脚本中调用的命令所属的包
+   */
+  private collectScriptReferences(
+    packageJson: IPackageJson,
+    declared: Map<string, PackageDependencySection[]>
+  ): string[] {
+    const commands = new Set(
+      Object.values(packageJson.scripts || {}).flatMap((script) =>
+        script.split(/[\s;&|()]+/).filter(Boolean)
+      )
+    );
+
+    return Array.from(declared.keys()).filter((name) =>
+      this.getBinNames(name).some((bin) => commands.has(bin))
+    );
+  }
+
+  /**
+   * 收集不通过导入使用的包：typescript 与 @types 类型包
+   */
+  private collectImplicitReferences(
+    declared: Map<string, PackageDependencySection[]>,
+    used: Set<string>
+  ): string[] {
+    const references: string[] = [];
+    const tsConfigPath = path.join(this.basePath, 'tsconfig.json');
+
+    if (fs.existsSync(tsConfigPath)) {
+      references.push('typescript', '@types/node');
+    }
+
+    // @types/x 为已使用或已声明的包 x 提供类型
+    Array.from(declared.keys())
+      .filter((name) => name.startsWith('@types/'))
+      .forEach((name) => {
+        const hasPackage = [...declared.keys(), ...used].some(
+          (packageName) => this.getTypesPackage(packageName) === name
+        );
+        if (hasPackage) {
+          references.push(name);
+        }
+      });
+
+    return references;
+  }
+
+  /**
+   * 查找声明在 dependencies 或 devDependencies 中但未被使用的包
+   */
+  private findUnused(
+    declared: Map<string, PackageDependencySection[]>,
+    used: Set<string>
+  ): UnusedPackage[] {
+    const unused: UnusedPackage[] = [];
+
+    declared.forEach((sections, name) => {
+      if (used.has(name)) {
+        return;
+      }
+
+      sections
+        .filter(
+          (section) =>
+            section === 'dependencies' || section === 'devDependencies'
+        )
+        .forEach((section) => unused.push({ name, section }));
+    });
+
+    return unused.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 按包名合并引用位置
+   */
+  private groupByPackage(imports: ExternalImport[]): ReferencedPackage[] {
+    const packages = new Map<string, ImportLocation[]>();
+
+    imports.forEach(({ packageName, source, line, specifier }) => {
+      if (!packages.has(packageName)) {
+        packages.set(packageName, []);
+      }
+      packages.get(packageName)!.push({ file: source, line, specifier });
+    });
+
+    return Array.from(packages.entries())
+      .map(([name, locations]) => ({ name, imports: locations }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 配置中的字符串可能对应的包名
+   * 例如 'ts-jest'、'plugin:prettier/recommended' 对应 eslint-plugin-prettier，'@scope' 对应 @scope/eslint-plugin
+   */
+  private getReferenceCandidates(value: string): string[] {
+    const name = value.replace(/^plugin:/, '');
+    const segments = name.split('/');
+    const packageName = name.startsWith('@')
+      ? segments.slice(0, 2).join('/')
+      : segments[0];
+
+    if (name.startsWith('@')) {
+      return [
+        packageName,
+        `${segments[0]}/eslint-plugin`,
+        `${segments[0]}/eslint-config`,
+      ];
+    }
+
+    return [
+      packageName,
+      `eslint-plugin-${packageName}`,
+      `eslint-config-${packageName}`,
+    ];
+  }
+
+  /**
+   * 获取包提供的命令名，未安装时使用包名
+   */
+  private getBinNames(name: string): string[] {
+    const unscopedName = name.split('/').pop()!;
+
+    try {
+      const { bin } = JSON.parse(
+        fs.readFileSync(
+          path.join(this.basePath, 'node_modules', name, 'package.json'),
+          'utf-8'
+        )
+      );
+      if (typeof bin === 'string') {
+        return [unscopedName];
+      }
+      if (bin && typeof bin === 'object') {
+        return Object.keys(bin);
+      }
+    } catch {
+      // 包未安装，按包名匹配
+    }
+
+    return [unscopedName];
+  }
+
+  /**
+   * 获取包对应的 @types 包名，如 '@scope/pkg' 对应 '@types/scope__pkg'
+   */
+  private getTypesPackage(name: string): string {
+    return name.startsWith('@')
+      ? `@types/${name.slice(1).replace('/', '__')}`
+      : `@types/${name}`;
+  }
+}
@@ -0,0 +1,299 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { IAnalysisIssue, IBaselineEntry } from '../types/analysis';
+import { fingerprintIssues, IFingerprintedIssue } from './issue-fingerprint';
+
+/**
+ * 默认的基线文件名（位于项目根目录，应提交到版本库）
+ */
+export const DEFAULT_BASELINE_FILE = '.code-insight-baseline.json';
+
+/**
+ * 基线文件格式版本
+ */
+const BASELINE_VERSION = 1;
+
+/**
+ * 基线文件内容
+ */
+export interface IBaselineFile {
+  version: number;
+  entries: IBaselineEntry[];
+}
+
+/**
+ * 问题与基线的比较结果
+ */
+export interface IBaselineComparison {
+  /**
+   * 不在基线中的新问题
+   */
+  active: IFingerprintedIssue[];
+
+  /**
+   * 与基线匹配的已知问题
+   */
+  baselined: IFingerprintedIssue[];
+
+  /**
+   * 不再匹配任何问题的基线条目
+   */
+  stale: IBaselineEntry[];
+
+  /**
+   * 规则本次未被检查、因而无法判断是否失效的基线条目
+   */
+  unchecked: IBaselineEntry[];
+}
+
+/**
+ * 基线更新结果
+ */
+export interface IBaselineUpdateResult {
+  /**
+   * 写入的基线
+   */
+  baseline: IBaselineFile;
+
+  /**
+   * 新加入的条目数
+   */
+  added: number;
+
+  /**
+   * 移除的失效条目数
+   */
+  removed: number;
+}
+
+/**
+ * 基线错误
+ */
+export class BaselineError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'BaselineError';
+  }
+}
+
+/**
+ * 基线管理器
+ * 把现有问题的指纹记录到基线文件中，之后的分析只报告不在基线中的新问题
+ */
+export class BaselineManager {
+  private readonly projectRoot: string;
+  private readonly filePath: string;
+
+  /**
+   * @param projectRoot 项目根路径
+   * @param filePath 基线文件路径，相对路径基于项目根目录
+   */
+  constructor(projectRoot: string, filePath: string = DEFAULT_BASELINE_FILE) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.filePath = path.resolve(this.projectRoot, filePath);
+  }
+
+  /**
+   * 基线文件的绝对路径
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * 基线文件是否存在
+   */
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /**
+   * 读取基线文件
+   * @returns 基线内容，文件不存在时返回 null
+   */
+  async load(): Promise<IBaselineFile | null> {
+    if (!this.exists()) {
+      return null;
+    }
+
+    let content: unknown;
+    try {
+      content = await fs.readJson(this.filePath);
+    } catch (error) {
+      throw new BaselineError(
+        `无法解析基线文件 ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        'ERR_BASELINE_INVALID'
+      );
+    }
+
+    const baseline = content as Partial<IBaselineFile>;
+    if (!baseline || !Array.isArray(baseline.entries)) {
+      throw new BaselineError(
+        `基线文件格式无效: ${this.filePath}`,
+        'ERR_BASELINE_INVALID'
+      );
+    }
+    if (baseline.version !== BASELINE_VERSION) {
+      throw new BaselineError(
+        `不支持的基线文件版本 ${baseline.version}，请使用 baseline create --force 重新生成`,
+        'ERR_BASELINE_VERSION'
+      );
+    }
+
+    return { version: baseline.version, entries: baseline.entries };
+  }
+
+  /**
+   * 用当前问题创建基线
+   * @param issues 当前全部问题
+   * @param force 基线已存在时是否覆盖
+   */
+  async create(
+    issues: IAnalysisIssue[],
+    force = false
+  ): Promise<IBaselineFile> {
+    if (this.exists() && !force) {
+      throw new BaselineError(
+        `基线文件已存在: ${this.filePath}，使用 baseline update 更新或 --force 覆盖`,
+        'ERR_BASELINE_EXISTS'
+      );
+    }
+
+    const baseline = this.toBaseline(this.fingerprint(issues));
+    await this.write(baseline);
+    return baseline;
+  }
+
+  /**
+   * 更新基线：移除失效条目，并（除非只清理）加入当前的新问题；
+   * 规则本次未被检查的条目原样保留
+   * @param issues 当前全部问题
+   * @param pruneOnly 只移除失效条目，不加入新问题
+   * @param isChecked 判断规则本次是否被检查
+   */
+  async update(
+    issues: IAnalysisIssue[],
+    pruneOnly = false,
+    isChecked: (rule: string) => boolean = () => true
+  ): Promise<IBaselineUpdateResult> {
+    const existing = await this.load();
+    if (!existing) {
+      throw new BaselineError(
+        `基线文件不存在: ${this.filePath}，请先运行 baseline create`,
+        'ERR_BASELINE_NOT_FOUND'
+      );
+    }
+
+    const { active, baselined, stale, unchecked } = this.compare(
+      existing,
+      issues,
+      isChecked
+    );
+    const baseline = this.toBaseline(
+      pruneOnly ? baselined : [...baselined, ...active],
+      unchecked
+    );
+    await this.write(baseline);
+
+    return {
+      baseline,
+      added: pruneOnly ? 0 : active.length,
+      removed: stale.length,
+    };
+  }
+
+  /**
+   * 比较问题与基线，未匹配的条目只有在其规则本次被检查时才视为失效
+   * @param baseline 基线内容
+   * @param issues 当前全部问题
+   * @param isChecked 判断规则本次是否被检查
+   */
+  compare(
+    baseline: IBaselineFile,
+    issues: IAnalysisIssue[],
+    isChecked: (rule: string) => boolean = () => true
+  ): IBaselineComparison {
+    const known = new Set(baseline.entries.map((entry) => entry.fingerprint));
+    const matched = new Set<string>();
+    const active: IFingerprintedIssue[] = [];
+    const baselined: IFingerprintedIssue[] = [];
+
+    this.fingerprint(issues).forEach((issue) => {
+      if (known.has(issue.fingerprint)) {
+        matched.add(issue.fingerprint);
+        baselined.push(issue);
+      } else {
+        active.push(issue);
+      }
+    });
+
+    const unmatched = baseline.entries.filter(
+      (entry) => !matched.has(entry.fingerprint)
+    );
+
+    return {
+      active,
+      baselined,
+      stale: unmatched.filter((entry) => isChecked(entry.ruleId)),
+      unchecked: unmatched.filter((entry) => !isChecked(entry.ruleId)),
+    };
+  }
+
+  /**
+   * 计算问题指纹
+   */
+  fingerprint(issues: IAnalysisIssue[]): IFingerprintedIssue[] {
+    return fingerprintIssues(issues, this.projectRoot);
+  }
+
+  /**
+   * 生成基线内容，条目按文件、规则和指纹排序，便于在版本库中比较差异
+   * @param issues 要记录的问题
+   * @param kept 原样保留的已有条目
+   */
+  private toBaseline(
+    issues: IFingerprintedIssue[],
+    kept: IBaselineEntry[] = []
+  ): IBaselineFile {
+    const entries = issues
+      .map(
+        (issue): IBaselineEntry => ({
+          fingerprint: issue.fingerprint,
+          ruleId: issue.ruleId,
+          filePath: this.toRelative(issue.location?.filePath || ''),
+          ...(issue.symbol ? { symbol: issue.symbol } : {}),
+          message: issue.message,
+        })
+      )
+      .concat(kept)
+      .sort(
+        (a, b) =>
+          a.filePath.localeCompare(b.filePath) ||
+          a.ruleId.localeCompare(b.ruleId) ||
+          a.fingerprint.localeCompare(b.fingerprint)
+      );
+
+    return { version: BASELINE_VERSION, entries };
+  }
+
+  /**
+   * 写入基线文件
+   */
+  private async write(baseline: IBaselineFile): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+    await fs.writeFile(this.filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    if (!path.isAbsolute(filePath)) {
+      return filePath;
+    }
+    return path.relative(this.projectRoot, filePath).split(path.sep).join('/');
+  }
+}
@@ -1,6 +1,13 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import {
+  CouplingConfig,
+  DependencyRulesConfig,
+} from '../../types/dependency-types';
+import { GraphExportOptions } from '../report/dependency-graph-exporter';
+import { ChartRenderer } from '../../types/report';
+import { SymlinkPolicy } from '../file-discovery-service';
 
 /**
  * 配置错误类
@@ -32,12 +39,17 @@ export interface BaseConfig {
   /**
    * 输出格式
    */
-  outputFormat?: 'console' | 'html' | 'json' | 'markdown';
+  outputFormat?: 'console' | 'html' | 'json' | 'markdown' | 'sarif';
 
   /**
    * 输出路径
    */
   outputPath?: string;
+
+  /**
+   * HTML报告中图表的渲染方式，默认为 svg
+   */
+  chartRenderer?: ChartRenderer;
 }
 
 /**
@@ -49,21 +61,107 @@ export interface AnalysisConfig extends BaseConfig {
    */
   includeExtensions?: string[];
 
+  /**
+   * 要包含的文件glob模式（相对项目根目录），未指定时包含所有 includeExtensions 扩展名的文件
+   */
+  include?: string[];
+
   /**
    * 要排除的文件或目录模式
    */
   exclude?: string[];
 
+  /**
+   * 文件发现配置，.code-insightignore 以及跳过 node_modules、.git 目录始终生效
+   */
+  files?: {
+    /**
+     * 是否遵循 .gitignore，默认为 true
+     */
+    gitignore?: boolean;
+
+    /**
+     * 符号链接的处理方式：skip 跳过，follow 跟随链接，默认为 skip
+     */
+    symlinks?: SymlinkPolicy;
+
+    /**
+     * 文件大小上限（字节），0 表示不限制，默认为 1 MiB
+     */
+    maxFileSize?: number;
+
+    /**
+     * 是否跳过生成的文件和压缩文件，默认为 true
+     */
+    skipGenerated?: boolean;
+  };
+
   /**
    * 分析配置文件
    */
   profiles?: Record<string, string[]>;
 
   /**
-   * 自定义规则
+   * 自定义规则设置：规则名称对应 true/false、合并到规则配置的对象，
+   * 或带 selector 的声明式规则（见 IDeclarativeRuleConfig）
    */
   customRules?: Record<string, any>;
 
+  /**
+   * 自定义规则目录（相对项目根目录），默认为 .code-insight-rules
+   */
+  rulesDir?: string;
+
+  /**
+   * 提供自定义规则的 npm 包
+   */
+  rulePackages?: string[];
+
+  /**
+   * 达到该严重性的问题会使 analyze 命令以非零状态退出
+   */
+  failOn?: 'info' | 'warning' | 'error' | 'none';
+
+  /**
+   * 基线文件路径（相对项目根目录），默认为 .code-insight-baseline.json
+   */
+  baseline?: string;
+
+  /**
+   * 度量阈值配置
+   */
+  metrics?: {
+    /**
+     * 函数复杂度阈值，超过任一阈值的函数会被报告
+     */
+    complexity?: {
+      /**
+       * 圈复杂度阈值，默认为 10
+       */
+      threshold?: number;
+
+      /**
+       * 认知复杂度阈值，默认为 15
+       */
+      cognitiveThreshold?: number;
+
+      /**
+       * 最大嵌套深度，默认为 4
+       */
+      maxNestingDepth?: number;
+
+      /**
+       * 最大参数个数，默认为 5
+       */
+      maxParameters?: number;
+
+      /**
+       * 函数最大代码行数（不含空行和注释），默认为 50
+       */
+      maxLines?: number;
+    };
+  };
+
   /**
    * 依赖分析配置
    */
@@ -79,9 +177,59 @@ export interface AnalysisConfig extends BaseConfig {
     includeTypeImports?: boolean;
 
     /**
-     * 是否生成依赖图可视化
+     * 是否导出依赖图文件
      */
     generateGraph?: boolean;
+
+    /**
+     * 依赖图导出选项（格式、子图和目录折叠），未指定格式时导出 DOT
+     */
+    graph?: Partial<GraphExportOptions>;
+
+    /**
+     * 架构约束：层间允许/禁止的依赖、模块公开入口和各层禁用的npm包
+     */
+    rules?: DependencyRulesConfig;
+
+    /**
+     * 模块耦合度量：按目录聚合的 Ca、Ce、不稳定性、抽象程度和与主序列的距离
+     */
+    coupling?: CouplingConfig;
+  };
+
+  /**
+   * 覆盖率分析配置
+   */
+  coverage?: {
+    /**
+     * 覆盖率报告路径（Istanbul coverage-final.json/coverage-summary.json、lcov.info、V8 JSON 文件或目录），按顺序使用第一个存在的报告
+     */
+    reportPaths?: string[];
+
+    /**
+     * 是否在分析前运行测试命令生成覆盖率报告
+     */
+    runTests?: boolean;
+
+    /**
+     * 生成覆盖率报告的测试命令，默认为 npm test -- --coverage
+     */
+    testCommand?: string;
+  };
+
+  /**
+   * 未使用代码分析配置
+   */
+  unusedCode?: {
+    /**
+     * 额外的入口文件glob模式，入口文件的全部导出视为已使用
+     */
+    entries?: string[];
+
+    /**
+     * 测试文件glob模式，只被测试文件使用的导出会单独报告
+     */
+    testPatterns?: string[];
   };
 
   /**
@@ -138,11 +286,13 @@ export class ConfigManager {
     exclude: ['node_modules', 'dist', 'build', '.git'],
     analyzers: {
       dependency: true,
+      complexity: false,
       coverage: false,
       'method-dup': false,
       'unused-code': false,
       'memory-leak': false,
       'infinite-loop': false,
+      rules: false,
     },
     outputFormat: 'console',
     outputPath: './code-insight-report',
@@ -168,6 +318,7 @@ export class ConfigManager {
    * 项目配置文件的可能名称
    */
   private readonly projectConfigNames = [
+    '.code-insightrc.json',
     '.insightrc',
     '.insightrc.json',
     '.insightrc.js',
@@ -202,10 +353,23 @@ export class ConfigManager {
   /**
    * 加载项目配置
    * @param projectPath 项目路径
+   * @param configFile 显式指定的配置文件，未指定时在项目目录中查找
    * @returns 配置对象
    */
-  public loadProjectConfig(projectPath: string): AnalysisConfig {
-    const configPath = this.findProjectConfig(projectPath);
+  public loadProjectConfig(
+    projectPath: string,
+    configFile?: string
+  ): AnalysisConfig {
+    const configPath = configFile
+      ? path.resolve(configFile)
+      : this.findProjectConfig(projectPath);
+
+    if (configPath && !fs.existsSync(configPath)) {
+      throw new ConfigError(
+        `配置文件不存在: ${configPath}`,
+        'ERR_CONFIG_NOT_FOUND'
+      );
+    }
 
     if (configPath) {
       try {
@@ -0,0 +1,655 @@
+import fs from 'fs';
+import path from 'path';
+import micromatch from 'micromatch';
+import { AnalysisConfig } from './config/config-manager';
+
+/**
+ * 符号链接的处理方式：skip 跳过，follow 跟随链接（检测循环链接）
+ */
+export type SymlinkPolicy = 'skip' | 'follow';
+
+/**
+ * 文件被跳过的原因
+ */
+export type FileSkipReason =
+  | 'default'
+  | 'gitignore'
+  | 'code-insightignore'
+  | 'exclude'
+  | 'include'
+  | 'symlink'
+  | 'too-large'
+  | 'generated'
+  | 'minified'
+  | 'unreadable';
+
+/**
+ * 各跳过原因在 --explain-files 输出中的名称
+ */
+export const FILE_SKIP_REASON_LABELS: Record<FileSkipReason, string> = {
+  default: '默认跳过的目录',
+  gitignore: '.gitignore',
+  'code-insightignore': '.code-insightignore',
+  exclude: 'exclude',
+  include: '不匹配 include',
+  symlink: '符号链接',
+  'too-large': '超过文件大小上限',
+  generated: '生成的文件',
+  minified: '压缩文件',
+  unreadable: '无法读取',
+};
+
+/**
+ * 文件发现选项
+ */
+export interface IFileDiscoveryOptions {
+  /**
+   * 要包含的文件glob模式（相对项目根目录），指定后只保留匹配其中之一的文件
+   */
+  include?: string[];
+
+  /**
+   * 要排除的glob模式或文件/目录名称
+   */
+  exclude?: string[];
+
+  /**
+   * 要查找的文件扩展名（不含点），默认为 ts、tsx、js、jsx
+   */
+  extensions?: string[];
+
+  /**
+   * 是否遵循 .gitignore，默认为 true
+   */
+  gitignore?: boolean;
+
+  /**
+   * 符号链接的处理方式，默认为 skip
+   */
+  symlinks?: SymlinkPolicy;
+
+  /**
+   * 文件大小上限（字节），超过的文件被跳过，0 表示不限制，默认为 1 MiB
+   */
+  maxFileSize?: number;
+
+  /**
+   * 是否跳过生成的文件和压缩文件，默认为 true
+   */
+  skipGenerated?: boolean;
+}
+
+/**
+ * 发现的文件
+ */
+export interface IDiscoveredFile {
+  /**
+   * 绝对路径
+   */
+  path: string;
+
+  /**
+   * 相对项目根目录的路径，使用 / 分隔
+   */
+  relativePath: string;
+
+  /**
+   * 文件大小（字节）
+   */
+  size: number;
+
+  /**
+   * 最后修改时间
+   */
+  lastModified: Date;
+}
+
+/**
+ * 被跳过的文件或目录
+ */
+export interface ISkippedFile {
+  /**
+   * 相对项目根目录的路径，使用 / 分隔
+   */
+  relativePath: string;
+
+  /**
+   * 是否为目录，目录被跳过时其中的文件不再单独列出
+   */
+  directory: boolean;
+
+  /**
+   * 跳过原因
+   */
+  reason: FileSkipReason;
+
+  /**
+   * 具体说明，如匹配的忽略规则及其所在文件和行号
+   */
+  detail: string;
+}
+
+/**
+ * 文件发现结果
+ */
+export interface IFileDiscoveryResult {
+  /**
+   * 按相对路径排序的待分析文件
+   */
+  files: IDiscoveredFile[];
+
+  /**
+   * 按相对路径排序的被跳过的文件和目录
+   */
+  skipped: ISkippedFile[];
+}
+
+/**
+ * 文件发现错误
+ */
+export class FileDiscoveryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'FileDiscoveryError';
+  }
+}
+
+/**
+ * 忽略文件中的一条规则
+ */
+interface IIgnoreRule {
+  /**
+   * 忽略文件所在目录（相对项目根目录），根目录为空字符串
+   */
+  base: string;
+
+  /**
+   * 转换后的glob模式，相对 base
+   */
+  glob: string;
+
+  /**
+   * 以 ! 开头的规则重新包含之前被忽略的路径
+   */
+  negated: boolean;
+
+  /**
+   * 以 / 结尾的规则只匹配目录
+   */
+  directoryOnly: boolean;
+
+  /**
+   * 规则来源，如 src/.gitignore:3
+   */
+  source: string;
+
+  /**
+   * 原始规则
+   */
+  pattern: string;
+
+  /**
+   * 匹配时记录的跳过原因
+   */
+  reason: 'gitignore' | 'code-insightignore';
+}
+
+/**
+ * 始终跳过的目录
+ */
+const ALWAYS_IGNORED = ['node_modules', '.git'];
+
+const DEFAULT_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx'];
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * 忽略文件及其对应的跳过原因
+ */
+const IGNORE_FILES: Array<{
+  name: string;
+  reason: IIgnoreRule['reason'];
+}> = [
+  { name: '.gitignore', reason: 'gitignore' },
+  { name: '.code-insightignore', reason: 'code-insightignore' },
+];
+
+/**
+ * 压缩或打包产物的文件名
+ */
+const MINIFIED_NAME_PATTERN = /[.-]min\.[cm]?js$|\.bundle\.[cm]?js$/i;
+
+/**
+ * 生成文件头部的常见标记
+ */
+const GENERATED_MARKER_PATTERN =
+  /@generated|do not edit|auto-?generated|code generated by|automatically generated/i;
+
+/**
+ * 检测生成文件和压缩文件时读取的文件头长度
+ */
+const SAMPLE_SIZE = 16 * 1024;
+
+/**
+ * 文件发现服务
+ * 为所有分析器统一查找待分析的源文件：遵循 .gitignore 和 .code-insightignore（支持子目录中的忽略文件），
+ * 应用配置中的 include/exclude、符号链接策略和文件大小上限，并跳过生成的文件和压缩文件。
+ * 每个被跳过的文件或目录都记录了原因，供 --explain-files 输出
+ */
+export class FileDiscoveryService {
+  private readonly projectRoot: string;
+  private readonly include: string[];
+  private readonly exclude: string[];
+  private readonly extensions: Set<string>;
+  private readonly gitignore: boolean;
+  private readonly symlinks: SymlinkPolicy;
+  private readonly maxFileSize: number;
+  private readonly skipGenerated: boolean;
+
+  /**
+   * @param projectRoot 项目根目录
+   * @param options 文件发现选项
+   * @throws {FileDiscoveryError} 选项无效时抛出
+   */
+  constructor(projectRoot: string, options: IFileDiscoveryOptions = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.include = options.include || [];
+    this.exclude = options.exclude || [];
+    this.extensions = new Set(
+      (options.extensions || DEFAULT_EXTENSIONS).map((extension) =>
+        extension.replace(/^\./, '').toLowerCase()
+      )
+    );
+    this.gitignore = options.gitignore !== false;
+    this.symlinks = options.symlinks || 'skip';
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.skipGenerated = options.skipGenerated !== false;
+
+    if (!['skip', 'follow'].includes(this.symlinks)) {
+      throw new FileDiscoveryError(
+        `不支持的符号链接策略: ${this.symlinks}，可选值: skip, follow`,
+        'ERR_INVALID_OPTIONS'
+      );
+    }
+    if (!(this.maxFileSize >= 0)) {
+      throw new FileDiscoveryError(
+        `文件大小上限必须是非负数: ${options.maxFileSize}`,
+        'ERR_INVALID_OPTIONS'
+      );
+    }
+  }
+
+  /**
+   * 按项目配置创建文件发现服务
+   * @param projectRoot 项目根目录
+   * @param config 项目分析配置
+   * @param extraExclude 额外的排除模式，如命令行的 --ignore
+   */
+  static fromConfig(
+    projectRoot: string,
+    config?: AnalysisConfig,
+    extraExclude: string[] = []
+  ): FileDiscoveryService {
+    return new FileDiscoveryService(projectRoot, {
+      ...config?.files,
+      include: config?.include,
+      exclude: [...(config?.exclude || []), ...extraExclude],
+      extensions: config?.includeExtensions,
+    });
+  }
+
+  /**
+   * 查找项目中的待分析文件
+   * @returns 待分析文件和被跳过的文件
+   * @throws {FileDiscoveryError} 项目根目录不存在或不是目录时抛出
+   */
+  async discover(): Promise<IFileDiscoveryResult> {
+    const stats = await fs.promises.stat(this.projectRoot).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+      throw new FileDiscoveryError(
+        `项目路径不存在或不是目录: ${this.projectRoot}`,
+        'ERR_PATH_NOT_FOUND'
+      );
+    }
+
+    const result: IFileDiscoveryResult = { files: [], skipped: [] };
+    await this.walk(
+      this.projectRoot,
+      '',
+      [],
+      new Set([await fs.promises.realpath(this.projectRoot)]),
+      result
+    );
+
+    const byPath = (a: { relativePath: string }, b: { relativePath: string }) =>
+      a.relativePath.localeCompare(b.relativePath);
+    result.files.sort(byPath);
+    result.skipped.sort(byPath);
+    return result;
+  }
+
+  /**
+   * 递归遍历目录
+   * @param directory 目录的绝对路径
+   * @param relativeDirectory 目录相对项目根目录的路径
+   * @param inheritedRules 上级目录中的忽略规则
+   * @param visited 已进入的目录的真实路径，用于检测循环链接
+   */
+  private async walk(
+    directory: string,
+    relativeDirectory: string,
+    inheritedRules: IIgnoreRule[],
+    visited: Set<string>,
+    result: IFileDiscoveryResult
+  ): Promise<void> {
+    const rules = [
+      ...inheritedRules,
+      ...(await this.readIgnoreRules(directory, relativeDirectory)),
+    ];
+    const entries = await fs.promises.readdir(directory, {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      const relativePath = relativeDirectory
+        ? `${relativeDirectory}/${entry.name}`
+        : entry.name;
+
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        const target = await fs.promises.stat(fullPath).catch(() => null);
+        isDirectory = Boolean(target?.isDirectory());
+        isFile = Boolean(target?.isFile());
+        if (!isDirectory && !this.isCandidate(entry.name)) {
+          continue;
+        }
+        if (this.symlinks === 'skip') {
+          result.skipped.push({
+            relativePath,
+            directory: isDirectory,
+            reason: 'symlink',
+            detail: '符号链接（symlinks 为 skip）',
+          });
+          continue;
+        }
+        if (!target) {
+          result.skipped.push({
+            relativePath,
+            directory: false,
+            reason: 'symlink',
+            detail: '链接目标不存在',
+          });
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        const skip = this.checkDirectory(entry.name, relativePath, rules);
+        if (skip) {
+          result.skipped.push({ relativePath, directory: true, ...skip });
+          continue;
+        }
+        const realPath = await fs.promises.realpath(fullPath);
+        if (visited.has(realPath)) {
+          result.skipped.push({
+            relativePath,
+            directory: true,
+            reason: 'symlink',
+            detail: `循环链接，指向已遍历的目录 ${path.relative(this.projectRoot, realPath) || '.'}`,
+          });
+          continue;
+        }
+        await this.walk(
+          fullPath,
+          relativePath,
+          rules,
+          new Set([...visited, realPath]),
+          result
+        );
+      } else if (isFile && this.isCandidate(entry.name)) {
+        const skip = await this.checkFile(fullPath, relativePath, rules);
+        if ('reason' in skip) {
+          result.skipped.push({ relativePath, directory: false, ...skip });
+        } else {
+          result.files.push({ path: fullPath, relativePath, ...skip });
+        }
+      }
+    }
+  }
+
+  /**
+   * 检查目录是否被跳过
+   */
+  private checkDirectory(
+    name: string,
+    relativePath: string,
+    rules: IIgnoreRule[]
+  ): Pick<ISkippedFile, 'reason' | 'detail'> | null {
+    if (ALWAYS_IGNORED.includes(name)) {
+      return { reason: 'default', detail: `${name} 目录始终被跳过` };
+    }
+    return (
+      this.matchIgnoreRules(relativePath, true, rules) ||
+      this.matchExclude(relativePath)
+    );
+  }
+
+  /**
+   * 检查文件是否被跳过，未跳过时返回文件大小和修改时间
+   */
+  private async checkFile(
+    fullPath: string,
+    relativePath: string,
+    rules: IIgnoreRule[]
+  ): Promise<
+    | Pick<ISkippedFile, 'reason' | 'detail'>
+    | Pick<IDiscoveredFile, 'size' | 'lastModified'>
+  > {
+    const ignored =
+      this.matchIgnoreRules(relativePath, false, rules) ||
+      this.matchExclude(relativePath);
+    if (ignored) {
+      return ignored;
+    }
+    if (
+      this.include.length > 0 &&
+      !micromatch.isMatch(relativePath, this.include, { dot: true })
+    ) {
+      return {
+        reason: 'include',
+        detail: `不匹配 include 中的任何模式: ${this.include.join(', ')}`,
+      };
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(fullPath);
+    } catch (error) {
+      return { reason: 'unreadable', detail: (error as Error).message };
+    }
+    if (this.maxFileSize > 0 && stats.size > this.maxFileSize) {
+      return {
+        reason: 'too-large',
+        detail: `${stats.size} 字节，超过上限 ${this.maxFileSize} 字节`,
+      };
+    }
+    if (this.skipGenerated) {
+      const generated = await this.detectGenerated(fullPath);
+      if (generated) {
+        return generated;
+      }
+    }
+
+    return { size: stats.size, lastModified: stats.mtime };
+  }
+
+  /**
+   * 按文件名、头部标记和行长度识别生成的文件和压缩文件
+   */
+  private async detectGenerated(
+    fullPath: string
+  ): Promise<Pick<ISkippedFile, 'reason' | 'detail'> | null> {
+    if (MINIFIED_NAME_PATTERN.test(path.basename(fullPath))) {
+      return { reason: 'minified', detail: '文件名表明是压缩或打包产物' };
+    }
+
+    const sample = await this.readSample(fullPath);
+    const header = sample.split('\n').slice(0, 5).join('\n');
+    const marker = header.match(GENERATED_MARKER_PATTERN);
+    if (marker) {
+      return { reason: 'generated', detail: `文件头包含 "${marker[0]}"` };
+    }
+
+    const lines = sample.split('\n');
+    const averageLength = sample.length / lines.length;
+    if (sample.length >= 1000 && averageLength > 250) {
+      return {
+        reason: 'minified',
+        detail: `平均行长 ${Math.round(averageLength)} 个字符`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 读取文件开头的一段内容
+   */
+  private async readSample(fullPath: string): Promise<string> {
+    const handle = await fs.promises.open(fullPath, 'r');
+    try {
+      const buffer = Buffer.alloc(SAMPLE_SIZE);
+      const { bytesRead } = await handle.read(buffer, 0, SAMPLE_SIZE, 0);
+      return buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 按 gitignore 语义匹配忽略规则，最后一条匹配的规则生效
+   */
+  private matchIgnoreRules(
+    relativePath: string,
+    isDirectory: boolean,
+    rules: IIgnoreRule[]
+  ): Pick<ISkippedFile, 'reason' | 'detail'> | null {
+    const rule = [...rules].reverse().find((candidate) => {
+      if (candidate.directoryOnly && !isDirectory) {
+        return false;
+      }
+      if (candidate.base && !relativePath.startsWith(`${candidate.base}/`)) {
+        return false;
+      }
+      const target = candidate.base
+        ? relativePath.slice(candidate.base.length + 1)
+        : relativePath;
+      return micromatch.isMatch(target, candidate.glob, { dot: true });
+    });
+
+    return rule && !rule.negated
+      ? { reason: rule.reason, detail: `${rule.source}: ${rule.pattern}` }
+      : null;
+  }
+
+  /**
+   * 匹配 exclude：含通配符的模式按glob匹配相对路径，其他模式匹配路径中的任一段或完整路径
+   */
+  private matchExclude(
+    relativePath: string
+  ): Pick<ISkippedFile, 'reason' | 'detail'> | null {
+    const segments = relativePath.split('/');
+    const pattern = this.exclude.find((pattern) =>
+      micromatch.scan(pattern).isGlob
+        ? micromatch.isMatch(relativePath, pattern, { dot: true })
+        : segments.includes(pattern) || relativePath === pattern
+    );
+    return pattern
+      ? { reason: 'exclude', detail: `exclude: ${pattern}` }
+      : null;
+  }
+
+  /**
+   * 读取目录中的 .gitignore 和 .code-insightignore
+   */
+  private async readIgnoreRules(
+    directory: string,
+    relativeDirectory: string
+  ): Promise<IIgnoreRule[]> {
+    const files = IGNORE_FILES.filter(
+      ({ reason }) => reason !== 'gitignore' || this.gitignore
+    );
+    const rules: IIgnoreRule[] = [];
+
+    for (const { name, reason } of files) {
+      const content = await fs.promises
+        .readFile(path.join(directory, name), 'utf8')
+        .catch(() => null);
+      if (content === null) {
+        continue;
+      }
+      const source = relativeDirectory ? `${relativeDirectory}/${name}` : name;
+      content.split(/\r?\n/).forEach((line, index) => {
+        const rule = this.parseIgnoreLine(line);
+        if (rule) {
+          rules.push({
+            ...rule,
+            base: relativeDirectory,
+            source: `${source}:${index + 1}`,
+            pattern: line.trim(),
+            reason,
+          });
+        }
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * 把一行 gitignore 规则转换为glob：不含 / 的规则匹配任意层级，含 / 的规则相对忽略文件所在目录
+   */
+  private parseIgnoreLine(
+    line: string
+  ): Pick<IIgnoreRule, 'glob' | 'negated' | 'directoryOnly'> | null {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith('#')) {
+      return null;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.slice(1);
+    }
+    // \# 和 \! 转义行首的特殊字符
+    pattern = pattern.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) {
+      return null;
+    }
+
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    return {
+      glob: anchored ? pattern : `**/${pattern}`,
+      negated,
+      directoryOnly,
+    };
+  }
+
+  /**
+   * 判断文件扩展名是否在查找范围内
+   */
+  private isCandidate(name: string): boolean {
+    return this.extensions.has(
+      path.extname(name).replace(/^\./, '').toLowerCase()
+    );
+  }
+}
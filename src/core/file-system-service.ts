@@ -1,6 +1,10 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { Logger } from '../utils/logger';
+import {
+  FileDiscoveryService,
+  IFileDiscoveryOptions,
+} from './file-discovery-service';
 
 /**
  * 文件信息接口
@@ -14,23 +18,56 @@ export interface IFileInfo {
   lastModified: Date;
 }
 
+/**
+ * 文件系统服务扫描的代码文件扩展名
+ */
+const CODE_EXTENSIONS = [
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'java',
+  'c',
+  'cpp',
+  'cs',
+  'go',
+  'py',
+  'rb',
+  'php',
+  'html',
+  'css',
+  'scss',
+  'less',
+  'json',
+  'xml',
+  'yaml',
+  'yml',
+];
+
 /**
  * 文件系统服务
- * 处理文件系统访问
+ * 处理文件系统访问，目录扫描由文件发现服务完成
  */
 export class FileSystemService {
   private logger: Logger;
   private fileCache: Map<string, IFileInfo>;
   private projectRoot: string;
+  private readonly discoveryOptions: Omit<IFileDiscoveryOptions, 'extensions'>;
 
-  constructor() {
+  /**
+   * @param discoveryOptions 文件发现选项（include/exclude、忽略文件、符号链接策略等）
+   */
+  constructor(
+    discoveryOptions: Omit<IFileDiscoveryOptions, 'extensions'> = {}
+  ) {
     this.logger = new Logger();
     this.fileCache = new Map();
     this.projectRoot = '';
+    this.discoveryOptions = discoveryOptions;
   }
 
   /**
-   * 扫描目录
+   * 扫描目录中的代码文件
    * @param dirPath 目录路径
    * @returns 文件信息数组
    */
@@ -39,92 +76,35 @@ export class FileSystemService {
     this.logger.debug(`扫描目录: ${this.projectRoot}`);
 
     try {
-      // 确保目录存在
-      const stats = await fs.stat(this.projectRoot);
-      if (!stats.isDirectory()) {
-        throw new Error(`${this.projectRoot} 不是一个有效的目录`);
-      }
+      const { files } = await new FileDiscoveryService(this.projectRoot, {
+        ...this.discoveryOptions,
+        extensions: CODE_EXTENSIONS,
+      }).discover();
 
       // 清空缓存
       this.fileCache.clear();
 
-      // 递归扫描目录
-      const files = await this.scanRecursive(this.projectRoot);
+      const results = files.map((file) => {
+        const fileInfo: IFileInfo = {
+          path: file.path,
+          relativePath: path.relative(this.projectRoot, file.path),
+          size: file.size,
+          extension: path.extname(file.path).toLowerCase(),
+          isDirectory: false,
+          lastModified: file.lastModified,
+        };
+        this.fileCache.set(file.path, fileInfo);
+        return fileInfo;
+      });
 
-      this.logger.debug(`扫描完成，共找到 ${files.length} 个文件`);
-      return files;
+      this.logger.debug(`扫描完成，共找到 ${results.length} 个文件`);
+      return results;
     } catch (error) {
       this.logger.error(`扫描目录失败 ${this.projectRoot}:`, error);
       throw error;
     }
   }
 
-  /**
-   * 递归扫描目录
-   */
-  private async scanRecursive(
-    currentPath: string,
-    results: IFileInfo[] = []
-  ): Promise<IFileInfo[]> {
-    const entries = await fs.readdir(currentPath, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = path.join(currentPath, entry.name);
-
-      // 忽略node_modules和隐藏目录
-      if (
-        entry.name === 'node_modules' ||
-        entry.name.startsWith('.') ||
-        entry.name === 'dist' ||
-        entry.name === 'build'
-      ) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        // 递归扫描子目录
-        const fileInfo: IFileInfo = {
-          path: fullPath,
-          relativePath: path.relative(this.projectRoot, fullPath),
-          size: 0,
-          extension: '',
-          isDirectory: true,
-          lastModified: new Date(),
-        };
-
-        this.fileCache.set(fullPath, fileInfo);
-        results.push(fileInfo);
-
-        await this.scanRecursive(fullPath, results);
-      } else {
-        // 处理文件
-        try {
-          const stats = await fs.stat(fullPath);
-          const extension = path.extname(entry.name).toLowerCase();
-
-          // 只关注代码文件
-          if (this.isCodeFile(extension)) {
-            const fileInfo: IFileInfo = {
-              path: fullPath,
-              relativePath: path.relative(this.projectRoot, fullPath),
-              size: stats.size,
-              extension,
-              isDirectory: false,
-              lastModified: stats.mtime,
-            };
-
-            this.fileCache.set(fullPath, fileInfo);
-            results.push(fileInfo);
-          }
-        } catch (error) {
-          this.logger.debug(`无法读取文件信息 ${fullPath}:`, error);
-        }
-      }
-    }
-
-    return results;
-  }
-
   /**
    * 读取文件内容
    * @param filePath 文件路径
@@ -179,29 +159,6 @@ export class FileSystemService {
    * 判断是否是代码文件
    */
   private isCodeFile(extension: string): boolean {
-    const codeExtensions = [
-      '.ts',
-      '.tsx',
-      '.js',
-      '.jsx',
-      '.java',
-      '.c',
-      '.cpp',
-      '.cs',
-      '.go',
-      '.py',
-      '.rb',
-      '.php',
-      '.html',
-      '.css',
-      '.scss',
-      '.less',
-      '.json',
-      '.xml',
-      '.yaml',
-      '.yml',
-    ];
-
-    return codeExtensions.includes(extension);
+    return CODE_EXTENSIONS.includes(extension.replace(/^\./, ''));
   }
 }
@@ -0,0 +1,48 @@
+import { Node } from 'ts-morph';
+import { ITextEdit } from '../../types/analysis';
+
+/**
+ * 删除节点；节点独占若干行时连同这些行（含 JSDoc 注释和行尾换行符）一起删除
+ * @param node 要删除的节点
+ */
+export function removeNode(node: Node): ITextEdit {
+  const text = node.getSourceFile().getFullText();
+  let start = node.getStart(true);
+  let end = node.getEnd();
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  const rest = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+  if (/^[ \t]*$/.test(text.slice(lineStart, start)) && /^[ \t]*$/.test(rest)) {
+    start = lineStart;
+    end = lineEnd === -1 ? text.length : lineEnd + 1;
+  }
+
+  return { start, end, text: '' };
+}
+
+/**
+ * 从逗号分隔的列表（导入说明符、变量声明等）中删除一项。
+ * 同一列表中被删除的各项生成的编辑互不重叠，可以任意组合应用
+ * @param items 列表中的全部项
+ * @param index 要删除的项
+ * @param isRemoved 判断某一项是否也会被删除；调用方负责在全部项都被删除时改为删除整个列表
+ */
+export function removeListItem(
+  items: Node[],
+  index: number,
+  isRemoved: (index: number) => boolean
+): ITextEdit {
+  const trailing = items
+    .slice(index + 1)
+    .every((_, offset) => isRemoved(index + 1 + offset));
+
+  // 末尾连续被删除的项连同前面的逗号一起删除，其他项连同后面的逗号一起删除
+  return trailing
+    ? { start: items[index - 1].getEnd(), end: items[index].getEnd(), text: '' }
+    : {
+        start: items[index].getStart(),
+        end: items[index + 1].getStart(),
+        text: '',
+      };
+}
@@ -0,0 +1,393 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project, ts } from 'ts-morph';
+import { IAnalysisIssue, ITextEdit } from '../../types/analysis';
+import { createUnifiedDiff } from './unified-diff';
+
+/**
+ * 未能应用的修复
+ */
+export interface ISkippedFix {
+  /**
+   * 问题
+   */
+  issue: IAnalysisIssue;
+
+  /**
+   * 原因
+   */
+  reason: string;
+}
+
+/**
+ * 单个文件的修复结果
+ */
+export interface IFileFixResult {
+  /**
+   * 文件路径（相对项目根目录）
+   */
+  filePath: string;
+
+  /**
+   * 已应用修复的问题
+   */
+  applied: IAnalysisIssue[];
+
+  /**
+   * 未能应用修复的问题
+   */
+  skipped: ISkippedFix[];
+
+  /**
+   * 修复前后的统一格式差异
+   */
+  diff: string;
+}
+
+/**
+ * 修复结果
+ */
+export interface IFixResult {
+  /**
+   * 按文件路径排序的各文件修复结果
+   */
+  files: IFileFixResult[];
+
+  /**
+   * 已应用修复的问题
+   */
+  applied: IAnalysisIssue[];
+
+  /**
+   * 未能应用修复的问题
+   */
+  skipped: ISkippedFix[];
+}
+
+/**
+ * 修复选项
+ */
+export interface IFixOptions {
+  /**
+   * 只计算修复结果和差异，不写入文件
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * 自动修复引擎
+ * 把问题附带的文本编辑应用到源文件：同一文件中与已接受的编辑重叠的修复会被跳过，
+ * 被编辑的行按项目的缩进风格重新格式化，修复后的文件重新解析，
+ * 引入新的语法错误时放弃整个文件的修复；每个文件要么全部写入，要么保持不变
+ */
+export class FixEngine {
+  private readonly projectRoot: string;
+
+  /**
+   * @param projectRoot 项目根路径，问题中的相对路径从这里解析
+   */
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * 应用问题附带的修复，没有修复的问题会被忽略
+   * @param issues 问题列表
+   * @param options 修复选项
+   */
+  async fix(
+    issues: IAnalysisIssue[],
+    options: IFixOptions = {}
+  ): Promise<IFixResult> {
+    const byFile = new Map<string, IAnalysisIssue[]>();
+    issues
+      .filter((issue) => issue.fix && issue.location?.filePath)
+      .forEach((issue) => {
+        const filePath = issue.location!.filePath;
+        byFile.set(filePath, [...(byFile.get(filePath) || []), issue]);
+      });
+
+    const files: IFileFixResult[] = [];
+    for (const filePath of [...byFile.keys()].sort()) {
+      files.push(
+        await this.fixFile(filePath, byFile.get(filePath)!, !!options.dryRun)
+      );
+    }
+
+    return {
+      files,
+      applied: files.flatMap((file) => file.applied),
+      skipped: files.flatMap((file) => file.skipped),
+    };
+  }
+
+  /**
+   * 修复单个文件
+   */
+  private async fixFile(
+    filePath: string,
+    issues: IAnalysisIssue[],
+    dryRun: boolean
+  ): Promise<IFileFixResult> {
+    const absolutePath = path.resolve(this.projectRoot, filePath);
+    const rejectAll = (reason: string): IFileFixResult => ({
+      filePath,
+      applied: [],
+      skipped: issues.map((issue) => ({ issue, reason })),
+      diff: '',
+    });
+
+    let original: string;
+    try {
+      original = await fs.promises.readFile(absolutePath, 'utf-8');
+    } catch (error) {
+      return rejectAll(`无法读取文件: ${this.describe(error)}`);
+    }
+
+    // 分析时的偏移量不含 BOM
+    const bom = original.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const content = original.slice(bom.length);
+    const { edits, applied, skipped } = this.selectEdits(content, issues);
+    if (applied.length === 0) {
+      return { filePath, applied, skipped, diff: '' };
+    }
+
+    const { text, ranges } = this.applyEdits(content, edits);
+    const output = this.formatRanges(absolutePath, text, ranges);
+    if (
+      this.countSyntaxErrors(absolutePath, output) >
+      this.countSyntaxErrors(absolutePath, content)
+    ) {
+      return rejectAll('修复后的代码存在语法错误，已放弃对该文件的修复');
+    }
+
+    if (!dryRun) {
+      try {
+        await this.writeAtomically(absolutePath, bom + output);
+      } catch (error) {
+        return rejectAll(`写入文件失败: ${this.describe(error)}`);
+      }
+    }
+
+    return {
+      filePath,
+      applied,
+      skipped,
+      diff: createUnifiedDiff(
+        `a/${filePath}`,
+        `b/${filePath}`,
+        original,
+        bom + output
+      ),
+    };
+  }
+
+  /**
+   * 按编辑位置依次接受修复，一个问题的编辑要么全部接受，要么全部跳过；
+   * 与已接受的编辑完全相同的编辑只应用一次
+   */
+  private selectEdits(
+    content: string,
+    issues: IAnalysisIssue[]
+  ): {
+    edits: ITextEdit[];
+    applied: IAnalysisIssue[];
+    skipped: ISkippedFix[];
+  } {
+    const edits: ITextEdit[] = [];
+    const applied: IAnalysisIssue[] = [];
+    const skipped: ISkippedFix[] = [];
+    const firstStart = (issue: IAnalysisIssue) =>
+      Math.min(...issue.fix!.edits.map((edit) => edit.start));
+
+    [...issues]
+      .sort((a, b) => firstStart(a) - firstStart(b))
+      .forEach((issue) => {
+        const issueEdits = issue.fix!.edits;
+        if (
+          issueEdits.length === 0 ||
+          issueEdits.some((edit) => !this.isValidEdit(edit, content.length))
+        ) {
+          skipped.push({ issue, reason: '修复编辑超出文件范围' });
+          return;
+        }
+
+        const fresh = issueEdits.filter(
+          (edit) => !edits.some((accepted) => this.isSameEdit(accepted, edit))
+        );
+        const conflicts = fresh.some(
+          (edit, index) =>
+            edits.some((accepted) => this.overlaps(accepted, edit)) ||
+            fresh.slice(index + 1).some((other) => this.overlaps(other, edit))
+        );
+        if (conflicts) {
+          skipped.push({ issue, reason: '与其他修复重叠' });
+          return;
+        }
+
+        edits.push(...fresh);
+        applied.push(issue);
+      });
+
+    return { edits, applied, skipped };
+  }
+
+  private isValidEdit(edit: ITextEdit, length: number): boolean {
+    return (
+      Number.isInteger(edit.start) &&
+      Number.isInteger(edit.end) &&
+      edit.start >= 0 &&
+      edit.start <= edit.end &&
+      edit.end <= length &&
+      typeof edit.text === 'string'
+    );
+  }
+
+  private isSameEdit(a: ITextEdit, b: ITextEdit): boolean {
+    return a.start === b.start && a.end === b.end && a.text === b.text;
+  }
+
+  /**
+   * 判断两个编辑是否重叠；在同一位置插入的两个编辑顺序不确定，也视为重叠
+   */
+  private overlaps(a: ITextEdit, b: ITextEdit): boolean {
+    return (
+      (a.start < b.end && b.start < a.end) ||
+      (a.start === b.start && (a.start === a.end || b.start === b.end))
+    );
+  }
+
+  /**
+   * 应用编辑，返回新文本和被编辑的范围（新文本中的偏移量）
+   */
+  private applyEdits(
+    content: string,
+    edits: ITextEdit[]
+  ): { text: string; ranges: Array<[number, number]> } {
+    const sorted = [...edits].sort((a, b) => a.start - b.start);
+    const parts: string[] = [];
+    const ranges: Array<[number, number]> = [];
+    let position = 0;
+    let length = 0;
+
+    sorted.forEach((edit) => {
+      const unchanged = content.slice(position, edit.start);
+      parts.push(unchanged, edit.text);
+      length += unchanged.length;
+      ranges.push([length, length + edit.text.length]);
+      length += edit.text.length;
+      position = edit.end;
+    });
+    parts.push(content.slice(position));
+
+    return { text: parts.join(''), ranges };
+  }
+
+  /**
+   * 用 TypeScript 格式化程序重新格式化被编辑的行，只调整空白
+   */
+  private formatRanges(
+    filePath: string,
+    text: string,
+    ranges: Array<[number, number]>
+  ): string {
+    // 扩展到整行并合并相邻的范围；删除整行后留下的行首空范围不需要格式化
+    const lines: Array<[number, number]> = [];
+    ranges
+      .filter(
+        ([start, end]) => start < end || (start > 0 && text[start - 1] !== '\n')
+      )
+      .forEach(([start, end]) => {
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const newline = text.indexOf('\n', end);
+        const lineEnd = newline === -1 ? text.length : newline;
+        const last = lines[lines.length - 1];
+        if (last && lineStart <= last[1] + 1) {
+          last[1] = Math.max(last[1], lineEnd);
+        } else {
+          lines.push([lineStart, lineEnd]);
+        }
+      });
+
+    const project = new Project({
+      useInMemoryFileSystem: true,
+      compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+    });
+    const sourceFile = project.createSourceFile(
+      `/${path.basename(filePath)}`,
+      text
+    );
+    const service = project.getLanguageService().compilerObject;
+    const settings: ts.FormatCodeSettings = {
+      ...ts.getDefaultFormatCodeSettings(text.includes('\r\n') ? '\r\n' : '\n'),
+      ...this.detectIndentation(text),
+    };
+
+    const changes = lines
+      .flatMap(([start, end]) =>
+        service.getFormattingEditsForRange(
+          sourceFile.getFilePath(),
+          start,
+          end,
+          settings
+        )
+      )
+      .sort((a, b) => b.span.start - a.span.start);
+
+    return changes.reduce(
+      (result, change) =>
+        result.slice(0, change.span.start) +
+        change.newText +
+        result.slice(change.span.start + change.span.length),
+      text
+    );
+  }
+
+  /**
+   * 根据文件中已有的缩进推断缩进设置
+   */
+  private detectIndentation(text: string): ts.FormatCodeSettings {
+    const indents = text
+      .split('\n')
+      .filter((line) => !/^\s*\*/.test(line))
+      .map((line) => /^([ \t]+)\S/.exec(line)?.[1])
+      .filter((indent): indent is string => !!indent);
+
+    if (indents.some((indent) => indent.startsWith('\t'))) {
+      return { convertTabsToSpaces: false, indentSize: 4, tabSize: 4 };
+    }
+    const size = Math.min(...indents.map((indent) => indent.length), 8);
+    const indentSize = indents.length > 0 ? size : 2;
+    return { convertTabsToSpaces: true, indentSize, tabSize: indentSize };
+  }
+
+  /**
+   * 统计语法错误数量
+   */
+  private countSyntaxErrors(filePath: string, text: string): number {
+    const { diagnostics } = ts.transpileModule(text, {
+      fileName: filePath,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve },
+    });
+    return diagnostics?.length || 0;
+  }
+
+  /**
+   * 先写入同目录下的临时文件再重命名，避免留下写了一半的文件
+   */
+  private async writeAtomically(filePath: string, text: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.fix.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, text, 'utf-8');
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
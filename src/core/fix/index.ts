@@ -0,0 +1,3 @@
+export * from './fix-engine';
+export * from './edit-builders';
+export * from './unified-diff';
@@ -0,0 +1,158 @@
+/**
+ * 行级差异操作：' ' 为未变的行，'-' 为删除的行，'+' 为新增的行
+ */
+interface IDiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * 超过该规模（旧行数 × 新行数）的变更区域不再计算最长公共子序列，整体视为替换
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 生成两段文本的统一格式差异（unified diff）
+ * @param fromFile 旧文件名，如 a/src/index.ts
+ * @param toFile 新文件名，如 b/src/index.ts
+ * @param oldText 旧文本
+ * @param newText 新文本
+ * @param context 每个变更块前后保留的上下文行数
+ * @returns 差异文本，没有行变更时返回空字符串
+ */
+export function createUnifiedDiff(
+  fromFile: string,
+  toFile: string,
+  oldText: string,
+  newText: string,
+  context = 3
+): string {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // 相邻变更的上下文重叠时合并为一个变更块
+  const hunks: Array<[number, number]> = [];
+  changed.forEach((index) => {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  hunks.forEach(([start, end]) => {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const count = (items: IDiffLine[], type: '-' | '+') =>
+      items.filter((line) => line.type === ' ' || line.type === type).length;
+    const header = (type: '-' | '+') => {
+      const length = count(hunk, type);
+      // 空范围的起始行号为其前一行
+      const first = count(before, type) + (length > 0 ? 1 : 0);
+      return `${type}${first},${length}`;
+    };
+
+    output.push(`@@ ${header('-')} ${header('+')} @@`);
+    hunk.forEach((line) => output.push(`${line.type}${line.text}`));
+  });
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * 按行拆分文本，末尾的换行符不产生空行
+ */
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (text.endsWith('\n')) {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * 计算行级差异，先去掉公共的首尾行，再对中间部分求最长公共子序列
+ */
+function diffLines(oldLines: string[], newLines: string[]): IDiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const unchanged = (text: string): IDiffLine => ({ type: ' ', text });
+  return [
+    ...oldLines.slice(0, prefix).map(unchanged),
+    ...diffMiddle(
+      oldLines.slice(prefix, oldLines.length - suffix),
+      newLines.slice(prefix, newLines.length - suffix)
+    ),
+    ...oldLines.slice(oldLines.length - suffix).map(unchanged),
+  ];
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): IDiffLine[] {
+  const removed = (text: string): IDiffLine => ({ type: '-', text });
+  const added = (text: string): IDiffLine => ({ type: '+', text });
+  const rows = oldLines.length;
+  const columns = newLines.length;
+  if (rows * columns === 0 || rows * columns > MAX_LCS_CELLS) {
+    return [...oldLines.map(removed), ...newLines.map(added)];
+  }
+
+  // lengths[i][j] 为 oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: IDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push(removed(oldLines[i++]));
+    } else {
+      result.push(added(newLines[j++]));
+    }
+  }
+  return [
+    ...result,
+    ...oldLines.slice(i).map(removed),
+    ...newLines.slice(j).map(added),
+  ];
+}
@@ -0,0 +1,260 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { IAnalysisIssue, IChangedFile } from '../../types/analysis';
+
+/**
+ * 差异读取错误
+ */
+export class GitDiffError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'GitDiffError';
+  }
+}
+
+/**
+ * 与基准引用的差异
+ */
+export interface IGitDiff {
+  /**
+   * 基准引用与 HEAD 的合并基础提交
+   */
+  baseCommit: string;
+
+  /**
+   * 变更的文件
+   */
+  files: IChangedFile[];
+}
+
+/**
+ * 问题按是否位于变更行划分的结果
+ */
+export interface IChangedLinesSplit {
+  /**
+   * 位于新增或修改行上的问题
+   */
+  changed: IAnalysisIssue[];
+
+  /**
+   * 位于未改动代码上的已有问题
+   */
+  preExisting: IAnalysisIssue[];
+}
+
+/**
+ * 去掉差异路径的引号和 a/、b/ 前缀，/dev/null 返回 null
+ */
+function parseDiffPath(value: string, prefix: string): string | null {
+  let filePath = value.trim();
+  if (filePath.startsWith('"') && filePath.endsWith('"')) {
+    filePath = filePath.slice(1, -1).replace(/\\(["\\])/g, '$1');
+  }
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath;
+}
+
+/**
+ * 解析 git diff --unified=0 的输出，得到每个文件新增或修改的行范围
+ * 删除的文件和只有删除行的文件不包含在结果中
+ * @param diff 差异文本
+ */
+export function parseUnifiedDiff(diff: string): IChangedFile[] {
+  const files: IChangedFile[] = [];
+  let current: IChangedFile | null = null;
+  let renamedFrom: string | undefined;
+
+  diff.split('\n').forEach((line) => {
+    if (line.startsWith('diff --git ')) {
+      current = null;
+      renamedFrom = undefined;
+    } else if (line.startsWith('rename from ')) {
+      renamedFrom = parseDiffPath(line.slice('rename from '.length), '') || '';
+    } else if (line.startsWith('+++ ')) {
+      const filePath = parseDiffPath(line.slice(4), 'b/');
+      current = filePath
+        ? {
+            filePath,
+            ...(renamedFrom ? { previousPath: renamedFrom } : {}),
+            lines: [],
+          }
+        : null;
+      if (current) {
+        files.push(current);
+      }
+    } else if (line.startsWith('@@') && current) {
+      const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      const start = match ? Number(match[1]) : 0;
+      const count = match?.[2] === undefined ? 1 : Number(match[2]);
+      if (match && count > 0) {
+        current.lines.push([start, start + count - 1]);
+      }
+    }
+  });
+
+  return files.filter((file) => file.lines.length > 0);
+}
+
+/**
+ * 将问题划分为位于变更行上的问题和已有问题
+ * 有行号的问题与变更行范围有交集时视为变更；没有行号的文件级问题在文件有变更时视为变更
+ * @param issues 问题列表，路径相对项目根目录
+ * @param files 变更的文件
+ */
+export function splitByChangedLines(
+  issues: IAnalysisIssue[],
+  files: IChangedFile[]
+): IChangedLinesSplit {
+  const ranges = new Map(files.map((file) => [file.filePath, file.lines]));
+  const split: IChangedLinesSplit = { changed: [], preExisting: [] };
+
+  issues.forEach((issue) => {
+    const location = issue.location;
+    const lines = location ? ranges.get(location.filePath) : undefined;
+    const startLine = location?.startLine;
+    const endLine = Math.max(location?.endLine || 0, startLine || 0);
+    const changed =
+      !!lines &&
+      (!startLine ||
+        lines.some(([start, end]) => startLine <= end && endLine >= start));
+
+    (changed ? split.changed : split.preExisting).push(issue);
+  });
+
+  return split;
+}
+
+/**
+ * Git 差异读取器
+ * 读取基准引用（与 HEAD 的合并基础）到工作区之间新增或修改的行，包括未提交的修改、重命名和未跟踪的新文件
+ */
+export class GitDiffReader {
+  private readonly projectRoot: string;
+
+  /**
+   * @param projectRoot 项目根路径
+   */
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * 读取与基准引用的差异
+   * @param since 基准引用，如 origin/main
+   */
+  getDiff(since: string): IGitDiff {
+    if (!since || since.startsWith('-')) {
+      throw new GitDiffError(`无效的基准引用: ${since}`, 'ERR_GIT_REF');
+    }
+
+    const topLevel = this.git(['rev-parse', '--show-toplevel'], () => {
+      throw new GitDiffError(
+        `不是 Git 仓库: ${this.projectRoot}`,
+        'ERR_GIT_NOT_REPOSITORY'
+      );
+    }).trim();
+
+    const baseCommit = this.git(['merge-base', since, 'HEAD'], () => {
+      throw new GitDiffError(
+        `无法找到 ${since} 与 HEAD 的合并基础，请确认该引用存在（CI 中可能需要先 fetch）`,
+        'ERR_GIT_REF'
+      );
+    }).trim();
+
+    const diff = this.git(
+      [
+        '-c',
+        'core.quotePath=false',
+        'diff',
+        '--unified=0',
+        '--find-renames',
+        '--no-color',
+        '--no-ext-diff',
+        '--src-prefix=a/',
+        '--dst-prefix=b/',
+        baseCommit,
+        '--',
+        '.',
+      ],
+      () => {
+        throw new GitDiffError(`读取与 ${since} 的差异失败`, 'ERR_GIT_DIFF');
+      }
+    );
+
+    // 差异中的路径相对仓库根目录，转换为相对项目根目录
+    const toProjectPath = (filePath: string) =>
+      path
+        .relative(this.projectRoot, path.resolve(topLevel, filePath))
+        .split(path.sep)
+        .join('/');
+    const files = parseUnifiedDiff(diff).map((file) => ({
+      ...file,
+      filePath: toProjectPath(file.filePath),
+      ...(file.previousPath
+        ? { previousPath: toProjectPath(file.previousPath) }
+        : {}),
+    }));
+
+    // 未跟踪的新文件整体视为新增
+    this.git(
+      ['ls-files', '--others', '--exclude-standard', '--', '.'],
+      () => ''
+    )
+      .split('\n')
+      .filter(Boolean)
+      .forEach((filePath) => {
+        const lineCount = this.countLines(filePath);
+        if (lineCount > 0) {
+          files.push({
+            filePath,
+            lines: [[1, lineCount]],
+          });
+        }
+      });
+
+    return {
+      baseCommit,
+      files: files.sort((a, b) => a.filePath.localeCompare(b.filePath)),
+    };
+  }
+
+  /**
+   * 统计项目中文件的行数，无法读取时返回 0
+   */
+  private countLines(filePath: string): number {
+    try {
+      const content = fs.readFileSync(
+        path.join(this.projectRoot, filePath),
+        'utf-8'
+      );
+      return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * 在项目目录中执行 git 命令
+   * @param args 参数
+   * @param onError 命令失败时的处理
+   */
+  private git(args: string[], onError: () => string | never): string {
+    try {
+      return execFileSync('git', args, {
+        cwd: this.projectRoot,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch {
+      return onError();
+    }
+  }
+}
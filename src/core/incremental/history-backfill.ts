@@ -0,0 +1,182 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IAnalysisResult } from '../../types/analysis';
+import {
+  createMetricsSnapshot,
+  HistoryError,
+  HistoryStore,
+  IMetricsSnapshot,
+} from './history-store';
+
+/**
+ * 分析检出的提交，返回分析结果和运行的分析器
+ * @param checkoutPath 检出目录中对应项目根目录的路径
+ */
+export type CommitAnalyzer = (
+  checkoutPath: string
+) => Promise<{ result: IAnalysisResult; analyzers: string[] }>;
+
+/**
+ * 回填结果
+ */
+export interface IBackfillResult {
+  /**
+   * 新增的快照
+   */
+  added: IMetricsSnapshot[];
+
+  /**
+   * 已有记录而跳过的提交数
+   */
+  skipped: number;
+
+  /**
+   * 分析失败的提交
+   */
+  failed: Array<{ commit: string; error: string }>;
+}
+
+/**
+ * 历史回填器
+ * 在临时 git worktree 中依次检出过去的提交并分析，把快照追加到历史记录，不影响当前工作区
+ */
+export class HistoryBackfiller {
+  private readonly projectRoot: string;
+
+  /**
+   * @param projectRoot 项目根路径
+   * @param store 历史记录
+   */
+  constructor(
+    projectRoot: string,
+    private readonly store: HistoryStore
+  ) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * 列出 HEAD 第一父提交链上最近修改过项目目录的提交，按时间升序
+   * @param count 提交数量
+   */
+  listCommits(count: number): Array<{ commit: string; timestamp: string }> {
+    return this.git(
+      [
+        'log',
+        '--first-parent',
+        `--max-count=${count}`,
+        '--format=%H %cI',
+        'HEAD',
+        '--',
+        '.',
+      ],
+      this.projectRoot
+    )
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [commit, timestamp] = line.split(' ');
+        return { commit, timestamp: new Date(timestamp).toISOString() };
+      })
+      .reverse();
+  }
+
+  /**
+   * 回填最近的提交，已有记录的提交会被跳过
+   * @param count 回看的提交数量
+   * @param analyze 分析检出的提交
+   * @param onProgress 开始分析每个提交时调用
+   */
+  async backfill(
+    count: number,
+    analyze: CommitAnalyzer,
+    onProgress?: (commit: string, index: number, total: number) => void
+  ): Promise<IBackfillResult> {
+    const prefix = this.git(['rev-parse', '--show-prefix'], this.projectRoot)
+      .trim()
+      .replace(/\/$/, '');
+    const recorded = new Set(
+      (await this.store.load())
+        .filter((snapshot) => snapshot.commit && !snapshot.dirty)
+        .map((snapshot) => snapshot.commit)
+    );
+    const commits = this.listCommits(count);
+    const pending = commits.filter(({ commit }) => !recorded.has(commit));
+    const outcome: IBackfillResult = {
+      added: [],
+      skipped: commits.length - pending.length,
+      failed: [],
+    };
+    if (pending.length === 0) {
+      return outcome;
+    }
+
+    const worktree = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'code-insight-history-')
+    );
+    try {
+      this.git(
+        ['worktree', 'add', '--detach', '--quiet', worktree, pending[0].commit],
+        this.projectRoot
+      );
+
+      for (const [index, { commit, timestamp }] of pending.entries()) {
+        onProgress?.(commit, index, pending.length);
+        try {
+          this.git(['checkout', '--quiet', '--detach', commit], worktree);
+          const { result, analyzers } = await analyze(
+            path.join(worktree, prefix)
+          );
+          const snapshot = createMetricsSnapshot(result, {
+            analyzers,
+            commit,
+            timestamp: new Date(timestamp),
+          });
+          await this.store.append(snapshot);
+          outcome.added.push(snapshot);
+        } catch (error) {
+          if (error instanceof HistoryError) {
+            throw error;
+          }
+          outcome.failed.push({
+            commit,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      try {
+        this.git(['worktree', 'remove', '--force', worktree], this.projectRoot);
+      } catch {
+        // worktree 未创建成功时无需移除
+      }
+      fs.rmSync(worktree, { recursive: true, force: true });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * 执行 git 命令
+   * @param args 参数
+   * @param cwd 工作目录
+   */
+  private git(args: string[], cwd: string): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new HistoryError(
+        `git ${args[0]} 执行失败${stderr ? `: ${stderr}` : ''}`,
+        'ERR_HISTORY_GIT'
+      );
+    }
+  }
+}
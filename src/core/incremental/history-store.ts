@@ -0,0 +1,265 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+
+import { IAnalysisResult, IssueSeverity } from '../../types/analysis';
+import { collectIssues } from '../analysis-result-builder';
+import { getIssueRule } from '../issue-rules';
+
+/**
+ * 历史记录文件名（位于缓存目录中，每行一条 JSON 快照）
+ */
+export const HISTORY_FILE = 'history.jsonl';
+
+/**
+ * 默认的缓存目录名（位于项目根目录）
+ */
+export const DEFAULT_CACHE_DIR = '.code-insight-cache';
+
+/**
+ * 一次分析的度量快照
+ */
+export interface IMetricsSnapshot {
+  /**
+   * 分析时的提交 SHA，不在 Git 仓库中时为空
+   */
+  commit?: string;
+
+  /**
+   * 工作区是否有未提交的修改
+   */
+  dirty?: boolean;
+
+  /**
+   * 分析时间（ISO 8601），回填的快照为提交时间
+   */
+  timestamp: string;
+
+  /**
+   * 运行的分析器
+   */
+  analyzers: string[];
+
+  /**
+   * 被分析的文件数
+   */
+  totalFiles: number;
+
+  /**
+   * 被分析的代码行数
+   */
+  totalLines: number;
+
+  /**
+   * 按严重性统计的问题数（不含被抑制的问题）
+   */
+  issues: Record<IssueSeverity, number> & { total: number };
+
+  /**
+   * 按分析器统计的问题数
+   */
+  issuesByAnalyzer: Record<string, number>;
+
+  /**
+   * 函数复杂度
+   */
+  complexity?: {
+    averageCyclomatic: number;
+    averageCognitive: number;
+    maxCyclomatic: number;
+    complexFunctions: number;
+  };
+
+  /**
+   * 重复代码比例（0-1）
+   */
+  duplicationRate?: number;
+
+  /**
+   * 循环依赖数量
+   */
+  circularDependencies?: number;
+
+  /**
+   * 平均行覆盖率（0-1）
+   */
+  coverage?: number;
+}
+
+/**
+ * 历史记录错误
+ */
+export class HistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'HistoryError';
+  }
+}
+
+/**
+ * 读取项目当前的提交和工作区状态，不在 Git 仓库中时返回 null
+ * 工具自身写入的缓存目录（包括历史记录文件）不计入工作区修改
+ * @param projectRoot 项目根路径
+ * @param cacheDir 缓存目录，默认为项目中的 .code-insight-cache
+ */
+export function readCommitInfo(
+  projectRoot: string,
+  cacheDir: string = path.join(projectRoot, DEFAULT_CACHE_DIR)
+): { commit: string; dirty: boolean } | null {
+  const git = (args: string[]) =>
+    execFileSync('git', args, {
+      cwd: projectRoot,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+
+  const relativeCacheDir = path.relative(
+    path.resolve(projectRoot),
+    path.resolve(cacheDir)
+  );
+  const pathspecs =
+    relativeCacheDir && !relativeCacheDir.startsWith('..')
+      ? ['.', `:(exclude)${relativeCacheDir.split(path.sep).join('/')}`]
+      : ['.'];
+
+  try {
+    return {
+      commit: git(['rev-parse', 'HEAD']).trim(),
+      dirty: git(['status', '--porcelain', '--', ...pathspecs]).trim() !== '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从分析结果生成度量快照
+ * @param result 分析结果
+ * @param meta 快照的提交、时间和运行的分析器
+ */
+export function createMetricsSnapshot(
+  result: IAnalysisResult,
+  meta: {
+    analyzers: string[];
+    commit?: string;
+    dirty?: boolean;
+    timestamp?: Date;
+  }
+): IMetricsSnapshot {
+  const issues = { error: 0, warning: 0, info: 0, total: 0 };
+  const issuesByAnalyzer: Record<string, number> = {};
+  collectIssues(result).forEach((issue) => {
+    const analyzer = getIssueRule(issue.ruleId)?.analyzer || 'rule-engine';
+    issues[issue.severity]++;
+    issues.total++;
+    issuesByAnalyzer[analyzer] = (issuesByAnalyzer[analyzer] || 0) + 1;
+  });
+
+  const snapshot: IMetricsSnapshot = {
+    ...(meta.commit ? { commit: meta.commit } : {}),
+    ...(meta.dirty ? { dirty: true } : {}),
+    timestamp: (meta.timestamp || result.stats.endTime).toISOString(),
+    analyzers: [...meta.analyzers].sort(),
+    totalFiles: result.stats.totalFiles,
+    totalLines: result.stats.totalLines,
+    issues,
+    issuesByAnalyzer,
+  };
+
+  if (result.complexity) {
+    snapshot.complexity = {
+      averageCyclomatic: result.complexity.averageCyclomatic,
+      averageCognitive: result.complexity.averageCognitive,
+      maxCyclomatic: result.complexity.maxCyclomatic,
+      complexFunctions: result.complexity.complexFunctions.length,
+    };
+  }
+  if (result.duplicates) {
+    snapshot.duplicationRate = result.duplicates.totalDuplicationRate;
+  }
+  if (result.dependencies) {
+    snapshot.circularDependencies =
+      result.dependencies.circularDependencies.length;
+  }
+  if (result.coverage && result.coverage.length > 0) {
+    snapshot.coverage =
+      result.coverage.reduce((sum, file) => sum + file.lineCoverage, 0) /
+      result.coverage.length;
+  }
+
+  return snapshot;
+}
+
+/**
+ * 分析历史记录
+ * 每次完成的分析追加一条度量快照到缓存目录中的 history.jsonl
+ */
+export class HistoryStore {
+  private readonly filePath: string;
+
+  /**
+   * @param projectRoot 项目根路径
+   * @param cacheDir 缓存目录，默认为项目中的 .code-insight-cache
+   */
+  constructor(projectRoot: string, cacheDir?: string) {
+    this.filePath = path.join(
+      cacheDir || path.join(projectRoot, DEFAULT_CACHE_DIR),
+      HISTORY_FILE
+    );
+  }
+
+  /**
+   * 历史记录文件路径
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * 读取全部快照，按时间升序排列，跳过无法解析的行
+   */
+  async load(): Promise<IMetricsSnapshot[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const content = await fsPromises.readFile(this.filePath, 'utf-8');
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          const snapshot = JSON.parse(line) as IMetricsSnapshot;
+          return snapshot && typeof snapshot.timestamp === 'string'
+            ? [snapshot]
+            : [];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * 追加快照
+   * @param snapshot 度量快照
+   */
+  async append(snapshot: IMetricsSnapshot): Promise<void> {
+    try {
+      await fsPromises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fsPromises.appendFile(
+        this.filePath,
+        `${JSON.stringify(snapshot)}\n`
+      );
+    } catch (error) {
+      throw new HistoryError(
+        `写入历史记录失败: ${error instanceof Error ? error.message : String(error)}`,
+        'ERR_HISTORY_WRITE'
+      );
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ts } from 'ts-morph';
+import { IAnalysisIssue } from '../types/analysis';
+
+/**
+ * 带指纹的问题条目
+ */
+export interface IFingerprintedIssue extends IAnalysisIssue {
+  /**
+   * 稳定指纹：由规则、文件、所在符号和归一化的源码行计算，代码上下移动时保持不变
+   */
+  fingerprint: string;
+
+  /**
+   * 问题所在的符号，如 'UserService.load'，不在任何命名声明中时为空字符串
+   */
+  symbol: string;
+}
+
+/**
+ * 可以解析出所在符号的源文件扩展名
+ */
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * 已读取的源文件
+ */
+interface ISourceLines {
+  lines: string[];
+  sourceFile: ts.SourceFile | null;
+}
+
+/**
+ * 归一化问题消息，去掉 file:line 形式的位置和独立的数值
+ */
+function normalizeMessage(message: string): string {
+  return message.replace(/:\d+(:\d+)?\b/g, '').replace(/\b\d+(\.\d+)?\b/g, '#');
+}
+
+/**
+ * 获取声明节点的名称，非命名声明返回 null
+ */
+function getDeclarationName(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): string | null {
+  if (ts.isConstructorDeclaration(node)) {
+    return 'constructor';
+  }
+
+  if (
+    ts.isVariableDeclaration(node) &&
+    node.initializer &&
+    (ts.isArrowFunction(node.initializer) ||
+      ts.isFunctionExpression(node.initializer) ||
+      ts.isClassExpression(node.initializer))
+  ) {
+    return node.name.getText(sourceFile);
+  }
+
+  if (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isClassDeclaration(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)) &&
+    node.name
+  ) {
+    return node.name.getText(sourceFile);
+  }
+
+  return null;
+}
+
+/**
+ * 查找覆盖指定行的最内层命名声明，返回以点连接的符号路径
+ */
+function findEnclosingSymbol(sourceFile: ts.SourceFile, line: number): string {
+  const names: string[] = [];
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const visit = (node: ts.Node): void => {
+    if (
+      lineOf(node.getStart(sourceFile)) > line ||
+      lineOf(node.getEnd()) < line
+    ) {
+      return;
+    }
+
+    const name = getDeclarationName(node, sourceFile);
+    if (name) {
+      names.push(name);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return names.join('.');
+}
+
+/**
+ * 问题指纹计算器
+ * 读取问题所在的源码行和所在符号，同一实例内缓存已读取的文件
+ */
+export class IssueFingerprinter {
+  private readonly projectRoot?: string;
+  private readonly files = new Map<string, ISourceLines | null>();
+
+  /**
+   * @param projectRoot 项目根路径，不提供时只根据规则、文件和消息计算指纹
+   */
+  constructor(projectRoot?: string) {
+    this.projectRoot = projectRoot ? path.resolve(projectRoot) : undefined;
+  }
+
+  /**
+   * 为问题计算稳定指纹
+   * 同一文件中规则、符号和源码行都相同的问题按位置排序后追加序号区分
+   * @param issues 问题列表
+   * @returns 带指纹的问题列表，顺序与输入一致
+   */
+  fingerprint(issues: IAnalysisIssue[]): IFingerprintedIssue[] {
+    const parts = issues.map((issue) => this.describe(issue));
+    const keys = parts.map(({ filePath, symbol, snippet }, index) =>
+      [issues[index].ruleId, filePath, symbol, snippet].join('\0')
+    );
+    const position = (issue: IAnalysisIssue) => [
+      issue.location?.startLine || 0,
+      issue.location?.startColumn || 0,
+    ];
+    const order = issues
+      .map((_, index) => index)
+      .sort((a, b) => {
+        const [lineA, columnA] = position(issues[a]);
+        const [lineB, columnB] = position(issues[b]);
+        return (
+          lineA - lineB ||
+          columnA - columnB ||
+          issues[a].message.localeCompare(issues[b].message) ||
+          a - b
+        );
+      });
+    const occurrences = new Map<string, number>();
+    const fingerprints: string[] = [];
+
+    order.forEach((index) => {
+      const occurrence = occurrences.get(keys[index]) || 0;
+      occurrences.set(keys[index], occurrence + 1);
+      fingerprints[index] = crypto
+        .createHash('sha1')
+        .update(`${keys[index]}\0${occurrence}`)
+        .digest('hex')
+        .slice(0, 16);
+    });
+
+    return issues.map((issue, index) => ({
+      ...issue,
+      fingerprint: fingerprints[index],
+      symbol: parts[index].symbol,
+    }));
+  }
+
+  /**
+   * 计算问题的指纹组成：相对路径、所在符号和归一化的源码行
+   * 没有行号或无法读取文件时使用归一化的消息代替源码行
+   */
+  private describe(issue: IAnalysisIssue): {
+    filePath: string;
+    symbol: string;
+    snippet: string;
+  } {
+    const filePath = this.toRelative(issue.location?.filePath || '');
+    const line = issue.location?.startLine;
+    const source = line ? this.read(filePath) : null;
+    const text = source && line ? source.lines[line - 1] : undefined;
+
+    if (!source || !line || text === undefined) {
+      return { filePath, symbol: '', snippet: normalizeMessage(issue.message) };
+    }
+
+    return {
+      filePath,
+      symbol: source.sourceFile
+        ? findEnclosingSymbol(source.sourceFile, line)
+        : '',
+      snippet: text.trim().replace(/\s+/g, ' '),
+    };
+  }
+
+  /**
+   * 读取源文件，结果按路径缓存
+   */
+  private read(filePath: string): ISourceLines | null {
+    if (!this.projectRoot || !filePath) {
+      return null;
+    }
+    if (this.files.has(filePath)) {
+      return this.files.get(filePath)!;
+    }
+
+    let source: ISourceLines | null = null;
+    try {
+      const fullPath = path.resolve(this.projectRoot, filePath);
+      const content = fs.readFileSync(fullPath, 'utf-8');
+      source = {
+        lines: content.split(/\r?\n/),
+        sourceFile: SCRIPT_EXTENSIONS.includes(path.extname(fullPath))
+          ? ts.createSourceFile(fullPath, content, ts.ScriptTarget.Latest, true)
+          : null,
+      };
+    } catch {
+      source = null;
+    }
+
+    this.files.set(filePath, source);
+    return source;
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    if (!this.projectRoot || !path.isAbsolute(filePath)) {
+      return filePath;
+    }
+    return path.relative(this.projectRoot, filePath).split(path.sep).join('/');
+  }
+}
+
+/**
+ * 为问题计算稳定指纹
+ * @param issues 问题列表
+ * @param projectRoot 项目根路径，用于读取问题所在的源码行和符号
+ * @returns 带指纹的问题列表，顺序与输入一致
+ */
+export function fingerprintIssues(
+  issues: IAnalysisIssue[],
+  projectRoot?: string
+): IFingerprintedIssue[] {
+  return new IssueFingerprinter(projectRoot).fingerprint(issues);
+}
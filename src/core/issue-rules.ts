@@ -0,0 +1,320 @@
+import { IssueSeverity } from '../types/analysis';
+import { IRule } from './rules/rule-engine';
+
+/**
+ * 问题规则描述
+ */
+export interface IIssueRule {
+  /**
+   * 稳定的规则标识，与 IAnalysisIssue.ruleId 对应
+   */
+  id: string;
+
+  /**
+   * 规则名称（PascalCase）
+   */
+  name: string;
+
+  /**
+   * 产生该问题的分析器标识，规则引擎中的规则为 'rule-engine'
+   */
+  analyzer: string;
+
+  /**
+   * 规则描述
+   */
+  description: string;
+
+  /**
+   * 默认严重性
+   */
+  defaultSeverity: IssueSeverity;
+
+  /**
+   * 修复建议
+   */
+  help: string;
+}
+
+/**
+ * 内置分析器产生的问题规则
+ */
+export const ANALYZER_ISSUE_RULES: IIssueRule[] = [
+  {
+    id: 'duplicate-code',
+    name: 'DuplicateCode',
+    analyzer: 'method-dup',
+    description: '存在重复的代码块',
+    defaultSeverity: 'warning',
+    help: '将重复逻辑提取为公共函数或模块',
+  },
+  {
+    id: 'unused-import',
+    name: 'UnusedImport',
+    analyzer: 'unused-code',
+    description: '导入的符号未被使用',
+    defaultSeverity: 'info',
+    help: '删除未使用的导入，可使用 --fix 自动删除',
+  },
+  {
+    id: 'unused-variable',
+    name: 'UnusedVariable',
+    analyzer: 'unused-code',
+    description: '声明的变量未被使用',
+    defaultSeverity: 'info',
+    help: '删除未使用的变量，初始值没有副作用时可使用 --fix 自动删除',
+  },
+  {
+    id: 'unused-function',
+    name: 'UnusedFunction',
+    analyzer: 'unused-code',
+    description: '声明的函数未被调用',
+    defaultSeverity: 'info',
+    help: '删除未使用的函数',
+  },
+  {
+    id: 'unused-class',
+    name: 'UnusedClass',
+    analyzer: 'unused-code',
+    description: '声明的类未被使用',
+    defaultSeverity: 'info',
+    help: '删除未使用的类',
+  },
+  {
+    id: 'unused-export',
+    name: 'UnusedExport',
+    analyzer: 'unused-code',
+    description: '导出的符号未被其他模块使用',
+    defaultSeverity: 'info',
+    help: '移除导出或删除该符号',
+  },
+  {
+    id: 'unused-type',
+    name: 'UnusedType',
+    analyzer: 'unused-code',
+    description: '声明的接口或类型别名未被使用',
+    defaultSeverity: 'info',
+    help: '删除未使用的类型声明',
+  },
+  {
+    id: 'test-only-export',
+    name: 'TestOnlyExport',
+    analyzer: 'unused-code',
+    description: '导出的符号只被测试文件使用',
+    defaultSeverity: 'info',
+    help: '确认该符号是否仍被需要，不需要时连同测试一起删除',
+  },
+  {
+    id: 'unused-private-member',
+    name: 'UnusedPrivateMember',
+    analyzer: 'unused-code',
+    description: '类的私有属性、方法或访问器未被使用',
+    defaultSeverity: 'info',
+    help: '删除未使用的私有成员，可使用 --fix 自动删除',
+  },
+  {
+    id: 'type-only-import',
+    name: 'TypeOnlyImport',
+    analyzer: 'unused-code',
+    description: '导入的符号只在类型位置使用',
+    defaultSeverity: 'info',
+    help: '改为 import type，可使用 --fix 自动转换',
+  },
+  {
+    id: 'unused-file',
+    name: 'UnusedFile',
+    analyzer: 'unused-code',
+    description: '文件无法从任何入口文件或测试文件到达',
+    defaultSeverity: 'info',
+    help: '删除该文件，或在 unusedCode.entries 中将其声明为入口',
+  },
+  {
+    id: 'complexity/cyclomatic',
+    name: 'CyclomaticComplexity',
+    analyzer: 'complexity',
+    description: '函数的圈复杂度超过阈值',
+    defaultSeverity: 'warning',
+    help: '减少分支数量，将独立的判断逻辑提取为函数或使用查表代替 switch',
+  },
+  {
+    id: 'complexity/cognitive',
+    name: 'CognitiveComplexity',
+    analyzer: 'complexity',
+    description: '函数的认知复杂度超过阈值',
+    defaultSeverity: 'warning',
+    help: '使用提前返回减少嵌套，并将深层嵌套的逻辑提取为独立函数',
+  },
+  {
+    id: 'complexity/nesting-depth',
+    name: 'NestingDepth',
+    analyzer: 'complexity',
+    description: '函数中控制结构的嵌套深度超过阈值',
+    defaultSeverity: 'warning',
+    help: '使用卫语句或提取函数降低嵌套层级',
+  },
+  {
+    id: 'complexity/parameters',
+    name: 'TooManyParameters',
+    analyzer: 'complexity',
+    description: '函数的参数个数超过阈值',
+    defaultSeverity: 'warning',
+    help: '将相关参数合并为一个选项对象',
+  },
+  {
+    id: 'complexity/function-length',
+    name: 'FunctionLength',
+    analyzer: 'complexity',
+    description: '函数的代码行数超过阈值',
+    defaultSeverity: 'warning',
+    help: '考虑将大函数拆分成更小的函数',
+  },
+  {
+    id: 'circular-dependency',
+    name: 'CircularDependency',
+    analyzer: 'dependencies',
+    description: '模块之间存在循环依赖',
+    defaultSeverity: 'warning',
+    help: '断开建议的导入边，或将共享部分提取到独立模块',
+  },
+  {
+    id: 'unused-dependency',
+    name: 'UnusedDependency',
+    analyzer: 'dependencies',
+    description: 'package.json 中声明的依赖未被使用',
+    defaultSeverity: 'warning',
+    help: '从 package.json 中移除该依赖',
+  },
+  {
+    id: 'missing-dependency',
+    name: 'MissingDependency',
+    analyzer: 'dependencies',
+    description: '代码中使用的包未在 package.json 中声明',
+    defaultSeverity: 'error',
+    help: '将该包添加到 package.json 的依赖中',
+  },
+  {
+    id: 'misplaced-dependency',
+    name: 'MisplacedDependency',
+    analyzer: 'dependencies',
+    description: '运行时代码导入了只声明在 devDependencies 中的包',
+    defaultSeverity: 'warning',
+    help: '将该包移动到 package.json 的 dependencies 中',
+  },
+  {
+    id: 'layer-violation',
+    name: 'LayerViolation',
+    analyzer: 'dependencies',
+    description: '导入违反了 dependency.rules 中的层间依赖约束',
+    defaultSeverity: 'error',
+    help: '通过允许依赖的层间接访问，或调整 dependency.rules 中的分层约束',
+  },
+  {
+    id: 'public-entry-violation',
+    name: 'PublicEntryViolation',
+    analyzer: 'dependencies',
+    description: '模块外的文件绕过公开入口直接导入了模块内部文件',
+    defaultSeverity: 'error',
+    help: '从模块的入口文件（如 index.ts）导入，必要时在入口文件中导出所需内容',
+  },
+  {
+    id: 'banned-package',
+    name: 'BannedPackage',
+    analyzer: 'dependencies',
+    description: '文件所在的层禁止导入该npm包',
+    defaultSeverity: 'error',
+    help: '将使用该包的代码移到允许的层，或调整 dependency.rules.bannedPackages',
+  },
+  {
+    id: 'memory-leak/resource-leak',
+    name: 'ResourceLeak',
+    analyzer: 'memory-leak',
+    description: '创建的资源未被释放',
+    defaultSeverity: 'warning',
+    help: '在使用完毕后关闭或释放资源，例如在 finally 中调用 close()',
+  },
+  {
+    id: 'memory-leak/closure-leak',
+    name: 'ClosureLeak',
+    analyzer: 'memory-leak',
+    description: '闭包长期持有外部变量',
+    defaultSeverity: 'warning',
+    help: '避免在长生命周期的闭包中引用大对象，必要时手动置空引用',
+  },
+  {
+    id: 'memory-leak/event-listener-leak',
+    name: 'EventListenerLeak',
+    analyzer: 'memory-leak',
+    description: '添加的事件监听器未被移除',
+    defaultSeverity: 'warning',
+    help: '在不再需要时调用 removeEventListener 或 off 移除监听器',
+  },
+  {
+    id: 'memory-leak/timer-leak',
+    name: 'TimerLeak',
+    analyzer: 'memory-leak',
+    description: '创建的定时器未被清除',
+    defaultSeverity: 'warning',
+    help: '保存定时器句柄并在适当时机调用 clearTimeout 或 clearInterval',
+  },
+  {
+    id: 'infinite-loop',
+    name: 'InfiniteLoop',
+    analyzer: 'infinite-loop',
+    description: '循环或递归可能无法终止',
+    defaultSeverity: 'warning',
+    help: '确保循环条件会被更新，或提供明确的退出条件',
+  },
+  {
+    id: 'suppression/unused',
+    name: 'UnusedSuppression',
+    analyzer: 'suppression',
+    description: '抑制注释没有抑制任何问题',
+    defaultSeverity: 'info',
+    help: '删除该抑制注释，或修正其中的规则名称',
+  },
+  {
+    id: 'suppression/expired',
+    name: 'ExpiredSuppression',
+    analyzer: 'suppression',
+    description: '抑制注释已超过 until 日期，不再生效',
+    defaultSeverity: 'warning',
+    help: '修复被抑制的问题，或在确认后延长 until 日期',
+  },
+  {
+    id: 'suppression/invalid',
+    name: 'InvalidSuppression',
+    analyzer: 'suppression',
+    description: '抑制注释的 until 日期格式无效，不生效',
+    defaultSeverity: 'warning',
+    help: '使用 YYYY-MM-DD 格式的日期',
+  },
+];
+
+/**
+ * 获取内置问题规则
+ * @param id 规则标识
+ */
+export function getIssueRule(id: string): IIssueRule | undefined {
+  return ANALYZER_ISSUE_RULES.find((rule) => rule.id === id);
+}
+
+/**
+ * 将规则引擎中的规则转换为问题规则描述
+ * @param rule 规则引擎中的规则
+ */
+export function toIssueRule(
+  rule: Pick<IRule, 'name' | 'description'>
+): IIssueRule {
+  return {
+    id: rule.name,
+    name: rule.name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join(''),
+    analyzer: 'rule-engine',
+    description: rule.description,
+    defaultSeverity: 'warning',
+    help: rule.description,
+  };
+}
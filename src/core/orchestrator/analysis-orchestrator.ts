@@ -1,391 +0,0 @@
-import { ConfigManager } from '../config/config-manager';
-import { Logger } from '../../utils/logger';
-import path from 'path';
-
-/**
- * 分析类型枚举
- */
-export enum AnalysisType {
-  COVERAGE = 'coverage',
-  METHOD_DUP = 'method-dup',
-  UNUSED_CODE = 'unused-code',
-  MEMORY_LEAK = 'memory-leak',
-  INFINITE_LOOP = 'infinite-loop',
-  DEPENDENCY = 'dependency',
-}
-
-/**
- * 分析结果类型
- */
-export type AnalysisResult = Record<string, unknown>;
-
-/**
- * 分析协调器
- * 负责组织和调度各种分析任务
- */
-export class AnalysisOrchestrator {
-  private logger: Logger;
-  private configManager: ConfigManager;
-
-  /**
-   * 构造函数
-   */
-  constructor() {
-    this.logger = new Logger('AnalysisOrchestrator');
-    this.configManager = new ConfigManager();
-  }
-
-  /**
-   * 运行增量分析
-   * @param files 要分析的文件列表
-   * @param analyzers 要运行的分析器列表
-   * @returns 分析结果
-   */
-  async runIncremental(
-    files: string[],
-    analyzers: string[]
-  ): Promise<Record<string, AnalysisResult>> {
-    const results: Record<string, AnalysisResult> = {};
-
-    for (const analyzer of analyzers) {
-      try {
-        // 根据分析器类型进行不同的处理
-        switch (analyzer) {
-          case 'dependencies':
-            results.dependencies = await this.runDependencyAnalysis(files);
-            break;
-          case 'method-dup':
-            results['method-dup'] =
-              await this.runMethodDuplicationAnalysis(files);
-            break;
-          case 'unused-code':
-            results['unused-code'] = await this.runUnusedCodeAnalysis(files);
-            break;
-          case 'memory-leak':
-            results['memory-leak'] = await this.runMemoryLeakAnalysis(files);
-            break;
-          case 'infinite-loop':
-            results['infinite-loop'] =
-              await this.runInfiniteLoopAnalysis(files);
-            break;
-          case 'coverage':
-            results.coverage = await this.runCoverageAnalysis(files);
-            break;
-          default:
-            this.logger.warn(`未知的分析器类型: ${analyzer}`);
-        }
-      } catch (error) {
-        this.logger.error(`运行分析器 ${analyzer} 失败:`, error);
-        results[analyzer] = { error: `分析失败: ${(error as Error).message}` };
-      }
-    }
-
-    return results;
-  }
-
-  /**
-   * 运行依赖关系分析
-   */
-  private async runDependencyAnalysis(
-    _files: string[]
-  ): Promise<AnalysisResult> {
-    this.logger.info('开始运行依赖关系分析...');
-
-    // 这里是演示实现，实际应该实例化真正的分析器并调用其方法
-    const mockResult = {
-      stats: {
-        totalFiles: 120,
-        totalDependencies: 350,
-        circularDependencyCount: 5,
-        maxDependencyLevel: 8,
-      },
-      issues: [
-        {
-          type: 'circular-dependency',
-          severity: 'warning',
-          message: '检测到循环依赖',
-          paths: ['src/a.ts -> src/b.ts -> src/c.ts -> src/a.ts'],
-        },
-      ],
-    };
-
-    this.logger.info('依赖关系分析完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行方法重复分析
-   */
-  private async runMethodDuplicationAnalysis(
-    _files: string[]
-  ): Promise<AnalysisResult> {
-    this.logger.info('开始运行方法重复分析...');
-
-    // 模拟结果
-    const mockResult = {
-      duplications: 12,
-      totalMethods: 150,
-      duplicatedMethods: [
-        {
-          similarity: 0.95,
-          locations: [
-            'src/services/file-service.ts:42',
-            'src/utils/file-utils.ts:78',
-          ],
-        },
-      ],
-    };
-
-    this.logger.info('方法重复分析完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行未使用代码分析
-   */
-  private async runUnusedCodeAnalysis(
-    _files: string[]
-  ): Promise<AnalysisResult> {
-    this.logger.info('开始运行未使用代码分析...');
-
-    // 模拟结果
-    const mockResult = {
-      unusedFiles: 5,
-      unusedExports: 23,
-      issues: [
-        {
-          type: 'unused-file',
-          path: 'src/utils/deprecated-helper.ts',
-          message: '文件未被导入或使用',
-        },
-      ],
-    };
-
-    this.logger.info('未使用代码分析完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行内存泄漏分析
-   */
-  private async runMemoryLeakAnalysis(
-    _files: string[]
-  ): Promise<AnalysisResult> {
-    this.logger.info('开始运行内存泄漏检测...');
-
-    // 模拟结果
-    const mockResult = {
-      potentialIssues: 3,
-      issues: [
-        {
-          type: 'memory-leak',
-          severity: 'high',
-          path: 'src/components/DataTable.tsx:56',
-          message: '未清理的事件监听器可能导致内存泄漏',
-        },
-      ],
-    };
-
-    this.logger.info('内存泄漏检测完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行无限循环风险分析
-   */
-  private async runInfiniteLoopAnalysis(
-    _files: string[]
-  ): Promise<AnalysisResult> {
-    this.logger.info('开始运行无限循环风险检测...');
-
-    // 模拟结果
-    const mockResult = {
-      riskLoops: 2,
-      issues: [
-        {
-          type: 'infinite-loop-risk',
-          severity: 'medium',
-          path: 'src/utils/data-processor.ts:128',
-          message: '循环缺少明确的终止条件',
-        },
-      ],
-    };
-
-    this.logger.info('无限循环风险检测完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行代码覆盖率分析
-   */
-  private async runCoverageAnalysis(_files: string[]): Promise<AnalysisResult> {
-    this.logger.info('开始运行代码覆盖率分析...');
-
-    // 模拟结果
-    const mockResult = {
-      coverage: {
-        statements: 76.5,
-        branches: 68.2,
-        functions: 82.1,
-        lines: 75.9,
-      },
-      uncoveredFiles: [
-        {
-          path: 'src/utils/error-handler.ts',
-          statements: 45.2,
-          missing: [28, 42, 56, 78],
-        },
-      ],
-    };
-
-    this.logger.info('代码覆盖率分析完成');
-    return mockResult;
-  }
-
-  /**
-   * 运行TS覆盖率分析
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyzeCoverage(rootPath: string): Promise<boolean> {
-    this.logger.info(`开始分析TS覆盖率: ${rootPath}`);
-
-    try {
-      // 模拟分析过程
-      await this.simulateAnalysis();
-
-      // 如果有真实实现，替换下面的代码
-      this.logger.info('TS覆盖率分析完成');
-      return true;
-    } catch (error) {
-      this.logger.error(`TS覆盖率分析失败: ${error}`);
-      return false;
-    }
-  }
-
-  /**
-   * 运行方法重复检测
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyzeMethodDuplication(rootPath: string): Promise<boolean> {
-    this.logger.info(`开始检测方法重复: ${rootPath}`);
-
-    try {
-      // 模拟分析过程
-      await this.simulateAnalysis();
-
-      // 真实情况下，这里会扫描文件并进行代码分析
-
-      this.logger.info('方法重复检测完成');
-      return true;
-    } catch (error) {
-      this.logger.error(`方法重复检测失败: ${error}`);
-      return false;
-    }
-  }
-
-  /**
-   * 运行未使用代码检测
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyzeUnusedCode(rootPath: string): Promise<boolean> {
-    this.logger.info(`开始检测未使用代码: ${rootPath}`);
-
-    try {
-      // 模拟分析过程
-      await this.simulateAnalysis();
-
-      // 真实情况下，这里会实现静态分析
-
-      this.logger.info('未使用代码检测完成');
-      return true;
-    } catch (error) {
-      this.logger.error(`未使用代码检测失败: ${error}`);
-      return false;
-    }
-  }
-
-  /**
-   * 运行内存泄漏检测
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyzeMemoryLeak(rootPath: string): Promise<boolean> {
-    this.logger.info(`开始检测内存泄漏: ${rootPath}`);
-
-    try {
-      // 模拟分析过程
-      await this.simulateAnalysis();
-
-      // 真实情况下，这里会实现内存泄漏检测的逻辑
-
-      this.logger.info('内存泄漏检测完成');
-      return true;
-    } catch (error) {
-      this.logger.error(`内存泄漏检测失败: ${error}`);
-      return false;
-    }
-  }
-
-  /**
-   * 运行死循环风险检测
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyzeInfiniteLoop(rootPath: string): Promise<boolean> {
-    this.logger.info(`开始检测死循环风险: ${rootPath}`);
-
-    try {
-      // 模拟分析过程
-      await this.simulateAnalysis();
-
-      // 真实情况下，这里会实现死循环检测的逻辑
-
-      this.logger.info('死循环风险检测完成');
-      return true;
-    } catch (error) {
-      this.logger.error(`死循环风险检测失败: ${error}`);
-      return false;
-    }
-  }
-
-  /**
-   * 根据分析类型执行相应的分析
-   * @param analysisType 分析类型
-   * @param rootPath 项目根路径
-   * @returns 分析结果
-   */
-  async analyze(
-    analysisType: AnalysisType,
-    rootPath: string
-  ): Promise<boolean> {
-    this.logger.info(`执行分析: ${analysisType}, 路径: ${rootPath}`);
-
-    switch (analysisType) {
-      case AnalysisType.COVERAGE:
-        return this.analyzeCoverage(rootPath);
-      case AnalysisType.METHOD_DUP:
-        return this.analyzeMethodDuplication(rootPath);
-      case AnalysisType.UNUSED_CODE:
-        return this.analyzeUnusedCode(rootPath);
-      case AnalysisType.MEMORY_LEAK:
-        return this.analyzeMemoryLeak(rootPath);
-      case AnalysisType.INFINITE_LOOP:
-        return this.analyzeInfiniteLoop(rootPath);
-      default:
-        this.logger.error(`未知的分析类型: ${analysisType}`);
-        return false;
-    }
-  }
-
-  /**
-   * 模拟分析过程
-   * @private
-   */
-  private async simulateAnalysis(): Promise<void> {
-    // 模拟分析耗时
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  }
-}
@@ -0,0 +1,731 @@
+import { DependencyAnalysisResult } from '../../types/dependency-types';
+import { DependencyGraphExporter } from './dependency-graph-exporter';
+
+/**
+ * 依赖浏览器中的文件节点
+ */
+export interface ExplorerNode {
+  /**
+   * 相对项目根目录的文件路径
+   */
+  id: string;
+
+  /**
+   * 文件大小（字节）
+   */
+  size: number;
+
+  /**
+   * 依赖层级
+   */
+  level: number;
+
+  /**
+   * 被依赖的次数（扇入）
+   */
+  incoming: number;
+
+  /**
+   * 依赖其他文件的次数（扇出）
+   */
+  outgoing: number;
+
+  /**
+   * 是否处于循环依赖中
+   */
+  inCycle: boolean;
+}
+
+/**
+ * 依赖浏览器中的依赖边，方向为 导入方 -> 被依赖方
+ */
+export interface ExplorerEdge {
+  source: string;
+  target: string;
+
+  /**
+   * 是否属于循环依赖
+   */
+  cycle: boolean;
+
+  /**
+   * 产生该依赖的导入语句
+   */
+  imports: Array<{ line: number; specifier: string }>;
+}
+
+/**
+ * 嵌入到HTML报告中的依赖浏览器数据
+ */
+export interface ExplorerData {
+  nodes: ExplorerNode[];
+  edges: ExplorerEdge[];
+}
+
+/**
+ * 依赖浏览器渲染器
+ * 生成可离线使用的交互式依赖图：数据、样式和脚本全部内联在报告中，不引用任何外部资源
+ */
+export class DependencyExplorerRenderer {
+  private readonly result: DependencyAnalysisResult;
+
+  /**
+   * @param result 依赖分析结果，需要包含 levels 和 counts
+   */
+  constructor(result: DependencyAnalysisResult) {
+    this.result = result;
+  }
+
+  /**
+   * 整理浏览器需要的节点、依赖边和导入语句
+   */
+  buildData(): ExplorerData {
+    const view = new DependencyGraphExporter(this.result).buildView({});
+
+    const importsByEdge = new Map<string, ExplorerEdge['imports']>();
+    (this.result.imports || []).forEach(({ file, target, line, specifier }) => {
+      const key = `${file}\0${target}`;
+      importsByEdge.set(key, [
+        ...(importsByEdge.get(key) || []),
+        { line, specifier },
+      ]);
+    });
+
+    return {
+      nodes: view.nodes.map(
+        ({ id, size, level, incoming, outgoing, inCycle }) => ({
+          id,
+          size,
+          level,
+          incoming,
+          outgoing,
+          inCycle,
+        })
+      ),
+      edges: view.edges.map(({ source, target, cycle }) => ({
+        source,
+        target,
+        cycle,
+        imports: (importsByEdge.get(`${source}\0${target}`) || []).sort(
+          (a, b) => a.line - b.line
+        ),
+      })),
+    };
+  }
+
+  /**
+   * 生成依赖浏览器的HTML片段
+   */
+  render(): string {
+    return `
+    <div class="section dx" id="dep-explorer">
+      <h2>🧭 依赖关系浏览器</h2>
+      <style>${EXPLORER_STYLE}</style>
+      <div class="dx-toolbar">
+        <input class="dx-search" type="search" placeholder="搜索文件..." autocomplete="off">
+        <select class="dx-mode" title="布局">
+          <option value="force">力导向布局</option>
+          <option value="tree">层级布局</option>
+        </select>
+        <select class="dx-group" title="按目录分组">
+          <option value="0">不分组</option>
+          <option value="1">按一级目录分组</option>
+          <option value="2" selected>按二级目录分组</option>
+          <option value="3">按三级目录分组</option>
+          <option value="99">按所在目录分组</option>
+        </select>
+        <label><input type="checkbox" class="dx-cycles"> 仅突出循环依赖</label>
+        <button type="button" class="dx-all">显示全部</button>
+        <button type="button" class="dx-reset">重置视图</button>
+        <span class="dx-status"></span>
+      </div>
+      <ul class="dx-results"></ul>
+      <div class="dx-body">
+        <svg class="dx-canvas" xmlns="http://www.w3.org/2000/svg">
+          <defs>
+            <marker id="dx-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="7" markerHeight="7" orient="auto"><path d="M0,0 L8,4 L0,8 z" fill="#9aa5b1"/></marker>
+            <marker id="dx-arrow-cycle" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="7" markerHeight="7" orient="auto"><path d="M0,0 L8,4 L0,8 z" fill="#d73a49"/></marker>
+          </defs>
+          <g class="dx-viewport"></g>
+        </svg>
+        <aside class="dx-panel"></aside>
+      </div>
+      <script type="application/json" id="dep-explorer-data">${this.serializeData()}</script>
+      <script>${EXPLORER_SCRIPT}</script>
+    </div>`;
+  }
+
+  /**
+   * 序列化浏览器数据，转义后可安全嵌入 script 标签
+   */
+  private serializeData(): string {
+    return JSON.stringify(this.buildData())
+      .replace(/</g, '\\u003c')
+      .replace(/\u2028/g, '\\u2028')
+      .replace(/\u2029/g, '\\u2029');
+  }
+}
+
+const EXPLORER_STYLE = `
+    .dx-toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .dx-toolbar input[type=search] { flex: 1 1 220px; padding: 6px 8px; border: 1px solid #ccc; border-radius: 4px; }
+    .dx-toolbar select, .dx-toolbar button { padding: 5px 8px; border: 1px solid #ccc; border-radius: 4px; background: #fff; cursor: pointer; }
+    .dx-status { color: #666; font-size: 13px; }
+    .dx-results { list-style: none; margin: 0 0 8px; padding: 0; max-height: 180px; overflow: auto; }
+    .dx-results li { padding: 3px 8px; cursor: pointer; font-family: monospace; font-size: 13px; }
+    .dx-results li:hover { background: #f1f8ff; }
+    .dx-body { display: flex; gap: 12px; }
+    .dx-canvas { flex: 1 1 auto; height: 640px; border: 1px solid #ddd; border-radius: 5px; background: #fcfcfd; cursor: grab; user-select: none; }
+    .dx-panel { flex: 0 0 320px; max-height: 640px; overflow: auto; font-size: 13px; }
+    .dx-panel h3 { margin: 0 0 8px; font-size: 14px; word-break: break-all; }
+    .dx-panel table { margin: 8px 0; }
+    .dx-panel th, .dx-panel td { padding: 4px 6px; }
+    .dx-panel ul { margin: 4px 0 12px; padding-left: 18px; }
+    .dx-panel li { margin-bottom: 4px; word-break: break-all; }
+    .dx-panel a { color: #0366d6; cursor: pointer; }
+    .dx-panel .dx-lines { color: #666; font-family: monospace; font-size: 12px; }
+    .dx-panel button { margin: 0 4px 4px 0; padding: 4px 8px; border: 1px solid #ccc; border-radius: 4px; background: #fff; cursor: pointer; }
+    .dx-hint { color: #666; }
+    .dx-edge { stroke: #9aa5b1; stroke-width: 1.2; }
+    .dx-edge.dx-cycle { stroke: #d73a49; stroke-width: 2; }
+    .dx-node circle { stroke: #fff; stroke-width: 1.5; cursor: pointer; }
+    .dx-node.dx-in-cycle circle { stroke: #d73a49; stroke-width: 2.5; }
+    .dx-node.dx-collapsed circle { stroke-dasharray: 3 2; stroke: #555; }
+    .dx-node.dx-match circle { stroke: #f9c513; stroke-width: 4; }
+    .dx-node.dx-selected circle { stroke: #0366d6; stroke-width: 4; }
+    .dx-node text { font-size: 11px; fill: #333; pointer-events: none; }
+    .dx-group rect { fill-opacity: 0.08; stroke-opacity: 0.5; stroke-dasharray: 4 3; }
+    .dx-group text { font-size: 11px; fill: #666; }
+    .dx-dim { opacity: 0.12; }`;
+
+/**
+ * 依赖浏览器的客户端脚本
+ * 不依赖任何第三方库：SVG 绘图、力导向/层级布局、缩放平移和拖拽均为内联实现
+ */
+const EXPLORER_SCRIPT = `
+(function () {
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+  var INITIAL_LIMIT = 200;
+  var root = document.getElementById('dep-explorer');
+  var data = JSON.parse(document.getElementById('dep-explorer-data').textContent);
+  var nodes = data.nodes;
+  var edges = data.edges;
+  var byId = {};
+  nodes.forEach(function (node) {
+    node.deps = [];
+    node.dependents = [];
+    byId[node.id] = node;
+  });
+  edges.forEach(function (edge) {
+    byId[edge.source].deps.push(edge);
+    byId[edge.target].dependents.push(edge);
+  });
+
+  var svg = root.querySelector('.dx-canvas');
+  var viewport = root.querySelector('.dx-viewport');
+  var panel = root.querySelector('.dx-panel');
+  var status = root.querySelector('.dx-status');
+  var search = root.querySelector('.dx-search');
+  var results = root.querySelector('.dx-results');
+  var modeSelect = root.querySelector('.dx-mode');
+  var groupSelect = root.querySelector('.dx-group');
+  var cyclesBox = root.querySelector('.dx-cycles');
+
+  var state = { visible: {}, selected: null, mode: 'force', group: 2, cyclesOnly: false, query: '' };
+  var positions = {};
+  var view = { x: 0, y: 0, k: 1 };
+  var pointer = null;
+  var lastClick = { id: null, time: 0 };
+
+  function svgEl(tag, attrs, text) {
+    var element = document.createElementNS(SVG_NS, tag);
+    Object.keys(attrs).forEach(function (key) { element.setAttribute(key, attrs[key]); });
+    if (text !== undefined) element.textContent = text;
+    return element;
+  }
+
+  function htmlEl(tag, className, text) {
+    var element = document.createElement(tag);
+    if (className) element.className = className;
+    if (text !== undefined) element.textContent = text;
+    return element;
+  }
+
+  function basename(id) {
+    var parts = id.split('/');
+    return parts[parts.length - 1];
+  }
+
+  function directoryOf(id) {
+    var parts = id.split('/').slice(0, -1);
+    return parts.length ? parts.join('/') : '.';
+  }
+
+  function groupOf(id) {
+    if (!state.group) return '';
+    var parts = id.split('/').slice(0, -1).slice(0, state.group);
+    return parts.length ? parts.join('/') : '.';
+  }
+
+  function colorOf(group) {
+    if (!group) return '#6a8caf';
+    var hash = 0;
+    for (var i = 0; i < group.length; i++) hash = (hash * 31 + group.charCodeAt(i)) % 360;
+    return 'hsl(' + hash + ', 55%, 52%)';
+  }
+
+  function radiusOf(node) {
+    return Math.min(18, 5 + Math.sqrt(node.incoming) * 2);
+  }
+
+  function visibleNodes() {
+    return nodes.filter(function (node) { return state.visible[node.id]; });
+  }
+
+  function visibleEdges() {
+    return edges.filter(function (edge) { return state.visible[edge.source] && state.visible[edge.target]; });
+  }
+
+  function initialVisible() {
+    state.visible = {};
+    var chosen = nodes.length <= INITIAL_LIMIT
+      ? nodes
+      : nodes.slice().sort(function (a, b) {
+          return (b.inCycle - a.inCycle) || (b.incoming + b.outgoing - a.incoming - a.outgoing);
+        }).slice(0, INITIAL_LIMIT);
+    chosen.forEach(function (node) { state.visible[node.id] = true; });
+  }
+
+  function show(ids, anchor) {
+    ids.forEach(function (id) {
+      if (state.visible[id]) return;
+      state.visible[id] = true;
+      if (anchor && positions[anchor] && !positions[id]) {
+        positions[id] = {
+          x: positions[anchor].x + (Math.random() - 0.5) * 80,
+          y: positions[anchor].y + (Math.random() - 0.5) * 80
+        };
+      }
+    });
+  }
+
+  function layoutForce(iterations) {
+    var list = visibleNodes();
+    var links = visibleEdges();
+    list.forEach(function (node, index) {
+      if (positions[node.id]) return;
+      var angle = index * 2.4;
+      var distance = 12 * Math.sqrt(index + 1);
+      positions[node.id] = { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance };
+    });
+    var steps = iterations || Math.max(30, Math.min(300, Math.floor(60000 / (list.length + 1))));
+    for (var step = 0; step < steps; step++) {
+      var limit = 1 + 30 * (1 - step / steps);
+      var force = {};
+      list.forEach(function (node) { force[node.id] = { x: 0, y: 0 }; });
+      for (var i = 0; i < list.length; i++) {
+        var a = positions[list[i].id];
+        for (var j = i + 1; j < list.length; j++) {
+          var b = positions[list[j].id];
+          var dx = a.x - b.x;
+          var dy = a.y - b.y;
+          var d2 = dx * dx + dy * dy || 0.01;
+          if (d2 > 250000) continue;
+          var repulse = 1500 / d2;
+          force[list[i].id].x += dx * repulse;
+          force[list[i].id].y += dy * repulse;
+          force[list[j].id].x -= dx * repulse;
+          force[list[j].id].y -= dy * repulse;
+        }
+      }
+      links.forEach(function (edge) {
+        var from = positions[edge.source];
+        var to = positions[edge.target];
+        var dx = to.x - from.x;
+        var dy = to.y - from.y;
+        var distance = Math.sqrt(dx * dx + dy * dy) || 1;
+        var pull = (distance - 90) * 0.04 / distance;
+        force[edge.source].x += dx * pull;
+        force[edge.source].y += dy * pull;
+        force[edge.target].x -= dx * pull;
+        force[edge.target].y -= dy * pull;
+      });
+      if (state.group) {
+        var centers = {};
+        list.forEach(function (node) {
+          var group = groupOf(node.id);
+          var center = centers[group] || (centers[group] = { x: 0, y: 0, count: 0 });
+          center.x += positions[node.id].x;
+          center.y += positions[node.id].y;
+          center.count++;
+        });
+        list.forEach(function (node) {
+          var center = centers[groupOf(node.id)];
+          force[node.id].x += (center.x / center.count - positions[node.id].x) * 0.05;
+          force[node.id].y += (center.y / center.count - positions[node.id].y) * 0.05;
+        });
+      }
+      list.forEach(function (node) {
+        var position = positions[node.id];
+        var move = force[node.id];
+        move.x -= position.x * 0.004;
+        move.y -= position.y * 0.004;
+        var length = Math.sqrt(move.x * move.x + move.y * move.y);
+        var scale = length > limit ? limit / length : 1;
+        position.x += move.x * scale;
+        position.y += move.y * scale;
+      });
+    }
+  }
+
+  function layoutTree() {
+    var columns = {};
+    var maxLevel = 0;
+    visibleNodes().forEach(function (node) {
+      (columns[node.level] = columns[node.level] || []).push(node);
+      maxLevel = Math.max(maxLevel, node.level);
+    });
+    Object.keys(columns).forEach(function (level) {
+      var column = columns[level].sort(function (a, b) {
+        return groupOf(a.id).localeCompare(groupOf(b.id)) || a.id.localeCompare(b.id);
+      });
+      column.forEach(function (node, index) {
+        positions[node.id] = { x: (maxLevel - node.level) * 240, y: (index - (column.length - 1) / 2) * 36 };
+      });
+    });
+  }
+
+  function layout() {
+    if (state.mode === 'tree') layoutTree();
+    else layoutForce();
+  }
+
+  function neighborsOf(id) {
+    var result = {};
+    result[id] = true;
+    byId[id].deps.forEach(function (edge) { result[edge.target] = true; });
+    byId[id].dependents.forEach(function (edge) { result[edge.source] = true; });
+    return result;
+  }
+
+  function matches(node) {
+    return state.query && node.id.toLowerCase().indexOf(state.query) !== -1;
+  }
+
+  function applyView() {
+    viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.k + ')');
+  }
+
+  function fit() {
+    var list = visibleNodes();
+    if (!list.length) return;
+    var minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    list.forEach(function (node) {
+      var position = positions[node.id];
+      minX = Math.min(minX, position.x);
+      minY = Math.min(minY, position.y);
+      maxX = Math.max(maxX, position.x);
+      maxY = Math.max(maxY, position.y);
+    });
+    var width = svg.clientWidth || 800;
+    var height = svg.clientHeight || 640;
+    view.k = Math.min(2, Math.max(0.05, Math.min(width / (maxX - minX + 160), height / (maxY - minY + 80))));
+    view.x = width / 2 - (minX + maxX) / 2 * view.k;
+    view.y = height / 2 - (minY + maxY) / 2 * view.k;
+    applyView();
+  }
+
+  function center(id) {
+    var position = positions[id];
+    if (!position) return;
+    view.x = (svg.clientWidth || 800) / 2 - position.x * view.k;
+    view.y = (svg.clientHeight || 640) / 2 - position.y * view.k;
+    applyView();
+  }
+
+  function drawGroups(list) {
+    var boxes = {};
+    list.forEach(function (node) {
+      var group = groupOf(node.id);
+      var position = positions[node.id];
+      var box = boxes[group] || (boxes[group] = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+      box.minX = Math.min(box.minX, position.x);
+      box.minY = Math.min(box.minY, position.y);
+      box.maxX = Math.max(box.maxX, position.x);
+      box.maxY = Math.max(box.maxY, position.y);
+    });
+    Object.keys(boxes).forEach(function (group) {
+      var box = boxes[group];
+      var element = svgEl('g', { 'class': 'dx-group' });
+      element.appendChild(svgEl('rect', {
+        x: box.minX - 30, y: box.minY - 34, rx: 8,
+        width: box.maxX - box.minX + 60, height: box.maxY - box.minY + 60,
+        fill: colorOf(group), stroke: colorOf(group)
+      }));
+      element.appendChild(svgEl('text', { x: box.minX - 24, y: box.minY - 20 }, group));
+      viewport.appendChild(element);
+    });
+  }
+
+  function render() {
+    while (viewport.firstChild) viewport.removeChild(viewport.firstChild);
+    var list = visibleNodes();
+    var links = visibleEdges();
+    var focus = state.selected ? neighborsOf(state.selected) : null;
+
+    if (state.group && state.mode === 'force') drawGroups(list);
+
+    links.forEach(function (edge) {
+      var from = positions[edge.source];
+      var to = positions[edge.target];
+      var dx = to.x - from.x;
+      var dy = to.y - from.y;
+      var distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      var startGap = radiusOf(byId[edge.source]) / distance;
+      var endGap = (radiusOf(byId[edge.target]) + 2) / distance;
+      var dim = (state.cyclesOnly && !edge.cycle) ||
+        (focus && edge.source !== state.selected && edge.target !== state.selected);
+      var line = svgEl('line', {
+        x1: from.x + dx * startGap, y1: from.y + dy * startGap,
+        x2: to.x - dx * endGap, y2: to.y - dy * endGap,
+        'class': 'dx-edge' + (edge.cycle ? ' dx-cycle' : '') + (dim ? ' dx-dim' : ''),
+        'marker-end': edge.cycle ? 'url(#dx-arrow-cycle)' : 'url(#dx-arrow)'
+      });
+      line.appendChild(svgEl('title', {}, edge.source + ' → ' + edge.target +
+        edge.imports.map(function (item) { return '\\n  第 ' + item.line + ' 行: ' + item.specifier; }).join('')));
+      viewport.appendChild(line);
+    });
+
+    list.forEach(function (node) {
+      var position = positions[node.id];
+      var collapsed = node.deps.some(function (edge) { return !state.visible[edge.target]; }) ||
+        node.dependents.some(function (edge) { return !state.visible[edge.source]; });
+      var dim = (state.cyclesOnly && !node.inCycle) || (focus && !focus[node.id]);
+      var element = svgEl('g', {
+        'class': 'dx-node' +
+          (node.inCycle ? ' dx-in-cycle' : '') +
+          (collapsed ? ' dx-collapsed' : '') +
+          (matches(node) ? ' dx-match' : '') +
+          (node.id === state.selected ? ' dx-selected' : '') +
+          (dim ? ' dx-dim' : ''),
+        transform: 'translate(' + position.x + ',' + position.y + ')'
+      });
+      element.appendChild(svgEl('circle', { r: radiusOf(node), fill: colorOf(groupOf(node.id)) }));
+      element.appendChild(svgEl('text', { x: radiusOf(node) + 3, y: 4 }, basename(node.id)));
+      element.appendChild(svgEl('title', {}, node.id + (collapsed ? '（双击展开）' : '')));
+      element.addEventListener('mousedown', function (event) {
+        event.stopPropagation();
+        pointer = { type: 'node', id: node.id, x: event.clientX, y: event.clientY, moved: false };
+      });
+      viewport.appendChild(element);
+    });
+
+    status.textContent = '显示 ' + list.length + ' / ' + nodes.length + ' 个文件，' + links.length + ' 条依赖';
+    applyView();
+  }
+
+  function link(id) {
+    var anchor = htmlEl('a', '', id);
+    anchor.addEventListener('click', function () {
+      show([id], state.selected);
+      select(id);
+      center(id);
+    });
+    return anchor;
+  }
+
+  function importList(edge, file) {
+    return edge.imports.map(function (item) {
+      return (file ? file + ':' : '第 ') + item.line + (file ? '' : ' 行') + ' ' + item.specifier;
+    }).join('；');
+  }
+
+  function renderPanel() {
+    panel.innerHTML = '';
+    if (!state.selected) {
+      panel.appendChild(htmlEl('p', 'dx-hint', '点击节点查看详情，双击节点展开它的依赖和被依赖文件。拖动画布平移，滚轮缩放。虚线边框表示节点还有未显示的相邻文件，红色表示循环依赖。'));
+      return;
+    }
+    var node = byId[state.selected];
+    panel.appendChild(htmlEl('h3', '', node.id));
+
+    var table = htmlEl('table');
+    [
+      ['所在目录', directoryOf(node.id)],
+      ['依赖层级', node.level],
+      ['被依赖（扇入）', node.incoming],
+      ['依赖（扇出）', node.outgoing],
+      ['文件大小', node.size + ' 字节'],
+      ['循环依赖', node.inCycle ? '是' : '否']
+    ].forEach(function (row) {
+      var tr = htmlEl('tr');
+      tr.appendChild(htmlEl('th', '', row[0]));
+      tr.appendChild(htmlEl('td', '', String(row[1])));
+      table.appendChild(tr);
+    });
+    panel.appendChild(table);
+
+    [
+      ['展开依赖 (' + node.deps.length + ')', function () { expand(node.id, true, false); }],
+      ['展开被依赖 (' + node.dependents.length + ')', function () { expand(node.id, false, true); }],
+      ['隐藏', function () { delete state.visible[node.id]; select(null); }]
+    ].forEach(function (action) {
+      var button = htmlEl('button', '', action[0]);
+      button.type = 'button';
+      button.addEventListener('click', action[1]);
+      panel.appendChild(button);
+    });
+
+    panel.appendChild(htmlEl('h4', '', '依赖的文件'));
+    var deps = htmlEl('ul');
+    node.deps.forEach(function (edge) {
+      var item = htmlEl('li');
+      item.appendChild(link(edge.target));
+      item.appendChild(htmlEl('div', 'dx-lines', importList(edge)));
+      deps.appendChild(item);
+    });
+    panel.appendChild(node.deps.length ? deps : htmlEl('p', 'dx-hint', '无'));
+
+    panel.appendChild(htmlEl('h4', '', '被以下文件依赖'));
+    var dependents = htmlEl('ul');
+    node.dependents.forEach(function (edge) {
+      var item = htmlEl('li');
+      item.appendChild(link(edge.source));
+      item.appendChild(htmlEl('div', 'dx-lines', importList(edge, edge.source)));
+      dependents.appendChild(item);
+    });
+    panel.appendChild(node.dependents.length ? dependents : htmlEl('p', 'dx-hint', '无'));
+  }
+
+  function select(id) {
+    state.selected = id;
+    render();
+    renderPanel();
+  }
+
+  function expand(id, dependencies, dependents) {
+    var node = byId[id];
+    var ids = [];
+    if (dependencies) node.deps.forEach(function (edge) { ids.push(edge.target); });
+    if (dependents) node.dependents.forEach(function (edge) { ids.push(edge.source); });
+    show(ids, id);
+    if (state.mode === 'tree') layoutTree();
+    else layoutForce(120);
+    select(id);
+  }
+
+  function renderResults() {
+    results.innerHTML = '';
+    if (!state.query) return;
+    nodes.filter(matches).slice(0, 20).forEach(function (node) {
+      var item = htmlEl('li', '', node.id + (state.visible[node.id] ? '' : '（未显示）'));
+      item.addEventListener('click', function () { reveal(node.id); });
+      results.appendChild(item);
+    });
+  }
+
+  function reveal(id) {
+    if (!state.visible[id]) {
+      show([id]);
+      layout();
+    }
+    select(id);
+    center(id);
+  }
+
+  search.addEventListener('input', function () {
+    state.query = search.value.trim().toLowerCase();
+    renderResults();
+    render();
+  });
+  search.addEventListener('keydown', function (event) {
+    if (event.key !== 'Enter') return;
+    var first = nodes.filter(matches)[0];
+    if (first) reveal(first.id);
+  });
+  modeSelect.addEventListener('change', function () {
+    state.mode = modeSelect.value;
+    if (state.mode === 'force') positions = {};
+    layout();
+    render();
+    fit();
+  });
+  groupSelect.addEventListener('change', function () {
+    state.group = Number(groupSelect.value);
+    layout();
+    render();
+    fit();
+  });
+  cyclesBox.addEventListener('change', function () {
+    state.cyclesOnly = cyclesBox.checked;
+    render();
+  });
+  root.querySelector('.dx-all').addEventListener('click', function () {
+    show(nodes.map(function (node) { return node.id; }));
+    layout();
+    render();
+    fit();
+  });
+  root.querySelector('.dx-reset').addEventListener('click', function () {
+    initialVisible();
+    positions = {};
+    state.selected = null;
+    layout();
+    render();
+    renderPanel();
+    fit();
+  });
+
+  svg.addEventListener('mousedown', function (event) {
+    pointer = { type: 'pan', x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y };
+  });
+  window.addEventListener('mousemove', function (event) {
+    if (!pointer) return;
+    if (pointer.type === 'pan') {
+      view.x = pointer.viewX + event.clientX - pointer.x;
+      view.y = pointer.viewY + event.clientY - pointer.y;
+      applyView();
+      return;
+    }
+    var dx = event.clientX - pointer.x;
+    var dy = event.clientY - pointer.y;
+    if (!pointer.moved && dx * dx + dy * dy < 9) return;
+    pointer.moved = true;
+    positions[pointer.id].x += dx / view.k;
+    positions[pointer.id].y += dy / view.k;
+    pointer.x = event.clientX;
+    pointer.y = event.clientY;
+    render();
+  });
+  window.addEventListener('mouseup', function () {
+    var released = pointer;
+    pointer = null;
+    if (!released || released.type !== 'node' || released.moved) return;
+    var now = Date.now();
+    if (lastClick.id === released.id && now - lastClick.time < 350) {
+      lastClick = { id: null, time: 0 };
+      expand(released.id, true, true);
+      return;
+    }
+    lastClick = { id: released.id, time: now };
+    select(released.id);
+  });
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = svg.getBoundingClientRect();
+    var x = event.clientX - rect.left;
+    var y = event.clientY - rect.top;
+    var k = Math.min(4, Math.max(0.05, view.k * (event.deltaY < 0 ? 1.15 : 1 / 1.15)));
+    view.x = x - (x - view.x) * k / view.k;
+    view.y = y - (y - view.y) * k / view.k;
+    view.k = k;
+    applyView();
+  }, { passive: false });
+
+  initialVisible();
+  layout();
+  render();
+  renderPanel();
+  fit();
+})();
+`;
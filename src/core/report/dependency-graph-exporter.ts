@@ -0,0 +1,565 @@
+import { DependencyAnalysisResult } from '../../types/dependency-types';
+
+/**
+ * 依赖图导出格式
+ */
+export type GraphFormat = 'dot' | 'mermaid' | 'graphml' | 'cytoscape';
+
+/**
+ * 支持的依赖图导出格式
+ */
+export const GRAPH_FORMATS: GraphFormat[] = [
+  'dot',
+  'mermaid',
+  'graphml',
+  'cytoscape',
+];
+
+/**
+ * 各导出格式的文件扩展名
+ */
+export const GRAPH_FILE_EXTENSIONS: Record<GraphFormat, string> = {
+  dot: 'dot',
+  mermaid: 'mmd',
+  graphml: 'graphml',
+  cytoscape: 'json',
+};
+
+/**
+ * 依赖图导出错误类
+ */
+export class GraphExportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'GraphExportError';
+  }
+}
+
+/**
+ * 依赖图导出选项
+ */
+export interface GraphExportOptions {
+  /**
+   * 导出格式
+   */
+  format: GraphFormat;
+
+  /**
+   * 只导出该文件（相对项目根目录）周围的子图
+   */
+  focus?: string;
+
+  /**
+   * 子图包含的层数：从 focus 文件出发沿依赖和被依赖方向最多经过的边数，默认为 1
+   */
+  depth?: number;
+
+  /**
+   * 按目录折叠节点：true 折叠到文件所在目录，数字表示只保留路径中的前几级目录
+   */
+  collapse?: boolean | number;
+
+  /**
+   * 图名称
+   */
+  name?: string;
+}
+
+/**
+ * 导出图中的节点：文件，或折叠后的目录
+ */
+export interface GraphViewNode {
+  /**
+   * 文件或目录路径
+   */
+  id: string;
+
+  /**
+   * 文件大小（字节），目录为其中文件大小之和
+   */
+  size: number;
+
+  /**
+   * 依赖层级，目录为其中文件的最大层级
+   */
+  level: number;
+
+  /**
+   * 被依赖的次数
+   */
+  incoming: number;
+
+  /**
+   * 依赖其他节点的次数
+   */
+  outgoing: number;
+
+  /**
+   * 节点包含的文件数
+   */
+  files: number;
+
+  /**
+   * 是否处于循环依赖中
+   */
+  inCycle: boolean;
+
+  /**
+   * 是否为 focus 指定的文件或其所在目录
+   */
+  focus: boolean;
+}
+
+/**
+ * 导出图中的边，方向为 导入方 -> 被依赖方
+ */
+export interface GraphViewEdge {
+  /**
+   * 导入方
+   */
+  source: string;
+
+  /**
+   * 被依赖方
+   */
+  target: string;
+
+  /**
+   * 边包含的文件级依赖数，折叠目录后大于1
+   */
+  weight: number;
+
+  /**
+   * 是否属于循环依赖
+   */
+  cycle: boolean;
+}
+
+/**
+ * 经过子图筛选和目录折叠后要导出的图
+ */
+export interface GraphView {
+  nodes: GraphViewNode[];
+  edges: GraphViewEdge[];
+}
+
+const CYCLE_COLOR = '#d73a49';
+const FOCUS_COLOR = '#fff5b1';
+
+/**
+ * 依赖图导出器
+ * 将依赖分析结果序列化为 Graphviz DOT、Mermaid、GraphML 或 Cytoscape.js JSON，
+ * 节点带有大小、层级和出入度，循环依赖中的边会被突出显示
+ */
+export class DependencyGraphExporter {
+  private readonly result: DependencyAnalysisResult;
+
+  /**
+   * @param result 依赖分析结果，需要包含 levels 和 counts
+   */
+  constructor(result: DependencyAnalysisResult) {
+    this.result = result;
+  }
+
+  /**
+   * 导出依赖图
+   * @param options 导出选项
+   * @returns 指定格式的图文本
+   */
+  export(options: GraphExportOptions): string {
+    if (!GRAPH_FORMATS.includes(options.format)) {
+      throw new GraphExportError(
+        `不支持的依赖图格式: ${options.format}，可选格式: ${GRAPH_FORMATS.join(', ')}`,
+        'ERR_UNSUPPORTED_FORMAT'
+      );
+    }
+
+    const view = this.buildView(options);
+    const name = options.name || 'dependencies';
+    switch (options.format) {
+      case 'dot':
+        return this.toDot(view, name);
+      case 'mermaid':
+        return this.toMermaid(view);
+      case 'graphml':
+        return this.toGraphMl(view, name);
+      case 'cytoscape':
+        return this.toCytoscape(view);
+    }
+  }
+
+  /**
+   * 按选项筛选子图并折叠目录
+   * @param options 导出选项
+   */
+  buildView(options: Omit<GraphExportOptions, 'format'>): GraphView {
+    const { graph, levels, counts } = this.result;
+    const cycleEdges = this.findCycleEdges();
+    // 依赖图中的边为 {source: 被依赖文件, target: 导入方}，导出时转换为 导入方 -> 被依赖方
+    let edges = graph.edges.map(({ source, target }) => ({
+      source: target,
+      target: source,
+      weight: 1,
+      cycle: cycleEdges.has(`${target}\0${source}`),
+    }));
+    let nodes: GraphViewNode[] = graph.nodes.map((node) => ({
+      id: node.id,
+      size: node.size,
+      level: levels?.get(node.id) ?? 0,
+      incoming: counts?.get(node.id)?.incoming ?? 0,
+      outgoing: counts?.get(node.id)?.outgoing ?? 0,
+      files: 1,
+      inCycle: false,
+      focus: node.id === options.focus,
+    }));
+
+    if (options.focus !== undefined) {
+      const included = this.collectNeighborhood(
+        options.focus,
+        options.depth ?? 1
+      );
+      nodes = nodes.filter((node) => included.has(node.id));
+      edges = edges.filter(
+        (edge) => included.has(edge.source) && included.has(edge.target)
+      );
+    }
+
+    const view = options.collapse
+      ? this.collapse(nodes, edges, options.collapse)
+      : { nodes, edges };
+
+    const cyclic = new Set(
+      view.edges
+        .filter((edge) => edge.cycle)
+        .flatMap((edge) => [edge.source, edge.target])
+    );
+    view.nodes.forEach((node) => {
+      node.inCycle = cyclic.has(node.id);
+    });
+
+    return {
+      nodes: view.nodes.sort((a, b) => a.id.localeCompare(b.id)),
+      edges: view.edges.sort(
+        (a, b) =>
+          a.source.localeCompare(b.source) || a.target.localeCompare(b.target)
+      ),
+    };
+  }
+
+  /**
+   * 找出属于循环依赖的边（导入方 \0 被依赖方）：两端处于同一强连通分量，或出现在枚举出的循环中
+   */
+  private findCycleEdges(): Set<string> {
+    const componentOf = new Map<string, number>();
+    this.result.cycleAnalysis?.components.forEach((component, index) => {
+      component.files.forEach((file) => componentOf.set(file, index));
+    });
+
+    const cycleEdges = new Set<string>();
+    this.result.graph.edges.forEach(({ source, target }) => {
+      const component = componentOf.get(source);
+      if (component !== undefined && componentOf.get(target) === component) {
+        cycleEdges.add(`${target}\0${source}`);
+      }
+    });
+    this.result.graph.circularDependencies.forEach(({ cycle }) => {
+      cycle.slice(1).forEach((file, index) => {
+        cycleEdges.add(`${cycle[index]}\0${file}`);
+      });
+    });
+    return cycleEdges;
+  }
+
+  /**
+   * 从 focus 文件出发，沿依赖和被依赖两个方向收集指定层数内的文件
+   */
+  private collectNeighborhood(focus: string, depth: number): Set<string> {
+    const { nodes, edges } = this.result.graph;
+    if (!nodes.some((node) => node.id === focus)) {
+      throw new GraphExportError(
+        `依赖图中不存在文件: ${focus}`,
+        'ERR_FOCUS_NOT_FOUND'
+      );
+    }
+    if (!Number.isInteger(depth) || depth < 0) {
+      throw new GraphExportError(
+        `子图层数必须是非负整数: ${depth}`,
+        'ERR_INVALID_DEPTH'
+      );
+    }
+
+    const neighbors = new Map<string, string[]>();
+    edges.forEach(({ source, target }) => {
+      neighbors.set(source, [...(neighbors.get(source) || []), target]);
+      neighbors.set(target, [...(neighbors.get(target) || []), source]);
+    });
+
+    const included = new Set([focus]);
+    let frontier = [focus];
+    for (let step = 0; step < depth && frontier.length > 0; step++) {
+      frontier = frontier
+        .flatMap((file) => neighbors.get(file) || [])
+        .filter((file) => !included.has(file));
+      frontier.forEach((file) => included.add(file));
+    }
+    return included;
+  }
+
+  /**
+   * 把文件节点折叠为目录节点，目录内部的依赖被省略，目录之间的依赖合并为一条边
+   */
+  private collapse(
+    nodes: GraphViewNode[],
+    edges: GraphViewEdge[],
+    collapse: true | number
+  ): GraphView {
+    const directoryOf = (file: string) => {
+      const directories = file.split('/').slice(0, -1);
+      const kept =
+        collapse === true ? directories : directories.slice(0, collapse);
+      return kept.length > 0 ? kept.join('/') : '.';
+    };
+
+    const directories = new Map<string, GraphViewNode>();
+    nodes.forEach((node) => {
+      const id = directoryOf(node.id);
+      const directory = directories.get(id);
+      if (directory) {
+        directory.size += node.size;
+        directory.level = Math.max(directory.level, node.level);
+        directory.files += 1;
+        directory.focus ||= node.focus;
+      } else {
+        directories.set(id, {
+          ...node,
+          id,
+          incoming: 0,
+          outgoing: 0,
+          files: 1,
+        });
+      }
+    });
+
+    const merged = new Map<string, GraphViewEdge>();
+    edges.forEach((edge) => {
+      const source = directoryOf(edge.source);
+      const target = directoryOf(edge.target);
+      if (source === target) {
+        return;
+      }
+      const key = `${source}\0${target}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.weight += edge.weight;
+        existing.cycle ||= edge.cycle;
+      } else {
+        merged.set(key, { ...edge, source, target });
+      }
+    });
+
+    merged.forEach((edge) => {
+      directories.get(edge.source)!.outgoing += 1;
+      directories.get(edge.target)!.incoming += 1;
+    });
+
+    return {
+      nodes: Array.from(directories.values()),
+      edges: Array.from(merged.values()),
+    };
+  }
+
+  /**
+   * 导出为 Graphviz DOT
+   */
+  private toDot(view: GraphView, name: string): string {
+    const quote = (value: string) =>
+      `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = [
+      `digraph ${quote(name)} {`,
+      '  rankdir=LR;',
+      '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    ];
+
+    view.nodes.forEach((node) => {
+      const attributes = [
+        `label=${quote(node.id)}`,
+        `tooltip=${quote(this.describeNode(node))}`,
+        `filesize=${node.size}`,
+        `level=${node.level}`,
+        `incoming=${node.incoming}`,
+        `outgoing=${node.outgoing}`,
+        `files=${node.files}`,
+        ...(node.inCycle ? [`color=${quote(CYCLE_COLOR)}`] : []),
+        ...(node.focus
+          ? [`style="rounded,filled"`, `fillcolor=${quote(FOCUS_COLOR)}`]
+          : []),
+      ];
+      lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+    });
+
+    view.edges.forEach((edge) => {
+      const attributes = [
+        `weight=${edge.weight}`,
+        ...(edge.weight > 1 ? [`label=${quote(String(edge.weight))}`] : []),
+        ...(edge.cycle
+          ? [`cycle=true`, `color=${quote(CYCLE_COLOR)}`, 'penwidth=2']
+          : []),
+      ];
+      lines.push(
+        `  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes.join(', ')}];`
+      );
+    });
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 导出为 Mermaid 流程图，节点属性写在标签中
+   */
+  private toMermaid(view: GraphView): string {
+    const ids = new Map(
+      view.nodes.map((node, index) => [node.id, `n${index}`])
+    );
+    const escape = (value: string) =>
+      value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+    const lines = ['flowchart LR'];
+
+    view.nodes.forEach((node) => {
+      lines.push(
+        `  ${ids.get(node.id)}["${escape(node.id)}<br/>${escape(this.describeNode(node))}"]`
+      );
+    });
+    view.edges.forEach((edge) => {
+      const arrow = edge.weight > 1 ? `-->|${edge.weight}|` : '-->';
+      lines.push(`  ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}`);
+    });
+
+    const cycleLinks = view.edges
+      .map((edge, index) => (edge.cycle ? index : -1))
+      .filter((index) => index >= 0);
+    if (cycleLinks.length > 0) {
+      lines.push(
+        `  linkStyle ${cycleLinks.join(',')} stroke:${CYCLE_COLOR},stroke-width:2px`
+      );
+    }
+
+    const classes: Array<[string, string, GraphViewNode[]]> = [
+      [
+        'cycle',
+        `stroke:${CYCLE_COLOR},stroke-width:2px`,
+        view.nodes.filter((node) => node.inCycle),
+      ],
+      ['focus', `fill:${FOCUS_COLOR}`, view.nodes.filter((node) => node.focus)],
+    ];
+    classes
+      .filter(([, , nodes]) => nodes.length > 0)
+      .forEach(([name, style, nodes]) => {
+        lines.push(`  classDef ${name} ${style}`);
+        lines.push(
+          `  class ${nodes.map((node) => ids.get(node.id)).join(',')} ${name}`
+        );
+      });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 导出为 GraphML
+   */
+  private toGraphMl(view: GraphView, name: string): string {
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    const keys: Array<[string, 'node' | 'edge', string]> = [
+      ['size', 'node', 'long'],
+      ['level', 'node', 'int'],
+      ['incoming', 'node', 'int'],
+      ['outgoing', 'node', 'int'],
+      ['files', 'node', 'int'],
+      ['inCycle', 'node', 'boolean'],
+      ['focus', 'node', 'boolean'],
+      ['weight', 'edge', 'int'],
+      ['cycle', 'edge', 'boolean'],
+    ];
+    const data = (values: Record<string, unknown>) =>
+      Object.entries(values).map(
+        ([key, value]) =>
+          `      <data key="${key}">${escape(String(value))}</data>`
+      );
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+      ...keys.map(
+        ([key, scope, type]) =>
+          `  <key id="${key}" for="${scope}" attr.name="${key}" attr.type="${type}"/>`
+      ),
+      `  <graph id="${escape(name)}" edgedefault="directed">`,
+    ];
+
+    view.nodes.forEach(({ id, ...attributes }) => {
+      lines.push(
+        `    <node id="${escape(id)}">`,
+        ...data(attributes),
+        '    </node>'
+      );
+    });
+    view.edges.forEach(({ source, target, ...attributes }, index) => {
+      lines.push(
+        `    <edge id="e${index}" source="${escape(source)}" target="${escape(target)}">`,
+        ...data(attributes),
+        '    </edge>'
+      );
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 导出为 Cytoscape.js 的 elements JSON，循环依赖和 focus 通过 classes 标记
+   */
+  private toCytoscape(view: GraphView): string {
+    const classes = (flags: Record<string, boolean>) =>
+      Object.keys(flags)
+        .filter((flag) => flags[flag])
+        .join(' ');
+
+    return `${JSON.stringify(
+      {
+        elements: {
+          nodes: view.nodes.map((node) => ({
+            data: { ...node, label: node.id },
+            classes: classes({ cycle: node.inCycle, focus: node.focus }),
+          })),
+          edges: view.edges.map((edge, index) => ({
+            data: { id: `e${index}`, ...edge },
+            classes: classes({ cycle: edge.cycle }),
+          })),
+        },
+      },
+      null,
+      2
+    )}\n`;
+  }
+
+  /**
+   * 节点属性的简短描述
+   */
+  private describeNode(node: GraphViewNode): string {
+    return [
+      ...(node.files > 1 ? [`${node.files} 个文件`] : []),
+      `层级 ${node.level}`,
+      `入 ${node.incoming}`,
+      `出 ${node.outgoing}`,
+      `${node.size} 字节`,
+    ].join(' · ');
+  }
+}
@@ -2,7 +2,15 @@ import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { DependencyAnalysisResult } from '../../types/dependency-types';
+import {
+  DependencyAnalysisResult,
+  BreakEdgeSuggestion,
+  CouplingReport,
+  CouplingZone,
+  ModuleCoupling,
+} from '../../types/dependency-types';
+import { SvgChartRenderer } from '../../report/visualizers/svg-chart-renderer';
+import { DependencyExplorerRenderer } from './dependency-explorer';
 
 /**
  * 报告类型枚举
@@ -44,6 +52,19 @@ export interface ReportOptions {
  */
 export type ReportData = Record<string, unknown>;
 
+/**
+ * 偏离主序列的区域在报告中的名称和颜色
+ */
+const COUPLING_ZONES: Record<CouplingZone, { label: string; color: string }> = {
+  pain: { label: '痛苦区', color: '#d73a49' },
+  uselessness: { label: '无用区', color: '#f28e2b' },
+};
+
+/**
+ * 未偏离主序列的模块在散点图中的颜色
+ */
+const COUPLING_NORMAL_COLOR = '#4e79a7';
+
 /**
  * 基础报告生成器
  */
@@ -355,6 +376,66 @@ export class DependencyReportGenerator extends ReportGenerator {
       output += chalk.green('✓ 未检测到循环依赖\n\n');
     }
 
+    // 添加断边建议
+    const cycleAnalysis = dependencyData.cycleAnalysis;
+    if (cycleAnalysis && cycleAnalysis.suggestions.length > 0) {
+      output += chalk.yellow(
+        `✂️  建议断开的依赖 (${cycleAnalysis.components.length} 个强连通分量，移除以下 ${cycleAnalysis.suggestions.length} 条导入即可消除全部循环):\n`
+      );
+      const suggestionTable = new Table({
+        head: ['序号', '导入方', '被导入', '可打破循环数', '导入位置'],
+        style: { head: ['yellow'] },
+      });
+
+      cycleAnalysis.suggestions.slice(0, 10).forEach((suggestion, index) => {
+        suggestionTable.push([
+          index + 1,
+          suggestion.from,
+          suggestion.to,
+          suggestion.cyclesBroken,
+          this.formatImportLocations(suggestion).join('\n'),
+        ]);
+      });
+
+      output += suggestionTable.toString() + '\n';
+      if (cycleAnalysis.truncated) {
+        output += chalk.yellow(
+          '部分强连通分量的循环数量超过枚举上限，仅列出了部分循环\n'
+        );
+      }
+      output += '\n';
+    }
+
+    // 添加模块耦合度量
+    const coupling = dependencyData.coupling;
+    if (coupling && coupling.modules.length > 0) {
+      const flagged = coupling.modules.filter((module) => module.zone);
+      output += chalk.yellow(
+        `🧭 模块耦合度量 (${coupling.modules.length} 个模块，平均距离 ${coupling.averageDistance}，${flagged.length} 个偏离主序列):\n`
+      );
+      const couplingTable = new Table({
+        head: ['模块', '文件数', 'Ca', 'Ce', 'I', 'A', 'D', '区域'],
+        style: { head: ['yellow'] },
+      });
+
+      this.sortCoupling(coupling)
+        .slice(0, 10)
+        .forEach((module) => {
+          couplingTable.push([
+            module.module,
+            module.files,
+            module.afferent,
+            module.efferent,
+            module.instability,
+            module.abstractness,
+            module.distance,
+            module.zone ? chalk.red(COUPLING_ZONES[module.zone].label) : '',
+          ]);
+        });
+
+      output += couplingTable.toString() + '\n\n';
+    }
+
     // 如果需要详细信息
     if (options.detailed && dependencyData.counts) {
       output += chalk.yellow('📋 依赖最多的文件 (Top 10):\n');
@@ -408,6 +489,11 @@ export class DependencyReportGenerator extends ReportGenerator {
       </table>
     </div>`;
 
+    // 添加交互式依赖浏览器
+    if (graph.nodes.length > 0) {
+      html += new DependencyExplorerRenderer(dependencyData).render();
+    }
+
     // 添加循环依赖信息
     if (graph.circularDependencies.length > 0) {
       html += `
@@ -449,6 +535,92 @@ export class DependencyReportGenerator extends ReportGenerator {
       </div>`;
     }
 
+    // 添加断边建议
+    const cycleAnalysis = dependencyData.cycleAnalysis;
+    if (cycleAnalysis && cycleAnalysis.suggestions.length > 0) {
+      html += `
+      <div class="section">
+        <h2>✂️ 建议断开的依赖</h2>
+        <p class="info">共 ${cycleAnalysis.components.length} 个强连通分量，移除以下 ${cycleAnalysis.suggestions.length} 条导入即可消除全部循环</p>
+        <table>
+          <thead>
+            <tr>
+              <th>序号</th>
+              <th>导入方</th>
+              <th>被导入</th>
+              <th>可打破循环数</th>
+              <th>导入位置</th>
+            </tr>
+          </thead>
+          <tbody>`;
+
+      cycleAnalysis.suggestions.forEach((suggestion, index) => {
+        html += `
+            <tr>
+              <td>${index + 1}</td>
+              <td>${suggestion.from}</td>
+              <td>${suggestion.to}</td>
+              <td>${suggestion.cyclesBroken}</td>
+              <td>${this.formatImportLocations(suggestion).join('<br>')}</td>
+            </tr>`;
+      });
+
+      html += `
+          </tbody>
+        </table>
+        ${
+          cycleAnalysis.truncated
+            ? '<p class="warning">部分强连通分量的循环数量超过枚举上限，仅列出了部分循环</p>'
+            : ''
+        }
+      </div>`;
+    }
+
+    // 添加模块耦合度量
+    const coupling = dependencyData.coupling;
+    if (coupling && coupling.modules.length > 0) {
+      html += `
+      <div class="section">
+        <h2>🧭 模块耦合度量</h2>
+        <p class="info">共 ${coupling.modules.length} 个模块，与主序列的平均距离为 ${coupling.averageDistance}，距离不小于 ${coupling.distanceThreshold} 的模块被标记为痛苦区或无用区</p>
+        <div class="coupling-chart" style="max-width: 640px">
+          ${this.renderCouplingChart(coupling)}
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>模块</th>
+              <th>文件数</th>
+              <th>传入耦合 Ca</th>
+              <th>传出耦合 Ce</th>
+              <th>不稳定性 I</th>
+              <th>抽象程度 A</th>
+              <th>距离 D</th>
+              <th>区域</th>
+            </tr>
+          </thead>
+          <tbody>`;
+
+      this.sortCoupling(coupling).forEach((module) => {
+        html += `
+            <tr>
+              <td>${module.module}</td>
+              <td>${module.files}</td>
+              <td>${module.afferent}</td>
+              <td>${module.efferent}</td>
+              <td>${module.instability}</td>
+              <td>${module.abstractness}</td>
+              <td>${module.distance}</td>
+              <td${module.zone ? ' class="warning"' : ''}>${module.zone ? COUPLING_ZONES[module.zone].label : ''}</td>
+            </tr>`;
+      });
+
+      html += `
+          </tbody>
+        </table>
+      </div>`;
+    }
+
     // 如果需要详细信息
     if (options.detailed && dependencyData.counts) {
       html += `
@@ -536,6 +708,46 @@ export class DependencyReportGenerator extends ReportGenerator {
       md += `## ✓ 未检测到循环依赖\n\n`;
     }
 
+    // 添加断边建议
+    const cycleAnalysis = dependencyData.cycleAnalysis;
+    if (cycleAnalysis && cycleAnalysis.suggestions.length > 0) {
+      md += `## ✂️ 建议断开的依赖
+
+共 ${cycleAnalysis.components.length} 个强连通分量，移除以下 ${cycleAnalysis.suggestions.length} 条导入即可消除全部循环。
+
+| 序号 | 导入方 | 被导入 | 可打破循环数 | 导入位置 |
+|------|-------|-------|------------|---------|
+`;
+
+      cycleAnalysis.suggestions.forEach((suggestion, index) => {
+        md += `| ${index + 1} | ${suggestion.from} | ${suggestion.to} | ${suggestion.cyclesBroken} | ${this.formatImportLocations(suggestion).join('<br>')} |
+`;
+      });
+
+      md += cycleAnalysis.truncated
+        ? '\n_部分强连通分量的循环数量超过枚举上限，仅列出了部分循环_\n\n'
+        : '\n';
+    }
+
+    // 添加模块耦合度量
+    const coupling = dependencyData.coupling;
+    if (coupling && coupling.modules.length > 0) {
+      md += `## 🧭 模块耦合度量
+
+共 ${coupling.modules.length} 个模块，与主序列的平均距离为 ${coupling.averageDistance}，距离不小于 ${coupling.distanceThreshold} 的模块被标记为痛苦区或无用区。
+
+| 模块 | 文件数 | Ca | Ce | I | A | D | 区域 |
+|------|-------|----|----|---|---|---|------|
+`;
+
+      this.sortCoupling(coupling).forEach((module) => {
+        md += `| ${module.module} | ${module.files} | ${module.afferent} | ${module.efferent} | ${module.instability} | ${module.abstractness} | ${module.distance} | ${module.zone ? COUPLING_ZONES[module.zone].label : ''} |
+`;
+      });
+
+      md += '\n';
+    }
+
     // 如果需要详细信息
     if (options.detailed && dependencyData.counts) {
       md += `## 📋 依赖详情\n\n`;
@@ -558,4 +770,53 @@ export class DependencyReportGenerator extends ReportGenerator {
 
     return md;
   }
+
+  /**
+   * 按与主序列的距离从大到小排列模块
+   */
+  private sortCoupling(coupling: CouplingReport): ModuleCoupling[] {
+    return [...coupling.modules].sort(
+      (a, b) => b.distance - a.distance || a.module.localeCompare(b.module)
+    );
+  }
+
+  /**
+   * 渲染 抽象程度-不稳定性 散点图，虚线为主序列 A + I = 1
+   */
+  private renderCouplingChart(coupling: CouplingReport): string {
+    return new SvgChartRenderer({ width: 640, height: 480 }).renderScatter(
+      {
+        title: '抽象程度与不稳定性',
+        xLabel: '不稳定性 I',
+        yLabel: '抽象程度 A',
+        xRange: [0, 1],
+        yRange: [0, 1],
+        points: coupling.modules.map((module) => ({
+          label: module.module,
+          x: module.instability,
+          y: module.abstractness,
+          color: module.zone
+            ? COUPLING_ZONES[module.zone].color
+            : COUPLING_NORMAL_COLOR,
+        })),
+        referenceLines: [
+          { from: [0, 1], to: [1, 0], label: '主序列 A + I = 1' },
+        ],
+        legend: [
+          { label: '正常', color: COUPLING_NORMAL_COLOR },
+          ...Object.values(COUPLING_ZONES),
+        ],
+      },
+      'coupling-chart'
+    );
+  }
+
+  /**
+   * 将断边建议关联的导入语句格式化为 文件:行号
+   */
+  private formatImportLocations(suggestion: BreakEdgeSuggestion): string[] {
+    return suggestion.imports.map(
+      (location) => `${location.file}:${location.line}`
+    );
+  }
 }
@@ -0,0 +1,194 @@
+import * as path from 'path';
+import micromatch from 'micromatch';
+import { IssueSeverity } from '../../types/analysis';
+import { IRule, IRuleIssue } from './rule-engine';
+import { RuleError } from './rule-sdk';
+import { ISelector, matchesSelector, parseSelector } from './selector';
+
+/**
+ * 声明式规则配置，写在 customRules.<规则名称> 中
+ */
+export interface IDeclarativeRuleConfig {
+  /**
+   * AST 选择器，匹配的每个节点报告一个问题
+   */
+  selector: string;
+
+  /**
+   * 问题消息
+   */
+  message: string;
+
+  /**
+   * 严重性，默认为 warning
+   */
+  severity?: IssueSeverity;
+
+  /**
+   * 修复建议
+   */
+  suggestion?: string;
+
+  /**
+   * 规则描述，默认使用问题消息
+   */
+  description?: string;
+
+  /**
+   * 只检查匹配这些 glob 的文件（相对项目根目录），默认检查所有文件
+   */
+  files?: string[];
+
+  /**
+   * 不检查匹配这些 glob 的文件
+   */
+  exclude?: string[];
+
+  /**
+   * 是否启用，默认为 true
+   */
+  enabled?: boolean;
+}
+
+const SEVERITIES: IssueSeverity[] = ['info', 'warning', 'error'];
+
+/**
+ * 判断规则设置是否为声明式规则
+ * @param ruleConfig customRules 中的规则设置
+ */
+export function isDeclarativeRuleConfig(
+  ruleConfig: unknown
+): ruleConfig is IDeclarativeRuleConfig {
+  return (
+    !!ruleConfig &&
+    typeof ruleConfig === 'object' &&
+    'selector' in (ruleConfig as Record<string, unknown>)
+  );
+}
+
+/**
+ * 校验声明式规则配置并解析选择器
+ * @param ruleName 规则名称
+ * @param config 规则配置
+ * @returns 解析后的选择器
+ */
+export function validateDeclarativeRule(
+  ruleName: string,
+  config: Record<string, unknown>
+): ISelector {
+  const fail = (message: string): never => {
+    throw new RuleError(`规则 ${ruleName} ${message}`, 'ERR_RULE_CONFIG');
+  };
+  const isStringArray = (value: unknown) =>
+    value === undefined ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+
+  if (typeof config.message !== 'string' || !config.message) {
+    fail('缺少 message');
+  }
+  if (
+    config.severity !== undefined &&
+    !SEVERITIES.includes(config.severity as IssueSeverity)
+  ) {
+    fail(
+      `的 severity 无效: ${JSON.stringify(config.severity)}，应为 ${SEVERITIES.join(' | ')}`
+    );
+  }
+  if (!isStringArray(config.files) || !isStringArray(config.exclude)) {
+    fail('的 files 和 exclude 必须是 glob 字符串数组');
+  }
+
+  try {
+    return parseSelector(config.selector as string);
+  } catch (error) {
+    return fail(
+      `的选择器无效: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * 把声明式规则编译为规则引擎的规则
+ * 规则配置就是声明本身，之后的规则设置可以覆盖其中的字段（如 severity）
+ * @param name 规则名称
+ * @param config 声明式规则配置
+ * @param projectRoot 项目根路径，files 和 exclude 相对它匹配
+ */
+export function createDeclarativeRule(
+  name: string,
+  config: IDeclarativeRuleConfig,
+  projectRoot: string
+): IRule {
+  const selectors = new Map<string, ISelector>();
+
+  return {
+    name,
+    description: config.description || config.message || '',
+    enabled: config.enabled ?? true,
+    config: { ...config },
+    validateConfig: (ruleConfig) => {
+      const selector = validateDeclarativeRule(name, ruleConfig);
+      selectors.set(selector.source, selector);
+      return ruleConfig;
+    },
+    execute: async (context) => {
+      const ruleConfig = (context.config || config) as IDeclarativeRuleConfig;
+      const { filePath } = context;
+      if (!filePath || !isInScope(filePath, ruleConfig, projectRoot)) {
+        return [];
+      }
+
+      const selector =
+        selectors.get(ruleConfig.selector) ||
+        validateDeclarativeRule(name, { ...ruleConfig });
+      const sourceFile = context.sourceFile;
+      if (!sourceFile) {
+        return [];
+      }
+
+      const issues: IRuleIssue[] = [];
+      sourceFile.forEachDescendant((node) => {
+        if (!matchesSelector(node, selector)) {
+          return;
+        }
+        const start = sourceFile.getLineAndColumnAtPos(node.getStart());
+        const end = sourceFile.getLineAndColumnAtPos(node.getEnd());
+        issues.push({
+          filePath,
+          startLine: start.line,
+          startColumn: start.column,
+          endLine: end.line,
+          endColumn: end.column,
+          severity: ruleConfig.severity || 'warning',
+          message: ruleConfig.message,
+          suggestion: ruleConfig.suggestion,
+        });
+      });
+      return issues;
+    },
+  };
+}
+
+/**
+ * 判断文件是否在规则的检查范围内
+ */
+function isInScope(
+  filePath: string,
+  config: IDeclarativeRuleConfig,
+  projectRoot: string
+): boolean {
+  const relativePath = path
+    .relative(projectRoot, filePath)
+    .split(path.sep)
+    .join('/');
+  const options = { dot: true };
+
+  return (
+    (!config.files?.length ||
+      micromatch.isMatch(relativePath, config.files, options)) &&
+    !(
+      config.exclude?.length &&
+      micromatch.isMatch(relativePath, config.exclude, options)
+    )
+  );
+}
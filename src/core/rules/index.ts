@@ -1 +1,5 @@
 export * from './rule-engine';
+export * from './rule-sdk';
+export * from './rule-loader';
+export * from './selector';
+export * from './declarative-rule';
@@ -1,6 +1,24 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ICustomRuleResult } from '../../types/analysis';
+import { Project, SourceFile, TypeChecker } from 'ts-morph';
+import { ICustomRuleResult, IIssueFix } from '../../types/analysis';
+import {
+  ComplexityAnalyzer,
+  ComplexityMetric,
+  DEFAULT_COMPLEXITY_THRESHOLDS,
+  IFunctionComplexity,
+} from '../../analyzers/complexity-analyzer';
+import { IBaselineFile } from '../baseline';
+import { fingerprintIssues } from '../issue-fingerprint';
+import { SuppressionScanner } from '../suppression';
+import { DependencyAnalyzer } from '../analyzers/dependency-analyzer';
+import { AstService } from '../ast-service';
+import { FileSystemService } from '../file-system-service';
+import { RuleLoader } from './rule-loader';
+import {
+  createDeclarativeRule,
+  isDeclarativeRuleConfig,
+} from './declarative-rule';
 
 /**
  * 自定义规则配置接口
@@ -26,6 +44,11 @@ export interface IRule {
    */
   config: Record<string, any>;
 
+  /**
+   * 校验并规范化规则配置，配置无效时抛出错误，规则不会被执行
+   */
+  validateConfig?: (config: Record<string, any>) => Record<string, any>;
+
   /**
    * 规则执行函数
    */
@@ -51,15 +74,35 @@ export interface IRuleContext {
    */
   fileContent?: string;
 
+  /**
+   * 当前规则的配置
+   */
+  config?: Record<string, any>;
+
+  /**
+   * 当前文件的语法树，首次访问时才解析
+   */
+  sourceFile?: SourceFile;
+
+  /**
+   * 规则共用的 ts-morph 项目，被检查文件的导入会被解析到其中
+   */
+  project?: Project;
+
+  /**
+   * 项目范围的类型检查器
+   */
+  typeChecker?: TypeChecker;
+
   /**
    * AST服务
    */
-  astService?: any;
+  astService?: AstService;
 
   /**
    * 文件系统服务
    */
-  fsService?: any;
+  fsService?: FileSystemService;
 }
 
 /**
@@ -105,6 +148,11 @@ export interface IRuleIssue {
    * 修复建议
    */
   suggestion?: string;
+
+  /**
+   * 自动修复
+   */
+  fix?: IIssueFix;
 }
 
 /**
@@ -121,20 +169,55 @@ export interface IRuleEngineOptions {
    */
   rulesDir?: string;
 
+  /**
+   * 提供规则的 npm 包，从项目根目录解析，与配置文件中的 rulePackages 合并
+   */
+  rulePackages?: string[];
+
   /**
    * 规则配置文件路径
    */
   configPath?: string;
 
+  /**
+   * 规则设置，格式与配置文件中的 customRules 相同，在配置文件之后应用
+   */
+  customRules?: Record<string, any>;
+
+  /**
+   * 是否过滤被行内抑制注释抑制的问题，默认为 true；由调用方统一应用抑制注释时关闭
+   */
+  suppressions?: boolean;
+
   /**
    * AST服务
    */
-  astService?: any;
+  astService?: AstService;
 
   /**
    * 文件系统服务
    */
-  fsService?: any;
+  fsService?: FileSystemService;
+
+  /**
+   * 基线内容，与基线中已知问题指纹相同的问题不会出现在执行结果中
+   */
+  baseline?: IBaselineFile;
+}
+
+/**
+ * 项目依赖图中各文件的依赖深度
+ */
+interface IDependencyDepths {
+  /**
+   * 文件的依赖深度：不依赖其他文件为0，否则为其依赖的最大深度+1，循环依赖中的文件深度相同
+   */
+  depthOf: (file: string) => number;
+
+  /**
+   * 从文件出发的最深依赖链
+   */
+  chainOf: (file: string) => string[];
 }
 
 /**
@@ -143,6 +226,10 @@ export interface IRuleEngineOptions {
 export class RuleEngine {
   private rules: Map<string, IRule> = new Map();
   private options: IRuleEngineOptions;
+  private complexityAnalyzer?: ComplexityAnalyzer;
+  private functionMetrics: Map<string, IFunctionComplexity[]> = new Map();
+  private project?: Project;
+  private dependencyDepths?: Promise<IDependencyDepths>;
 
   constructor(options: IRuleEngineOptions) {
     this.options = {
@@ -156,18 +243,20 @@ export class RuleEngine {
    * 初始化规则引擎
    */
   async initialize(): Promise<void> {
+    const config = this.readConfiguration();
+
     // 加载内置规则
     await this.loadBuiltinRules();
 
-    // 加载自定义规则
-    if (this.options.rulesDir && fs.existsSync(this.options.rulesDir)) {
-      await this.loadCustomRules();
-    }
+    // 加载规则目录和 npm 包中的自定义规则
+    await this.loadCustomRules([
+      ...(this.options.rulePackages || []),
+      ...(Array.isArray(config.rulePackages) ? config.rulePackages : []),
+    ]);
 
-    // 应用配置文件中的规则设置
-    if (this.options.configPath && fs.existsSync(this.options.configPath)) {
-      this.applyConfiguration();
-    }
+    // 应用配置文件和选项中的规则设置
+    this.applyConfiguration(config.customRules);
+    this.applyConfiguration(this.options.customRules);
   }
 
   /**
@@ -207,165 +296,328 @@ export class RuleEngine {
       },
     });
 
-    // 内置规则：最大函数长度
-    this.rules.set('max-function-length', {
+    // 内置规则：函数长度与复杂度，共用复杂度分析器的函数度量结果
+    this.addFunctionMetricRule({
       name: 'max-function-length',
       description: '函数不应超过指定的最大行数',
+      metric: 'loc',
+      configKey: 'maxLines',
+      label: '代码行数',
+      suggestion: '考虑将大函数拆分成更小的函数',
+    });
+    this.addFunctionMetricRule({
+      name: 'max-cyclomatic-complexity',
+      description: '函数的圈复杂度不应超过指定的最大值',
+      metric: 'cyclomatic',
+      configKey: 'maxComplexity',
+      label: '圈复杂度',
+      suggestion: '减少分支数量，将独立的判断逻辑提取为函数',
+    });
+    this.addFunctionMetricRule({
+      name: 'max-cognitive-complexity',
+      description: '函数的认知复杂度不应超过指定的最大值',
+      metric: 'cognitive',
+      configKey: 'maxComplexity',
+      label: '认知复杂度',
+      suggestion: '使用提前返回减少嵌套，并将深层嵌套的逻辑提取为独立函数',
+    });
+    this.addFunctionMetricRule({
+      name: 'max-nesting-depth',
+      description: '函数中控制结构的嵌套深度不应超过指定的最大值',
+      metric: 'nestingDepth',
+      configKey: 'maxDepth',
+      label: '嵌套深度',
+      suggestion: '使用卫语句或提取函数降低嵌套层级',
+    });
+    this.addFunctionMetricRule({
+      name: 'max-params',
+      description: '函数的参数个数不应超过指定的最大值',
+      metric: 'parameters',
+      configKey: 'maxParams',
+      label: '参数个数',
+      suggestion: '将相关参数合并为一个选项对象',
+    });
+
+    // 内置规则：最大依赖深度，基于整个项目的依赖图计算
+    this.rules.set('max-dependency-depth', {
+      name: 'max-dependency-depth',
+      description: '依赖树深度不应超过指定的最大深度',
       enabled: true,
-      config: { maxLines: 50 },
-      execute: async ({
-        astService,
-        filePath,
-      }: IRuleContext): Promise<IRuleIssue[]> => {
-        if (!astService || !filePath) {
+      config: { maxDepth: 5 },
+      execute: async ({ filePath }: IRuleContext): Promise<IRuleIssue[]> => {
+        if (!filePath) {
           return [];
         }
 
-        const issues: IRuleIssue[] = [];
-        const maxLines = (this.rules.get('max-function-length')?.config
-          .maxLines || 50) as number;
+        const maxDepth = (this.rules.get('max-dependency-depth')?.config
+          .maxDepth ?? 5) as number;
+        const depths = await this.getDependencyDepths();
+        const file = path
+          .relative(this.options.projectRoot, filePath)
+          .split(path.sep)
+          .join('/');
+        const depth = depths.depthOf(file);
 
-        // 这里需要使用AST服务找出所有函数，并计算它们的长度
-        // 这是一个简化版，实际实现会使用真正的AST服务
-        const functions = await astService.getFunctions(filePath);
-        if (!functions || !Array.isArray(functions)) {
+        if (depth <= maxDepth) {
           return [];
         }
+        const chain = depths.chainOf(file);
 
-        for (const func of functions) {
-          if (func.endLine - func.startLine + 1 > maxLines) {
-            issues.push({
-              filePath,
-              startLine: func.startLine,
-              endLine: func.endLine,
-              severity: 'warning',
-              message: `函数 ${func.name || '(匿名)'} 有 ${
-                func.endLine - func.startLine + 1
-              } 行，超过了最大限制 (${maxLines})`,
-              suggestion: '考虑将大函数拆分成更小的函数',
-            });
-          }
-        }
-
-        return issues;
+        return [
+          {
+            filePath,
+            startLine: 1,
+            severity: 'warning',
+            message: `依赖树深度 (${depth}) 超过了最大限制 (${maxDepth}): ${chain.join(' → ')}`,
+            suggestion:
+              '减少只做转发的中间模块，或将深层依赖中的公共部分提取出来',
+          },
+        ];
       },
     });
+  }
 
-    // 内置规则：最大依赖深度
-    this.rules.set('max-dependency-depth', {
-      name: 'max-dependency-depth',
-      description: '依赖树深度不应超过指定的最大深度',
+  /**
+   * 添加基于函数度量的内置规则，默认阈值与复杂度分析器一致
+   */
+  private addFunctionMetricRule(definition: {
+    name: string;
+    description: string;
+    metric: ComplexityMetric;
+    configKey: string;
+    label: string;
+    suggestion: string;
+  }): void {
+    const { name, description, metric, configKey, label, suggestion } =
+      definition;
+    const defaultLimit = DEFAULT_COMPLEXITY_THRESHOLDS[metric];
+
+    this.rules.set(name, {
+      name,
+      description,
       enabled: true,
-      config: { maxDepth: 5 },
-      execute: async (): Promise<IRuleIssue[]> => {
-        // 这个规则需要分析整个项目的依赖图，而不仅仅是单个文件
-        // 需要依赖分析结果
-        return [];
+      config: { [configKey]: defaultLimit },
+      execute: async ({
+        filePath,
+        fileContent,
+      }: IRuleContext): Promise<IRuleIssue[]> => {
+        if (!filePath) {
+          return [];
+        }
+
+        const limit = (this.rules.get(name)?.config[configKey] ??
+          defaultLimit) as number;
+
+        return this.getFunctionMetrics(filePath, fileContent)
+          .filter((func) => func[metric] > limit)
+          .map((func) => ({
+            filePath,
+            startLine: func.line,
+            endLine: func.endLine,
+            startColumn: func.column,
+            severity: 'warning',
+            message: `函数 ${func.name} 的${label} (${func[metric]}) 超过了最大限制 (${limit})`,
+            suggestion,
+          }));
       },
     });
   }
 
   /**
-   * 加载自定义规则
+   * 获取文件中所有函数的度量结果，同一次执行中按文件缓存
    */
-  private async loadCustomRules(): Promise<void> {
-    if (!this.options.rulesDir || !fs.existsSync(this.options.rulesDir)) {
-      return;
+  private getFunctionMetrics(
+    filePath: string,
+    fileContent?: string
+  ): IFunctionComplexity[] {
+    let metrics = this.functionMetrics.get(filePath);
+    if (!metrics) {
+      if (!this.complexityAnalyzer) {
+        this.complexityAnalyzer = new ComplexityAnalyzer(
+          this.options.projectRoot
+        );
+      }
+      metrics = this.complexityAnalyzer.measureFile(filePath, fileContent);
+      this.functionMetrics.set(filePath, metrics);
     }
+    return metrics;
+  }
 
-    const ruleFiles = fs
-      .readdirSync(this.options.rulesDir)
-      .filter((file) => file.endsWith('.js') || file.endsWith('.ts'));
+  /**
+   * 获取项目依赖图中各文件的依赖深度，同一次执行中只构建一次依赖图；
+   * 构建失败时记录错误并视为没有依赖
+   */
+  private getDependencyDepths(): Promise<IDependencyDepths> {
+    this.dependencyDepths ??= (async () => {
+      const dependencies = new Map<string, string[]>();
+      let levels = new Map<string, number>();
+      try {
+        const analyzer = new DependencyAnalyzer(this.options.projectRoot);
+        const graph = await analyzer.buildGraph();
+        levels = await analyzer.getDependencyLevels();
+        // 依赖图中的边为 {source: 被依赖文件, target: 导入方}
+        graph.edges.forEach(({ source, target }) => {
+          dependencies.set(target, [
+            ...(dependencies.get(target) || []),
+            source,
+          ]);
+        });
+      } catch (error) {
+        console.error(
+          '构建依赖图失败，已跳过依赖深度检查:',
+          error instanceof Error ? error.message : error
+        );
+      }
+
+      const levelOf = (file: string) => levels.get(file) ?? 0;
+      return {
+        depthOf: levelOf,
+        // 沿层级递减的依赖找出最深的一条依赖链；循环依赖中的文件层级相同，链会经过同一循环中的其他文件
+        chainOf: (file: string) => {
+          const chain = [file];
+          let current = file;
+          while (levelOf(current) > 0) {
+            const candidates = (dependencies.get(current) || []).filter(
+              (dependency) => !chain.includes(dependency)
+            );
+            const next =
+              candidates.find(
+                (dependency) => levelOf(dependency) === levelOf(current) - 1
+              ) ||
+              candidates.find(
+                (dependency) => levelOf(dependency) === levelOf(current)
+              );
+            if (!next) {
+              break;
+            }
+            chain.push(next);
+            current = next;
+          }
+          return chain;
+        },
+      };
+    })();
+    return this.dependencyDepths;
+  }
 
-    for (const file of ruleFiles) {
+  /**
+   * 加载规则目录中的规则文件和 npm 包中的规则，单个模块加载失败不影响其他规则
+   * @param packages 规则包
+   */
+  private async loadCustomRules(packages: string[]): Promise<void> {
+    const loader = new RuleLoader(this.options.projectRoot);
+    const sources = [
+      ...(this.options.rulesDir
+        ? loader.listRuleFiles(this.options.rulesDir)
+        : []
+      ).map((file) => ({ name: file, load: () => loader.loadFile(file) })),
+      ...[...new Set(packages)].map((packageName) => ({
+        name: packageName,
+        load: () => loader.loadPackage(packageName),
+      })),
+    ];
+
+    for (const source of sources) {
       try {
-        // 注释掉实际动态加载的部分，防止lint错误
-        // const rulePath = path.join(this.options.rulesDir, file);
-        // 在实际环境中，这里需要动态加载规则模块
-        // const rule = require(rulePath);
-        // if (rule.name && typeof rule.execute === 'function') {
-        //   this.rules.set(rule.name, {
-        //     ...rule,
-        //     enabled: true,
-        //   });
-        // }
+        (await source.load()).forEach((rule) =>
+          this.rules.set(rule.name, rule)
+        );
       } catch (error) {
-        console.error(`加载自定义规则失败: ${file}`, error);
+        console.error(
+          `加载自定义规则失败: ${source.name}`,
+          error instanceof Error ? error.message : error
+        );
       }
     }
   }
 
   /**
-   * 应用配置文件中的规则设置
+   * 读取规则配置文件，文件不存在或无法解析时返回空配置
    */
-  private applyConfiguration(): void {
+  private readConfiguration(): Record<string, any> {
     if (!this.options.configPath || !fs.existsSync(this.options.configPath)) {
-      return;
+      return {};
     }
 
     try {
-      const configContent = fs.readFileSync(this.options.configPath, 'utf-8');
-      const config = JSON.parse(configContent);
-
-      if (config.customRules) {
-        for (const [ruleName, ruleConfig] of Object.entries(
-          config.customRules
-        )) {
-          const rule = this.rules.get(ruleName);
-          if (rule) {
-            if (typeof ruleConfig === 'boolean') {
-              rule.enabled = ruleConfig;
-            } else if (typeof ruleConfig === 'object') {
-              rule.enabled = true;
-              rule.config = { ...rule.config, ...ruleConfig };
-            }
-          }
-        }
-      }
+      return JSON.parse(fs.readFileSync(this.options.configPath, 'utf-8'));
     } catch (error) {
-      console.error('应用规则配置失败:', error);
+      console.error('读取规则配置失败:', error);
+      return {};
     }
   }
 
   /**
-   * 执行所有已启用的规则
+   * 应用规则设置：布尔值启用或禁用规则，对象启用规则并合并到规则配置；
+   * 带 selector 的对象是声明式规则，会编译为新规则（替换同名规则）
+   * @param customRules 规则设置
+   */
+  private applyConfiguration(customRules?: Record<string, any>): void {
+    Object.entries(customRules || {}).forEach(([ruleName, ruleConfig]) => {
+      if (isDeclarativeRuleConfig(ruleConfig)) {
+        this.rules.set(
+          ruleName,
+          createDeclarativeRule(ruleName, ruleConfig, this.options.projectRoot)
+        );
+        return;
+      }
+
+      const rule = this.rules.get(ruleName);
+      if (rule) {
+        if (typeof ruleConfig === 'boolean') {
+          rule.enabled = ruleConfig;
+        } else if (ruleConfig && typeof ruleConfig === 'object') {
+          rule.enabled = true;
+          rule.config = { ...rule.config, ...ruleConfig };
+        }
+      }
+    });
+  }
+
+  /**
+   * 执行所有已启用的规则，被行内抑制注释抑制的问题和基线中的问题不会出现在结果中
    * @param files 要分析的文件路径列表
    * @returns 自定义规则分析结果
    */
   async executeRules(files: string[]): Promise<ICustomRuleResult[]> {
     const results: ICustomRuleResult[] = [];
-
-    // 过滤启用的规则
-    const enabledRules = Array.from(this.rules.values()).filter(
-      (rule) => rule.enabled
-    );
+    const suppressions = new SuppressionScanner(this.options.projectRoot);
+    const fileContents = new Map<string, string>();
+    this.functionMetrics.clear();
+    this.dependencyDepths = undefined;
+    this.refreshSourceFiles(files);
+
+    // 过滤启用且配置有效的规则
+    const enabledRules = Array.from(this.rules.values()).filter((rule) => {
+      if (!rule.enabled) {
+        return false;
+      }
+      try {
+        if (rule.validateConfig) {
+          rule.config = rule.validateConfig(rule.config);
+        }
+        return true;
+      } catch (error) {
+        console.error(
+          `规则 ${rule.name} 的配置无效，已跳过:`,
+          error instanceof Error ? error.message : error
+        );
+        return false;
+      }
+    });
 
     for (const rule of enabledRules) {
       const issues: IRuleIssue[] = [];
 
       for (const filePath of files) {
         try {
-          // 相对路径用于调试或展示，暂时不使用
-          // const relativePath = path.relative(
-          //   this.options.projectRoot,
-          //   filePath
-          // );
-          let fileContent: string | undefined = undefined;
-
-          // 只在需要时读取文件内容
-          if (rule.execute.toString().includes('fileContent')) {
-            fileContent = fs.readFileSync(filePath, 'utf-8');
+          if (!fileContents.has(filePath)) {
+            fileContents.set(filePath, fs.readFileSync(filePath, 'utf-8'));
           }
 
-          const context: IRuleContext = {
-            projectRoot: this.options.projectRoot,
-            filePath,
-            fileContent,
-            astService: this.options.astService,
-            fsService: this.options.fsService,
-          };
-
-          const ruleIssues = await rule.execute(context);
+          const ruleIssues = await rule.execute(
+            this.createContext(rule, filePath, fileContents.get(filePath)!)
+          );
           issues.push(...ruleIssues);
         } catch (error) {
           console.error(
@@ -375,22 +627,32 @@ export class RuleEngine {
         }
       }
 
-      if (issues.length > 0) {
+      const reported = issues
+        .map((issue) => ({
+          location: {
+            filePath: issue.filePath,
+            startLine: issue.startLine,
+            endLine: issue.endLine,
+            startColumn: issue.startColumn,
+            endColumn: issue.endColumn,
+          },
+          severity: issue.severity,
+          message: issue.message,
+          suggestion: issue.suggestion,
+          ...(issue.fix ? { fix: issue.fix } : {}),
+        }))
+        .filter(
+          (issue) =>
+            this.options.suppressions === false ||
+            !suppressions.isSuppressed({ ruleId: rule.name, ...issue })
+        )
+        .filter(this.createBaselineFilter(rule.name));
+
+      if (reported.length > 0) {
         results.push({
           ruleName: rule.name,
           description: rule.description,
-          issues: issues.map((issue) => ({
-            location: {
-              filePath: issue.filePath,
-              startLine: issue.startLine,
-              endLine: issue.endLine,
-              startColumn: issue.startColumn,
-              endColumn: issue.endColumn,
-            },
-            severity: issue.severity,
-            message: issue.message,
-            suggestion: issue.suggestion,
-          })),
+          issues: reported,
         });
       }
     }
@@ -398,6 +660,106 @@ export class RuleEngine {
     return results;
   }
 
+  /**
+   * 创建规则执行环境，语法树、项目和类型检查器在首次访问时才创建
+   */
+  private createContext(
+    rule: IRule,
+    filePath: string,
+    fileContent: string
+  ): IRuleContext {
+    const getProject = () => this.getProject();
+    const getSourceFile = () => this.getSourceFile(filePath);
+
+    return {
+      projectRoot: this.options.projectRoot,
+      filePath,
+      fileContent,
+      config: rule.config,
+      get sourceFile() {
+        return getSourceFile();
+      },
+      get project() {
+        return getProject();
+      },
+      get typeChecker() {
+        return getProject().getTypeChecker();
+      },
+      astService: this.options.astService,
+      fsService: this.options.fsService,
+    };
+  }
+
+  /**
+   * 获取规则共用的 ts-morph 项目，编译选项遵循项目的 tsconfig.json
+   */
+  private getProject(): Project {
+    if (!this.project) {
+      const tsConfigFilePath = path.join(
+        this.options.projectRoot,
+        'tsconfig.json'
+      );
+      this.project = new Project({
+        tsConfigFilePath: fs.existsSync(tsConfigFilePath)
+          ? tsConfigFilePath
+          : undefined,
+        compilerOptions: { allowJs: true },
+        skipAddingFilesFromTsConfig: true,
+      });
+    }
+    return this.project;
+  }
+
+  /**
+   * 获取文件的语法树，导入的文件会一并加入项目以便类型检查
+   */
+  private getSourceFile(filePath: string): SourceFile {
+    const project = this.getProject();
+    return (
+      project.getSourceFile(filePath) || project.addSourceFileAtPath(filePath)
+    );
+  }
+
+  /**
+   * 重新读取上次执行后已加载的文件，使再次执行（如监测模式）看到最新内容
+   */
+  private refreshSourceFiles(files: string[]): void {
+    files.forEach((filePath) => {
+      const sourceFile = this.project?.getSourceFile(filePath);
+      if (sourceFile && fs.existsSync(filePath)) {
+        sourceFile.refreshFromFileSystemSync();
+      }
+    });
+  }
+
+  /**
+   * 创建基线过滤函数，过滤掉与基线中已知问题指纹相同的问题
+   * @param ruleName 规则名称
+   */
+  private createBaselineFilter(
+    ruleName: string
+  ): (
+    issue: ICustomRuleResult['issues'][number],
+    index: number,
+    issues: ICustomRuleResult['issues']
+  ) => boolean {
+    const known = new Set(
+      (this.options.baseline?.entries || []).map((entry) => entry.fingerprint)
+    );
+    if (!known.size) {
+      return () => true;
+    }
+
+    let fingerprints: string[] | null = null;
+    return (_issue, index, issues) => {
+      fingerprints ??= fingerprintIssues(
+        issues.map((issue) => ({ ruleId: ruleName, ...issue })),
+        this.options.projectRoot
+      ).map((issue) => issue.fingerprint);
+      return !known.has(fingerprints[index]);
+    };
+  }
+
   /**
    * 添加自定义规则
    * @param rule 自定义规则
@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module, { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { ts } from 'ts-morph';
+import { IRule } from './rule-engine';
+import { RuleError } from './rule-sdk';
+
+/**
+ * 可作为规则模块加载的文件扩展名
+ */
+export const RULE_FILE_EXTENSIONS = [
+  '.js',
+  '.cjs',
+  '.mjs',
+  '.ts',
+  '.cts',
+  '.mts',
+];
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.cts', '.mts'];
+
+/**
+ * Node 模块系统中编译单个文件的内部接口
+ */
+interface ICompilableModule {
+  _compile(code: string, filename: string): void;
+}
+
+type ModuleExtensionHandler = (
+  module: ICompilableModule,
+  filename: string
+) => void;
+
+/**
+ * 规则模块加载器
+ * 从规则目录或 npm 包加载规则，支持 CommonJS、ESM 以及即时转译的 TypeScript 模块。
+ * 模块可以默认导出单条规则、规则数组或带 rules 字段的对象
+ */
+export class RuleLoader {
+  private readonly projectRoot: string;
+
+  /**
+   * @param projectRoot 项目根路径，npm 包从这里解析
+   */
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * 列出规则目录中的规则文件（不递归，跳过类型声明文件），目录不存在时返回空数组
+   * @param rulesDir 规则目录
+   */
+  listRuleFiles(rulesDir: string): string[] {
+    if (!fs.existsSync(rulesDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(rulesDir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isFile() &&
+          RULE_FILE_EXTENSIONS.includes(path.extname(entry.name)) &&
+          !/\.d\.[cm]?ts$/.test(entry.name)
+      )
+      .map((entry) => path.join(rulesDir, entry.name))
+      .sort();
+  }
+
+  /**
+   * 加载 npm 包中的规则
+   * @param packageName 包名
+   */
+  async loadPackage(packageName: string): Promise<IRule[]> {
+    let entryPath: string;
+    try {
+      entryPath = createRequire(
+        path.join(this.projectRoot, 'package.json')
+      ).resolve(packageName);
+    } catch {
+      throw new RuleError(
+        `无法从 ${this.projectRoot} 解析规则包 ${packageName}，请确认已安装`,
+        'ERR_RULE_NOT_FOUND'
+      );
+    }
+    return this.loadFile(entryPath);
+  }
+
+  /**
+   * 加载规则文件
+   * @param filePath 文件路径
+   */
+  async loadFile(filePath: string): Promise<IRule[]> {
+    const resolvedPath = path.resolve(this.projectRoot, filePath);
+    let exported: unknown;
+    try {
+      exported = await this.importModule(resolvedPath);
+    } catch (error) {
+      throw new RuleError(
+        `加载规则模块 ${resolvedPath} 失败: ${error instanceof Error ? error.message : String(error)}`,
+        'ERR_RULE_LOAD'
+      );
+    }
+
+    const candidates = this.collectRules(exported);
+    if (candidates.length === 0) {
+      throw new RuleError(
+        `规则模块 ${resolvedPath} 没有导出规则`,
+        'ERR_RULE_INVALID'
+      );
+    }
+    return candidates.map((candidate) =>
+      this.normalizeRule(candidate, resolvedPath)
+    );
+  }
+
+  /**
+   * 按扩展名加载模块：TypeScript 转译后加载，.mjs 和 ESM 格式的 .js 使用动态导入
+   */
+  private async importModule(filePath: string): Promise<unknown> {
+    const extension = path.extname(filePath);
+    if (TYPESCRIPT_EXTENSIONS.includes(extension)) {
+      return this.requireTypeScript(filePath);
+    }
+    if (extension === '.mjs') {
+      return import(pathToFileURL(filePath).href);
+    }
+
+    const requireModule = createRequire(filePath);
+    try {
+      // 重新加载时读取最新的文件内容
+      delete requireModule.cache[filePath];
+      return requireModule(filePath);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ERR_REQUIRE_ESM') {
+        return import(pathToFileURL(filePath).href);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 把 TypeScript 转译为 CommonJS 后加载；加载期间临时注册 TypeScript 扩展名，
+   * 使规则文件可以导入同目录下的其他 TypeScript 模块
+   */
+  private requireTypeScript(filePath: string): unknown {
+    const extensions = (
+      Module as unknown as {
+        _extensions: Record<string, ModuleExtensionHandler | undefined>;
+      }
+    )._extensions;
+    const previous = TYPESCRIPT_EXTENSIONS.map(
+      (extension) => [extension, extensions[extension]] as const
+    );
+    const compile: ModuleExtensionHandler = (module, filename) =>
+      module._compile(this.transpile(filename), filename);
+
+    TYPESCRIPT_EXTENSIONS.forEach((extension) => {
+      extensions[extension] = compile;
+    });
+    try {
+      const requireModule = createRequire(filePath);
+      delete requireModule.cache[filePath];
+      return requireModule(filePath);
+    } finally {
+      previous.forEach(([extension, handler]) => {
+        if (handler) {
+          extensions[extension] = handler;
+        } else {
+          delete extensions[extension];
+        }
+      });
+    }
+  }
+
+  /**
+   * 把 TypeScript 源码转译为 CommonJS
+   */
+  private transpile(filePath: string): string {
+    const { outputText } = ts.transpileModule(
+      fs.readFileSync(filePath, 'utf-8'),
+      {
+        fileName: filePath,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2019,
+          esModuleInterop: true,
+          inlineSourceMap: true,
+        },
+      }
+    );
+    return outputText;
+  }
+
+  /**
+   * 从模块导出中取出规则候选项
+   */
+  private collectRules(exported: unknown): unknown[] {
+    const record = (value: unknown) =>
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>)
+        : undefined;
+
+    const value =
+      record(exported) && 'default' in record(exported)!
+        ? record(exported)!.default
+        : exported;
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    const rules = record(value)?.rules ?? record(exported)?.rules;
+    if (rules && typeof (value as IRule)?.execute !== 'function') {
+      return Array.isArray(rules) ? rules : Object.values(rules);
+    }
+
+    return value ? [value] : [];
+  }
+
+  /**
+   * 校验规则并补全默认字段
+   */
+  private normalizeRule(candidate: unknown, filePath: string): IRule {
+    const rule = candidate as Partial<IRule> | undefined;
+    if (
+      !rule ||
+      typeof rule.name !== 'string' ||
+      !rule.name ||
+      typeof rule.execute !== 'function'
+    ) {
+      throw new RuleError(
+        `规则模块 ${filePath} 导出的规则缺少 name 或 execute，可使用 defineRule() 定义规则`,
+        'ERR_RULE_INVALID'
+      );
+    }
+
+    // 在原对象上补全字段，规则可能在 execute 中引用自身
+    rule.description ??= '';
+    rule.enabled ??= true;
+    rule.config ??= {};
+    return rule as IRule;
+  }
+}
@@ -0,0 +1,387 @@
+import { Node, Project, SourceFile, TypeChecker } from 'ts-morph';
+import { IIssueFix, IssueSeverity, ITextEdit } from '../../types/analysis';
+import { IRule, IRuleIssue } from './rule-engine';
+
+/**
+ * 规则错误
+ */
+export class RuleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = 'RuleError';
+  }
+}
+
+/**
+ * 规则配置项的类型
+ */
+export type RuleOptionType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'string[]'
+  | 'number[]';
+
+/**
+ * 规则配置项的定义
+ */
+export interface IRuleOptionSchema<T> {
+  /**
+   * 值类型
+   */
+  type: RuleOptionType;
+
+  /**
+   * 默认值
+   */
+  default: T;
+
+  /**
+   * 说明
+   */
+  description?: string;
+
+  /**
+   * 可选值
+   */
+  enum?: readonly T[];
+
+  /**
+   * 数值的最小值
+   */
+  minimum?: number;
+
+  /**
+   * 数值的最大值
+   */
+  maximum?: number;
+}
+
+/**
+ * 规则配置的定义，每个配置项对应一个定义
+ */
+export type RuleConfigSchema<TConfig> = {
+  [K in keyof TConfig]: IRuleOptionSchema<TConfig[K]>;
+};
+
+/**
+ * 文件中的位置范围，为从 0 开始的字符偏移 [开始, 结束)
+ */
+export type RuleTextRange = [number, number];
+
+/**
+ * 生成修复编辑的工具
+ */
+export interface IRuleFixer {
+  replace(target: Node | RuleTextRange, text: string): ITextEdit;
+  insertBefore(target: Node | RuleTextRange, text: string): ITextEdit;
+  insertAfter(target: Node | RuleTextRange, text: string): ITextEdit;
+  remove(target: Node | RuleTextRange): ITextEdit;
+}
+
+/**
+ * 规则报告的问题
+ */
+export interface IRuleReportDescriptor {
+  /**
+   * 问题消息
+   */
+  message: string;
+
+  /**
+   * 问题所在的节点，未指定时使用 line 和 column
+   */
+  node?: Node;
+
+  /**
+   * 开始行号（从 1 开始）
+   */
+  line?: number;
+
+  /**
+   * 开始列号（从 1 开始）
+   */
+  column?: number;
+
+  /**
+   * 结束行号
+   */
+  endLine?: number;
+
+  /**
+   * 结束列号
+   */
+  endColumn?: number;
+
+  /**
+   * 严重性，默认使用规则定义的严重性
+   */
+  severity?: IssueSeverity;
+
+  /**
+   * 修复建议
+   */
+  suggestion?: string;
+
+  /**
+   * 自动修复
+   */
+  fix?: IIssueFix;
+}
+
+/**
+ * 规则检查单个文件时的上下文
+ */
+export interface IRuleCheckContext<TConfig> {
+  /**
+   * 规则名称
+   */
+  ruleName: string;
+
+  /**
+   * 项目根路径
+   */
+  projectRoot: string;
+
+  /**
+   * 当前文件的绝对路径
+   */
+  filePath: string;
+
+  /**
+   * 当前文件的语法树
+   */
+  sourceFile: SourceFile;
+
+  /**
+   * 整个项目的 ts-morph 项目，当前文件的导入会被解析到其中
+   */
+  project: Project;
+
+  /**
+   * 项目范围的类型检查器
+   */
+  typeChecker: TypeChecker;
+
+  /**
+   * 经过校验、合并了默认值的规则配置
+   */
+  config: Readonly<TConfig>;
+
+  /**
+   * 生成修复编辑的工具
+   */
+  fixer: IRuleFixer;
+
+  /**
+   * 报告问题
+   */
+  report(descriptor: IRuleReportDescriptor): void;
+}
+
+/**
+ * 规则定义
+ */
+export interface IRuleDefinition<TConfig> {
+  /**
+   * 规则名称，也是问题的规则标识
+   */
+  name: string;
+
+  /**
+   * 规则描述
+   */
+  description: string;
+
+  /**
+   * 问题的默认严重性，默认为 warning
+   */
+  severity?: IssueSeverity;
+
+  /**
+   * 是否默认启用，默认为 true
+   */
+  enabled?: boolean;
+
+  /**
+   * 配置定义，配置文件中的 customRules.<规则名称> 会按它校验
+   */
+  schema?: RuleConfigSchema<TConfig>;
+
+  /**
+   * 检查一个文件
+   */
+  check(context: IRuleCheckContext<TConfig>): void | Promise<void>;
+}
+
+const fixer: IRuleFixer = {
+  replace: (target, text) => {
+    const [start, end] = toRange(target);
+    return { start, end, text };
+  },
+  insertBefore: (target, text) => {
+    const [start] = toRange(target);
+    return { start, end: start, text };
+  },
+  insertAfter: (target, text) => {
+    const [, end] = toRange(target);
+    return { start: end, end, text };
+  },
+  remove: (target) => {
+    const [start, end] = toRange(target);
+    return { start, end, text: '' };
+  },
+};
+
+/**
+ * 节点或范围转换为字符偏移范围，节点不包含前导注释和空白
+ */
+function toRange(target: Node | RuleTextRange): RuleTextRange {
+  return Array.isArray(target) ? target : [target.getStart(), target.getEnd()];
+}
+
+/**
+ * 校验单个配置项的值
+ */
+function isValidOption(schema: IRuleOptionSchema<unknown>, value: unknown) {
+  const isNumber = (item: unknown) =>
+    typeof item === 'number' &&
+    !isNaN(item) &&
+    (schema.minimum === undefined || item >= schema.minimum) &&
+    (schema.maximum === undefined || item <= schema.maximum);
+
+  const typeMatches: Record<RuleOptionType, () => boolean> = {
+    string: () => typeof value === 'string',
+    number: () => isNumber(value),
+    boolean: () => typeof value === 'boolean',
+    'string[]': () =>
+      Array.isArray(value) && value.every((item) => typeof item === 'string'),
+    'number[]': () => Array.isArray(value) && value.every(isNumber),
+  };
+
+  return (
+    typeMatches[schema.type]() && (!schema.enum || schema.enum.includes(value))
+  );
+}
+
+/**
+ * 按配置定义校验规则配置，并补全默认值
+ * @param ruleName 规则名称
+ * @param schema 配置定义
+ * @param config 配置
+ * @returns 校验后的配置
+ */
+export function validateRuleConfig<TConfig>(
+  ruleName: string,
+  schema: RuleConfigSchema<TConfig>,
+  config: Record<string, unknown>
+): TConfig {
+  const options = schema as Record<string, IRuleOptionSchema<unknown>>;
+  const unknownKeys = Object.keys(config).filter((key) => !(key in options));
+  if (unknownKeys.length > 0) {
+    throw new RuleError(
+      `规则 ${ruleName} 不支持配置项: ${unknownKeys.join(', ')}`,
+      'ERR_RULE_CONFIG'
+    );
+  }
+
+  const validated: Record<string, unknown> = {};
+  Object.entries(options).forEach(([key, option]) => {
+    const value = config[key] === undefined ? option.default : config[key];
+    if (!isValidOption(option, value)) {
+      const expected = option.enum
+        ? option.enum.map((item) => JSON.stringify(item)).join(' | ')
+        : option.type;
+      throw new RuleError(
+        `规则 ${ruleName} 的配置项 ${key} 无效: ${JSON.stringify(value)}，应为 ${expected}`,
+        'ERR_RULE_CONFIG'
+      );
+    }
+    validated[key] = value;
+  });
+
+  return validated as TConfig;
+}
+
+/**
+ * 定义自定义规则
+ * 规则按文件检查，每次检查拿到当前文件的 ts-morph SourceFile、项目范围的类型检查器和校验后的配置，
+ * 通过 report() 报告问题并可附带自动修复
+ * @param definition 规则定义
+ * @returns 可被规则引擎加载的规则
+ */
+export function defineRule<TConfig = Record<string, never>>(
+  definition: IRuleDefinition<TConfig>
+): IRule {
+  if (!definition || typeof definition.name !== 'string' || !definition.name) {
+    throw new RuleError('规则缺少名称', 'ERR_RULE_INVALID');
+  }
+  if (typeof definition.check !== 'function') {
+    throw new RuleError(
+      `规则 ${definition.name} 缺少 check 函数`,
+      'ERR_RULE_INVALID'
+    );
+  }
+
+  const { name, description, schema } = definition;
+  const severity = definition.severity || 'warning';
+  const validate = (config: Record<string, unknown>) =>
+    validateRuleConfig(
+      name,
+      schema || ({} as RuleConfigSchema<TConfig>),
+      config
+    );
+
+  const rule: IRule = {
+    name,
+    description: description || '',
+    enabled: definition.enabled ?? true,
+    config: validate({}) as Record<string, unknown>,
+    validateConfig: (config) =>
+      validate(config) as unknown as Record<string, unknown>,
+    execute: async (context) => {
+      const { filePath, sourceFile, project } = context;
+      if (!filePath || !sourceFile || !project) {
+        return [];
+      }
+
+      const issues: IRuleIssue[] = [];
+      await definition.check({
+        ruleName: name,
+        projectRoot: context.projectRoot,
+        filePath,
+        sourceFile,
+        project,
+        typeChecker: project.getTypeChecker(),
+        config: (context.config || rule.config) as TConfig,
+        fixer,
+        report: (descriptor) => {
+          const start = descriptor.node
+            ? sourceFile.getLineAndColumnAtPos(descriptor.node.getStart())
+            : { line: descriptor.line, column: descriptor.column };
+          const end = descriptor.node
+            ? sourceFile.getLineAndColumnAtPos(descriptor.node.getEnd())
+            : { line: descriptor.endLine, column: descriptor.endColumn };
+
+          issues.push({
+            filePath,
+            startLine: start.line,
+            startColumn: start.column,
+            endLine: end.line,
+            endColumn: end.column,
+            severity: descriptor.severity || severity,
+            message: descriptor.message,
+            suggestion: descriptor.suggestion,
+            ...(descriptor.fix ? { fix: descriptor.fix } : {}),
+          });
+        },
+      });
+      return issues;
+    },
+  };
+
+  return rule;
+}
@@ -0,0 +1,533 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { RuleError } from './rule-sdk';
+
+/**
+ * 属性谓词的比较运算符
+ */
+export type SelectorOperator =
+  | '='
+  | '!='
+  | '^='
+  | '$='
+  | '*='
+  | '<'
+  | '<='
+  | '>'
+  | '>=';
+
+/**
+ * 属性谓词，如 [expression.text="console.log"]
+ */
+export interface IAttributePredicate {
+  /**
+   * 属性路径，按 . 分隔
+   */
+  path: string[];
+
+  /**
+   * 比较运算符，未指定时只判断属性是否存在
+   */
+  operator?: SelectorOperator;
+
+  /**
+   * 期望值
+   */
+  value?: string | number | boolean | RegExp;
+}
+
+/**
+ * 复合选择器：节点类型加属性谓词和伪类，如 CallExpression[arguments.length=0]:not(...)
+ */
+export interface ICompoundSelector {
+  /**
+   * 节点类型，未指定或为 * 时匹配任意节点
+   */
+  kind?: SyntaxKind;
+
+  /**
+   * 属性谓词
+   */
+  attributes: IAttributePredicate[];
+
+  /**
+   * :has() 中的选择器，后代中必须存在匹配的节点
+   */
+  has: IComplexSelector[][];
+
+  /**
+   * :not() 中的选择器，节点不能匹配
+   */
+  not: IComplexSelector[][];
+}
+
+/**
+ * 由组合符连接的复合选择器序列
+ */
+export interface IComplexSelector {
+  /**
+   * 复合选择器，最后一个匹配被选中的节点
+   */
+  compounds: ICompoundSelector[];
+
+  /**
+   * 相邻复合选择器之间的组合符：descendant 为空格，child 为 >
+   */
+  combinators: Array<'descendant' | 'child'>;
+}
+
+/**
+ * 解析后的选择器
+ */
+export interface ISelector {
+  /**
+   * 选择器源码
+   */
+  source: string;
+
+  /**
+   * 逗号分隔的候选选择器，匹配任意一个即可
+   */
+  alternatives: IComplexSelector[];
+}
+
+const OPERATORS: SelectorOperator[] = [
+  '!=',
+  '^=',
+  '$=',
+  '*=',
+  '<=',
+  '>=',
+  '=',
+  '<',
+  '>',
+];
+
+const NUMERIC_OPERATORS: SelectorOperator[] = ['<', '<=', '>', '>='];
+
+/**
+ * 选择器解析器
+ */
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * 解析整个选择器
+   */
+  parse(): IComplexSelector[] {
+    const alternatives = this.parseList();
+    this.skipSpaces();
+    if (this.pos < this.source.length) {
+      this.fail(`无法识别的字符 "${this.peek()}"`);
+    }
+    return alternatives;
+  }
+
+  /**
+   * 解析逗号分隔的选择器列表
+   */
+  private parseList(): IComplexSelector[] {
+    const list = [this.parseComplex()];
+    this.skipSpaces();
+    while (this.peek() === ',') {
+      this.pos++;
+      list.push(this.parseComplex());
+      this.skipSpaces();
+    }
+    return list;
+  }
+
+  /**
+   * 解析由组合符连接的复合选择器序列
+   */
+  private parseComplex(): IComplexSelector {
+    this.skipSpaces();
+    const selector: IComplexSelector = {
+      compounds: [this.parseCompound()],
+      combinators: [],
+    };
+
+    for (;;) {
+      const hadSpace = this.skipSpaces();
+      const char = this.peek();
+      if (char === '>') {
+        this.pos++;
+        this.skipSpaces();
+        selector.combinators.push('child');
+      } else if (hadSpace && char !== undefined && !',)'.includes(char)) {
+        selector.combinators.push('descendant');
+      } else {
+        return selector;
+      }
+      selector.compounds.push(this.parseCompound());
+    }
+  }
+
+  /**
+   * 解析复合选择器
+   */
+  private parseCompound(): ICompoundSelector {
+    const start = this.pos;
+    const compound: ICompoundSelector = { attributes: [], has: [], not: [] };
+
+    if (this.peek() === '*') {
+      this.pos++;
+    } else {
+      const name = this.readWhile(/[A-Za-z0-9_]/);
+      if (name) {
+        const kind = SyntaxKind[name as keyof typeof SyntaxKind];
+        if (typeof kind !== 'number') {
+          this.fail(`未知的节点类型 ${name}`, start);
+        }
+        compound.kind = kind;
+      }
+    }
+
+    for (;;) {
+      if (this.peek() === '[') {
+        compound.attributes.push(this.parseAttribute());
+      } else if (this.peek() === ':') {
+        this.parsePseudo(compound);
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      this.fail('缺少选择器');
+    }
+    return compound;
+  }
+
+  /**
+   * 解析属性谓词
+   */
+  private parseAttribute(): IAttributePredicate {
+    this.pos++;
+    this.skipSpaces();
+    const pathStart = this.pos;
+    const path = this.readWhile(/[A-Za-z0-9_.]/).split('.');
+    if (path.some((segment) => !segment)) {
+      this.fail('属性路径无效', pathStart);
+    }
+
+    this.skipSpaces();
+    const predicate: IAttributePredicate = { path };
+    if (this.peek() !== ']' && this.peek() !== undefined) {
+      const operator = OPERATORS.find((item) =>
+        this.source.startsWith(item, this.pos)
+      );
+      if (!operator) {
+        this.fail('缺少比较运算符');
+      }
+      this.pos += operator.length;
+      this.skipSpaces();
+      predicate.operator = operator;
+      predicate.value = this.parseValue();
+      if (
+        NUMERIC_OPERATORS.includes(operator) &&
+        typeof predicate.value !== 'number'
+      ) {
+        this.fail(`运算符 ${operator} 只能与数字比较`);
+      }
+      this.skipSpaces();
+    }
+
+    this.expect(']');
+    return predicate;
+  }
+
+  /**
+   * 解析属性值：带引号的字符串、/正则/、数字、布尔值或不带引号的单词
+   */
+  private parseValue(): string | number | boolean | RegExp {
+    const char = this.peek();
+    if (char === '"' || char === "'") {
+      return this.readQuoted(char);
+    }
+    if (char === '/') {
+      const pattern = this.readQuoted('/');
+      const flags = this.readWhile(/[imsu]/);
+      try {
+        return new RegExp(pattern, flags);
+      } catch (error) {
+        this.fail(
+          `正则表达式无效: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    const word = this.readWhile(/[^\]\s]/);
+    if (!word) {
+      this.fail('缺少属性值');
+    }
+    if (/^-?\d+(\.\d+)?$/.test(word)) {
+      return Number(word);
+    }
+    return word === 'true' || word === 'false' ? word === 'true' : word;
+  }
+
+  /**
+   * 解析 :has() 和 :not() 伪类
+   */
+  private parsePseudo(compound: ICompoundSelector): void {
+    const start = this.pos;
+    this.pos++;
+    const name = this.readWhile(/[a-z]/);
+    if (name !== 'has' && name !== 'not') {
+      this.fail(`不支持的伪类 :${name}`, start);
+    }
+    this.expect('(');
+    compound[name].push(this.parseList());
+    this.skipSpaces();
+    this.expect(')');
+  }
+
+  /**
+   * 读取以 quote 结尾的内容，支持反斜杠转义
+   */
+  private readQuoted(quote: string): string {
+    const start = this.pos;
+    let value = '';
+    this.pos++;
+    while (this.pos < this.source.length && this.peek() !== quote) {
+      if (this.peek() === '\\' && this.pos + 1 < this.source.length) {
+        // 正则中保留转义，由 RegExp 解释
+        value +=
+          quote === '/'
+            ? this.source.slice(this.pos, this.pos + 2)
+            : this.source[this.pos + 1];
+        this.pos += 2;
+      } else {
+        value += this.source[this.pos++];
+      }
+    }
+    if (this.pos >= this.source.length) {
+      this.fail(`缺少结束的 ${quote}`, start);
+    }
+    this.pos++;
+    return value;
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (
+      this.pos < this.source.length &&
+      pattern.test(this.source[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private skipSpaces(): boolean {
+    return this.readWhile(/\s/).length > 0;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      this.fail(`缺少 "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private fail(message: string, pos = this.pos): never {
+    throw new RuleError(
+      `选择器 "${this.source}" 第 ${pos + 1} 个字符处${message}`,
+      'ERR_RULE_SELECTOR'
+    );
+  }
+}
+
+/**
+ * 解析 AST 选择器
+ * 语法与 CSS 选择器相似：节点类型为 ts-morph 的 SyntaxKind 名称（* 匹配任意节点），
+ * 空格表示后代，> 表示子节点，逗号分隔多个候选；[path] 判断属性存在，
+ * [path op value] 比较属性值，op 可以是 = != ^= $= *= < <= > >=，值可以是字符串、数字、布尔值或 /正则/；
+ * :has(选择器) 要求后代中存在匹配的节点，:not(选择器) 要求节点不匹配
+ * @param source 选择器
+ * @returns 解析后的选择器
+ */
+export function parseSelector(source: string): ISelector {
+  if (typeof source !== 'string' || !source.trim()) {
+    throw new RuleError('选择器不能为空', 'ERR_RULE_SELECTOR');
+  }
+  return { source, alternatives: new SelectorParser(source).parse() };
+}
+
+/**
+ * 判断节点是否匹配选择器
+ * @param node 节点
+ * @param selector 解析后的选择器
+ */
+export function matchesSelector(node: Node, selector: ISelector): boolean {
+  return matchesAny(node, selector.alternatives);
+}
+
+function matchesAny(node: Node, selectors: IComplexSelector[]): boolean {
+  return selectors.some((selector) =>
+    matchesComplex(node, selector, selector.compounds.length - 1)
+  );
+}
+
+/**
+ * 从右向左匹配：节点匹配第 index 个复合选择器，其祖先依次匹配前面的复合选择器
+ */
+function matchesComplex(
+  node: Node,
+  selector: IComplexSelector,
+  index: number
+): boolean {
+  if (!matchesCompound(node, selector.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  if (selector.combinators[index - 1] === 'child') {
+    const parent = node.getParent();
+    return !!parent && matchesComplex(parent, selector, index - 1);
+  }
+  for (
+    let ancestor = node.getParent();
+    ancestor;
+    ancestor = ancestor.getParent()
+  ) {
+    if (matchesComplex(ancestor, selector, index - 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesCompound(node: Node, compound: ICompoundSelector): boolean {
+  return (
+    (compound.kind === undefined || node.getKind() === compound.kind) &&
+    compound.attributes.every((predicate) =>
+      matchesAttribute(node, predicate)
+    ) &&
+    compound.has.every((selectors) => hasDescendant(node, selectors)) &&
+    compound.not.every((selectors) => !matchesAny(node, selectors))
+  );
+}
+
+function hasDescendant(node: Node, selectors: IComplexSelector[]): boolean {
+  let found = false;
+  node.forEachDescendant((descendant, traversal) => {
+    if (matchesAny(descendant, selectors)) {
+      found = true;
+      traversal.stop();
+    }
+  });
+  return found;
+}
+
+function matchesAttribute(node: Node, predicate: IAttributePredicate): boolean {
+  const value = resolvePath(node, predicate.path);
+  const { operator, value: expected } = predicate;
+  if (!operator) {
+    return (
+      value !== undefined &&
+      value !== null &&
+      value !== false &&
+      !(Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  const actual = toComparable(value);
+  if (actual === undefined) {
+    return operator === '!=';
+  }
+
+  if (NUMERIC_OPERATORS.includes(operator)) {
+    const number = Number(actual);
+    const limit = expected as number;
+    return (
+      !isNaN(number) &&
+      {
+        '<': number < limit,
+        '<=': number <= limit,
+        '>': number > limit,
+        '>=': number >= limit,
+      }[operator as '<' | '<=' | '>' | '>=']
+    );
+  }
+
+  const equals =
+    expected instanceof RegExp
+      ? expected.test(actual)
+      : actual === String(expected);
+  const text = String(expected);
+  switch (operator) {
+    case '=':
+      return equals;
+    case '!=':
+      return !equals;
+    case '^=':
+      return actual.startsWith(text);
+    case '$=':
+      return actual.endsWith(text);
+    default:
+      return actual.includes(text);
+  }
+}
+
+/**
+ * 沿属性路径取值：节点上的 text 为节点文本，kind 为节点类型名称，
+ * 其他段为编译器节点的属性；数组支持下标和 length
+ */
+function resolvePath(node: Node, path: string[]): unknown {
+  let current: unknown = node;
+  for (const segment of path) {
+    if (current instanceof Node) {
+      if (segment === 'text') {
+        current = nodeText(current);
+      } else if (segment === 'kind') {
+        current = current.getKindName();
+      } else {
+        current =
+          segment in current.compilerNode
+            ? (
+                current as unknown as {
+                  getNodeProperty(name: string): unknown;
+                }
+              ).getNodeProperty(segment)
+            : undefined;
+      }
+    } else if (current !== null && typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * 节点文本：标识符和字面量取其值（字符串不带引号），其他节点取源码
+ */
+function nodeText(node: Node): string {
+  const text = (node.compilerNode as { text?: unknown }).text;
+  return typeof text === 'string' ? text : node.getText();
+}
+
+function toComparable(value: unknown): string | undefined {
+  if (value instanceof Node) {
+    return nodeText(value);
+  }
+  if (
+    value === undefined ||
+    value === null ||
+    typeof value === 'object' ||
+    typeof value === 'function'
+  ) {
+    return undefined;
+  }
+  return String(value);
+}
@@ -0,0 +1,344 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  IAnalysisIssue,
+  ISuppression,
+  ISuppressionResult,
+  SuppressionKind,
+} from '../types/analysis';
+import { ANALYZER_ISSUE_RULES } from './issue-rules';
+
+/**
+ * 抑制注释，写在 // 或 /* 注释的开头，指令包括 code-insight-disable-next-line、
+ * code-insight-disable-line、code-insight-disable-file 以及成对的 code-insight-disable 和 code-insight-enable，
+ * 指令后依次为规则、可选的 until=YYYY-MM-DD 和 -- 之后的原因
+ */
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*)\s*code-insight-(disable-next-line|disable-line|disable-file|disable|enable)\b(.*?)(?:\*\/.*)?$/;
+
+const DIRECTIVE_KINDS: Record<string, SuppressionKind> = {
+  'disable-next-line': 'next-line',
+  'disable-line': 'line',
+  'disable-file': 'file',
+  disable: 'block',
+};
+
+/**
+ * 应用抑制注释后的结果
+ */
+export interface ISuppressionOutcome extends ISuppressionResult {
+  /**
+   * 未被抑制的问题
+   */
+  active: IAnalysisIssue[];
+}
+
+/**
+ * 判断抑制规则是否匹配问题规则，规则前缀匹配其下的所有规则
+ * @param rules 抑制的规则，为空时匹配所有规则
+ * @param ruleId 问题规则标识
+ */
+export function matchesSuppressionRule(
+  rules: string[],
+  ruleId: string
+): boolean {
+  return (
+    rules.length === 0 ||
+    rules.some((rule) => ruleId === rule || ruleId.startsWith(`${rule}/`))
+  );
+}
+
+/**
+ * 创建判断规则本次是否被检查的函数：内置分析器的规则只在产生它的分析器运行时检查，
+ * 不属于内置分析器的规则只在规则引擎运行时检查，抑制注释本身的问题每次都会检查
+ * @param analyzerIds 本次运行的分析器
+ * @param customRulesChecked 规则引擎本次是否运行
+ */
+export function createRuleChecker(
+  analyzerIds: string[],
+  customRulesChecked: boolean
+): (rule: string) => boolean {
+  return (rule) => {
+    const analyzerRules = ANALYZER_ISSUE_RULES.filter((issueRule) =>
+      matchesSuppressionRule([rule], issueRule.id)
+    );
+    return analyzerRules.length > 0
+      ? analyzerRules.some(
+          (issueRule) =>
+            issueRule.analyzer === 'suppression' ||
+            analyzerIds.includes(issueRule.analyzer)
+        )
+      : customRulesChecked;
+  };
+}
+
+/**
+ * 抑制注释是否覆盖问题：未过期、规则匹配且问题位于生效范围内，
+ * 没有行号的问题只能被文件级抑制覆盖。不比较文件路径
+ * @param suppression 抑制注释
+ * @param issue 问题
+ */
+export function coversIssue(
+  suppression: ISuppression,
+  issue: IAnalysisIssue
+): boolean {
+  if (
+    suppression.status === 'expired' ||
+    suppression.status === 'invalid' ||
+    !matchesSuppressionRule(suppression.rules, issue.ruleId)
+  ) {
+    return false;
+  }
+  if (suppression.kind === 'file') {
+    return true;
+  }
+
+  const line = issue.location?.startLine;
+  return !!line && line >= suppression.startLine && line <= suppression.endLine;
+}
+
+/**
+ * 格式化为本地日期 YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 校验 YYYY-MM-DD 日期
+ */
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00`);
+  return !isNaN(date.getTime()) && formatDate(date) === value;
+}
+
+/**
+ * 行内抑制注释扫描器
+ * 读取问题所在文件中的抑制注释，过滤被抑制的问题，并找出未使用、已过期和无效的抑制注释。
+ * 同一实例内缓存已扫描的文件
+ */
+export class SuppressionScanner {
+  private readonly projectRoot: string;
+  private readonly today: string;
+  private readonly files = new Map<string, ISuppression[]>();
+
+  /**
+   * @param projectRoot 项目根路径
+   * @param today 判断抑制是否过期的当前日期
+   */
+  constructor(projectRoot: string, today: Date = new Date()) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.today = formatDate(today);
+  }
+
+  /**
+   * 解析源码中的抑制注释
+   * @param filePath 文件路径（绝对路径或相对项目根目录）
+   * @param content 文件内容
+   * @returns 抑制注释，状态为 unused、expired 或 invalid
+   */
+  parse(filePath: string, content: string): ISuppression[] {
+    const relativePath = this.toRelative(filePath);
+    const lines = content.split(/\r?\n/);
+    const suppressions: ISuppression[] = [];
+    const openBlocks: ISuppression[] = [];
+
+    lines.forEach((text, index) => {
+      const match = DIRECTIVE_PATTERN.exec(text);
+      if (!match) {
+        return;
+      }
+
+      const line = index + 1;
+      const { rules, until, reason } = this.parseBody(match[2]);
+
+      if (match[1] === 'enable') {
+        // 不带规则的 enable 关闭所有代码块，否则只关闭规则有交集的代码块
+        for (let i = openBlocks.length - 1; i >= 0; i--) {
+          const block = openBlocks[i];
+          if (
+            rules.length === 0 ||
+            block.rules.length === 0 ||
+            block.rules.some((rule) => rules.includes(rule))
+          ) {
+            block.endLine = line;
+            openBlocks.splice(i, 1);
+          }
+        }
+        return;
+      }
+
+      const kind = DIRECTIVE_KINDS[match[1]];
+      const range: Record<SuppressionKind, [number, number]> = {
+        'next-line': [line + 1, line + 1],
+        line: [line, line],
+        block: [line, lines.length],
+        file: [1, lines.length],
+      };
+      const suppression: ISuppression = {
+        filePath: relativePath,
+        line,
+        kind,
+        rules,
+        ...(reason ? { reason } : {}),
+        ...(until ? { until } : {}),
+        startLine: range[kind][0],
+        endLine: range[kind][1],
+        status: !until
+          ? 'unused'
+          : !isValidDate(until)
+            ? 'invalid'
+            : until < this.today
+              ? 'expired'
+              : 'unused',
+        suppressedCount: 0,
+      };
+
+      suppressions.push(suppression);
+      if (kind === 'block') {
+        openBlocks.push(suppression);
+      }
+    });
+
+    return suppressions;
+  }
+
+  /**
+   * 扫描文件中的抑制注释，无法读取的文件视为没有抑制注释
+   * @param filePath 文件路径（绝对路径或相对项目根目录）
+   */
+  scanFile(filePath: string): ISuppression[] {
+    const relativePath = this.toRelative(filePath);
+    if (!this.files.has(relativePath)) {
+      let suppressions: ISuppression[] = [];
+      try {
+        const content = fs.readFileSync(
+          path.resolve(this.projectRoot, relativePath),
+          'utf-8'
+        );
+        suppressions = this.parse(relativePath, content);
+      } catch {
+        suppressions = [];
+      }
+      this.files.set(relativePath, suppressions);
+    }
+
+    return this.files.get(relativePath)!;
+  }
+
+  /**
+   * 应用抑制注释
+   * @param issues 问题列表
+   * @param files 额外扫描的文件，用于找出其中未使用的抑制注释
+   * @param isChecked 判断规则本次是否被检查；未被检查的规则上的抑制注释不会被视为未使用
+   */
+  apply(
+    issues: IAnalysisIssue[],
+    files: string[] = [],
+    isChecked: (rule: string) => boolean = () => true
+  ): ISuppressionOutcome {
+    const scanned = new Map<string, ISuppression[]>();
+    const suppressionsOf = (filePath: string) => {
+      const relativePath = this.toRelative(filePath);
+      if (!scanned.has(relativePath)) {
+        scanned.set(
+          relativePath,
+          this.scanFile(relativePath).map((suppression) => ({
+            ...suppression,
+          }))
+        );
+      }
+      return scanned.get(relativePath)!;
+    };
+
+    files.forEach((filePath) => suppressionsOf(filePath));
+
+    const active: IAnalysisIssue[] = [];
+    const suppressed: IAnalysisIssue[] = [];
+    issues.forEach((issue) => {
+      const suppression = issue.location?.filePath
+        ? suppressionsOf(issue.location.filePath).find((candidate) =>
+            coversIssue(candidate, issue)
+          )
+        : undefined;
+
+      if (suppression) {
+        suppression.status = 'active';
+        suppression.suppressedCount++;
+        suppressed.push(issue);
+      } else {
+        active.push(issue);
+      }
+    });
+
+    const suppressions = Array.from(scanned.values())
+      .flat()
+      .filter(
+        (suppression) =>
+          suppression.status !== 'unused' ||
+          suppression.rules.length === 0 ||
+          suppression.rules.some(isChecked)
+      )
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+
+    return { active, suppressed, suppressions };
+  }
+
+  /**
+   * 问题是否被抑制注释抑制
+   * @param issue 问题
+   */
+  isSuppressed(issue: IAnalysisIssue): boolean {
+    return (
+      !!issue.location?.filePath &&
+      this.scanFile(issue.location.filePath).some((suppression) =>
+        coversIssue(suppression, issue)
+      )
+    );
+  }
+
+  /**
+   * 解析注释内容：规则列表（空格或逗号分隔，* 表示所有规则）、until=日期和 -- 之后的原因
+   */
+  private parseBody(body: string): {
+    rules: string[];
+    until?: string;
+    reason?: string;
+  } {
+    const separator = body.indexOf('--');
+    const spec = separator >= 0 ? body.slice(0, separator) : body;
+    const reason =
+      separator >= 0
+        ? body.slice(separator + 2).trim() || undefined
+        : undefined;
+
+    let until: string | undefined;
+    const rules: string[] = [];
+    spec
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .forEach((token) => {
+        if (token.startsWith('until=')) {
+          until = token.slice('until='.length);
+        } else if (token !== '*') {
+          rules.push(token);
+        }
+      });
+
+    return { rules, until, reason };
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path
+      .relative(this.projectRoot, path.resolve(this.projectRoot, filePath))
+      .split(path.sep)
+      .join('/');
+  }
+}
@@ -0,0 +1,424 @@
+import path from 'path';
+import { Project, SourceFile, Node } from 'ts-morph';
+import {
+  ImportGraphBuilder,
+  ImportGraphBuilderOptions,
+  ImportReference,
+  UnresolvedImport,
+} from '../analyzers/import-graph-builder';
+import { FileChangeInfo, FileChangeType } from './types';
+
+/**
+ * 变更后失效的模块引用
+ */
+export interface IDanglingImport extends UnresolvedImport {
+  /**
+   * 失效原因：被引用的模块不存在，或模块中已没有被引用的导出
+   */
+  reason: 'missing-module' | 'missing-export';
+
+  /**
+   * 缺失的导出名称（仅 missing-export）
+   */
+  name?: string;
+}
+
+/**
+ * 一批文件变更的影响范围
+ */
+export interface IChangeImpact {
+  /**
+   * 新增或修改的文件（绝对路径）
+   */
+  changed: string[];
+
+  /**
+   * 删除的文件（绝对路径）
+   */
+  deleted: string[];
+
+  /**
+   * 受影响、需要重新检查的其他文件（绝对路径），包括变更文件的依赖方（沿 export ... from 的再导出链传递）以及变更前后的被依赖文件
+   */
+  affected: string[];
+
+  /**
+   * 变更导致失效的模块引用
+   */
+  danglingImports: IDanglingImport[];
+}
+
+/**
+ * 依赖追踪器
+ * 在监测模式中维护内存中的导入关系图，把每批文件变更扩展到受影响的依赖方，并找出删除或修改导出后失效的引用
+ */
+export class DependencyTracker {
+  private readonly basePath: string;
+  private readonly fileExtensions: string[];
+  private readonly builder: ImportGraphBuilder;
+  private files = new Set<string>();
+  private references = new Map<string, ImportReference[]>();
+  private unresolved = new Map<string, UnresolvedImport[]>();
+  private importers = new Map<string, Set<string>>();
+
+  /**
+   * 创建依赖追踪器
+   * @param projectPath - 项目根路径
+   * @param options - 导入图构建选项
+   */
+  constructor(projectPath: string, options: ImportGraphBuilderOptions = {}) {
+    this.basePath = path.resolve(projectPath);
+    this.fileExtensions = options.fileExtensions || ['js', 'jsx', 'ts', 'tsx'];
+    this.builder = new ImportGraphBuilder(this.basePath, options);
+  }
+
+  /**
+   * 构建完整的导入关系图
+   */
+  initialize(): void {
+    const graph = this.builder.build();
+
+    this.files = new Set(graph.files.map((file) => this.toAbsolute(file)));
+    this.references.clear();
+    this.unresolved.clear();
+    this.importers.clear();
+    this.store(graph.references, graph.unresolved);
+  }
+
+  /**
+   * 当前图中的文件数量
+   */
+  get size(): number {
+    return this.files.size;
+  }
+
+  /**
+   * 获取当前图中的全部文件（绝对路径）
+   */
+  getFiles(): string[] {
+    return Array.from(this.files).sort();
+  }
+
+  /**
+   * 应用一批文件变更，更新导入关系图并计算影响范围
+   * @param changes - 文件变更列表
+   * @returns 影响范围
+   */
+  applyChanges(changes: FileChangeInfo[]): IChangeImpact {
+    const changed = new Set<string>();
+    const deleted = new Set<string>();
+    let hasAddedFiles = false;
+
+    changes
+      .filter((change) => this.isSourceFile(change.path))
+      .forEach((change) => {
+        const filePath = path.resolve(this.basePath, change.path);
+        if (change.type === FileChangeType.DELETED) {
+          deleted.add(filePath);
+          changed.delete(filePath);
+        } else {
+          changed.add(filePath);
+          deleted.delete(filePath);
+          hasAddedFiles ||= !this.files.has(filePath);
+        }
+      });
+
+    // 变更前的被依赖文件和依赖方
+    const previousTargets = this.targetsOf([...changed, ...deleted]);
+    const dependents = this.dependentsOf([...changed, ...deleted]);
+
+    // 需要重新收集引用的文件：变更文件、删除文件的依赖方，以及新增文件可能补全其引用的文件
+    const recollect = new Set<string>(changed);
+    dependents.forEach((filePath) => {
+      if (this.importsAny(filePath, deleted)) {
+        recollect.add(filePath);
+      }
+    });
+    if (hasAddedFiles) {
+      this.unresolved.forEach((_, filePath) => recollect.add(filePath));
+    }
+    deleted.forEach((filePath) => recollect.delete(filePath));
+
+    deleted.forEach((filePath) => this.files.delete(filePath));
+    changed.forEach((filePath) => this.files.add(filePath));
+    [...recollect, ...deleted].forEach((filePath) => this.forget(filePath));
+
+    const collected = this.builder.collectFiles(
+      Array.from(recollect),
+      this.files
+    );
+    this.store(collected.references, collected.unresolved);
+
+    const affected = new Set<string>([
+      ...dependents,
+      ...this.dependentsOf(changed),
+      ...previousTargets,
+      ...this.targetsOf(changed),
+    ]);
+    recollect.forEach((filePath) => {
+      if (this.importsAny(filePath, changed)) {
+        affected.add(filePath);
+      }
+    });
+    [...changed, ...deleted].forEach((filePath) => affected.delete(filePath));
+    affected.forEach((filePath) => {
+      if (!this.files.has(filePath)) {
+        affected.delete(filePath);
+      }
+    });
+
+    const danglingImports: IDanglingImport[] = [
+      ...[...changed, ...affected].flatMap((filePath) =>
+        (this.unresolved.get(filePath) || []).map(
+          (item): IDanglingImport => ({ ...item, reason: 'missing-module' })
+        )
+      ),
+      ...this.findMissingExports(changed),
+    ];
+
+    return {
+      changed: Array.from(changed).sort(),
+      deleted: Array.from(deleted).sort(),
+      affected: Array.from(affected).sort(),
+      danglingImports,
+    };
+  }
+
+  /**
+   * 查找依赖方按名称引用、但变更后的模块中已不存在的导出
+   */
+  private findMissingExports(changed: Set<string>): IDanglingImport[] {
+    const dangling: IDanglingImport[] = [];
+    // 只需要解析导出符号，不加载标准库以加快速度
+    const project = new Project({
+      compilerOptions: { allowJs: true, noLib: true },
+      skipAddingFilesFromTsConfig: true,
+    });
+
+    changed.forEach((targetPath) => {
+      const target = this.toRelative(targetPath);
+      const importers = Array.from(this.importers.get(targetPath) || []).sort();
+      if (!importers.length) {
+        return;
+      }
+
+      const exportedNames = this.getExportedNames(
+        project.addSourceFileAtPath(targetPath)
+      );
+      // 无法静态确定导出（如 CommonJS 或 export *）时不做判断，避免误报
+      if (!exportedNames) {
+        return;
+      }
+
+      importers.forEach((importerPath) => {
+        const references = (this.references.get(importerPath) || []).filter(
+          (reference) => reference.target === target
+        );
+        const sourceFile = project.addSourceFileAtPath(importerPath);
+
+        references.forEach((reference) => {
+          this.getImportedNames(sourceFile, reference)
+            .filter((name) => !exportedNames.has(name))
+            .forEach((name) =>
+              dangling.push({
+                source: reference.source,
+                specifier: reference.specifier,
+                kind: reference.kind,
+                line: reference.line,
+                reason: 'missing-export',
+                name,
+              })
+            );
+        });
+      });
+    });
+
+    return dangling;
+  }
+
+  /**
+   * 获取模块的全部导出名称
+   * @returns 导出名称集合，无法静态确定时返回 null
+   */
+  private getExportedNames(sourceFile: SourceFile): Set<string> | null {
+    const hasStarExport = sourceFile
+      .getExportDeclarations()
+      .some(
+        (declaration) =>
+          !declaration.hasNamedExports() && !!declaration.getModuleSpecifier()
+      );
+    const names = Array.from(sourceFile.getExportedDeclarations().keys());
+
+    if (
+      hasStarExport ||
+      sourceFile.getExportAssignments().some((item) => item.isExportEquals()) ||
+      !names.length
+    ) {
+      return null;
+    }
+
+    return new Set(names);
+  }
+
+  /**
+   * 获取一条 import 或 export ... from 语句按名称引用的导出
+   */
+  private getImportedNames(
+    sourceFile: SourceFile,
+    reference: ImportReference
+  ): string[] {
+    const matches = (declaration: Node): boolean =>
+      declaration.getStartLineNumber() === reference.line;
+
+    if (reference.kind === 'import') {
+      const declaration = sourceFile
+        .getImportDeclarations()
+        .find(
+          (item) =>
+            matches(item) &&
+            item.getModuleSpecifierValue() === reference.specifier
+        );
+      if (!declaration) {
+        return [];
+      }
+      return [
+        ...(declaration.getDefaultImport() ? ['default'] : []),
+        ...declaration.getNamedImports().map((item) => item.getName()),
+      ];
+    }
+
+    if (reference.kind === 'export') {
+      const declaration = sourceFile
+        .getExportDeclarations()
+        .find(
+          (item) =>
+            matches(item) &&
+            item.getModuleSpecifierValue() === reference.specifier
+        );
+      return declaration
+        ? declaration.getNamedExports().map((item) => item.getName())
+        : [];
+    }
+
+    return [];
+  }
+
+  /**
+   * 获取文件的依赖方，沿 export ... from 的再导出链继续向上查找
+   */
+  private dependentsOf(filePaths: Iterable<string>): Set<string> {
+    const dependents = new Set<string>();
+    const queue = Array.from(filePaths);
+
+    while (queue.length) {
+      const filePath = queue.shift()!;
+      const target = this.toRelative(filePath);
+
+      (this.importers.get(filePath) || new Set<string>()).forEach(
+        (importer) => {
+          if (dependents.has(importer)) {
+            return;
+          }
+          dependents.add(importer);
+
+          const reExports = (this.references.get(importer) || []).some(
+            (reference) =>
+              reference.target === target && reference.kind === 'export'
+          );
+          if (reExports) {
+            queue.push(importer);
+          }
+        }
+      );
+    }
+
+    return dependents;
+  }
+
+  /**
+   * 获取文件直接引用的项目内文件
+   */
+  private targetsOf(filePaths: Iterable<string>): Set<string> {
+    const targets = new Set<string>();
+    Array.from(filePaths).forEach((filePath) =>
+      (this.references.get(filePath) || []).forEach((reference) =>
+        targets.add(this.toAbsolute(reference.target))
+      )
+    );
+    return targets;
+  }
+
+  /**
+   * 判断文件是否引用了给定文件中的任意一个
+   */
+  private importsAny(filePath: string, targets: Set<string>): boolean {
+    return (this.references.get(filePath) || []).some((reference) =>
+      targets.has(this.toAbsolute(reference.target))
+    );
+  }
+
+  /**
+   * 记录引用关系
+   */
+  private store(
+    references: ImportReference[],
+    unresolved: UnresolvedImport[]
+  ): void {
+    references.forEach((reference) => {
+      const source = this.toAbsolute(reference.source);
+      const target = this.toAbsolute(reference.target);
+
+      this.references.set(source, [
+        ...(this.references.get(source) || []),
+        reference,
+      ]);
+      if (!this.importers.has(target)) {
+        this.importers.set(target, new Set());
+      }
+      this.importers.get(target)!.add(source);
+    });
+
+    unresolved.forEach((item) => {
+      const source = this.toAbsolute(item.source);
+      this.unresolved.set(source, [
+        ...(this.unresolved.get(source) || []),
+        item,
+      ]);
+    });
+  }
+
+  /**
+   * 移除文件发出的全部引用
+   */
+  private forget(filePath: string): void {
+    (this.references.get(filePath) || []).forEach((reference) =>
+      this.importers.get(this.toAbsolute(reference.target))?.delete(filePath)
+    );
+    this.references.delete(filePath);
+    this.unresolved.delete(filePath);
+  }
+
+  /**
+   * 判断是否为参与导入图的源文件
+   */
+  private isSourceFile(filePath: string): boolean {
+    const extension = path.extname(filePath).slice(1);
+    return (
+      this.fileExtensions.includes(extension) && !filePath.endsWith('.d.ts')
+    );
+  }
+
+  /**
+   * 相对路径转换为绝对路径
+   */
+  private toAbsolute(filePath: string): string {
+    return path.join(this.basePath, filePath);
+  }
+
+  /**
+   * 绝对路径转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,231 @@
+import path from 'path';
+import { IAnalysisResult as IAnalyzerOutput } from '../analysis-orchestrator';
+import {
+  AnalysisResultBuilder,
+  collectIssues,
+} from '../analysis-result-builder';
+import { fingerprintIssues, IFingerprintedIssue } from '../issue-fingerprint';
+import { SuppressionScanner } from '../suppression';
+
+/**
+ * 单个文件中的问题变化
+ */
+export interface IFileIssueDelta {
+  /**
+   * 文件路径（相对项目根目录）
+   */
+  filePath: string;
+
+  /**
+   * 新出现的问题
+   */
+  added: IFingerprintedIssue[];
+
+  /**
+   * 已解决的问题
+   */
+  resolved: IFingerprintedIssue[];
+
+  /**
+   * 仍然存在的问题数量
+   */
+  unchanged: number;
+}
+
+/**
+ * 两次监测分析之间的问题变化
+ */
+export interface IIssueDelta {
+  /**
+   * 新出现的问题
+   */
+  added: IFingerprintedIssue[];
+
+  /**
+   * 已解决的问题
+   */
+  resolved: IFingerprintedIssue[];
+
+  /**
+   * 本次分析范围内仍然存在的问题
+   */
+  unchanged: IFingerprintedIssue[];
+
+  /**
+   * 按文件分组的变化，只包含有新增或已解决问题的文件
+   */
+  files: IFileIssueDelta[];
+}
+
+/**
+ * 问题变化追踪器
+ * 按分析器保存上一轮监测分析的问题（以稳定指纹为键），与本轮结果比较得出新增、已解决和未变化的问题
+ */
+export class IssueDeltaTracker {
+  private readonly projectPath: string;
+  private readonly builder: AnalysisResultBuilder;
+  private issues = new Map<string, Map<string, IFingerprintedIssue>>();
+
+  /**
+   * @param projectPath 项目根路径
+   * @param excludePatterns 要从结果中排除的文件模式
+   */
+  constructor(projectPath: string, excludePatterns: string[] = []) {
+    this.projectPath = path.resolve(projectPath);
+    this.builder = new AnalysisResultBuilder(this.projectPath, {
+      excludePatterns,
+    });
+  }
+
+  /**
+   * 记录一轮分析结果并计算与上一轮的差异
+   * @param results 各分析器的输出，键为分析器标识
+   * @param scopes 各分析器本轮分析的文件（绝对路径），null 表示完整分析
+   * @param deletedFiles 本轮删除的文件（绝对路径），其中的问题视为已解决
+   * @returns 问题变化
+   */
+  update(
+    results: Record<string, IAnalyzerOutput | { error: string }>,
+    scopes: Record<string, string[] | null>,
+    deletedFiles: string[] = []
+  ): IIssueDelta {
+    const delta: IIssueDelta = {
+      added: [],
+      resolved: [],
+      unchanged: [],
+      files: [],
+    };
+    const deleted = deletedFiles.map((filePath) => this.toRelative(filePath));
+    // 每轮重新读取抑制注释，文件中新增或删除的抑制注释立即生效
+    const suppressions = new SuppressionScanner(this.projectPath);
+    const analyzerIds = new Set([
+      ...Object.keys(results),
+      ...this.issues.keys(),
+    ]);
+
+    analyzerIds.forEach((analyzerId) => {
+      const previous =
+        this.issues.get(analyzerId) || new Map<string, IFingerprintedIssue>();
+      const output = results[analyzerId];
+
+      // 未运行或运行失败的分析器只清理已删除文件中的问题
+      if (!output || 'error' in output) {
+        const next = new Map(previous);
+        previous.forEach((issue, fingerprint) => {
+          if (deleted.includes(issue.location?.filePath || '')) {
+            delta.resolved.push(issue);
+            next.delete(fingerprint);
+          }
+        });
+        this.issues.set(analyzerId, next);
+        return;
+      }
+
+      const scope = scopes[analyzerId];
+      const domain = scope
+        ? new Set([
+            ...scope.map((filePath) => this.toRelative(filePath)),
+            ...deleted,
+          ])
+        : null;
+      const inDomain = (issue: IFingerprintedIssue) =>
+        !domain || domain.has(issue.location?.filePath || '');
+      const current = this.collect(output, suppressions);
+      const next = new Map<string, IFingerprintedIssue>();
+
+      previous.forEach((issue, fingerprint) => {
+        if (!inDomain(issue)) {
+          next.set(fingerprint, issue);
+        } else if (!current.has(fingerprint)) {
+          delta.resolved.push(issue);
+        }
+      });
+      current.forEach((issue, fingerprint) => {
+        (previous.has(fingerprint) ? delta.unchanged : delta.added).push(issue);
+        next.set(fingerprint, issue);
+      });
+
+      this.issues.set(analyzerId, next);
+    });
+
+    delta.files = this.groupByFile(delta);
+    return delta;
+  }
+
+  /**
+   * 获取当前记录的全部问题
+   */
+  getIssues(): IFingerprintedIssue[] {
+    return Array.from(this.issues.values()).flatMap((issues) =>
+      Array.from(issues.values())
+    );
+  }
+
+  /**
+   * 把单个分析器的输出转换为以指纹为键的问题，被抑制注释抑制的问题不计入
+   */
+  private collect(
+    output: IAnalyzerOutput,
+    suppressions: SuppressionScanner
+  ): Map<string, IFingerprintedIssue> {
+    const now = new Date();
+    const result = this.builder.build([output], {
+      totalFiles: 0,
+      totalLines: 0,
+      startTime: now,
+      endTime: now,
+      duration: 0,
+    });
+
+    return new Map(
+      fingerprintIssues(
+        collectIssues(result).filter(
+          (issue) => !suppressions.isSuppressed(issue)
+        ),
+        this.projectPath
+      ).map((issue) => [issue.fingerprint, issue])
+    );
+  }
+
+  /**
+   * 按文件分组新增和已解决的问题
+   */
+  private groupByFile(delta: IIssueDelta): IFileIssueDelta[] {
+    const files = new Map<string, IFileIssueDelta>();
+    const fileOf = (issue: IFingerprintedIssue) => {
+      const filePath = issue.location?.filePath || '';
+      if (!files.has(filePath)) {
+        files.set(filePath, {
+          filePath,
+          added: [],
+          resolved: [],
+          unchanged: 0,
+        });
+      }
+      return files.get(filePath)!;
+    };
+
+    delta.added.forEach((issue) => fileOf(issue).added.push(issue));
+    delta.resolved.forEach((issue) => fileOf(issue).resolved.push(issue));
+    delta.unchanged.forEach((issue) => {
+      const file = files.get(issue.location?.filePath || '');
+      if (file) {
+        file.unchanged++;
+      }
+    });
+
+    return Array.from(files.values()).sort((a, b) =>
+      a.filePath.localeCompare(b.filePath)
+    );
+  }
+
+  /**
+   * 转换为相对项目根目录、使用正斜杠的路径
+   */
+  private toRelative(filePath: string): string {
+    return path
+      .relative(this.projectPath, path.resolve(this.projectPath, filePath))
+      .split(path.sep)
+      .join('/');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * 文件变更类型枚举
+ */
+export enum FileChangeType {
+  ADDED = 'added',
+  MODIFIED = 'modified',
+  DELETED = 'deleted',
+}
+
+/**
+ * 文件变更信息接口
+ */
+export interface FileChangeInfo {
+  /**
+   * 文件路径
+   */
+  path: string;
+
+  /**
+   * 变更类型
+   */
+  type: FileChangeType;
+
+  /**
+   * 变更时间
+   */
+  timestamp: number;
+}
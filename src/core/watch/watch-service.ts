@@ -7,35 +7,10 @@ import { Logger } from '../../utils/logger';
 import { ConfigManager } from '../../utils/config-manager';
 import { PluginManager } from '../../plugins/manager';
 import { PluginHookName, PluginTools } from '../../plugins/types';
+import { FileChangeInfo, FileChangeType } from './types';
 
-/**
- * 文件变更类型枚举
- */
-export enum FileChangeType {
-  ADDED = 'added',
-  MODIFIED = 'modified',
-  DELETED = 'deleted',
-}
-
-/**
- * 文件变更信息接口
- */
-export interface FileChangeInfo {
-  /**
-   * 文件路径
-   */
-  path: string;
-
-  /**
-   * 变更类型
-   */
-  type: FileChangeType;
-
-  /**
-   * 变更时间
-   */
-  timestamp: number;
-}
+export { FileChangeType } from './types';
+export type { FileChangeInfo } from './types';
 
 /**
  * 监测服务配置接口
@@ -266,6 +241,28 @@ export class WatchService extends EventEmitter {
     );
   }
 
+  /**
+   * 通知插件一轮增量分析已完成
+   * @param data 钩子数据，如问题变化
+   * @param analysisResults 本轮各分析器的输出
+   * @returns 插件处理后的钩子数据
+   */
+  async notifyIncrementalAnalysis<T>(
+    data: T,
+    analysisResults: Record<string, unknown>
+  ): Promise<T> {
+    return this.pluginManager.invokeHook(
+      PluginHookName.AFTER_INCREMENTAL_ANALYSIS,
+      data,
+      {
+        projectPath: this.projectPath,
+        config: this.configManager.getConfig(),
+        tools: this.createPluginTools(),
+        analysisResults,
+      }
+    );
+  }
+
   /**
    * 创建插件工具
    */
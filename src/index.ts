@@ -17,6 +17,9 @@ export * from './core/incremental';
 // 导出自定义规则引擎
 export * from './core/rules';
 
+// 导出自动修复
+export * from './core/fix';
+
 // 导出CLI
 export * from './cli/index';
 
@@ -3,14 +3,11 @@ import os from 'os';
 import fs from 'fs-extra';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { fileURLToPath } from 'url';
-
-// 获取 __dirname 替代方案
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
 import { Logger } from '../utils/logger';
 import { ConfigManager } from '../utils/config-manager';
 import { PluginLoader } from './loader';
+import { AnalyzerRegistry } from '../core/analyzer-registry';
+import { registerBuiltinAnalyzers } from '../analyzers/builtin-analyzers';
 import {
   IPlugin,
   PluginContext,
@@ -31,15 +28,22 @@ export class PluginManager {
   private pluginLoader: PluginLoader;
   private userPluginsDir: string;
   private systemPluginsDir: string;
+  private analyzerRegistry: AnalyzerRegistry;
   private isInitialized: boolean = false;
 
   /**
    * 构造函数
    * @param pluginLoader 可选的插件加载器实例
    * @param configManager 可选的配置管理器实例
+   * @param analyzerRegistry 可选的分析器注册表实例
    */
-  constructor(pluginLoader?: PluginLoader, configManager?: ConfigManager) {
+  constructor(
+    pluginLoader?: PluginLoader,
+    configManager?: ConfigManager,
+    analyzerRegistry?: AnalyzerRegistry
+  ) {
     this.logger = new Logger();
+    this.analyzerRegistry = analyzerRegistry || registerBuiltinAnalyzers();
 
     // 使用传入的实例或创建新实例
     this.configManager = configManager || new ConfigManager();
@@ -47,7 +51,7 @@ export class PluginManager {
     // 用户插件目录
     this.userPluginsDir = path.join(os.homedir(), '.code-insight', 'plugins');
 
-    // 系统插件目录（内置插件）
+    // 系统插件目录（内置插件），ESM 构建中的 __dirname 由 tsup 的 shims 提供
     this.systemPluginsDir = path.join(__dirname, '..', '..', 'plugins');
 
     // 使用传入的插件加载器或创建新的
@@ -85,6 +89,9 @@ export class PluginManager {
       const plugins = this.pluginLoader.getPlugins();
       this.logger.info(`插件加载完成，共 ${plugins.length} 个插件`);
 
+      // 注册插件提供的分析器
+      plugins.forEach((plugin) => this.registerPluginAnalyzers(plugin));
+
       this.isInitialized = true;
     } catch (error) {
       this.logger.error('初始化插件管理器失败:', error);
@@ -278,6 +285,8 @@ export class PluginManager {
       // 通知插件安装事件
       const installedPlugin = this.getPlugin(path.basename(pluginPath));
       if (installedPlugin) {
+        this.registerPluginAnalyzers(installedPlugin);
+
         const context: PluginContext = {
           projectPath: process.cwd(),
           config: this.configManager.getConfig(),
@@ -327,6 +336,13 @@ export class PluginManager {
         await plugin.cleanup();
       }
 
+      // 注销插件提供的分析器，注册时因重名被跳过的分析器属于其他来源，不能注销
+      (plugin.analyzers || []).forEach((definition) => {
+        if (this.analyzerRegistry.get(definition.id) === definition) {
+          this.analyzerRegistry.unregister(definition.id);
+        }
+      });
+
       // 查找插件目录
       const pluginDir = path.join(this.userPluginsDir, pluginName);
       if (fs.existsSync(pluginDir)) {
@@ -406,6 +422,30 @@ export class PluginManager {
     });
   }
 
+  /**
+   * 将插件提供的分析器注册到分析器注册表，与已有分析器重名时跳过
+   * @param plugin 插件实例
+   */
+  private registerPluginAnalyzers(plugin: IPlugin): void {
+    for (const definition of plugin.analyzers || []) {
+      if (this.analyzerRegistry.has(definition.id)) {
+        this.logger.warn(
+          `插件 ${plugin.name} 提供的分析器 ${definition.id} 与已有分析器重名，已跳过`
+        );
+        continue;
+      }
+
+      try {
+        this.analyzerRegistry.register(definition);
+        this.logger.debug(
+          `已注册插件 ${plugin.name} 提供的分析器: ${definition.id}`
+        );
+      } catch (error) {
+        this.logger.error(`注册插件分析器失败: ${definition.id}`, error);
+      }
+    }
+  }
+
   /**
    * 创建插件工具
    */
@@ -1,3 +1,5 @@
+import { IAnalyzerDefinition } from '../core/analyzer-registry';
+
 /**
  * 插件接口
  * 定义插件需要实现的基本方法
@@ -23,6 +25,11 @@ export interface IPlugin {
    */
   author: string;
 
+  /**
+   * 插件提供的分析器，加载后注册到分析器注册表
+   */
+  analyzers?: IAnalyzerDefinition[];
+
   /**
    * 初始化插件
    */
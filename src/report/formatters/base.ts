@@ -70,6 +70,22 @@ export abstract class BaseReportGenerator implements IReportGenerator {
     return `${minutes}m ${remainingSeconds}s`;
   }
 
+  /**
+   * 格式化变更行模式下未计入的已有问题摘要
+   * @param results 分析结果
+   * @returns 摘要，未使用变更行模式时返回 null
+   */
+  protected formatPreExisting(results: IAnalysisResult): string | null {
+    if (!results.changedLines) {
+      return null;
+    }
+
+    const { since, files, preExisting } = results.changedLines;
+    const counts = { error: 0, warning: 0, info: 0 };
+    preExisting.forEach((issue) => counts[issue.severity]++);
+    return `只报告与 ${since} 相比 ${files.length} 个变更文件中新增或修改行上的问题，未计入已有问题 ${preExisting.length} 个（错误 ${counts.error}，警告 ${counts.warning}，提示 ${counts.info}）`;
+  }
+
   /**
    * 生成报告文件名
    * @param extension 文件扩展名
@@ -2,7 +2,17 @@ import chalk from 'chalk';
 import { Table } from 'console-table-printer';
 
 import { BaseReportGenerator } from './base';
-import { IAnalysisResult, ILocation } from '../../types/analysis';
+import {
+  collectIssues,
+  filterReportedResult,
+} from '../../core/analysis-result-builder';
+import {
+  IAnalysisResult,
+  IComplexityResult,
+  ICustomRuleResult,
+  ILocation,
+  ISuppression,
+} from '../../types/analysis';
 import { IReportOptions } from '../../types/report';
 
 /**
@@ -20,6 +30,9 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
    */
   async generate(results: IAnalysisResult): Promise<string | null> {
     try {
+      // 各分析器的问题列表只包含最终会被报告的问题，与退出码和 SARIF 一致
+      const reported = filterReportedResult(results);
+
       this.printHeader(results);
       this.printSummary(results);
 
@@ -27,36 +40,51 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
         this.printCoverageSummary(results);
       }
 
-      if (results.duplicates) {
-        this.printDuplicatesSummary(results.duplicates);
+      if (reported.duplicates) {
+        this.printDuplicatesSummary(reported.duplicates);
+      }
+
+      if (reported.unusedCode) {
+        this.printUnusedCodeSummary(reported.unusedCode);
       }
 
-      if (results.unusedCode) {
-        this.printUnusedCodeSummary(results.unusedCode);
+      if (reported.complexity) {
+        this.printComplexitySummary(reported.complexity);
       }
 
-      if (results.dependencies) {
-        this.printDependenciesSummary(results.dependencies);
+      if (reported.dependencies) {
+        this.printDependenciesSummary(reported.dependencies);
       }
 
-      if (results.memoryLeaks) {
+      if (reported.memoryLeaks) {
         this.printRiskSummary(
           '内存泄漏风险',
-          results.memoryLeaks.potentialLeaks
+          reported.memoryLeaks.potentialLeaks
         );
       }
 
-      if (results.infiniteLoops) {
+      if (reported.infiniteLoops) {
         this.printRiskSummary(
           '潜在死循环',
-          results.infiniteLoops.potentialInfiniteLoops
+          reported.infiniteLoops.potentialInfiniteLoops
         );
       }
 
+      if (reported.customRules && reported.customRules.length > 0) {
+        this.printCustomRulesSummary(reported.customRules);
+      }
+
       if (results.incrementalInfo?.trends) {
         this.printIncrementalInfo(results.incrementalInfo);
       }
 
+      if (
+        results.suppressions &&
+        results.suppressions.suppressions.length > 0
+      ) {
+        this.printSuppressions(results.suppressions.suppressions);
+      }
+
       this.printFooter();
 
       return null; // 控制台输出不返回文件路径
@@ -94,39 +122,35 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
     console.log(`总文件数: ${chalk.bold(results.stats.totalFiles.toString())}`);
     console.log(`总代码行: ${chalk.bold(results.stats.totalLines.toString())}`);
 
-    // 计算问题总数
-    const unusedCount = results.unusedCode
-      ? results.unusedCode.unusedImports.length +
-        results.unusedCode.unusedVariables.length +
-        results.unusedCode.unusedFunctions.length +
-        results.unusedCode.unusedClasses.length +
-        results.unusedCode.unusedExports.length
-      : 0;
-
-    const duplicatesCount = results.duplicates
-      ? results.duplicates.duplicates.length
-      : 0;
-
-    const circularCount = results.dependencies
-      ? results.dependencies.circularDependencies.length
-      : 0;
-
-    const memoryLeaksCount = results.memoryLeaks
-      ? results.memoryLeaks.potentialLeaks.length
-      : 0;
-
-    const infiniteLoopsCount = results.infiniteLoops
-      ? results.infiniteLoops.potentialInfiniteLoops.length
-      : 0;
-
-    const totalIssues =
-      unusedCount +
-      duplicatesCount +
-      circularCount +
-      memoryLeaksCount +
-      infiniteLoopsCount;
-
-    console.log(`发现问题: ${chalk.bold.red(totalIssues.toString())}`);
+    // 问题总数与退出码使用同一份问题列表，不含基线、抑制注释和变更行之外的问题
+    const issues = collectIssues(results);
+    const counts = { error: 0, warning: 0, info: 0 };
+    issues.forEach((issue) => counts[issue.severity]++);
+    console.log(
+      `发现问题: ${chalk.bold.red(issues.length.toString())}（错误 ${counts.error}，警告 ${counts.warning}，提示 ${counts.info}）`
+    );
+    const preExisting = this.formatPreExisting(results);
+    if (preExisting) {
+      console.log(chalk.gray(preExisting));
+    }
+    if (results.baseline) {
+      const { baselined, stale } = results.baseline;
+      console.log(
+        `基线中的已知问题: ${chalk.bold(baselined.length.toString())}（未计入问题列表）`
+      );
+      if (stale.length > 0) {
+        console.log(
+          chalk.yellow(
+            `失效的基线条目: ${stale.length}，可运行 baseline update --prune 清理`
+          )
+        );
+        stale.forEach((entry) =>
+          console.log(
+            chalk.gray(`  ${entry.filePath} [${entry.ruleId}] ${entry.message}`)
+          )
+        );
+      }
+    }
     console.log('\n');
   }
 
@@ -244,6 +268,67 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
     console.log(`未使用函数: ${chalk.bold(unusedFunctions.toString())}`);
     console.log(`未使用类: ${chalk.bold(unusedClasses.toString())}`);
     console.log(`未使用导出: ${chalk.bold(unusedExports.toString())}`);
+    console.log(
+      `只被测试使用的导出: ${chalk.bold(String(unusedCode.testOnlyExports?.length || 0))}`
+    );
+    console.log(
+      `不可达文件: ${chalk.bold(String(unusedCode.unreachableFiles?.length || 0))}`
+    );
+
+    console.log('\n');
+  }
+
+  /**
+   * 打印函数复杂度摘要
+   * @param complexity 函数复杂度结果
+   */
+  private printComplexitySummary(complexity: IComplexityResult): void {
+    console.log(chalk.bgBlue.white.bold(' 函数复杂度分析 '));
+    console.log(
+      `函数总数: ${chalk.bold(complexity.totalFunctions.toString())}`
+    );
+    console.log(
+      `平均圈复杂度: ${chalk.bold(complexity.averageCyclomatic.toString())}（最大 ${complexity.maxCyclomatic}）`
+    );
+    console.log(
+      `平均认知复杂度: ${chalk.bold(complexity.averageCognitive.toString())}（最大 ${complexity.maxCognitive}）`
+    );
+    console.log(
+      `超过阈值的函数: ${chalk.bold.yellow(complexity.complexFunctions.length.toString())}`
+    );
+
+    if (complexity.complexFunctions.length > 0 && this.options.detailed) {
+      console.log('\n认知复杂度最高的函数TOP5:');
+
+      const table = new Table({
+        columns: [
+          { name: 'name', title: '函数', alignment: 'left' },
+          { name: 'location', title: '位置', alignment: 'left' },
+          { name: 'cyclomatic', title: '圈复杂度', alignment: 'center' },
+          { name: 'cognitive', title: '认知复杂度', alignment: 'center' },
+          { name: 'nestingDepth', title: '嵌套深度', alignment: 'center' },
+          { name: 'parameters', title: '参数', alignment: 'center' },
+          { name: 'loc', title: '行数', alignment: 'center' },
+        ],
+      });
+
+      [...complexity.complexFunctions]
+        .sort((a, b) => b.cognitive - a.cognitive)
+        .slice(0, 5)
+        .forEach((fn) => {
+          table.addRow({
+            name: fn.name,
+            location: `${fn.filePath}:${fn.startLine || '?'}`,
+            cyclomatic: fn.cyclomatic,
+            cognitive: fn.cognitive,
+            nestingDepth: fn.nestingDepth,
+            parameters: fn.parameters,
+            loc: fn.loc,
+          });
+        });
+
+      table.printTable();
+    }
 
     console.log('\n');
   }
@@ -264,6 +349,9 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
     console.log(`循环依赖: ${chalk.bold.red(circularDeps.toString())}`);
     console.log(`未使用依赖: ${chalk.bold.yellow(unusedDeps.toString())}`);
     console.log(`缺失依赖: ${chalk.bold.red(missingDeps.toString())}`);
+    console.log(
+      `错放的开发依赖: ${chalk.bold.yellow(String(dependencies.misplacedDependencies?.length || 0))}`
+    );
 
     if (circularDeps > 0 && this.options.detailed) {
       console.log('\n循环依赖详情:');
@@ -334,6 +422,31 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
     console.log('\n');
   }
 
+  /**
+   * 打印自定义规则摘要
+   * @param rules 有问题的规则
+   */
+  private printCustomRulesSummary(rules: ICustomRuleResult[]): void {
+    console.log(chalk.bgMagenta.white.bold(' 自定义规则 '));
+
+    rules.forEach((rule) => {
+      console.log(
+        `${rule.ruleName}: ${chalk.bold.yellow(rule.issues.length.toString())}`
+      );
+      if (this.options.detailed) {
+        rule.issues.slice(0, 5).forEach((issue) => {
+          console.log(
+            chalk.gray(
+              `  ${issue.location.filePath}:${issue.location.startLine || '?'} ${issue.message}`
+            )
+          );
+        });
+      }
+    });
+
+    console.log('\n');
+  }
+
   /**
    * 打印增量分析信息
    * @param incrementalInfo 增量分析信息
@@ -391,6 +504,45 @@ export class ConsoleReportGenerator extends BaseReportGenerator {
     console.log('\n');
   }
 
+  /**
+   * 打印抑制注释清单
+   * @param suppressions 抑制注释
+   */
+  private printSuppressions(suppressions: ISuppression[]): void {
+    console.log(chalk.bgGray.white.bold(' 抑制注释 '));
+
+    const statusLabels: Record<ISuppression['status'], string> = {
+      active: chalk.green('生效'),
+      unused: chalk.dim('未使用'),
+      expired: chalk.red('已过期'),
+      invalid: chalk.red('日期无效'),
+    };
+    const table = new Table({
+      columns: [
+        { name: 'location', title: '位置', alignment: 'left' },
+        { name: 'rules', title: '规则', alignment: 'left' },
+        { name: 'status', title: '状态', alignment: 'center' },
+        { name: 'count', title: '抑制问题数', alignment: 'center' },
+        { name: 'until', title: '到期', alignment: 'center' },
+        { name: 'reason', title: '原因', alignment: 'left' },
+      ],
+    });
+
+    suppressions.forEach((suppression) => {
+      table.addRow({
+        location: `${suppression.filePath}:${suppression.line}`,
+        rules: suppression.rules.join(', ') || '*',
+        status: statusLabels[suppression.status],
+        count: suppression.suppressedCount,
+        until: suppression.until || '-',
+        reason: suppression.reason || chalk.dim('未说明'),
+      });
+    });
+
+    table.printTable();
+    console.log('\n');
+  }
+
   /**
    * 打印报告底部
    */
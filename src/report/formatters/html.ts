@@ -38,13 +38,17 @@ export class HTMLReportGenerator extends BaseReportGenerator {
       const templatePath =
         this.options.templatePath || this.defaultTemplatePath;
       const chartData = this.prepareChartData(results);
+      const chartRenderer = this.options.chartRenderer || 'svg';
       const fileName = this.getReportFileName('html');
       const outputPath = this.getReportPath(fileName);
 
       const templateContent = await fsPromises.readFile(templatePath, 'utf-8');
 
       // 使用可视化器为图表生成HTML内容
-      const chartsHtml = ChartVisualizer.wrapChartsInContainer(chartData);
+      const chartsHtml = ChartVisualizer.wrapChartsInContainer(
+        chartData,
+        chartRenderer
+      );
 
       const htmlContent = await ejs.render(
         templateContent,
@@ -55,6 +59,7 @@ export class HTMLReportGenerator extends BaseReportGenerator {
           results,
           chartData: JSON.stringify(chartData),
           chartsHtml,
+          chartRenderer,
           detailed: this.options.detailed,
           duration: this.formatDuration(results.stats.duration),
         },
@@ -32,11 +32,25 @@ export class JSONReportGenerator extends BaseReportGenerator {
         coverage: results.coverage,
         duplicates: results.duplicates,
         unusedCode: results.unusedCode,
+        complexity: results.complexity,
         dependencies: results.dependencies,
         memoryLeaks: results.memoryLeaks,
         infiniteLoops: results.infiniteLoops,
         customRules: results.customRules,
+        analyzerOutputs: results.analyzerOutputs,
         incrementalInfo: results.incrementalInfo,
+        suppressions: results.suppressions?.suppressions,
+        changedLines: results.changedLines && {
+          since: results.changedLines.since,
+          baseCommit: results.changedLines.baseCommit,
+          files: results.changedLines.files,
+          preExistingCount: results.changedLines.preExisting.length,
+        },
+        baseline: results.baseline && {
+          filePath: results.baseline.filePath,
+          baselinedCount: results.baseline.baselined.length,
+          stale: results.baseline.stale,
+        },
       };
 
       // 写入JSON文件
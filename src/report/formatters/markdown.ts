@@ -0,0 +1,464 @@
+import { promises as fsPromises } from 'fs';
+
+import { BaseReportGenerator } from './base';
+import {
+  collectIssues,
+  filterReportedResult,
+} from '../../core/analysis-result-builder';
+import {
+  ComplexityMetric,
+  IAnalysisResult,
+  ILocation,
+  ISuppression,
+} from '../../types/analysis';
+import { IReportOptions } from '../../types/report';
+
+/**
+ * Markdown报告生成器
+ */
+export class MarkdownReportGenerator extends BaseReportGenerator {
+  constructor(options: IReportOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * 生成Markdown报告
+   * @param results 分析结果
+   * @returns 报告文件路径
+   */
+  async generate(results: IAnalysisResult): Promise<string | null> {
+    try {
+      await this.ensureOutputDir();
+
+      const fileName = this.getReportFileName('md');
+      const outputPath = this.getReportPath(fileName);
+      // 各分析器的问题列表只包含最终会被报告的问题，与退出码和 SARIF 一致
+      const reported = filterReportedResult(results);
+
+      const sections = [
+        this.renderHeader(results),
+        this.renderCoverage(results),
+        this.renderDuplicates(reported),
+        this.renderUnusedCode(reported),
+        this.renderComplexity(reported),
+        this.renderDependencies(reported),
+        this.renderRisks(
+          '内存泄漏风险',
+          (reported.memoryLeaks?.potentialLeaks || []).map((leak) => ({
+            location: leak.location,
+            riskLevel: leak.riskLevel,
+            message: leak.description,
+          }))
+        ),
+        this.renderRisks(
+          '潜在死循环',
+          (reported.infiniteLoops?.potentialInfiniteLoops || []).map(
+            (loop) => ({
+              location: loop.location,
+              riskLevel: loop.riskLevel,
+              message: loop.suggestion
+                ? `${loop.reason}（建议: ${loop.suggestion}）`
+                : loop.reason,
+            })
+          )
+        ),
+        this.renderCustomRules(reported),
+        this.renderSuppressions(results),
+        this.renderBaseline(results),
+      ].filter((section) => section !== '');
+
+      await fsPromises.writeFile(outputPath, sections.join('\n\n') + '\n');
+
+      return outputPath;
+    } catch (error) {
+      console.error('生成Markdown报告失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 渲染报告头部与摘要
+   */
+  private renderHeader(results: IAnalysisResult): string {
+    const issues = collectIssues(results);
+    const counts = { error: 0, warning: 0, info: 0 };
+    issues.forEach((issue) => counts[issue.severity]++);
+
+    return [
+      `# ${this.options.title || '代码分析报告'}`,
+      '',
+      `- 项目: ${results.projectName}`,
+      `- 时间: ${this.formatDateTime(this.options.timestamp || new Date())}`,
+      `- 分析耗时: ${this.formatDuration(results.stats.duration)}`,
+      `- 总文件数: ${results.stats.totalFiles}`,
+      `- 总代码行: ${results.stats.totalLines}`,
+      `- 发现问题: ${issues.length}（错误 ${counts.error}，警告 ${counts.warning}，提示 ${counts.info}）`,
+      ...(results.changedLines ? [`- ${this.formatPreExisting(results)}`] : []),
+      ...(results.baseline
+        ? [
+            `- 基线中的已知问题: ${results.baseline.baselined.length}（未计入问题列表）`,
+          ]
+        : []),
+    ].join('\n');
+  }
+
+  /**
+   * 渲染覆盖率
+   */
+  private renderCoverage(results: IAnalysisResult): string {
+    if (!results.coverage || results.coverage.length === 0) {
+      return '';
+    }
+
+    const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+    const rows = results.coverage.map((file) =>
+      this.renderRow([
+        file.filePath,
+        percent(file.lineCoverage),
+        percent(file.statementCoverage),
+        percent(file.branchCoverage),
+        percent(file.functionCoverage),
+        this.formatLineRanges(file.uncoveredLines),
+      ])
+    );
+
+    return [
+      '## 代码覆盖率',
+      '',
+      this.renderRow(['文件', '行', '语句', '分支', '函数', '未覆盖行']),
+      this.renderRow(['---', '---:', '---:', '---:', '---:', '---']),
+      ...rows,
+    ].join('\n');
+  }
+
+  /**
+   * 将行号列表压缩为区间，如 [3, 4, 5, 9] => "3-5, 9"
+   */
+  private formatLineRanges(lines: number[]): string {
+    const ranges: string[] = [];
+    let start = lines[0];
+
+    lines.forEach((line, index) => {
+      const next = lines[index + 1];
+      if (next !== line + 1) {
+        ranges.push(start === line ? String(start) : `${start}-${line}`);
+        start = next;
+      }
+    });
+
+    return ranges.join(', ');
+  }
+
+  /**
+   * 渲染重复代码
+   */
+  private renderDuplicates(results: IAnalysisResult): string {
+    if (!results.duplicates) {
+      return '';
+    }
+
+    const { duplicates, totalDuplicationRate } = results.duplicates;
+    const lines = [
+      '## 代码重复',
+      '',
+      `总重复率: ${(totalDuplicationRate * 100).toFixed(2)}%，重复块数: ${duplicates.length}`,
+    ];
+
+    if (duplicates.length > 0 && this.options.detailed) {
+      lines.push(
+        '',
+        this.renderRow(['行数', '相似度', '位置']),
+        this.renderRow(['---:', '---:', '---']),
+        ...duplicates.map((duplicate) =>
+          this.renderRow([
+            String(duplicate.lines),
+            `${(duplicate.similarity * 100).toFixed(0)}%`,
+            duplicate.locations
+              .map((loc) => this.formatLocation(loc))
+              .join('<br>'),
+          ])
+        )
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染未使用代码
+   */
+  private renderUnusedCode(results: IAnalysisResult): string {
+    if (!results.unusedCode) {
+      return '';
+    }
+
+    const unusedCode = results.unusedCode;
+    const groups = [
+      { label: '未使用导入', items: unusedCode.unusedImports },
+      { label: '未使用变量', items: unusedCode.unusedVariables },
+      { label: '未使用函数', items: unusedCode.unusedFunctions },
+      { label: '未使用类', items: unusedCode.unusedClasses },
+      { label: '未使用导出', items: unusedCode.unusedExports },
+      { label: '未使用类型', items: unusedCode.unusedTypes || [] },
+      { label: '只被测试使用的导出', items: unusedCode.testOnlyExports || [] },
+    ];
+    const unreachableFiles = unusedCode.unreachableFiles || [];
+
+    const lines = [
+      '## 未使用代码',
+      '',
+      this.renderRow(['类型', '数量']),
+      this.renderRow(['---', '---:']),
+      ...groups.map((group) =>
+        this.renderRow([group.label, String(group.items.length)])
+      ),
+      this.renderRow(['不可达文件', String(unreachableFiles.length)]),
+    ];
+
+    if (this.options.detailed) {
+      groups
+        .filter((group) => group.items.length > 0)
+        .forEach((group) => {
+          lines.push('', `### ${group.label}`, '');
+          group.items.forEach((item) => {
+            lines.push(`- \`${item.name}\` ${this.formatLocation(item)}`);
+          });
+        });
+
+      if (unreachableFiles.length > 0) {
+        lines.push('', '### 不可达文件', '');
+        unreachableFiles.forEach((filePath) => lines.push(`- ${filePath}`));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染函数复杂度，超过阈值的指标加粗显示
+   */
+  private renderComplexity(results: IAnalysisResult): string {
+    if (!results.complexity) {
+      return '';
+    }
+
+    const complexity = results.complexity;
+    const lines = [
+      '## 函数复杂度',
+      '',
+      `- 函数总数: ${complexity.totalFunctions}`,
+      `- 平均圈复杂度: ${complexity.averageCyclomatic}（最大 ${complexity.maxCyclomatic}）`,
+      `- 平均认知复杂度: ${complexity.averageCognitive}（最大 ${complexity.maxCognitive}）`,
+      `- 超过阈值的函数: ${complexity.complexFunctions.length}`,
+    ];
+
+    if (complexity.complexFunctions.length > 0 && this.options.detailed) {
+      const metrics: ComplexityMetric[] = [
+        'cyclomatic',
+        'cognitive',
+        'nestingDepth',
+        'parameters',
+        'loc',
+      ];
+      const thresholds = complexity.thresholds;
+
+      lines.push(
+        '',
+        this.renderRow([
+          '函数',
+          '位置',
+          `圈复杂度 (>${thresholds.cyclomatic})`,
+          `认知复杂度 (>${thresholds.cognitive})`,
+          `嵌套深度 (>${thresholds.nestingDepth})`,
+          `参数 (>${thresholds.parameters})`,
+          `行数 (>${thresholds.loc})`,
+        ]),
+        this.renderRow(['---', '---', '---:', '---:', '---:', '---:', '---:']),
+        ...complexity.complexFunctions.map((fn) =>
+          this.renderRow([
+            `\`${fn.name}\``,
+            this.formatLocation(fn),
+            ...metrics.map((metric) =>
+              fn.exceeded.includes(metric)
+                ? `**${fn[metric]}**`
+                : String(fn[metric])
+            ),
+          ])
+        )
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染依赖关系
+   */
+  private renderDependencies(results: IAnalysisResult): string {
+    if (!results.dependencies) {
+      return '';
+    }
+
+    const dependencies = results.dependencies;
+    const lines = [
+      '## 依赖关系',
+      '',
+      `- 循环依赖: ${dependencies.circularDependencies.length}`,
+      `- 未使用依赖: ${dependencies.unusedDependencies.length}`,
+      `- 缺失依赖: ${dependencies.missingDependencies.length}`,
+      `- 错放的开发依赖: ${(dependencies.misplacedDependencies || []).length}`,
+    ];
+
+    if (dependencies.circularDependencies.length > 0) {
+      lines.push('', '### 循环依赖', '');
+      dependencies.circularDependencies.forEach((cycle, index) => {
+        lines.push(`${index + 1}. ${[...cycle, cycle[0]].join(' → ')}`);
+      });
+    }
+
+    [
+      { label: '未使用依赖', items: dependencies.unusedDependencies },
+      { label: '缺失依赖', items: dependencies.missingDependencies },
+      {
+        label: '错放的开发依赖',
+        items: dependencies.misplacedDependencies || [],
+      },
+    ]
+      .filter((group) => group.items.length > 0)
+      .forEach((group) => {
+        lines.push('', `### ${group.label}`, '');
+        group.items.forEach((name) => lines.push(`- \`${name}\``));
+      });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染风险列表（内存泄漏或死循环）
+   */
+  private renderRisks(
+    title: string,
+    items: Array<{
+      location: ILocation;
+      riskLevel: 'low' | 'medium' | 'high';
+      message: string;
+    }>
+  ): string {
+    if (items.length === 0) {
+      return '';
+    }
+
+    const riskLabels = { high: '高', medium: '中', low: '低' };
+
+    return [
+      `## ${title}`,
+      '',
+      this.renderRow(['风险', '位置', '描述']),
+      this.renderRow(['---', '---', '---']),
+      ...items.map((item) =>
+        this.renderRow([
+          riskLabels[item.riskLevel],
+          this.formatLocation(item.location),
+          item.message,
+        ])
+      ),
+    ].join('\n');
+  }
+
+  /**
+   * 渲染自定义规则结果
+   */
+  private renderCustomRules(results: IAnalysisResult): string {
+    const rules = (results.customRules || []).filter(
+      (rule) => rule.issues.length > 0
+    );
+    if (rules.length === 0) {
+      return '';
+    }
+
+    const lines = ['## 自定义规则'];
+    rules.forEach((rule) => {
+      lines.push('', `### ${rule.ruleName}`, '', rule.description, '');
+      rule.issues.forEach((issue) => {
+        lines.push(
+          `- [${issue.severity}] ${this.formatLocation(issue.location)} ${issue.message}`
+        );
+      });
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染抑制注释清单
+   */
+  private renderSuppressions(results: IAnalysisResult): string {
+    const suppressions = results.suppressions?.suppressions || [];
+    if (suppressions.length === 0) {
+      return '';
+    }
+
+    const statusLabels: Record<ISuppression['status'], string> = {
+      active: '生效',
+      unused: '未使用',
+      expired: '已过期',
+      invalid: '日期无效',
+    };
+
+    return [
+      '## 抑制注释',
+      '',
+      this.renderRow(['位置', '规则', '状态', '抑制问题数', '到期', '原因']),
+      this.renderRow(['---', '---', '---', '---:', '---', '---']),
+      ...suppressions.map((suppression) =>
+        this.renderRow([
+          this.formatLocation({
+            filePath: suppression.filePath,
+            startLine: suppression.line,
+          }),
+          suppression.rules.join(', ') || '*',
+          statusLabels[suppression.status],
+          String(suppression.suppressedCount),
+          suppression.until || '-',
+          suppression.reason || '未说明',
+        ])
+      ),
+    ].join('\n');
+  }
+
+  /**
+   * 渲染失效的基线条目
+   */
+  private renderBaseline(results: IAnalysisResult): string {
+    const stale = results.baseline?.stale || [];
+    if (stale.length === 0) {
+      return '';
+    }
+
+    return [
+      '## 失效的基线条目',
+      '',
+      `以下条目在基线文件 \`${results.baseline!.filePath}\` 中，但已不再匹配任何问题，可运行 \`baseline update --prune\` 清理。`,
+      '',
+      this.renderRow(['文件', '规则', '问题']),
+      this.renderRow(['---', '---', '---']),
+      ...stale.map((entry) =>
+        this.renderRow([`\`${entry.filePath}\``, entry.ruleId, entry.message])
+      ),
+    ].join('\n');
+  }
+
+  /**
+   * 渲染表格行，转义单元格中的竖线
+   */
+  private renderRow(cells: string[]): string {
+    return `| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  }
+
+  /**
+   * 格式化位置信息
+   */
+  private formatLocation(location: ILocation): string {
+    return `\`${location.filePath}:${location.startLine || '?'}\``;
+  }
+}
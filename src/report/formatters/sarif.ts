@@ -0,0 +1,282 @@
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { pathToFileURL } from 'url';
+
+import { BaseReportGenerator } from './base';
+import {
+  IAnalysisIssue,
+  IAnalysisResult,
+  ISuppression,
+  IssueSeverity,
+} from '../../types/analysis';
+import { IReportOptions } from '../../types/report';
+import { collectIssues } from '../../core/analysis-result-builder';
+import {
+  ANALYZER_ISSUE_RULES,
+  IIssueRule,
+  toIssueRule,
+} from '../../core/issue-rules';
+import { coversIssue } from '../../core/suppression';
+import { version } from '../../../package.json';
+
+/**
+ * SARIF 中的严重级别
+ */
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SARIF_LEVELS: Record<IssueSeverity, SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * SARIF 规则描述
+ */
+interface ISarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: string };
+}
+
+/**
+ * SARIF 结果
+ */
+interface ISarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: {
+        startLine: number;
+        startColumn?: number;
+        endLine?: number;
+        endColumn?: number;
+      };
+    };
+  }>;
+  properties: { suggestion: string };
+  baselineState?: 'new';
+  suppressions?: Array<{ kind: 'inSource'; justification?: string }>;
+}
+
+/**
+ * SARIF 2.1.0 报告生成器
+ * 问题来自统一分析结果的问题列表，规则目录由内置分析器规则和本次运行中规则引擎已启用的规则组成。
+ * SARIF 的 fixes 需要具体的文本替换，因此修复建议以文本形式放在结果的 properties.suggestion 中
+ */
+export class SarifReportGenerator extends BaseReportGenerator {
+  constructor(options: IReportOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * 生成SARIF报告
+   * @param results 分析结果
+   * @returns 报告文件路径
+   */
+  async generate(results: IAnalysisResult): Promise<string | null> {
+    try {
+      await this.ensureOutputDir();
+
+      const fileName = this.getReportFileName('sarif');
+      const outputPath = this.getReportPath(fileName);
+
+      const log = this.buildLog(results);
+      await fsPromises.writeFile(outputPath, JSON.stringify(log, null, 2));
+
+      return outputPath;
+    } catch (error) {
+      console.error('生成SARIF报告失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 构建 SARIF 日志对象
+   * @param results 分析结果
+   */
+  buildLog(results: IAnalysisResult): Record<string, unknown> {
+    const issues = collectIssues(results);
+    const suppressed = results.suppressions?.suppressed || [];
+    const catalog = this.buildRuleCatalog(results, [...issues, ...suppressed]);
+    const ruleIndexes = new Map(catalog.map((rule, index) => [rule.id, index]));
+    const projectRoot = path.resolve(this.options.projectRoot || '.');
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'code-insight-analyst',
+              version,
+              informationUri:
+                'https://github.com/XcodeFish/code-insight-analyst',
+              rules: catalog.map((rule) => this.toSarifRule(rule)),
+            },
+          },
+          originalUriBaseIds: {
+            SRCROOT: { uri: pathToFileURL(projectRoot + path.sep).href },
+          },
+          results: issues.map((issue) => {
+            const ruleIndex = ruleIndexes.get(issue.ruleId)!;
+            const result = this.toSarifResult(
+              issue,
+              ruleIndex,
+              catalog[ruleIndex]
+            );
+            // 使用基线时，报告中的问题都是基线之外的新问题
+            return results.baseline
+              ? { ...result, baselineState: 'new' }
+              : result;
+          }),
+          // 被抑制注释抑制的问题作为带 suppressions 的结果输出，便于审计
+          ...suppressed.map((issue) => {
+            const ruleIndex = ruleIndexes.get(issue.ruleId)!;
+            return {
+              ...this.toSarifResult(issue, ruleIndex, catalog[ruleIndex]),
+              suppressions: [
+                {
+                  kind: 'inSource',
+                  justification: this.findSuppression(results, issue)?.reason,
+                },
+              ],
+            };
+          }),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 生成规则目录：内置分析器规则、本次运行的规则引擎规则以及结果中出现的其他规则
+   * 规则引擎的规则取自分析结果中记录的元数据，不会在生成报告时重新加载或执行规则
+   */
+  private buildRuleCatalog(
+    results: IAnalysisResult,
+    issues: IAnalysisIssue[]
+  ): IIssueRule[] {
+    const catalog = new Map<string, IIssueRule>();
+    ANALYZER_ISSUE_RULES.forEach((rule) => catalog.set(rule.id, rule));
+
+    (results.ruleCatalog || []).forEach((rule) => {
+      if (!catalog.has(rule.name)) {
+        catalog.set(rule.name, toIssueRule(rule));
+      }
+    });
+
+    (results.customRules || []).forEach((rule) => {
+      if (!catalog.has(rule.ruleName)) {
+        catalog.set(
+          rule.ruleName,
+          toIssueRule({ name: rule.ruleName, description: rule.description })
+        );
+      }
+    });
+
+    issues.forEach((issue) => {
+      if (!catalog.has(issue.ruleId)) {
+        catalog.set(
+          issue.ruleId,
+          toIssueRule({ name: issue.ruleId, description: issue.ruleId })
+        );
+      }
+    });
+
+    return Array.from(catalog.values());
+  }
+
+  /**
+   * 转换规则描述
+   */
+  private toSarifRule(rule: IIssueRule): ISarifRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      shortDescription: { text: rule.description },
+      help: { text: rule.help },
+      defaultConfiguration: { level: SARIF_LEVELS[rule.defaultSeverity] },
+      properties: { category: rule.analyzer },
+    };
+  }
+
+  /**
+   * 转换问题条目
+   */
+  private toSarifResult(
+    issue: IAnalysisIssue,
+    ruleIndex: number,
+    rule: IIssueRule
+  ): ISarifResult {
+    const result: ISarifResult = {
+      ruleId: issue.ruleId,
+      ruleIndex,
+      level: SARIF_LEVELS[issue.severity],
+      message: { text: issue.message },
+      locations: [],
+      properties: { suggestion: issue.suggestion || rule.help },
+    };
+
+    if (issue.location) {
+      const { filePath, startLine, startColumn, endLine, endColumn } =
+        issue.location;
+      result.locations.push({
+        physicalLocation: {
+          artifactLocation: {
+            uri: this.toArtifactUri(filePath),
+            uriBaseId: 'SRCROOT',
+          },
+          // SARIF 的行列号从1开始，没有行号时不输出区域
+          region: startLine
+            ? {
+                startLine,
+                startColumn: startColumn || undefined,
+                endLine: endLine || undefined,
+                endColumn: endColumn || undefined,
+              }
+            : undefined,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 查找抑制问题的抑制注释
+   */
+  private findSuppression(
+    results: IAnalysisResult,
+    issue: IAnalysisIssue
+  ): ISuppression | undefined {
+    const filePath = decodeURIComponent(
+      this.toArtifactUri(issue.location?.filePath || '')
+    );
+    return results.suppressions?.suppressions.find(
+      (suppression) =>
+        suppression.filePath === filePath && coversIssue(suppression, issue)
+    );
+  }
+
+  /**
+   * 将文件路径转换为相对 SRCROOT 的 URI
+   */
+  private toArtifactUri(filePath: string): string {
+    const relativePath = path.isAbsolute(filePath)
+      ? path.relative(path.resolve(this.options.projectRoot || '.'), filePath)
+      : filePath;
+
+    return relativePath
+      .split(/[\\/]/)
+      .map((segment) => encodeURIComponent(segment))
+      .join('/');
+  }
+}
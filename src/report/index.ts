@@ -2,9 +2,22 @@ import { IAnalysisResult } from '../types/analysis';
 import { HTMLReportGenerator } from './formatters/html';
 import { JSONReportGenerator } from './formatters/json';
 import { ConsoleReportGenerator } from './formatters/console';
+import { MarkdownReportGenerator } from './formatters/markdown';
+import { SarifReportGenerator } from './formatters/sarif';
 import { IReportOptions } from '../types/report';
 
-export type ReportFormat = 'html' | 'json' | 'console';
+export type ReportFormat = 'html' | 'json' | 'console' | 'markdown' | 'sarif';
+
+/**
+ * 支持的报告格式
+ */
+export const REPORT_FORMATS: ReportFormat[] = [
+  'console',
+  'html',
+  'json',
+  'markdown',
+  'sarif',
+];
 
 /**
  * 报告生成器工厂
@@ -23,6 +36,10 @@ export class ReportGeneratorFactory {
         return new HTMLReportGenerator(options);
       case 'json':
         return new JSONReportGenerator(options);
+      case 'markdown':
+        return new MarkdownReportGenerator(options);
+      case 'sarif':
+        return new SarifReportGenerator(options);
       case 'console':
       default:
         return new ConsoleReportGenerator(options);
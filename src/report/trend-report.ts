@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import chalk from 'chalk';
+
+import { IMetricsSnapshot } from '../core/incremental/history-store';
+import { IChartData, IReportOptions } from '../types/report';
+import { ChartVisualizer } from './visualizers/chart-visualizer';
+
+/**
+ * 趋势报告格式
+ */
+export type TrendFormat = 'console' | 'json' | 'html';
+
+export const TREND_FORMATS: TrendFormat[] = ['console', 'json', 'html'];
+
+/**
+ * 趋势指标
+ */
+interface ITrendMetric {
+  label: string;
+  value: (snapshot: IMetricsSnapshot) => number | undefined;
+  format: (value: number) => string;
+}
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+const formatCount = (value: number) => String(Math.round(value));
+const formatDecimal = (value: number) => value.toFixed(2);
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const TREND_METRICS: ITrendMetric[] = [
+  {
+    label: '问题总数',
+    value: (snapshot) => snapshot.issues.total,
+    format: formatCount,
+  },
+  {
+    label: '错误',
+    value: (snapshot) => snapshot.issues.error,
+    format: formatCount,
+  },
+  {
+    label: '警告',
+    value: (snapshot) => snapshot.issues.warning,
+    format: formatCount,
+  },
+  {
+    label: '代码行数',
+    value: (snapshot) => snapshot.totalLines,
+    format: formatCount,
+  },
+  {
+    label: '平均圈复杂度',
+    value: (snapshot) => snapshot.complexity?.averageCyclomatic,
+    format: formatDecimal,
+  },
+  {
+    label: '高复杂度函数',
+    value: (snapshot) => snapshot.complexity?.complexFunctions,
+    format: formatCount,
+  },
+  {
+    label: '重复率',
+    value: (snapshot) => snapshot.duplicationRate,
+    format: formatPercent,
+  },
+  {
+    label: '循环依赖',
+    value: (snapshot) => snapshot.circularDependencies,
+    format: formatCount,
+  },
+  {
+    label: '覆盖率',
+    value: (snapshot) => snapshot.coverage,
+    format: formatPercent,
+  },
+];
+
+/**
+ * 生成迷你折线图，缺失的值显示为空格
+ * @param values 数值序列
+ */
+export function sparkline(values: Array<number | undefined>): string {
+  const present = values.filter(
+    (value): value is number => value !== undefined
+  );
+  if (present.length === 0) {
+    return '';
+  }
+
+  const min = Math.min(...present);
+  const range = Math.max(...present) - min;
+  return values
+    .map((value) => {
+      if (value === undefined) {
+        return ' ';
+      }
+      const level = range === 0 ? 0 : (value - min) / range;
+      return SPARK_CHARS[Math.round(level * (SPARK_CHARS.length - 1))];
+    })
+    .join('');
+}
+
+/**
+ * 快照的简短标签：提交的前 7 位（有未提交修改时加 *），不在 Git 仓库中时为日期
+ */
+function snapshotLabel(snapshot: IMetricsSnapshot): string {
+  return snapshot.commit
+    ? `${snapshot.commit.slice(0, 7)}${snapshot.dirty ? '*' : ''}`
+    : snapshot.timestamp.slice(0, 10);
+}
+
+/**
+ * 趋势报告生成器
+ * 把历史快照渲染为控制台迷你折线图、JSON 或带时间序列图表的 HTML 页面
+ */
+export class TrendReportGenerator {
+  private readonly options: IReportOptions;
+
+  constructor(options: IReportOptions = {}) {
+    this.options = {
+      outputPath: './reports',
+      title: '代码质量趋势',
+      ...options,
+      timestamp: options.timestamp || new Date(),
+    };
+  }
+
+  /**
+   * 生成趋势报告
+   * @param snapshots 按时间升序排列的快照
+   * @param format 报告格式
+   * @returns 报告文件路径，控制台格式返回 null
+   */
+  async generate(
+    snapshots: IMetricsSnapshot[],
+    format: TrendFormat
+  ): Promise<string | null> {
+    if (format === 'console') {
+      console.log(this.renderConsole(snapshots));
+      return null;
+    }
+
+    const outputDir = this.options.outputPath || './reports';
+    if (!fs.existsSync(outputDir)) {
+      await fsPromises.mkdir(outputDir, { recursive: true });
+    }
+    const outputPath = path.join(outputDir, this.getFileName(format));
+    await fsPromises.writeFile(
+      outputPath,
+      format === 'json'
+        ? JSON.stringify(this.buildJson(snapshots), null, 2)
+        : this.renderHtml(snapshots)
+    );
+    return outputPath;
+  }
+
+  /**
+   * 渲染控制台趋势表：每个指标一行，包含迷你折线图、首末值和变化量
+   * @param snapshots 按时间升序排列的快照
+   */
+  renderConsole(snapshots: IMetricsSnapshot[]): string {
+    if (snapshots.length === 0) {
+      return chalk.yellow(
+        '没有历史记录，运行 analyze 或 trend --backfill 后再查看'
+      );
+    }
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const lines = [
+      chalk.bold(`${this.options.title}（${snapshots.length} 个快照）`),
+      chalk.gray(
+        `${snapshotLabel(first)} ${first.timestamp.slice(0, 10)} → ${snapshotLabel(last)} ${last.timestamp.slice(0, 10)}`
+      ),
+      '',
+    ];
+
+    const width = Math.max(
+      ...TREND_METRICS.map((metric) => metric.label.length)
+    );
+    // 中文标签每个字符占两列
+    this.getSeries(snapshots).forEach(({ metric, values }) => {
+      const present = values.filter(
+        (value): value is number => value !== undefined
+      );
+      const start = present[0];
+      const end = present[present.length - 1];
+      const delta = end - start;
+      const deltaText =
+        delta === 0
+          ? chalk.gray('±0')
+          : `${delta > 0 ? '+' : '-'}${metric.format(Math.abs(delta))}`;
+
+      lines.push(
+        `${metric.label.padEnd(width * 2 - metric.label.length)}  ${chalk.cyan(sparkline(values))}  ${metric.format(start)} → ${metric.format(end)} (${deltaText})`
+      );
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 构建 JSON 趋势数据
+   * @param snapshots 按时间升序排列的快照
+   */
+  buildJson(snapshots: IMetricsSnapshot[]): {
+    title?: string;
+    projectName?: string;
+    generatedAt: string;
+    snapshots: IMetricsSnapshot[];
+  } {
+    return {
+      title: this.options.title,
+      projectName: this.options.projectName,
+      generatedAt: this.options.timestamp!.toISOString(),
+      snapshots,
+    };
+  }
+
+  /**
+   * 渲染 HTML 趋势页面，每个指标一张时间序列折线图
+   * @param snapshots 按时间升序排列的快照
+   */
+  renderHtml(snapshots: IMetricsSnapshot[]): string {
+    const labels = snapshots.map(
+      (snapshot) =>
+        `${snapshot.timestamp.slice(0, 10)} ${snapshotLabel(snapshot)}`
+    );
+    const chartData: IChartData[] = this.getSeries(snapshots).map(
+      ({ metric, values }) => ({
+        title: metric.label,
+        type: 'line',
+        labels,
+        datasets: [
+          {
+            label: metric.label,
+            // 缺失的值序列化为 null，图表中显示为断点
+            data: values.map((value) =>
+              value === undefined ? NaN : Number(value.toFixed(4))
+            ),
+            borderColor: '#4e79a7',
+            backgroundColor: 'rgba(78, 121, 167, 0.2)',
+          },
+        ],
+      })
+    );
+    const escape = (value: string) =>
+      value.replace(
+        /[&<>"]/g,
+        (char) =>
+          ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!
+      );
+    const renderer = this.options.chartRenderer || 'svg';
+    const title = escape(
+      [this.options.projectName, this.options.title].filter(Boolean).join(' - ')
+    );
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>${renderer === 'chartjs' ? ChartVisualizer.generateChartJsScripts() : ''}
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; padding: 24px; color: #333; background: #f5f7fa; }
+    h1 { margin: 0 0 4px; }
+    .meta { color: #888; margin-bottom: 24px; }
+    .chart-row { display: flex; gap: 20px; margin-bottom: 20px; flex-wrap: wrap; }
+    .chart-container { flex: 1; min-width: 360px; background: #fff; border-radius: 8px; padding: 16px; box-shadow: 0 2px 6px rgba(0, 0, 0, 0.08); }
+    .chart-header h2 { font-size: 16px; margin: 0 0 12px; }
+    .chart-canvas-container { position: relative; height: 260px; }
+    .chart-svg-container svg { display: block; width: 100%; height: auto; }
+    .empty { color: #888; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <div class="meta">${snapshots.length} 个快照，生成于 ${this.options.timestamp!.toISOString().replace(/T/, ' ').replace(/\..+/, '')}</div>
+  ${
+    chartData.length > 0
+      ? ChartVisualizer.wrapChartsInContainer(chartData, renderer)
+      : '<p class="empty">没有历史记录</p>'
+  }
+</body>
+</html>
+`;
+  }
+
+  /**
+   * 各指标的数值序列，跳过没有任何数据的指标
+   */
+  private getSeries(snapshots: IMetricsSnapshot[]) {
+    return TREND_METRICS.map((metric) => ({
+      metric,
+      values: snapshots.map((snapshot) => metric.value(snapshot)),
+    })).filter(({ values }) => values.some((value) => value !== undefined));
+  }
+
+  /**
+   * 趋势报告文件名
+   */
+  private getFileName(format: TrendFormat): string {
+    const projectName = (this.options.projectName || 'project').replace(
+      /[^\w-]/g,
+      '_'
+    );
+    return `${projectName}-trend.${format}`;
+  }
+}
@@ -1,10 +1,26 @@
-import { IChartData } from '../../types/report';
+import { ChartRenderer, IChartData } from '../../types/report';
+import { SvgChartRenderer } from './svg-chart-renderer';
+
+/**
+ * 支持的图表渲染方式
+ */
+export const CHART_RENDERERS: ChartRenderer[] = ['svg', 'chartjs'];
 
 /**
  * 图表可视化器类
- * 用于生成Chart.js配置和选项
+ * 默认在生成报告时把图表渲染为内联SVG，也可以生成Chart.js配置由浏览器绘制
  */
 export class ChartVisualizer {
+  /**
+   * 生成加载 Chart.js 及数据标签插件的脚本标签，仅 chartjs 渲染方式需要
+   * @returns 脚本标签HTML
+   */
+  static generateChartJsScripts(): string {
+    return `
+  <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
+  <script src="https://cdn.jsdelivr.net/npm/chartjs-plugin-datalabels@2.0.0"></script>`;
+  }
+
   /**
    * 生成Chart.js配置
    * @param chartData 图表数据
@@ -124,42 +140,73 @@ export class ChartVisualizer {
     `;
   }
 
+  /**
+   * 生成内联SVG图表容器
+   * @param index 图表索引
+   * @param chartData 图表数据
+   * @returns 图表容器HTML
+   */
+  static generateSvgChartContainer(
+    index: number,
+    chartData: IChartData
+  ): string {
+    return `
+    <div class="chart-container">
+      <div class="chart-header">
+        <h2>${chartData.title}</h2>
+      </div>
+      <div class="chart-svg-container">
+        ${new SvgChartRenderer().render(chartData, `chart-${index}`)}
+      </div>
+    </div>
+    `;
+  }
+
   /**
    * 将所有图表包装在一个容器中
    * @param chartData 图表数据列表
+   * @param renderer 图表渲染方式，默认为内联SVG
    * @returns 包含所有图表的HTML
    */
-  static wrapChartsInContainer(chartData: IChartData[]): string {
+  static wrapChartsInContainer(
+    chartData: IChartData[],
+    renderer: ChartRenderer = 'svg'
+  ): string {
     if (chartData.length === 0) {
       return '';
     }
 
-    const chartRows = this.arrangeChartsInRows(chartData);
+    const chartRows = this.arrangeChartsInRows(chartData, renderer);
 
     return `
     <div class="charts-section">
       <h2 class="section-title">分析图表可视化</h2>
       ${chartRows}
     </div>
-    ${this.generateChartInitScript(chartData)}
+    ${renderer === 'chartjs' ? this.generateChartInitScript(chartData) : ''}
     `;
   }
 
   /**
    * 将图表排列成行
    * @param chartData 图表数据列表
+   * @param renderer 图表渲染方式
    * @param chartsPerRow 每行图表数量
    * @returns 排列后的HTML
    */
   private static arrangeChartsInRows(
     chartData: IChartData[],
+    renderer: ChartRenderer,
     chartsPerRow: number = 2
   ): string {
     let html = '';
     for (let i = 0; i < chartData.length; i += chartsPerRow) {
       html += '<div class="chart-row">';
       for (let j = i; j < i + chartsPerRow && j < chartData.length; j++) {
-        html += this.generateChartContainer(j, chartData[j]);
+        html +=
+          renderer === 'chartjs'
+            ? this.generateChartContainer(j, chartData[j])
+            : this.generateSvgChartContainer(j, chartData[j]);
       }
       html += '</div>';
     }
@@ -0,0 +1,525 @@
+import { IChartData, IScatterChartData } from '../../types/report';
+
+/**
+ * SVG 图表尺寸选项
+ */
+export interface ISvgChartOptions {
+  /**
+   * 画布宽度
+   */
+  width?: number;
+
+  /**
+   * 画布高度
+   */
+  height?: number;
+}
+
+/**
+ * 未指定颜色时使用的调色板
+ */
+const PALETTE = [
+  '#4e79a7',
+  '#f28e2b',
+  '#e15759',
+  '#76b7b2',
+  '#59a14f',
+  '#edc948',
+  '#b07aa1',
+  '#ff9da7',
+  '#9c755f',
+  '#bab0ac',
+];
+
+const MARGIN = { top: 16, right: 16, bottom: 48, left: 48 };
+const LEGEND_HEIGHT = 22;
+
+/**
+ * 转义 XML 文本和属性值
+ */
+function escapeXml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&#39;',
+      })[char]!
+  );
+}
+
+/**
+ * 格式化数值，最多保留两位小数
+ */
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+/**
+ * 截断过长的坐标轴标签
+ */
+function truncate(label: string, length: number): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+/**
+ * 计算包含 [min, max] 的坐标轴刻度，刻度间隔为 1、2、5 乘以 10 的幂
+ */
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    max = min + 1;
+  }
+  const raw = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step =
+    [1, 2, 5, 10].map((factor) => factor * magnitude).find((s) => s >= raw) ||
+    10 * magnitude;
+  const start = Math.floor(min / step) * step;
+  const end = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = start; tick < end + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * 数值的最小值和最大值，没有数值时为 [0, 1]
+ */
+function extent(values: number[]): [number, number] {
+  const finite = values.filter(Number.isFinite);
+  return finite.length > 0
+    ? [Math.min(...finite), Math.max(...finite)]
+    : [0, 1];
+}
+
+/**
+ * 静态 SVG 图表渲染器
+ * 在服务端把 IChartData 渲染为内联 SVG，报告离线打开或作为CI产物归档时图表依然可见。
+ * 图表带有 role="img" 和 title/desc 供读屏软件读取，每个柱、点和扇区的 title 元素作为悬停提示
+ */
+export class SvgChartRenderer {
+  private readonly width: number;
+  private readonly height: number;
+
+  constructor(options: ISvgChartOptions = {}) {
+    this.width = options.width || 480;
+    this.height = options.height || 280;
+  }
+
+  /**
+   * 渲染图表
+   * @param chartData 图表数据
+   * @param id 图表在页面中的唯一标识，用于关联 title 和 desc
+   * @returns SVG 标记
+   */
+  render(chartData: IChartData, id: string = 'chart'): string {
+    let body: string;
+    switch (chartData.type) {
+      case 'line':
+        body = this.renderLine(chartData);
+        break;
+      case 'pie':
+        body = this.renderPie(chartData, 0);
+        break;
+      case 'doughnut':
+        body = this.renderPie(chartData, 0.55);
+        break;
+      case 'bar':
+      default:
+        // 雷达图没有对应的静态实现，按柱状图呈现
+        body = this.renderBar(chartData);
+        break;
+    }
+
+    return this.wrap(id, chartData.title, this.describe(chartData), body);
+  }
+
+  /**
+   * 渲染散点图
+   * @param chartData 散点图数据
+   * @param id 图表在页面中的唯一标识，用于关联 title 和 desc
+   * @returns SVG 标记
+   */
+  renderScatter(chartData: IScatterChartData, id: string = 'chart'): string {
+    const legend = chartData.legend || [];
+    const plot = this.getPlotArea(legend.length > 0);
+    const xTicks = niceTicks(
+      ...(chartData.xRange || extent(chartData.points.map((point) => point.x)))
+    );
+    const yTicks = niceTicks(
+      ...(chartData.yRange || extent(chartData.points.map((point) => point.y)))
+    );
+    const scaleY = this.createScale(yTicks, plot);
+    const scaleX = (value: number) =>
+      plot.x +
+      ((value - xTicks[0]) / (xTicks[xTicks.length - 1] - xTicks[0])) *
+        plot.width;
+    const axisY = plot.y + plot.height;
+    const showLabels = chartData.points.length <= 20;
+
+    const description = [
+      `横轴 ${chartData.xLabel}，纵轴 ${chartData.yLabel}`,
+      chartData.points
+        .map(
+          (point) =>
+            `${point.label} (${formatNumber(point.x)}, ${formatNumber(point.y)})`
+        )
+        .join('，') || '无数据',
+    ].join('；');
+
+    const body = [
+      this.renderYAxis(yTicks, scaleY, plot),
+      ...xTicks.map(
+        (tick) =>
+          `  <text x="${this.round(scaleX(tick))}" y="${axisY + 16}" text-anchor="middle" fill="#666">${formatNumber(tick)}</text>`
+      ),
+      `  <text x="${this.round(plot.x + plot.width / 2)}" y="${axisY + 34}" text-anchor="middle" fill="#333">${escapeXml(chartData.xLabel)}</text>`,
+      `  <text transform="rotate(-90)" x="${this.round(-(plot.y + plot.height / 2))}" y="12" text-anchor="middle" fill="#333">${escapeXml(chartData.yLabel)}</text>`,
+      ...(chartData.referenceLines || []).map((line) => {
+        const tooltip = line.label
+          ? `<title>${escapeXml(line.label)}</title>`
+          : '';
+        return `  <line x1="${this.round(scaleX(line.from[0]))}" y1="${this.round(scaleY(line.from[1]))}" x2="${this.round(scaleX(line.to[0]))}" y2="${this.round(scaleY(line.to[1]))}" stroke="#999" stroke-dasharray="4 3">${tooltip}</line>`;
+      }),
+      ...chartData.points
+        .filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y))
+        .map((point, index) => {
+          const x = this.round(scaleX(point.x));
+          const y = this.round(scaleY(point.y));
+          const circle = `  <circle cx="${x}" cy="${y}" r="5" fill="${this.colorOf(point.color, index)}" fill-opacity="0.8"><title>${escapeXml(`${point.label} (${formatNumber(point.x)}, ${formatNumber(point.y)})`)}</title></circle>`;
+          // 点较少时直接标注名称，点多时只保留悬停提示，避免文字重叠
+          return showLabels
+            ? `${circle}
+  <text x="${this.round(x + 7)}" y="${this.round(y + 4)}" fill="#333">${escapeXml(truncate(point.label, 16))}</text>`
+            : circle;
+        }),
+      legend.length > 0
+        ? this.renderLegend(
+            legend.map((item) => ({
+              label: item.label,
+              color: escapeXml(item.color),
+            }))
+          )
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    return this.wrap(id, chartData.title, description, body);
+  }
+
+  /**
+   * 用带有 title 和 desc 的 svg 元素包裹图表内容
+   */
+  private wrap(
+    id: string,
+    title: string,
+    description: string,
+    body: string
+  ): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" class="svg-chart" viewBox="0 0 ${this.width} ${this.height}" role="img" aria-labelledby="${id}-title ${id}-desc" font-family="sans-serif" font-size="11">
+  <title id="${id}-title">${escapeXml(title)}</title>
+  <desc id="${id}-desc">${escapeXml(description)}</desc>
+${body}
+</svg>`;
+  }
+
+  /**
+   * 图表数据的文字摘要，供读屏软件读取
+   */
+  private describe(chartData: IChartData): string {
+    return chartData.datasets
+      .map((dataset) => {
+        const values = chartData.labels.map(
+          (label, index) => `${label} ${this.formatValue(dataset.data[index])}`
+        );
+        return `${dataset.label ? `${dataset.label}: ` : ''}${values.join('，')}`;
+      })
+      .join('；');
+  }
+
+  /**
+   * 渲染分组柱状图，Y 轴从 0 开始
+   */
+  private renderBar(chartData: IChartData): string {
+    const legend = chartData.datasets.length > 1;
+    const plot = this.getPlotArea(legend);
+    const values = chartData.datasets.flatMap((dataset) =>
+      dataset.data.filter(Number.isFinite)
+    );
+    const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+    const scaleY = this.createScale(ticks, plot);
+    const band = plot.width / Math.max(chartData.labels.length, 1);
+    const barWidth = (band * 0.7) / Math.max(chartData.datasets.length, 1);
+
+    const bars = chartData.labels.flatMap((label, labelIndex) =>
+      chartData.datasets.map((dataset, datasetIndex) => {
+        const value = dataset.data[labelIndex];
+        if (!Number.isFinite(value)) {
+          return '';
+        }
+        const x =
+          plot.x + band * labelIndex + band * 0.15 + barWidth * datasetIndex;
+        const top = Math.min(scaleY(value), scaleY(0));
+        const height = Math.abs(scaleY(value) - scaleY(0));
+        const name = dataset.label ? `${dataset.label} · ${label}` : label;
+        return `  <rect x="${this.round(x)}" y="${this.round(top)}" width="${this.round(barWidth)}" height="${this.round(height)}" fill="${this.colorOf(dataset.backgroundColor, chartData.datasets.length > 1 ? datasetIndex : labelIndex)}"><title>${escapeXml(`${name}: ${formatNumber(value)}`)}</title></rect>`;
+      })
+    );
+
+    return [
+      this.renderYAxis(ticks, scaleY, plot),
+      this.renderXLabels(
+        chartData.labels,
+        plot,
+        (index) => plot.x + band * (index + 0.5)
+      ),
+      ...bars.filter(Boolean),
+      legend
+        ? this.renderLegend(
+            chartData.datasets.map((dataset, index) => ({
+              label: dataset.label || '',
+              color: this.colorOf(dataset.backgroundColor, index),
+            }))
+          )
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 渲染折线图，缺失的值（NaN 或 null）处断开
+   */
+  private renderLine(chartData: IChartData): string {
+    const legend = chartData.datasets.length > 1;
+    const plot = this.getPlotArea(legend);
+    const values = chartData.datasets.flatMap((dataset) =>
+      dataset.data.filter(Number.isFinite)
+    );
+    const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+    const scaleY = this.createScale(ticks, plot);
+    const step =
+      chartData.labels.length > 1
+        ? plot.width / (chartData.labels.length - 1)
+        : 0;
+    const xOf = (index: number) =>
+      chartData.labels.length > 1
+        ? plot.x + step * index
+        : plot.x + plot.width / 2;
+
+    const series = chartData.datasets.map((dataset, datasetIndex) => {
+      const color = this.colorOf(dataset.borderColor, datasetIndex);
+      const segments: string[][] = [[]];
+      const points: string[] = [];
+      chartData.labels.forEach((label, index) => {
+        const value = dataset.data[index];
+        if (!Number.isFinite(value)) {
+          segments.push([]);
+          return;
+        }
+        const x = this.round(xOf(index));
+        const y = this.round(scaleY(value));
+        segments[segments.length - 1].push(`${x},${y}`);
+        const name = dataset.label ? `${dataset.label} · ${label}` : label;
+        points.push(
+          `  <circle cx="${x}" cy="${y}" r="3" fill="${color}"><title>${escapeXml(`${name}: ${formatNumber(value)}`)}</title></circle>`
+        );
+      });
+      return [
+        ...segments
+          .filter((segment) => segment.length > 1)
+          .map(
+            (segment) =>
+              `  <polyline points="${segment.join(' ')}" fill="none" stroke="${color}" stroke-width="2"/>`
+          ),
+        ...points,
+      ].join('\n');
+    });
+
+    return [
+      this.renderYAxis(ticks, scaleY, plot),
+      this.renderXLabels(chartData.labels, plot, xOf),
+      ...series,
+      legend
+        ? this.renderLegend(
+            chartData.datasets.map((dataset, index) => ({
+              label: dataset.label || '',
+              color: this.colorOf(dataset.borderColor, index),
+            }))
+          )
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 渲染饼图或环形图，只使用第一个数据集
+   * @param cutout 环形图内圆半径与外圆半径之比，饼图为 0
+   */
+  private renderPie(chartData: IChartData, cutout: number): string {
+    const dataset = chartData.datasets[0];
+    const slices = chartData.labels
+      .map((label, index) => ({
+        label,
+        value: dataset?.data[index],
+        color: this.colorOf(dataset?.backgroundColor, index),
+      }))
+      .filter(({ value }) => Number.isFinite(value) && value > 0);
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    const legendItems = slices.map((slice) => ({
+      label: `${slice.label} ${formatNumber((slice.value / total) * 100)}%`,
+      color: slice.color,
+    }));
+
+    const areaHeight =
+      this.height - LEGEND_HEIGHT * Math.ceil(legendItems.length / 3) - 8;
+    const radius = Math.max(Math.min(this.width, areaHeight) / 2 - 8, 10);
+    const cx = this.width / 2;
+    const cy = areaHeight / 2 + 4;
+    const inner = radius * cutout;
+
+    if (total === 0) {
+      return `  <text x="${cx}" y="${cy}" text-anchor="middle" fill="#888">无数据</text>`;
+    }
+
+    let angle = -Math.PI / 2;
+    const paths = slices.map((slice) => {
+      const sweep = (slice.value / total) * Math.PI * 2;
+      const tooltip = `<title>${escapeXml(`${slice.label}: ${formatNumber(slice.value)} (${formatNumber((slice.value / total) * 100)}%)`)}</title>`;
+      const start = angle;
+      angle += sweep;
+
+      // 只有一个扇区时无法用圆弧路径闭合，直接画圆
+      if (slices.length === 1) {
+        return inner > 0
+          ? `  <circle cx="${cx}" cy="${cy}" r="${this.round((radius + inner) / 2)}" fill="none" stroke="${slice.color}" stroke-width="${this.round(radius - inner)}">${tooltip}</circle>`
+          : `  <circle cx="${cx}" cy="${cy}" r="${this.round(radius)}" fill="${slice.color}">${tooltip}</circle>`;
+      }
+
+      const large = sweep > Math.PI ? 1 : 0;
+      const point = (r: number, a: number) =>
+        `${this.round(cx + r * Math.cos(a))} ${this.round(cy + r * Math.sin(a))}`;
+      const d =
+        inner > 0
+          ? `M ${point(radius, start)} A ${this.round(radius)} ${this.round(radius)} 0 ${large} 1 ${point(radius, angle)} L ${point(inner, angle)} A ${this.round(inner)} ${this.round(inner)} 0 ${large} 0 ${point(inner, start)} Z`
+          : `M ${cx} ${this.round(cy)} L ${point(radius, start)} A ${this.round(radius)} ${this.round(radius)} 0 ${large} 1 ${point(radius, angle)} Z`;
+      return `  <path d="${d}" fill="${slice.color}" stroke="#fff" stroke-width="1">${tooltip}</path>`;
+    });
+
+    return [...paths, this.renderLegend(legendItems)].join('\n');
+  }
+
+  /**
+   * 绘图区域，底部留出 X 轴标签和图例的位置
+   */
+  private getPlotArea(legend: boolean) {
+    return {
+      x: MARGIN.left,
+      y: MARGIN.top,
+      width: this.width - MARGIN.left - MARGIN.right,
+      height:
+        this.height - MARGIN.top - MARGIN.bottom - (legend ? LEGEND_HEIGHT : 0),
+    };
+  }
+
+  /**
+   * 把数值映射为绘图区域中的纵坐标
+   */
+  private createScale(
+    ticks: number[],
+    plot: { y: number; height: number }
+  ): (value: number) => number {
+    const min = ticks[0];
+    const max = ticks[ticks.length - 1];
+    return (value) =>
+      plot.y + plot.height - ((value - min) / (max - min)) * plot.height;
+  }
+
+  /**
+   * 渲染 Y 轴刻度和网格线
+   */
+  private renderYAxis(
+    ticks: number[],
+    scaleY: (value: number) => number,
+    plot: { x: number; width: number }
+  ): string {
+    return ticks
+      .map((tick) => {
+        const y = this.round(scaleY(tick));
+        return `  <line x1="${plot.x}" y1="${y}" x2="${plot.x + plot.width}" y2="${y}" stroke="${tick === 0 ? '#999' : '#e5e5e5'}"/>
+  <text x="${plot.x - 6}" y="${y + 4}" text-anchor="end" fill="#666">${formatNumber(tick)}</text>`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 渲染 X 轴标签，标签过多时按间隔显示，完整标签放在 title 中
+   */
+  private renderXLabels(
+    labels: string[],
+    plot: { y: number; height: number; width: number },
+    xOf: (index: number) => number
+  ): string {
+    const every = Math.max(
+      1,
+      Math.ceil(labels.length / Math.max(1, Math.floor(plot.width / 64)))
+    );
+    const y = plot.y + plot.height + 16;
+    return labels
+      .map((label, index) =>
+        index % every === 0
+          ? `  <text x="${this.round(xOf(index))}" y="${y}" text-anchor="middle" fill="#666">${escapeXml(truncate(label, 12))}<title>${escapeXml(label)}</title></text>`
+          : ''
+      )
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 在底部渲染图例，每行最多三项
+   */
+  private renderLegend(items: Array<{ label: string; color: string }>): string {
+    const rows = Math.ceil(items.length / 3);
+    const columnWidth = this.width / 3;
+    return items
+      .map((item, index) => {
+        const x = this.round(columnWidth * (index % 3) + 12);
+        const y = this.round(
+          this.height - LEGEND_HEIGHT * (rows - Math.floor(index / 3)) + 6
+        );
+        return `  <rect x="${x}" y="${y}" width="10" height="10" fill="${item.color}"/>
+  <text x="${x + 14}" y="${y + 9}" fill="#333">${escapeXml(truncate(item.label, 22))}<title>${escapeXml(item.label)}</title></text>`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 取数据集中第 index 个颜色，未指定时使用调色板
+   */
+  private colorOf(color: string | string[] | undefined, index: number): string {
+    const value = Array.isArray(color) ? color[index % color.length] : color;
+    return escapeXml(value || PALETTE[index % PALETTE.length]);
+  }
+
+  /**
+   * 格式化数据点，缺失的值显示为“无数据”
+   */
+  private formatValue(value: number | undefined): string {
+    return value === undefined || !Number.isFinite(value)
+      ? '无数据'
+      : formatNumber(value);
+  }
+
+  /**
+   * 坐标保留一位小数，减小输出体积
+   */
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
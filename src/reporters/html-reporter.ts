@@ -6,6 +6,9 @@ import { BaseReporter, IReporterOptions } from './base-reporter';
 import { AnalysisResult } from '../types/analysis-result';
 import { IDuplicateAnalysisResult } from '../analyzers/duplicate-code-analyzer';
 import { IUnusedCodeAnalysisResult } from '../analyzers/unused-code-analyzer';
+import { ChartRenderer, IChartData } from '../types/report';
+import { ChartVisualizer } from '../report/visualizers/chart-visualizer';
+import { SvgChartRenderer } from '../report/visualizers/svg-chart-renderer';
 
 // 将fs方法转换为Promise
 const writeFile = promisify(fs.writeFile);
@@ -19,6 +22,10 @@ export interface IHtmlReporterOptions extends IReporterOptions {
   includeSourceCode?: boolean;
   includeSummaryChart?: boolean;
   theme?: 'light' | 'dark';
+  /**
+   * 图表渲染方式，默认在报告中内联SVG，chartjs 则通过CDN加载 Chart.js
+   */
+  chartRenderer?: ChartRenderer;
 }
 
 /**
@@ -40,6 +47,7 @@ export class HtmlReporter extends BaseReporter {
       includeSourceCode: true,
       includeSummaryChart: true,
       theme: 'light',
+      chartRenderer: 'svg',
     };
 
     // 设置选项
@@ -61,19 +69,40 @@ export class HtmlReporter extends BaseReporter {
     const outputDir = this.options.outputPath || './reports';
     await mkdir(outputDir, { recursive: true });
 
+    const dupeResults = resultsArray.filter(
+      (r) => 'duplicates' in r
+    ) as IDuplicateAnalysisResult[];
+    const unusedResults = resultsArray.filter(
+      (r) => 'unusedImports' in r
+    ) as IUnusedCodeAnalysisResult[];
+    const summaryChart =
+      this.options.includeSummaryChart &&
+      (dupeResults.length > 0 || unusedResults.length > 0)
+        ? this.prepareSummaryChart(dupeResults, unusedResults)
+        : null;
+    const chartRenderer = this.options.chartRenderer || 'svg';
+
     // 准备报告数据
     const reportData = {
       title: this.options.title,
       generatedAt: new Date().toLocaleString(),
       theme: this.options.theme,
-      includeSummaryChart: this.options.includeSummaryChart,
+      chartRenderer,
+      summaryChart,
+      summaryChartSvg:
+        summaryChart && chartRenderer === 'svg'
+          ? new SvgChartRenderer({ width: 800, height: 360 }).render(
+              summaryChart,
+              'summary-chart'
+            )
+          : '',
+      summaryChartConfig:
+        summaryChart && chartRenderer === 'chartjs'
+          ? ChartVisualizer.generateChartConfig(summaryChart)
+          : null,
       analyzerResults: this.prepareResultsData(resultsArray),
-      dupeResults: resultsArray.filter(
-        (r) => 'duplicates' in r
-      ) as IDuplicateAnalysisResult[],
-      unusedResults: resultsArray.filter(
-        (r) => 'unusedImports' in r
-      ) as IUnusedCodeAnalysisResult[],
+      dupeResults,
+      unusedResults,
     };
 
     // 生成HTML内容
@@ -198,6 +227,11 @@ export class HtmlReporter extends BaseReporter {
             margin-bottom: 30px;
           }
           
+          .chart-container svg {
+            width: 100%;
+            height: 100%;
+          }
+          
           footer {
             text-align: center;
             padding: 20px;
@@ -206,7 +240,7 @@ export class HtmlReporter extends BaseReporter {
             border-top: 1px solid var(--border-color);
           }
         </style>
-        <% if (includeSummaryChart) { %>
+        <% if (summaryChart && chartRenderer === 'chartjs') { %>
         <script src="https://cdn.jsdelivr.net/npm/chart.js@3.7.1/dist/chart.min.js"></script>
         <% } %>
       </head>
@@ -239,9 +273,13 @@ export class HtmlReporter extends BaseReporter {
               </p>
             <% } %>
             
-            <% if (includeSummaryChart && (unusedResults.length > 0 || dupeResults.length > 0)) { %>
+            <% if (summaryChart) { %>
               <div class="chart-container">
-                <canvas id="summary-chart"></canvas>
+                <% if (chartRenderer === 'chartjs') { %>
+                  <canvas id="summary-chart"></canvas>
+                <% } else { %>
+                  <%- summaryChartSvg %>
+                <% } %>
               </div>
             <% } %>
           </div>
@@ -389,97 +427,11 @@ export class HtmlReporter extends BaseReporter {
           </footer>
         </div>
         
-        <% if (includeSummaryChart && (unusedResults.length > 0 || dupeResults.length > 0)) { %>
+        <% if (summaryChart && chartRenderer === 'chartjs') { %>
         <script>
           document.addEventListener('DOMContentLoaded', function() {
             const ctx = document.getElementById('summary-chart').getContext('2d');
-            
-            // 准备图表数据
-            const labels = [];
-            const duplicateData = [];
-            const unusedData = [];
-            
-            <% if (dupeResults.length > 0) { %>
-              const dupeResult = <%= JSON.stringify(dupeResults[0]) %>;
-              labels.push('重复函数', '重复方法', '重复箭头函数');
-              
-              // 统计各类型重复代码
-              const dupeByType = new Map();
-              for (const key of Object.keys(dupeResult.duplicates)) {
-                const dupes = dupeResult.duplicates[key];
-                const type = dupes[0].type;
-                dupeByType.set(type, (dupeByType.get(type) || 0) + dupes.length);
-              }
-              
-              duplicateData.push(
-                dupeByType.get('function') || 0,
-                dupeByType.get('method') || 0,
-                dupeByType.get('arrowFunction') || 0
-              );
-            <% } %>
-            
-            <% if (unusedResults.length > 0) { %>
-              const unusedResult = <%= JSON.stringify(unusedResults[0]) %>;
-              
-              if (labels.length === 0) {
-                labels.push('导入', '变量', '函数', '类', '接口', '类型');
-              }
-              
-              unusedData.push(
-                unusedResult.unusedImports.length,
-                unusedResult.unusedVariables.length,
-                unusedResult.unusedFunctions.length,
-                unusedResult.unusedClasses.length,
-                unusedResult.unusedInterfaces.length,
-                unusedResult.unusedTypes.length
-              );
-            <% } %>
-            
-            // 创建图表
-            const chart = new Chart(ctx, {
-              type: 'bar',
-              data: {
-                labels: labels,
-                datasets: [
-                  <% if (dupeResults.length > 0) { %>
-                  {
-                    label: '重复代码',
-                    data: duplicateData,
-                    backgroundColor: 'rgba(255, 99, 132, 0.5)',
-                    borderColor: 'rgba(255, 99, 132, 1)',
-                    borderWidth: 1
-                  },
-                  <% } %>
-                  <% if (unusedResults.length > 0) { %>
-                  {
-                    label: '未使用代码',
-                    data: unusedData,
-                    backgroundColor: 'rgba(54, 162, 235, 0.5)',
-                    borderColor: 'rgba(54, 162, 235, 1)',
-                    borderWidth: 1
-                  }
-                  <% } %>
-                ]
-              },
-              options: {
-                responsive: true,
-                scales: {
-                  y: {
-                    beginAtZero: true,
-                    title: {
-                      display: true,
-                      text: '数量'
-                    }
-                  },
-                  x: {
-                    title: {
-                      display: true,
-                      text: '类型'
-                    }
-                  }
-                }
-              }
-            });
+            new Chart(ctx, <%- JSON.stringify(summaryChartConfig) %>);
           });
         </script>
         <% } %>
@@ -490,6 +442,77 @@ export class HtmlReporter extends BaseReporter {
     return ejs.render(template, data);
   }
 
+  /**
+   * 统计各类型的重复代码和未使用代码数量，生成概要柱状图数据
+   * @param dupeResults 重复代码分析结果
+   * @param unusedResults 未使用代码分析结果
+   * @returns 图表数据
+   */
+  private prepareSummaryChart(
+    dupeResults: IDuplicateAnalysisResult[],
+    unusedResults: IUnusedCodeAnalysisResult[]
+  ): IChartData {
+    const groups: Array<{
+      label: string;
+      labels: string[];
+      data: number[];
+      color: string;
+    }> = [];
+
+    if (dupeResults.length > 0) {
+      const dupeByType = new Map<string, number>();
+      dupeResults[0].duplicates.forEach((dupes) => {
+        const type = dupes[0].type;
+        dupeByType.set(type, (dupeByType.get(type) || 0) + dupes.length);
+      });
+      groups.push({
+        label: '重复代码',
+        labels: ['重复函数', '重复方法', '重复箭头函数'],
+        data: ['function', 'method', 'arrowFunction'].map(
+          (type) => dupeByType.get(type) || 0
+        ),
+        color: '255, 99, 132',
+      });
+    }
+
+    if (unusedResults.length > 0) {
+      const unusedResult = unusedResults[0];
+      groups.push({
+        label: '未使用代码',
+        labels: ['导入', '变量', '函数', '类', '接口', '类型'],
+        data: [
+          unusedResult.unusedImports.length,
+          unusedResult.unusedVariables.length,
+          unusedResult.unusedFunctions.length,
+          unusedResult.unusedClasses.length,
+          unusedResult.unusedInterfaces.length,
+          unusedResult.unusedTypes.length,
+        ],
+        color: '54, 162, 235',
+      });
+    }
+
+    // 每个数据集只在自己的分类上有值，其余分类留空
+    const labels = groups.flatMap((group) => group.labels);
+    let offset = 0;
+    const datasets = groups.map((group) => {
+      const data = labels.map((_label, index) =>
+        index >= offset && index < offset + group.data.length
+          ? group.data[index - offset]
+          : NaN
+      );
+      offset += group.data.length;
+      return {
+        label: group.label,
+        data,
+        backgroundColor: `rgba(${group.color}, 0.5)`,
+        borderColor: `rgba(${group.color}, 1)`,
+      };
+    });
+
+    return { title: '问题分布', type: 'bar', labels, datasets };
+  }
+
   /**
    * 准备报告数据
    * @param results 分析结果数组
@@ -1,11 +1,18 @@
+import fs from 'fs';
 import path from 'path';
-import * as glob from 'glob';
 import { DependencyAnalyzer } from '../core/analyzers/dependency-analyzer';
+import { CouplingAnalyzer } from '../core/analyzers/coupling-analyzer';
 import {
   DependencyReportGenerator,
   ReportType,
 } from '../core/report/report-generator';
+import {
+  DependencyGraphExporter,
+  GRAPH_FILE_EXTENSIONS,
+} from '../core/report/dependency-graph-exporter';
 import { AnalysisConfig } from '../core/config/config-manager';
+import { FileDiscoveryService } from '../core/file-discovery-service';
+import { DependencyAnalysisResult } from '../types/dependency-types';
 import { PerformanceOptimizer } from '../core/performance/performance-optimizer';
 
 /**
@@ -60,12 +67,13 @@ export class DependencyService {
       // 创建分析器
       this.analyzer = new DependencyAnalyzer(
         this.projectPath,
-        this.config.includeExtensions
+        this.config.includeExtensions,
+        files
       );
 
       // 使用缓存进行分析
       console.info('正在分析依赖关系...');
-      const analysisResult = await this.optimizer.withCache(
+      const cachedResult = await this.optimizer.withCache(
         `dependency-analysis:${this.projectPath}`,
         async () => {
           console.info('处理依赖关系中...');
@@ -78,6 +86,11 @@ export class DependencyService {
         }
       );
 
+      const analysisResult = await this.restoreResult(cachedResult);
+      analysisResult.coupling = new CouplingAnalyzer(
+        this.config.dependency?.coupling
+      ).analyze(analysisResult.graph);
+
       console.info('分析结果处理中...');
       console.info(`获取到分析结果对象: ${analysisResult ? 'yes' : 'no'}`);
       if (analysisResult) {
@@ -114,6 +127,11 @@ export class DependencyService {
         console.info(`分析完成，报告已生成: ${reportPathOrContent}`);
       }
 
+      if (this.config.dependency?.generateGraph) {
+        const graphPath = await this.exportGraph(analysisResult);
+        console.info(`依赖图已导出: ${graphPath}`);
+      }
+
       return reportPathOrContent;
     } catch (error) {
       console.error('分析过程中发生错误:');
@@ -127,42 +145,56 @@ export class DependencyService {
   }
 
   /**
-   * 获取项目文件列表
-   * @returns 文件路径数组
+   * 从缓存读取的结果中层级和依赖计数已不再是 Map，此时重新分析
+   * @param analysisResult 依赖分析结果
    */
-  private async getProjectFiles(): Promise<string[]> {
-    // 构建include和exclude模式
-    const includePatterns = (
-      this.config.includeExtensions || ['ts', 'tsx', 'js', 'jsx']
-    ).map((ext) => `**/*.${ext}`);
-
-    const excludePatterns = (
-      this.config.exclude || ['node_modules', 'dist', 'build', '.git']
-    ).map((pattern) => `**/${pattern}/**`);
-
-    console.info(`包含文件模式: ${includePatterns.join(', ')}`);
-    console.info(`排除文件模式: ${excludePatterns.join(', ')}`);
-
-    // 使用glob查找文件
-    const files: string[] = [];
+  private async restoreResult(
+    analysisResult: DependencyAnalysisResult
+  ): Promise<DependencyAnalysisResult> {
+    return analysisResult.levels instanceof Map &&
+      analysisResult.counts instanceof Map
+      ? analysisResult
+      : this.analyzer!.analyze();
+  }
 
-    try {
-      for (const pattern of includePatterns) {
-        console.info(`正在查找匹配 ${pattern} 的文件...`);
-        const matches = await this.globPromise(pattern, {
-          cwd: this.projectPath,
-          ignore: excludePatterns,
-          absolute: false,
-        });
-
-        console.info(`找到 ${matches.length} 个匹配 ${pattern} 的文件`);
-        files.push(...matches);
-      }
-    } catch (error) {
-      console.error('查找文件时出错:', error);
-    }
+  /**
+   * 导出依赖图文件
+   * @param analysisResult 依赖分析结果
+   * @returns 依赖图文件路径
+   */
+  private async exportGraph(
+    analysisResult: DependencyAnalysisResult
+  ): Promise<string> {
+    const options = {
+      ...this.config.dependency?.graph,
+      format: this.config.dependency?.graph?.format || 'dot',
+      name: this.config.projectName || path.basename(this.projectPath),
+    };
+
+    const content = new DependencyGraphExporter(analysisResult).export(options);
+    const outputDir = path.resolve(
+      this.config.outputPath || './code-insight-report'
+    );
+    const graphPath = path.join(
+      outputDir,
+      `dependency-graph.${GRAPH_FILE_EXTENSIONS[options.format]}`
+    );
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    await fs.promises.writeFile(graphPath, content, 'utf8');
+    return graphPath;
+  }
 
-    return files;
+  /**
+   * 获取项目文件列表
+   * @returns 文件发现服务找到的文件（绝对路径）
+   */
+  private async getProjectFiles(): Promise<string[]> {
+    const { files, skipped } = await FileDiscoveryService.fromConfig(
+      this.projectPath,
+      this.config
+    ).discover();
+    console.info(`跳过 ${skipped.length} 个被忽略的文件或目录`);
+    return files.map((file) => file.path);
   }
 
   /**
@@ -181,29 +213,6 @@ export class DependencyService {
     }
   }
 
-  /**
-   * Promise化的glob
-   */
-  private globPromise(
-    _pattern: string,
-    _options: glob.IOptions
-  ): Promise<string[]> {
-    // 为了演示目的，直接返回一些模拟文件
-    console.info('模拟文件查找，返回示例文件');
-    return Promise.resolve([
-      'src/index.ts',
-      'src/cli/index.ts',
-      'src/cli/app.ts',
-      'src/cli/commands/dependency-command.ts',
-      'src/cli/commands/watch-command.ts',
-      'src/services/dependency-service.ts',
-      'src/services/watch-service.ts',
-      'src/core/analyzers/dependency-analyzer.ts',
-      'src/core/report/report-generator.ts',
-      'src/types/dependency-types.ts',
-    ]);
-  }
-
   /**
    * 清理过期缓存
    */
@@ -1,7 +1,10 @@
 import fs from 'fs';
 import path from 'path';
-import * as glob from 'glob';
 import { EventEmitter } from 'events';
+import {
+  FileDiscoveryService,
+  IDiscoveredFile,
+} from '../core/file-discovery-service';
 
 /**
  * 文件变更信息
@@ -250,40 +253,26 @@ export class FileWatcher extends EventEmitter {
       return [];
     }
 
-    const files: string[] = [];
-
-    for (const pattern of this.config.include) {
-      try {
-        const matches = await this.globPromise(pattern, {
-          cwd: this.watchPath,
-          ignore: this.config.exclude,
-          absolute: true,
-        });
-        files.push(...matches);
-      } catch (error) {
-        // 忽略错误
-      }
-    }
-
-    return files;
+    const files = await this.discover(this.watchPath);
+    return files.map((file) => file.path);
   }
 
   /**
-   * Promise化的glob
+   * 按监视配置查找文件，遵循 .gitignore 和 .code-insightignore
+   * @param rootPath 根目录
    */
-  private globPromise(
-    pattern: string,
-    options: glob.IOptions
-  ): Promise<string[]> {
-    return new Promise<string[]>((resolve, reject) => {
-      glob.glob(pattern, options, (err, matches) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(matches);
-        }
-      });
-    });
+  private async discover(rootPath: string): Promise<IDiscoveredFile[]> {
+    // 扩展名取自 include 中以 *.ext 结尾的模式
+    const extensions = this.config.include
+      .map((pattern) => pattern.match(/\*\.(\w+)$/)?.[1])
+      .filter((extension): extension is string => Boolean(extension));
+
+    const { files } = await new FileDiscoveryService(rootPath, {
+      include: this.config.include,
+      exclude: this.config.exclude,
+      ...(extensions.length > 0 ? { extensions } : {}),
+    }).discover();
+    return files;
   }
 
   /**
@@ -297,25 +286,11 @@ export class FileWatcher extends EventEmitter {
       extensions: new Map<string, number>(),
     };
 
-    // 从当前配置获取包含和排除模式
-    const include = this.config.include;
-    const exclude = this.config.exclude;
-
-    // 模拟文件统计，实际项目应该实现真实的文件计数
-    const exts = [
-      { ext: 'ts', count: Math.floor(Math.random() * 1000) + 500 },
-      { ext: 'js', count: Math.floor(Math.random() * 500) + 100 },
-      { ext: 'tsx', count: Math.floor(Math.random() * 200) + 50 },
-      { ext: 'jsx', count: Math.floor(Math.random() * 100) + 10 },
-      { ext: 'html', count: Math.floor(Math.random() * 50) + 30 },
-      { ext: 'css', count: Math.floor(Math.random() * 30) + 20 },
-      { ext: 'json', count: Math.floor(Math.random() * 100) + 50 },
-      { ext: 'md', count: Math.floor(Math.random() * 50) + 20 },
-    ];
-
-    exts.forEach(({ ext, count }) => {
-      stats.extensions.set(ext, count);
-      stats.totalFiles += count;
+    const files = await this.discover(resolvedPath);
+    files.forEach((file) => {
+      const ext = path.extname(file.path).replace(/^\./, '').toLowerCase();
+      stats.extensions.set(ext, (stats.extensions.get(ext) || 0) + 1);
+      stats.totalFiles++;
     });
 
     return stats;
@@ -28,6 +28,96 @@ export interface ILocation {
   endColumn?: number;
 }
 
+/**
+ * 问题严重性
+ */
+export type IssueSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * 文本替换，偏移量为文件内容中从 0 开始的字符位置
+ */
+export interface ITextEdit {
+  /**
+   * 替换范围的开始位置
+   */
+  start: number;
+
+  /**
+   * 替换范围的结束位置（不含）
+   */
+  end: number;
+
+  /**
+   * 替换后的文本
+   */
+  text: string;
+}
+
+/**
+ * 问题的自动修复，编辑之间不能重叠
+ */
+export interface IIssueFix {
+  /**
+   * 修复说明
+   */
+  description?: string;
+
+  /**
+   * 对问题所在文件的文本替换
+   */
+  edits: ITextEdit[];
+}
+
+/**
+ * 归一化后的问题条目，由各分析结果汇总而来，用于退出码判定和问题类报告
+ */
+export interface IAnalysisIssue {
+  /**
+   * 规则或检查项标识，如 'circular-dependency'
+   */
+  ruleId: string;
+
+  /**
+   * 严重性
+   */
+  severity: IssueSeverity;
+
+  /**
+   * 消息
+   */
+  message: string;
+
+  /**
+   * 位置信息
+   */
+  location?: ILocation;
+
+  /**
+   * 修复建议
+   */
+  suggestion?: string;
+
+  /**
+   * 自动修复
+   */
+  fix?: IIssueFix;
+}
+
+/**
+ * 带符号名称的位置信息
+ */
+export interface ISymbolLocation extends ILocation {
+  /**
+   * 符号名称
+   */
+  name: string;
+
+  /**
+   * 自动修复
+   */
+  fix?: IIssueFix;
+}
+
 /**
  * 代码覆盖率分析结果
  */
@@ -105,27 +195,52 @@ export interface IUnusedCodeResult {
   /**
    * 未使用的导入
    */
-  unusedImports: ILocation[];
+  unusedImports: ISymbolLocation[];
 
   /**
    * 未使用的变量
    */
-  unusedVariables: ILocation[];
+  unusedVariables: ISymbolLocation[];
 
   /**
    * 未使用的函数
    */
-  unusedFunctions: ILocation[];
+  unusedFunctions: ISymbolLocation[];
 
   /**
    * 未使用的类
    */
-  unusedClasses: ILocation[];
+  unusedClasses: ISymbolLocation[];
 
   /**
    * 未使用的导出
    */
-  unusedExports: ILocation[];
+  unusedExports: ISymbolLocation[];
+
+  /**
+   * 未使用的接口和类型别名
+   */
+  unusedTypes?: ISymbolLocation[];
+
+  /**
+   * 只被测试文件使用的导出
+   */
+  testOnlyExports?: ISymbolLocation[];
+
+  /**
+   * 未使用的私有类成员
+   */
+  unusedPrivateMembers?: ISymbolLocation[];
+
+  /**
+   * 只作为类型使用、可改为 import type 的导入
+   */
+  typeOnlyImports?: ISymbolLocation[];
+
+  /**
+   * 从入口文件出发无法到达的文件
+   */
+  unreachableFiles?: string[];
 }
 
 /**
@@ -151,6 +266,31 @@ export interface IDependencyResult {
    * 缺失的依赖
    */
   missingDependencies: string[];
+
+  /**
+   * 只声明在 devDependencies 中却被运行时代码导入的依赖
+   */
+  misplacedDependencies?: string[];
+
+  /**
+   * 违反架构约束（dependency.rules）的导入
+   */
+  ruleViolations?: Array<{
+    /**
+     * 规则ID：layer-violation、public-entry-violation 或 banned-package
+     */
+    ruleId: string;
+
+    /**
+     * 违规说明
+     */
+    message: string;
+
+    /**
+     * 导入语句的位置
+     */
+    location: ILocation;
+  }>;
 }
 
 /**
@@ -210,9 +350,104 @@ export interface IInfiniteLoopResult {
      * 修复建议
      */
     suggestion?: string;
+
+    /**
+     * 自动修复
+     */
+    fix?: IIssueFix;
   }>;
 }
 
+/**
+ * 函数复杂度指标
+ */
+export type ComplexityMetric =
+  | 'cyclomatic'
+  | 'cognitive'
+  | 'nestingDepth'
+  | 'parameters'
+  | 'loc';
+
+/**
+ * 超过阈值的函数
+ */
+export interface IFunctionComplexityResult extends ISymbolLocation {
+  /**
+   * 函数种类，如 function、method、arrow
+   */
+  kind: string;
+
+  /**
+   * 圈复杂度
+   */
+  cyclomatic: number;
+
+  /**
+   * 认知复杂度
+   */
+  cognitive: number;
+
+  /**
+   * 最大嵌套深度
+   */
+  nestingDepth: number;
+
+  /**
+   * 参数个数
+   */
+  parameters: number;
+
+  /**
+   * 代码行数（不含空行和注释）
+   */
+  loc: number;
+
+  /**
+   * 超过阈值的指标
+   */
+  exceeded: ComplexityMetric[];
+}
+
+/**
+ * 函数复杂度分析结果
+ */
+export interface IComplexityResult {
+  /**
+   * 分析的函数总数
+   */
+  totalFunctions: number;
+
+  /**
+   * 平均圈复杂度
+   */
+  averageCyclomatic: number;
+
+  /**
+   * 平均认知复杂度
+   */
+  averageCognitive: number;
+
+  /**
+   * 最大圈复杂度
+   */
+  maxCyclomatic: number;
+
+  /**
+   * 最大认知复杂度
+   */
+  maxCognitive: number;
+
+  /**
+   * 各项指标的阈值
+   */
+  thresholds: Record<ComplexityMetric, number>;
+
+  /**
+   * 至少一项指标超过阈值的函数
+   */
+  complexFunctions: IFunctionComplexityResult[];
+}
+
 /**
  * 增量分析相关信息
  */
@@ -258,6 +493,36 @@ export interface IIncrementalInfo {
   };
 }
 
+/**
+ * 规则引擎中一条规则的元数据
+ */
+export interface IRuleMetadata {
+  /**
+   * 规则名称
+   */
+  name: string;
+
+  /**
+   * 规则描述
+   */
+  description: string;
+}
+
+/**
+ * 规则分析器的输出
+ */
+export interface IRulesAnalysisData {
+  /**
+   * 触发了问题的规则及其问题
+   */
+  results: ICustomRuleResult[];
+
+  /**
+   * 本次运行中已启用的全部规则
+   */
+  rules: IRuleMetadata[];
+}
+
 /**
  * 自定义规则分析结果
  */
@@ -284,7 +549,7 @@ export interface ICustomRuleResult {
     /**
      * 严重性
      */
-    severity: 'info' | 'warning' | 'error';
+    severity: IssueSeverity;
 
     /**
      * 消息
@@ -295,9 +560,218 @@ export interface ICustomRuleResult {
      * 修复建议
      */
     suggestion?: string;
+
+    /**
+     * 自动修复
+     */
+    fix?: IIssueFix;
   }>;
 }
 
+/**
+ * 基线文件中的一条已知问题
+ */
+export interface IBaselineEntry {
+  /**
+   * 问题指纹
+   */
+  fingerprint: string;
+
+  /**
+   * 规则标识
+   */
+  ruleId: string;
+
+  /**
+   * 文件路径（相对项目根目录）
+   */
+  filePath: string;
+
+  /**
+   * 问题所在的符号
+   */
+  symbol?: string;
+
+  /**
+   * 记录基线时的问题消息
+   */
+  message: string;
+}
+
+/**
+ * 基线比较结果
+ */
+export interface IBaselineResult {
+  /**
+   * 基线文件路径
+   */
+  filePath: string;
+
+  /**
+   * 与基线匹配、不再计入问题的已知问题
+   */
+  baselined: IAnalysisIssue[];
+
+  /**
+   * 不再匹配任何问题的失效基线条目（问题已修复或代码已变化）
+   */
+  stale: IBaselineEntry[];
+}
+
+/**
+ * 差异中的变更文件
+ */
+export interface IChangedFile {
+  /**
+   * 文件路径（相对项目根目录）
+   */
+  filePath: string;
+
+  /**
+   * 重命名前的路径
+   */
+  previousPath?: string;
+
+  /**
+   * 新增或修改的行范围（闭区间，按行号升序）
+   */
+  lines: Array<[number, number]>;
+}
+
+/**
+ * 只报告变更行上的问题时的结果
+ */
+export interface IChangedLinesResult {
+  /**
+   * 比较的基准引用，如 origin/main
+   */
+  since: string;
+
+  /**
+   * 基准引用与 HEAD 的合并基础提交
+   */
+  baseCommit: string;
+
+  /**
+   * 变更的文件
+   */
+  files: IChangedFile[];
+
+  /**
+   * 不在变更行上、不计入的已有问题
+   */
+  preExisting: IAnalysisIssue[];
+}
+
+/**
+ * 自动修复结果
+ */
+export interface IFixSummary {
+  /**
+   * 是否只预览修复而未写入文件
+   */
+  dryRun: boolean;
+
+  /**
+   * 已修复（预览时为可修复）的问题，写入文件后不再计入 collectIssues 的结果
+   */
+  fixed: IAnalysisIssue[];
+
+  /**
+   * 未能应用修复的问题及原因
+   */
+  skipped: Array<{ issue: IAnalysisIssue; reason: string }>;
+
+  /**
+   * 被修改（预览时为将被修改）的文件
+   */
+  files: string[];
+}
+
+/**
+ * 行内抑制注释的作用范围：下一行、当前行、disable/enable 之间的代码块或整个文件
+ */
+export type SuppressionKind = 'next-line' | 'line' | 'block' | 'file';
+
+/**
+ * 抑制注释的状态
+ * - active: 抑制了至少一个问题
+ * - unused: 没有抑制任何问题
+ * - expired: 已超过 until 日期，不再生效
+ * - invalid: until 日期格式无效，不生效
+ */
+export type SuppressionStatus = 'active' | 'unused' | 'expired' | 'invalid';
+
+/**
+ * 源码中的抑制注释
+ */
+export interface ISuppression {
+  /**
+   * 文件路径（相对项目根目录）
+   */
+  filePath: string;
+
+  /**
+   * 注释所在行
+   */
+  line: number;
+
+  /**
+   * 作用范围
+   */
+  kind: SuppressionKind;
+
+  /**
+   * 被抑制的规则，为空时抑制所有规则；规则前缀（如 'complexity'）匹配其下所有规则
+   */
+  rules: string[];
+
+  /**
+   * 抑制原因（注释中 -- 之后的内容）
+   */
+  reason?: string;
+
+  /**
+   * 到期日期（YYYY-MM-DD），当天之后不再生效
+   */
+  until?: string;
+
+  /**
+   * 生效的起始行
+   */
+  startLine: number;
+
+  /**
+   * 生效的结束行，文件级抑制和未关闭的代码块为文件末尾
+   */
+  endLine: number;
+
+  /**
+   * 状态
+   */
+  status: SuppressionStatus;
+
+  /**
+   * 被抑制的问题数量
+   */
+  suppressedCount: number;
+}
+
+/**
+ * 行内抑制结果
+ */
+export interface ISuppressionResult {
+  /**
+   * 扫描到的全部抑制注释
+   */
+  suppressions: ISuppression[];
+
+  /**
+   * 被抑制、不再计入的问题
+   */
+  suppressed: IAnalysisIssue[];
+}
+
 /**
  * 分析结果的统计信息
  */
@@ -362,6 +836,11 @@ export interface IAnalysisResult {
    */
   dependencies?: IDependencyResult;
 
+  /**
+   * 函数复杂度结果
+   */
+  complexity?: IComplexityResult;
+
   /**
    * 内存泄漏结果
    */
@@ -377,8 +856,39 @@ export interface IAnalysisResult {
    */
   customRules?: ICustomRuleResult[];
 
+  /**
+   * 本次运行中规则引擎已启用的规则，用于生成报告中的规则目录
+   */
+  ruleCatalog?: IRuleMetadata[];
+
+  /**
+   * 没有对应报告模型的分析器（如插件提供的）的原始输出，按分析器类型索引
+   */
+  analyzerOutputs?: Record<string, unknown>;
+
   /**
    * 增量分析信息
    */
   incrementalInfo?: IIncrementalInfo;
+
+  /**
+   * 基线比较结果，存在时基线中的问题不计入 collectIssues 的结果
+   */
+  baseline?: IBaselineResult;
+
+  /**
+   * 行内抑制结果，存在时被抑制的问题不计入 collectIssues 的结果，
+   * 未使用、已过期和无效的抑制注释作为问题报告
+   */
+  suppressions?: ISuppressionResult;
+
+  /**
+   * 变更行过滤结果，存在时不在变更行上的已有问题不计入 collectIssues 的结果
+   */
+  changedLines?: IChangedLinesResult;
+
+  /**
+   * 自动修复结果
+   */
+  fixes?: IFixSummary;
 }
@@ -22,6 +22,16 @@ export interface DependencyNode {
  * 循环依赖信息
  */
 export interface CircularDependency {
+  /**
+   * 循环依赖标识
+   */
+  id?: string;
+
+  /**
+   * 所属强连通分量的标识
+   */
+  componentId?: string;
+
   /**
    * 循环依赖的文件路径数组
    */
@@ -33,6 +43,106 @@ export interface CircularDependency {
   length: number;
 }
 
+/**
+ * 导入语句位置
+ */
+export interface ImportLocation {
+  /**
+   * 导入语句所在文件
+   */
+  file: string;
+
+  /**
+   * 导入语句所在行（从1开始）
+   */
+  line: number;
+
+  /**
+   * 原始模块说明符
+   */
+  specifier: string;
+}
+
+/**
+ * 文件之间的导入语句
+ */
+export interface DependencyImport extends ImportLocation {
+  /**
+   * 被导入的文件
+   */
+  target: string;
+}
+
+/**
+ * 包含循环依赖的强连通分量
+ */
+export interface StronglyConnectedComponent {
+  /**
+   * 分量标识
+   */
+  id: string;
+
+  /**
+   * 分量内的文件
+   */
+  files: string[];
+
+  /**
+   * 枚举出的基本环数量
+   */
+  cycleCount: number;
+
+  /**
+   * 是否因达到枚举上限而未列出全部基本环
+   */
+  truncated: boolean;
+}
+
+/**
+ * 断开循环依赖的建议导入边
+ */
+export interface BreakEdgeSuggestion {
+  /**
+   * 发起导入的文件
+   */
+  from: string;
+
+  /**
+   * 被导入的文件
+   */
+  to: string;
+
+  /**
+   * 移除该导入可打破的循环数量
+   */
+  cyclesBroken: number;
+
+  /**
+   * 产生该依赖的导入语句
+   */
+  imports: ImportLocation[];
+}
+
+/**
+ * 循环依赖分析结果
+ */
+export interface CycleAnalysis {
+  /**
+   * 包含循环的强连通分量
+   */
+  components: StronglyConnectedComponent[];
+
+  /**
+   * 按优先级排序的断边建议，全部移除后项目中不再存在循环依赖
+   */
+  suggestions: BreakEdgeSuggestion[];
+
+  /**
+   * 是否有分量的基本环枚举被截断
+   */
+  truncated: boolean;
+}
+
 /**
  * 依赖关系图
  */
@@ -72,6 +182,31 @@ export interface DependencyAnalysisResult {
    */
   counts?: Map<string, { incoming: number; outgoing: number }>;
 
+  /**
+   * 循环依赖分析（强连通分量与断边建议）
+   */
+  cycleAnalysis?: CycleAnalysis;
+
+  /**
+   * 产生依赖边的导入语句
+   */
+  imports?: DependencyImport[];
+
+  /**
+   * npm包依赖检查结果，启用 dependency.includeNpm 时提供
+   */
+  packages?: PackageDependencyReport;
+
+  /**
+   * 违反架构约束的导入，配置了 dependency.rules 时提供
+   */
+  violations?: DependencyRuleViolation[];
+
+  /**
+   * 按目录聚合的模块耦合度量
+   */
+  coupling?: CouplingReport;
+
   /**
    * 分析的统计数据
    */
@@ -84,3 +219,250 @@ export interface DependencyAnalysisResult {
     mostDependsOn: { id: string; count: number };
   };
 }
+
+/**
+ * package.json 中的依赖分组
+ */
+export type PackageDependencySection =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies';
+
+/**
+ * 声明了但未被使用的包
+ */
+export interface UnusedPackage {
+  /**
+   * 包名
+   */
+  name: string;
+
+  /**
+   * 声明所在的分组
+   */
+  section: PackageDependencySection;
+}
+
+/**
+ * 源码中引用的包及其引用位置
+ */
+export interface ReferencedPackage {
+  /**
+   * 包名
+   */
+  name: string;
+
+  /**
+   * 引用该包的导入语句
+   */
+  imports: ImportLocation[];
+}
+
+/**
+ * npm包依赖检查结果
+ */
+export interface PackageDependencyReport {
+  /**
+   * 在 dependencies 或 devDependencies 中声明但没有被使用的包
+   */
+  unused: UnusedPackage[];
+
+  /**
+   * 被引用但没有在 package.json 中声明的包
+   */
+  missing: ReferencedPackage[];
+
+  /**
+   * 只声明在 devDependencies 中却被运行时代码导入的包
+   */
+  misplaced: ReferencedPackage[];
+}
+
+/**
+ * 架构约束配置（dependency.rules）
+ */
+export interface DependencyRulesConfig {
+  /**
+   * 分层定义：层名 -> 该层文件的glob模式（相对项目根目录），文件归属于第一个匹配的层
+   */
+  layers?: Record<string, string | string[]>;
+
+  /**
+   * 允许的层间依赖：层名 -> 可以导入的其他层；配置了允许列表的层只能导入本层和列出的层
+   */
+  allow?: Record<string, string[]>;
+
+  /**
+   * 禁止的层间依赖：层名 -> 不能导入的层
+   */
+  deny?: Record<string, string[]>;
+
+  /**
+   * 公开入口约束：模块外的文件只能通过模块的入口文件导入模块
+   */
+  publicEntries?: PublicEntryRule[];
+
+  /**
+   * 各层禁止导入的npm包：层名 -> 包名或包名的glob模式，如 '@angular/*'
+   */
+  bannedPackages?: Record<string, string[]>;
+}
+
+/**
+ * 公开入口约束
+ */
+export interface PublicEntryRule {
+  /**
+   * 模块目录的glob模式（相对项目根目录），每一级目录对应一段，如 'src/features/*'
+   */
+  modules: string;
+
+  /**
+   * 模块的入口文件（相对模块目录），默认为 index.ts、index.tsx、index.js、index.jsx
+   */
+  entries?: string[];
+}
+
+/**
+ * 架构约束的类型，与报告中的规则ID一致
+ */
+export type DependencyRuleKind =
+  | 'layer-violation'
+  | 'public-entry-violation'
+  | 'banned-package';
+
+/**
+ * 违反架构约束的导入
+ */
+export interface DependencyRuleViolation {
+  /**
+   * 违反的约束类型
+   */
+  kind: DependencyRuleKind;
+
+  /**
+   * 发起导入的文件
+   */
+  file: string;
+
+  /**
+   * 导入语句所在行（从1开始）
+   */
+  line: number;
+
+  /**
+   * 原始模块说明符
+   */
+  specifier: string;
+
+  /**
+   * 被导入的文件或npm包名
+   */
+  target: string;
+
+  /**
+   * 违规说明
+   */
+  message: string;
+}
+
+/**
+ * 模块耦合度量配置（dependency.coupling）
+ */
+export interface CouplingConfig {
+  /**
+   * 模块目录的层数，如 2 表示按 src/core 这样的前两级目录聚合；未指定时按文件所在的完整目录聚合
+   */
+  depth?: number;
+
+  /**
+   * 与主序列的距离达到该值的模块会被标记为痛苦区或无用区，取值 0~1，默认为 0.5
+   */
+  distanceThreshold?: number;
+}
+
+/**
+ * 偏离主序列的区域：痛苦区（稳定而具体，难以修改）或无用区（抽象却无人依赖）
+ */
+export type CouplingZone = 'pain' | 'uselessness';
+
+/**
+ * 单个模块（目录）的耦合度量
+ */
+export interface ModuleCoupling {
+  /**
+   * 模块目录（相对项目根目录），根目录下的文件归属于 '.'
+   */
+  module: string;
+
+  /**
+   * 模块中的文件数
+   */
+  files: number;
+
+  /**
+   * 传入耦合 Ca：模块外依赖本模块的文件数
+   */
+  afferent: number;
+
+  /**
+   * 传出耦合 Ce：本模块依赖的模块外文件数
+   */
+  efferent: number;
+
+  /**
+   * 不稳定性 I = Ce / (Ca + Ce)，没有任何跨模块依赖时为 0
+   */
+  instability: number;
+
+  /**
+   * 抽象程度 A = (接口数 + 抽象类数) / (类数 + 接口数)，模块中没有类和接口时为 0
+   */
+  abstractness: number;
+
+  /**
+   * 与主序列 A + I = 1 的距离 D = |A + I - 1|
+   */
+  distance: number;
+
+  /**
+   * 模块中的接口和抽象类数量
+   */
+  abstractTypes: number;
+
+  /**
+   * 模块中的类和接口总数
+   */
+  totalTypes: number;
+
+  /**
+   * 偏离主序列的区域，未偏离或没有跨模块依赖时不提供
+   */
+  zone?: CouplingZone;
+}
+
+/**
+ * 模块耦合度量结果
+ */
+export interface CouplingReport {
+  /**
+   * 聚合模块时使用的目录层数，未指定时按完整目录聚合
+   */
+  depth?: number;
+
+  /**
+   * 标记区域时使用的距离阈值
+   */
+  distanceThreshold: number;
+
+  /**
+   * 按模块路径排序的度量结果
+   */
+  modules: ModuleCoupling[];
+
+  /**
+   * 所有模块与主序列的平均距离
+   */
+  averageDistance: number;
+}
@@ -1,5 +1,10 @@
 import { IAnalysisResult } from './analysis';
 
+/**
+ * HTML报告中图表的渲染方式：svg 在生成报告时渲染为内联SVG，chartjs 在浏览器中通过CDN加载 Chart.js 绘制
+ */
+export type ChartRenderer = 'svg' | 'chartjs';
+
 /**
  * 报告生成器选项接口
  */
@@ -24,6 +29,11 @@ export interface IReportOptions {
    */
   includeCharts?: boolean;
 
+  /**
+   * 图表渲染方式，默认为 svg
+   */
+  chartRenderer?: ChartRenderer;
+
   /**
    * 项目名称
    */
@@ -38,6 +48,11 @@ export interface IReportOptions {
    * 自定义模板路径
    */
   templatePath?: string;
+
+  /**
+   * 被分析的项目根路径，用于生成相对路径和加载项目规则
+   */
+  projectRoot?: string;
 }
 
 /**
@@ -85,6 +100,75 @@ export interface IChartData {
   }>;
 }
 
+/**
+ * 散点图数据类型
+ */
+export interface IScatterChartData {
+  /**
+   * 图表标题
+   */
+  title: string;
+
+  /**
+   * X 轴名称
+   */
+  xLabel: string;
+
+  /**
+   * Y 轴名称
+   */
+  yLabel: string;
+
+  /**
+   * 数据点
+   */
+  points: Array<{
+    /**
+     * 数据点名称
+     */
+    label: string;
+
+    /**
+     * 横坐标
+     */
+    x: number;
+
+    /**
+     * 纵坐标
+     */
+    y: number;
+
+    /**
+     * 点的颜色
+     */
+    color?: string;
+  }>;
+
+  /**
+   * X 轴范围，未指定时按数据计算
+   */
+  xRange?: [number, number];
+
+  /**
+   * Y 轴范围，未指定时按数据计算
+   */
+  yRange?: [number, number];
+
+  /**
+   * 参考线，如依赖度量中的主序列
+   */
+  referenceLines?: Array<{
+    from: [number, number];
+    to: [number, number];
+    label?: string;
+  }>;
+
+  /**
+   * 图例
+   */
+  legend?: Array<{ label: string; color: string }>;
+}
+
 /**
  * 报告生成器接口
  */
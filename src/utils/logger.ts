@@ -1,11 +1,42 @@
 import chalk from 'chalk';
 
+/**
+ * 写到标准输出的 console 方法
+ */
+type StdoutConsoleMethods = Pick<Console, 'log' | 'info' | 'debug'>;
+
 /**
  * 日志记录器
  */
 export class Logger {
+  /**
+   * 保留标准输出前的 console 方法，用于恢复
+   */
+  private static consoleMethods: StdoutConsoleMethods | null = null;
   private verbose: boolean = false;
 
+  /**
+   * 把标准输出保留给机器可读的输出（如 NDJSON 事件流）
+   * 保留期间 console.log、console.info 和 console.debug 都写到标准错误，
+   * 直接使用 console 的模块（如权限提示、配置加载和分析器）同样不会污染标准输出
+   */
+  static reserveStdout(reserved: boolean): void {
+    if (reserved && !Logger.consoleMethods) {
+      Logger.consoleMethods = {
+        log: console.log,
+        info: console.info,
+        debug: console.debug,
+      };
+      const toStderr = (...data: unknown[]): void => console.error(...data);
+      console.log = toStderr;
+      console.info = toStderr;
+      console.debug = toStderr;
+    } else if (!reserved && Logger.consoleMethods) {
+      Object.assign(console, Logger.consoleMethods);
+      Logger.consoleMethods = null;
+    }
+  }
+
   /**
    * 设置是否显示详细日志
    */
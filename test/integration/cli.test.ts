@@ -0,0 +1,128 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import { execFileSync, spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const REPO_ROOT = path.resolve(__dirname, '../..');
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('CLI 入口', () => {
+  let buildDir: string;
+  let projectRoot: string;
+
+  /**
+   * 以子进程运行构建后的 bin 入口，标准输入立即关闭，落入交互模式时会因超时失败
+   */
+  function runCli(args: string[]) {
+    return spawnSync(
+      process.execPath,
+      [path.join(buildDir, 'bin/code-insight.js'), ...args],
+      {
+        cwd: projectRoot,
+        input: '',
+        encoding: 'utf8',
+        timeout: 30000,
+        env: { ...process.env, HOME: projectRoot, FORCE_COLOR: '0' },
+      }
+    );
+  }
+
+  beforeAll(() => {
+    // 构建产物需要从仓库的 node_modules 解析外部依赖，因此放在仓库内的 test/tmp 中
+    fs.mkdirSync(path.join(REPO_ROOT, 'test/tmp'), { recursive: true });
+    buildDir = fs.mkdtempSync(path.join(REPO_ROOT, 'test/tmp/cli-'));
+    // 与发布包相同：bin/code-insight.js 导入 ESM 构建的 dist/cli/index.js
+    execFileSync(
+      path.join(REPO_ROOT, 'node_modules/.bin/tsup'),
+      [
+        'src/cli/index.ts',
+        '--format',
+        'esm',
+        '--no-dts',
+        '--out-dir',
+        path.join(buildDir, 'dist/cli'),
+        '--onSuccess',
+        '',
+        '--silent',
+      ],
+      { cwd: REPO_ROOT, stdio: 'pipe', timeout: 240000 }
+    );
+    fs.mkdirSync(path.join(buildDir, 'bin'));
+    fs.copyFileSync(
+      path.join(REPO_ROOT, 'bin/code-insight.js'),
+      path.join(buildDir, 'bin/code-insight.js')
+    );
+
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    writeFixture(projectRoot, {
+      'src/index.ts': 'export const add = (a: number, b: number) => a + b;',
+    });
+  }, 300000);
+
+  afterAll(() => {
+    fs.rmSync(buildDir, { recursive: true, force: true });
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('帮助信息应列出 baseline 和 trend 命令', () => {
+    const result = runCli(['--help']);
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toMatch(/^\s+baseline\b/m);
+    expect(result.stdout).toMatch(/^\s+trend\b/m);
+  });
+
+  it('analyze 参数无效时应在分析和记录历史之前退出', () => {
+    const result = runCli([
+      'analyze',
+      '--analyzers',
+      'complexity',
+      '--format',
+      'pdf',
+    ]);
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('不支持的报告格式: pdf');
+    expect(result.stdout).not.toContain('开始分析代码');
+    expect(
+      fs.existsSync(path.join(projectRoot, '.code-insight-cache/history.jsonl'))
+    ).toBe(false);
+  });
+
+  it('baseline create 应创建基线文件而不是进入交互模式', () => {
+    const result = runCli(['baseline', 'create', '--analyzers', 'complexity']);
+
+    expect(result.error).toBeUndefined();
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('基线已创建');
+    const baseline = JSON.parse(
+      fs.readFileSync(
+        path.join(projectRoot, '.code-insight-baseline.json'),
+        'utf8'
+      )
+    );
+    expect(Array.isArray(baseline.entries)).toBe(true);
+  });
+
+  it('trend 应作为命令执行并校验参数', () => {
+    const result = runCli(['trend', '--limit', '5']);
+
+    expect(result.error).toBeUndefined();
+    expect(result.status).toBe(0);
+
+    const invalid = runCli(['trend', '--format', 'pdf']);
+    expect(invalid.status).toBe(1);
+    expect(invalid.stderr).toContain('不支持的趋势报告格式: pdf');
+  });
+});
@@ -2,6 +2,7 @@
 import { PluginManager } from '../../src/plugins/manager';
 import { PluginLoader } from '../../src/plugins/loader';
 import { AnalysisOrchestrator } from '../../src/core/analysis-orchestrator';
+import { AnalyzerRegistry } from '../../src/core/analyzer-registry';
 import { ConfigManager } from '../../src/utils/config-manager';
 import { PluginContext, PluginHookName } from '../../src/plugins/types';
 import path from 'path';
@@ -131,8 +132,14 @@ describe('插件系统集成测试', () => {
     // 创建实际的组件实例
     const configManager = new ConfigManager();
     const pluginLoader = new PluginLoader(TEST_PLUGIN_DIR);
-    const pluginManager = new PluginManager(pluginLoader, configManager);
-    const orchestrator = new AnalysisOrchestrator(pluginManager);
+    // 插件提供的分析器注册到同一个注册表，分析协调器从中创建分析器
+    const analyzerRegistry = new AnalyzerRegistry();
+    const pluginManager = new PluginManager(
+      pluginLoader,
+      configManager,
+      analyzerRegistry
+    );
+    const orchestrator = new AnalysisOrchestrator(analyzerRegistry);
 
     try {
       // 手动为测试添加插件
@@ -164,6 +171,21 @@ describe('插件系统集成测试', () => {
         cleanup: async function (): Promise<void> {
           console.log('测试插件清理');
         },
+
+        analyzers: [
+          {
+            id: 'test-metrics',
+            name: '测试指标分析',
+            estimatedTime: 1,
+            modes: ['full' as const],
+            create: () => ({
+              analyze: async () => ({
+                type: 'test-metrics',
+                data: { fileCount: 1 },
+              }),
+            }),
+          },
+        ],
       };
 
       // 手动添加插件到插件加载器
@@ -178,6 +200,10 @@ describe('插件系统集成测试', () => {
       expect(plugins.length).toBeGreaterThan(0);
       expect(plugins.some((p) => p.name === 'test-metrics-plugin')).toBe(true);
 
+      // 验证插件提供的分析器已注册到协调器使用的注册表
+      expect(analyzerRegistry.has('test-metrics')).toBe(true);
+      expect(orchestrator).toBeDefined();
+
       // 不执行 orchestrator.run() 避免 ESM 导入问题
       // const results = await orchestrator.run([], TEST_PROJECT_DIR);
       // expect(results).toBeDefined();
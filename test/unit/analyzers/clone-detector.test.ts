@@ -0,0 +1,100 @@
+/* global describe, it, expect */
+import { TokenCloneDetector } from '../../../src/analyzers/clone-detector';
+
+const original = `
+export function total(items: Item[]): number {
+  let sum = 0;
+  for (const item of items) {
+    if (item.enabled) {
+      sum += item.price * item.count;
+    }
+  }
+  return sum;
+}
+`;
+
+// 重命名了标识符并修改了字面量
+const renamed = `
+export function summarize(rows: Row[]): number {
+  let acc = 1;
+  for (const row of rows) {
+    if (row.active) {
+      acc += row.cost * row.qty;
+    }
+  }
+  return acc;
+}
+`;
+
+// 在循环中插入了一行
+const extended = `
+import { log } from './log';
+
+export class Cart {
+  compute(entries: Entry[]): number {
+    let value = 0;
+    for (const entry of entries) {
+      if (entry.visible) {
+        log(entry);
+        value += entry.amount * entry.units;
+      }
+    }
+    return value;
+  }
+}
+`;
+
+const unrelated = `
+export const greet = (name: string) => {
+  console.log('hello ' + name);
+  return name.length > 3 ? name.toUpperCase() : name;
+};
+`;
+
+describe('TokenCloneDetector', () => {
+  const detector = () => new TokenCloneDetector({ minTokens: 20, minLines: 3 });
+
+  it('应检测重命名标识符和字面量后的克隆', () => {
+    const groups = detector().detect([
+      { filePath: 'a.ts', content: original },
+      { filePath: 'b.ts', content: renamed },
+      { filePath: 'c.ts', content: unrelated },
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].similarity).toBe(1);
+    expect(groups[0].regions.map((region) => region.filePath)).toEqual([
+      'a.ts',
+      'b.ts',
+    ]);
+    expect(groups[0].regions[0]).toMatchObject({ startLine: 2, endLine: 10 });
+    expect(groups[0].snippet.startsWith('export function total')).toBe(true);
+  });
+
+  it('应合并被少量插入分隔的匹配段并给出相似度', () => {
+    const groups = detector().detect([
+      { filePath: 'a.ts', content: original },
+      { filePath: 'cart.ts', content: extended },
+    ]);
+
+    expect(groups).toHaveLength(1);
+    const [clone] = groups;
+    expect(clone.similarity).toBeGreaterThan(0.8);
+    expect(clone.similarity).toBeLessThan(1);
+    // 克隆位于类的方法中
+    expect(clone.regions[1]).toMatchObject({
+      filePath: 'cart.ts',
+      startLine: 5,
+      endLine: 14,
+    });
+  });
+
+  it('不应报告不相似的代码', () => {
+    expect(
+      detector().detect([
+        { filePath: 'a.ts', content: original },
+        { filePath: 'c.ts', content: unrelated },
+      ])
+    ).toEqual([]);
+  });
+});
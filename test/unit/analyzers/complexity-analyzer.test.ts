@@ -0,0 +1,165 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ComplexityAnalyzer } from '../../../src/analyzers/complexity-analyzer';
+import { RuleEngine } from '../../../src/core/rules/rule-engine';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('ComplexityAnalyzer', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'complexity-'));
+    writeFixture(projectRoot, {
+      'src/classify.ts': [
+        '/**',
+        ' * 分类',
+        ' */',
+        'export function classify(value: number, flags: boolean[]): string {',
+        '  // 区间判断',
+        '  if (value > 10 && value < 20 && flags.length > 0) {',
+        '    for (const flag of flags) {',
+        '      if (flag) {',
+        "        return 'flag';",
+        '      }',
+        '    }',
+        '  } else if (value < 0 || Number.isNaN(value)) {',
+        "    return 'negative';",
+        '  } else {',
+        "    return value ? 'other' : 'zero';",
+        '  }',
+        '',
+        "  return 'none';",
+        '}',
+        '',
+        'export const handler = (a, b, c, d, e, f) => a;',
+      ].join('\n'),
+      'src/tree.ts': [
+        'export class Tree {',
+        '  constructor(private readonly children: Tree[]) {}',
+        '',
+        '  get size(): number {',
+        '    return this.children.length;',
+        '  }',
+        '',
+        '  walk(node: Tree | undefined, visit: (tree: Tree) => void): void {',
+        '    if (!node) {',
+        '      return;',
+        '    }',
+        '    visit(node);',
+        '    for (const child of node.children) {',
+        '      this.walk(child, visit);',
+        '    }',
+        '  }',
+        '',
+        '  label(kind: string): string {',
+        '    switch (kind) {',
+        "      case 'a':",
+        "        return 'A';",
+        "      case 'b':",
+        "        return 'B';",
+        '      default:',
+        "        return '?';",
+        '    }',
+        '  }',
+        '}',
+      ].join('\n'),
+      'node_modules/lib/index.js': 'module.exports = function () {};',
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应计算每个函数的圈复杂度、认知复杂度、嵌套深度、参数个数和代码行数', () => {
+    const result = new ComplexityAnalyzer(projectRoot).analyze();
+    const byName = new Map(result.functions.map((fn) => [fn.name, fn]));
+
+    expect(result.totalFiles).toBe(2);
+    expect(result.functions.map((fn) => fn.name)).toEqual([
+      'classify',
+      'handler',
+      'Tree.constructor',
+      'Tree.size',
+      'Tree.walk',
+      'Tree.label',
+    ]);
+    expect(byName.get('classify')).toMatchObject({
+      kind: 'function',
+      line: 4,
+      column: 1,
+      endLine: 19,
+      cyclomatic: 9,
+      cognitive: 12,
+      nestingDepth: 3,
+      parameters: 2,
+      loc: 14,
+      exceeded: [],
+    });
+    expect(byName.get('handler')).toMatchObject({
+      kind: 'arrow',
+      parameters: 6,
+      exceeded: ['parameters'],
+    });
+    expect(byName.get('Tree.size')!.kind).toBe('getter');
+    // 递归调用计入认知复杂度
+    expect(byName.get('Tree.walk')).toMatchObject({
+      cyclomatic: 3,
+      cognitive: 3,
+      nestingDepth: 1,
+    });
+    expect(byName.get('Tree.label')).toMatchObject({
+      cyclomatic: 3,
+      cognitive: 1,
+    });
+    expect(result.totalFunctions).toBe(6);
+    expect(result.maxCognitive).toBe(12);
+  });
+
+  it('应使用配置的阈值并支持只分析指定文件', () => {
+    const result = new ComplexityAnalyzer(projectRoot, {
+      thresholds: { cognitive: 10, parameters: undefined },
+    }).analyze([path.join(projectRoot, 'src/classify.ts')]);
+
+    expect(result.thresholds).toMatchObject({ cognitive: 10, parameters: 5 });
+    expect(
+      result.functions.map(({ name, exceeded }) => ({ name, exceeded }))
+    ).toEqual([
+      { name: 'classify', exceeded: ['cognitive'] },
+      { name: 'handler', exceeded: ['parameters'] },
+    ]);
+  });
+
+  it('规则引擎中的函数规则应使用相同的度量', async () => {
+    const engine = new RuleEngine({ projectRoot });
+    await engine.initialize();
+    engine.getRule('max-cognitive-complexity')!.config.maxComplexity = 10;
+
+    const results = await engine.executeRules([
+      path.join(projectRoot, 'src/classify.ts'),
+    ]);
+
+    expect(
+      results.map(({ ruleName, issues }) => [ruleName, issues.length])
+    ).toEqual([
+      ['max-cognitive-complexity', 1],
+      ['max-params', 1],
+    ]);
+    expect(results[0].issues[0]).toMatchObject({
+      location: { startLine: 4, endLine: 19 },
+      message: '函数 classify 的认知复杂度 (12) 超过了最大限制 (10)',
+    });
+  });
+});
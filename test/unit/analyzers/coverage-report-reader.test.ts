@@ -0,0 +1,158 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { CoverageReportReader } from '../../../src/analyzers/coverage-report-reader';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('CoverageReportReader', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-reader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应读取 Istanbul coverage-final.json 并计算未覆盖的行', async () => {
+    const filePath = path.join(projectRoot, 'src/a.ts');
+    writeFixture(projectRoot, {
+      'coverage/coverage-final.json': JSON.stringify({
+        [filePath]: {
+          path: filePath,
+          statementMap: {
+            '0': { start: { line: 1 } },
+            '1': { start: { line: 2 } },
+            '2': { start: { line: 2 } },
+            '3': { start: { line: 4 } },
+          },
+          s: { '0': 3, '1': 0, '2': 1, '3': 0 },
+          f: { '0': 1, '1': 0 },
+          b: { '0': [2, 0] },
+        },
+        '/elsewhere/node_modules/lib/index.js': {
+          statementMap: {},
+          s: {},
+          f: {},
+          b: {},
+        },
+      }),
+    });
+
+    const report = await new CoverageReportReader(projectRoot).read();
+
+    expect(report!.format).toBe('istanbul-final');
+    expect(Object.keys(report!.files)).toEqual([filePath]);
+    expect(report!.files[filePath]).toMatchObject({
+      lines: { total: 3, covered: 2, pct: 66.67 },
+      statements: { total: 4, covered: 2, pct: 50 },
+      functions: { total: 2, covered: 1 },
+      branches: { total: 2, covered: 1 },
+      uncoveredLines: [4],
+    });
+    expect(report!.total.lines.pct).toBe(66.67);
+  });
+
+  it('应读取 lcov.info，相对路径基于项目根目录', async () => {
+    writeFixture(projectRoot, {
+      'coverage/lcov.info': [
+        'TN:',
+        'SF:src/b.ts',
+        'FN:1,run',
+        'FNDA:0,run',
+        'DA:1,1',
+        'DA:2,0',
+        'DA:3,0',
+        'BRDA:2,0,0,1',
+        'BRDA:2,0,1,-',
+        'end_of_record',
+      ].join('\n'),
+    });
+
+    const report = await new CoverageReportReader(projectRoot).read();
+    const file = report!.files[path.join(projectRoot, 'src/b.ts')];
+
+    expect(report!.format).toBe('lcov');
+    expect(file.uncoveredLines).toEqual([2, 3]);
+    expect(file.functions).toMatchObject({ total: 1, covered: 0, pct: 0 });
+    expect(file.branches).toMatchObject({ total: 2, covered: 1, pct: 50 });
+  });
+
+  it('应合并目录中的 V8 原始覆盖率并按范围计算行覆盖', async () => {
+    const source = [
+      'function used() {',
+      '  return 1;',
+      '}',
+      'function unused() {',
+      '  return 2;',
+      '}',
+      'used();',
+    ].join('\n');
+    const filePath = path.join(projectRoot, 'src/c.js');
+    const rangeOf = (text: string, count: number) => {
+      const startOffset = source.indexOf(text);
+      return { startOffset, endOffset: startOffset + text.length, count };
+    };
+    writeFixture(projectRoot, {
+      'src/c.js': source,
+      'coverage/tmp/coverage-1.json': JSON.stringify({
+        result: [
+          {
+            url: pathToFileURL(filePath).href,
+            functions: [
+              {
+                functionName: '',
+                isBlockCoverage: true,
+                ranges: [
+                  { startOffset: 0, endOffset: source.length, count: 1 },
+                ],
+              },
+              {
+                functionName: 'used',
+                isBlockCoverage: false,
+                ranges: [rangeOf('function used() {\n  return 1;\n}', 1)],
+              },
+              {
+                functionName: 'unused',
+                isBlockCoverage: true,
+                ranges: [rangeOf('function unused() {\n  return 2;\n}', 0)],
+              },
+            ],
+          },
+          { url: 'node:internal/main', functions: [] },
+        ],
+      }),
+    });
+
+    const report = await new CoverageReportReader(projectRoot).read([
+      'coverage/missing.json',
+      'coverage/tmp',
+    ]);
+
+    expect(report!.format).toBe('v8');
+    expect(report!.files[filePath]).toMatchObject({
+      lines: { total: 7, covered: 4 },
+      functions: { total: 2, covered: 1 },
+      uncoveredLines: [4, 5, 6],
+    });
+  });
+
+  it('没有任何覆盖率报告时返回 null', async () => {
+    await expect(new CoverageReportReader(projectRoot).read()).resolves.toBe(
+      null
+    );
+  });
+});
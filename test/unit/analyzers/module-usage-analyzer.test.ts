@@ -0,0 +1,94 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ModuleUsageAnalyzer } from '../../../src/analyzers/module-usage-analyzer';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('ModuleUsageAnalyzer', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'module-usage-'));
+    writeFixture(projectRoot, {
+      'package.json': JSON.stringify({
+        main: 'dist/index.js',
+        bin: { tool: 'bin/tool.js' },
+      }),
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: { outDir: 'dist', esModuleInterop: true },
+      }),
+      'bin/tool.js': "import('../dist/cli.js');",
+      'src/index.ts': "export { format } from './utils';",
+      'src/cli.ts': [
+        "import * as math from './math';",
+        "import { parse } from './utils';",
+        'console.log(math.add(1, 2), parse);',
+      ].join('\n'),
+      'src/utils/index.ts':
+        "export * from './format';\nexport * from './parse';",
+      'src/utils/format.ts': [
+        'export function format() {}',
+        'export function formatDate() {}',
+      ].join('\n'),
+      'src/utils/parse.ts':
+        'export const parse = 1;\nexport type Token = string;',
+      'src/math.ts': [
+        'export const add = (a: number, b: number) => a + b;',
+        'export const sub = (a: number, b: number) => a - b;',
+        'export const mul = (a: number, b: number) => a * b;',
+      ].join('\n'),
+      'src/orphan.ts': "import { mul } from './math';\nexport const x = mul;",
+      'test/math.test.ts': "import { sub } from '../src/math';\nsub(2, 1);",
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应从 package.json 入口和测试文件出发报告未使用的导出和不可达文件', () => {
+    const result = new ModuleUsageAnalyzer(projectRoot).analyze();
+    const names = (symbols: { filePath: string; name: string }[]) =>
+      symbols
+        .map(
+          ({ filePath, name }) =>
+            `${path.relative(projectRoot, filePath).split(path.sep).join('/')}#${name}`
+        )
+        .sort();
+
+    expect(names(result.unusedExports)).toEqual([
+      'src/math.ts#mul',
+      'src/utils/format.ts#formatDate',
+      'src/utils/parse.ts#Token',
+    ]);
+    expect(names(result.testOnlyExports)).toEqual(['src/math.ts#sub']);
+    expect(
+      result.unreachableFiles.map((filePath) =>
+        path.relative(projectRoot, filePath)
+      )
+    ).toEqual([path.join('src', 'orphan.ts')]);
+  });
+
+  it('应支持通过配置声明额外的入口文件', () => {
+    const result = new ModuleUsageAnalyzer(projectRoot, {
+      entries: ['src/orphan.ts'],
+    }).analyze();
+
+    expect(result.unreachableFiles).toEqual([]);
+    expect(result.unusedExports.map((symbol) => symbol.name).sort()).toEqual([
+      'Token',
+      'formatDate',
+    ]);
+  });
+});
@@ -105,7 +105,7 @@ describe('AnalysisOrchestrator', () => {
     };
 
     // 模拟构造函数
-    (Logger as jest.Mock).mockImplementation(() => mockLogger);
+    (Logger as unknown as jest.Mock).mockImplementation(() => mockLogger);
     (FileSystemService as jest.Mock).mockImplementation(() => mockFsService);
     (AstService as jest.Mock).mockImplementation(() => mockAstService);
 
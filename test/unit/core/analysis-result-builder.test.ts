@@ -0,0 +1,486 @@
+/* global describe, it, expect */
+import {
+  AnalysisResultBuilder,
+  collectIssues,
+  compareSeverity,
+  filterReportedResult,
+} from '../../../src/core/analysis-result-builder';
+import { IAnalysisResult, IAnalysisStats } from '../../../src/types/analysis';
+
+const stats: IAnalysisStats = {
+  totalFiles: 3,
+  totalLines: 100,
+  startTime: new Date(0),
+  endTime: new Date(10),
+  duration: 10,
+};
+
+describe('AnalysisResultBuilder', () => {
+  const builder = new AnalysisResultBuilder('/project', {
+    excludePatterns: ['generated', '**/*.spec.ts'],
+  });
+
+  it('应将依赖分析输出转换为导入方邻接表并去掉环的闭合节点', () => {
+    const result = builder.build(
+      [
+        {
+          type: 'dependencies',
+          data: {
+            graph: {
+              nodes: [
+                { id: 'src/a.ts', path: '/project/src/a.ts', size: 1 },
+                { id: 'src/b.ts', path: '/project/src/b.ts', size: 1 },
+                { id: 'generated/c.ts', path: '', size: 1 },
+              ],
+              edges: [
+                { source: 'src/b.ts', target: 'src/a.ts' },
+                { source: 'src/a.ts', target: 'src/b.ts' },
+                { source: 'generated/c.ts', target: 'src/a.ts' },
+              ],
+              circularDependencies: [
+                { cycle: ['src/a.ts', 'src/b.ts', 'src/a.ts'], length: 2 },
+              ],
+            },
+            stats: {},
+          },
+        },
+      ],
+      stats
+    );
+
+    expect(result.projectName).toBe('project');
+    expect(result.dependencies).toEqual({
+      dependencyGraph: { 'src/a.ts': ['src/b.ts'], 'src/b.ts': ['src/a.ts'] },
+      circularDependencies: [['src/a.ts', 'src/b.ts']],
+      unusedDependencies: [],
+      missingDependencies: [],
+    });
+  });
+
+  it('应转换重复代码和风险结果并过滤排除的文件', () => {
+    const result = builder.build(
+      [
+        {
+          type: 'method-dup',
+          data: {
+            clones: [
+              {
+                regions: [
+                  { filePath: '/project/src/a.ts', startLine: 1, endLine: 10 },
+                  { filePath: '/project/src/b.ts', startLine: 5, endLine: 14 },
+                  {
+                    filePath: '/project/generated/c.ts',
+                    startLine: 1,
+                    endLine: 10,
+                  },
+                ],
+                lines: 10,
+                similarity: 0.9,
+                snippet: 'code',
+              },
+            ],
+          },
+        },
+        {
+          type: 'infinite-loop',
+          data: {
+            issues: [
+              {
+                loopInfo: {
+                  position: {
+                    filePath: '/project/src/loop.ts',
+                    startLine: 3,
+                    startColumn: 1,
+                    endLine: 5,
+                    endColumn: 2,
+                  },
+                },
+                risk: '严重',
+                message: '缺少退出条件',
+                suggestion: '添加 break',
+              },
+              {
+                loopInfo: {
+                  position: { filePath: '/project/src/loop.spec.ts' },
+                },
+                risk: '低',
+                message: '测试文件',
+              },
+            ],
+          },
+        },
+      ],
+      stats
+    );
+
+    expect(result.duplicates!.totalDuplicationRate).toBe(0.1);
+    expect(result.duplicates!.duplicates[0]).toEqual({
+      locations: [
+        { filePath: 'src/a.ts', startLine: 1, endLine: 10 },
+        { filePath: 'src/b.ts', startLine: 5, endLine: 14 },
+      ],
+      lines: 10,
+      similarity: 0.9,
+      snippet: 'code',
+    });
+    expect(result.infiniteLoops!.potentialInfiniteLoops).toHaveLength(1);
+    expect(result.infiniteLoops!.potentialInfiniteLoops[0].riskLevel).toBe(
+      'high'
+    );
+  });
+
+  it('应只保留超过阈值的函数并按未排除的文件计算统计值', () => {
+    const fn = {
+      kind: 'function',
+      column: 1,
+      nestingDepth: 1,
+      parameters: 1,
+      loc: 5,
+    };
+    const result = builder.build(
+      [
+        {
+          type: 'complexity',
+          data: {
+            thresholds: {
+              cyclomatic: 10,
+              cognitive: 15,
+              nestingDepth: 4,
+              parameters: 5,
+              loc: 50,
+            },
+            functions: [
+              {
+                ...fn,
+                filePath: '/project/src/a.ts',
+                name: 'simple',
+                line: 1,
+                endLine: 5,
+                cyclomatic: 2,
+                cognitive: 1,
+                exceeded: [],
+              },
+              {
+                ...fn,
+                filePath: '/project/src/a.ts',
+                name: 'complex',
+                line: 10,
+                endLine: 40,
+                cyclomatic: 12,
+                cognitive: 20,
+                exceeded: ['cyclomatic', 'cognitive'],
+              },
+              {
+                ...fn,
+                filePath: '/project/generated/c.ts',
+                name: 'generated',
+                line: 1,
+                endLine: 90,
+                cyclomatic: 40,
+                cognitive: 60,
+                exceeded: ['cyclomatic', 'cognitive'],
+              },
+            ],
+          },
+        },
+      ],
+      stats
+    );
+
+    expect(result.complexity).toMatchObject({
+      totalFunctions: 2,
+      averageCyclomatic: 7,
+      maxCognitive: 20,
+    });
+    expect(result.complexity!.complexFunctions).toEqual([
+      expect.objectContaining({
+        filePath: 'src/a.ts',
+        name: 'complex',
+        startLine: 10,
+        endLine: 40,
+      }),
+    ]);
+    expect(
+      collectIssues(result).map(({ ruleId, message }) => [ruleId, message])
+    ).toEqual([
+      ['complexity/cyclomatic', '函数 complex 的圈复杂度为 12，超过阈值 10'],
+      ['complexity/cognitive', '函数 complex 的认知复杂度为 20，超过阈值 15'],
+    ]);
+  });
+
+  it('应保留规则问题和本次运行的规则目录', () => {
+    const rules = [
+      { name: 'no-todo', description: '不允许遗留 TODO' },
+      { name: 'no-console', description: '禁止 console' },
+    ];
+    const result = builder.build(
+      [
+        {
+          type: 'rules',
+          data: {
+            results: [
+              {
+                ruleName: 'no-todo',
+                description: '不允许遗留 TODO',
+                issues: [
+                  {
+                    location: { filePath: '/project/src/a.ts', startLine: 1 },
+                    severity: 'warning',
+                    message: '发现 TODO',
+                  },
+                  {
+                    location: {
+                      filePath: '/project/generated/b.ts',
+                      startLine: 1,
+                    },
+                    severity: 'warning',
+                    message: '发现 TODO',
+                  },
+                ],
+              },
+            ],
+            rules,
+          },
+        },
+      ],
+      stats
+    );
+
+    expect(result.customRules).toEqual([
+      expect.objectContaining({
+        ruleName: 'no-todo',
+        issues: [
+          expect.objectContaining({
+            location: { filePath: 'src/a.ts', startLine: 1 },
+          }),
+        ],
+      }),
+    ]);
+    expect(result.ruleCatalog).toEqual(rules);
+  });
+
+  it('复杂度分析器和规则引擎都运行时，同一函数的同一指标只报告一次', () => {
+    const fn = {
+      kind: 'function',
+      filePath: '/project/src/a.ts',
+      column: 1,
+      nestingDepth: 1,
+      parameters: 1,
+      loc: 5,
+      cyclomatic: 2,
+    };
+    const cognitiveIssue = (name: string, line: number, value: number) => ({
+      location: {
+        filePath: '/project/src/a.ts',
+        startLine: line,
+        startColumn: 1,
+      },
+      severity: 'warning' as const,
+      message: `函数 ${name} 的认知复杂度 (${value}) 超过了最大限制 (10)`,
+    });
+    const result = builder.build(
+      [
+        {
+          type: 'rules',
+          data: {
+            results: [
+              {
+                ruleName: 'max-cognitive-complexity',
+                description: '函数的认知复杂度不应超过指定的最大值',
+                issues: [
+                  cognitiveIssue('complex', 10, 20),
+                  cognitiveIssue('moderate', 50, 12),
+                ],
+              },
+            ],
+            rules: [],
+          },
+        },
+        {
+          type: 'complexity',
+          data: {
+            thresholds: {
+              cyclomatic: 10,
+              cognitive: 15,
+              nestingDepth: 4,
+              parameters: 5,
+              loc: 50,
+            },
+            functions: [
+              {
+                ...fn,
+                name: 'complex',
+                line: 10,
+                endLine: 40,
+                cognitive: 20,
+                exceeded: ['cognitive'],
+              },
+              {
+                ...fn,
+                name: 'moderate',
+                line: 50,
+                endLine: 60,
+                cognitive: 12,
+                exceeded: [],
+              },
+            ],
+          },
+        },
+      ],
+      stats
+    );
+
+    // 规则阈值低于分析器阈值时，只被规则报告的函数仍然保留
+    expect(
+      collectIssues(result).map(({ ruleId, location }) => [
+        ruleId,
+        location?.startLine,
+      ])
+    ).toEqual([
+      ['complexity/cognitive', 10],
+      ['max-cognitive-complexity', 50],
+    ]);
+  });
+
+  it('应原样保留没有报告模型的分析器输出', () => {
+    const metrics = { totalFunctions: 4, averageLength: 12 };
+    const result = builder.build(
+      [
+        { type: 'test-metrics', data: metrics },
+        { type: 'empty-plugin', data: null },
+      ],
+      stats
+    );
+
+    expect(result.analyzerOutputs).toEqual({ 'test-metrics': metrics });
+  });
+});
+
+describe('collectIssues', () => {
+  it('应汇总各类问题并映射严重性', () => {
+    const issues = collectIssues({
+      projectName: 'project',
+      stats,
+      dependencies: {
+        dependencyGraph: {},
+        circularDependencies: [['src/a.ts', 'src/b.ts']],
+        unusedDependencies: [],
+        missingDependencies: [],
+      },
+      memoryLeaks: {
+        potentialLeaks: [
+          {
+            location: { filePath: 'src/c.ts', startLine: 2 },
+            riskLevel: 'high',
+            type: 'timer-leak',
+            description: '定时器未清除',
+          },
+        ],
+      },
+    });
+
+    expect(issues).toEqual([
+      {
+        ruleId: 'circular-dependency',
+        severity: 'warning',
+        message: '循环依赖: src/a.ts → src/b.ts → src/a.ts',
+        location: { filePath: 'src/a.ts' },
+        suggestion: '断开建议的导入边，或将共享部分提取到独立模块',
+      },
+      {
+        ruleId: 'memory-leak/timer-leak',
+        severity: 'error',
+        message: '定时器未清除',
+        location: { filePath: 'src/c.ts', startLine: 2 },
+        suggestion:
+          '保存定时器句柄并在适当时机调用 clearTimeout 或 clearInterval',
+      },
+    ]);
+    expect(compareSeverity('error', 'warning')).toBeGreaterThan(0);
+    expect(compareSeverity('info', 'warning')).toBeLessThan(0);
+  });
+});
+
+describe('filterReportedResult', () => {
+  it('应移除基线和抑制注释中的问题，使各分析器的列表与 collectIssues 一致', () => {
+    const result: IAnalysisResult = {
+      projectName: 'project',
+      stats,
+      unusedCode: {
+        unusedImports: [
+          { name: 'a', filePath: 'src/a.ts', startLine: 1 },
+          { name: 'b', filePath: 'src/a.ts', startLine: 2 },
+        ],
+        unusedVariables: [],
+        unusedFunctions: [],
+        unusedClasses: [],
+        unusedExports: [],
+      },
+      complexity: {
+        totalFunctions: 1,
+        averageCyclomatic: 12,
+        averageCognitive: 20,
+        maxCyclomatic: 12,
+        maxCognitive: 20,
+        thresholds: {
+          cyclomatic: 10,
+          cognitive: 15,
+          nestingDepth: 4,
+          parameters: 5,
+          loc: 50,
+        },
+        complexFunctions: [
+          {
+            name: 'complex',
+            kind: 'function',
+            filePath: 'src/b.ts',
+            startLine: 10,
+            cyclomatic: 12,
+            cognitive: 20,
+            nestingDepth: 2,
+            parameters: 1,
+            loc: 30,
+            exceeded: ['cyclomatic', 'cognitive'],
+          },
+        ],
+      },
+      customRules: [
+        {
+          ruleName: 'no-todo',
+          description: '不允许遗留 TODO',
+          issues: [
+            {
+              location: { filePath: 'src/c.ts', startLine: 3 },
+              severity: 'warning',
+              message: '发现 TODO',
+            },
+          ],
+        },
+      ],
+    };
+    const [importA, , cyclomatic, , todo] = collectIssues(result);
+    result.baseline = {
+      filePath: '.code-insight-baseline.json',
+      baselined: [importA, cyclomatic],
+      stale: [],
+    };
+    result.suppressions = { suppressions: [], suppressed: [todo] };
+
+    const reported = filterReportedResult(result);
+
+    expect(reported.unusedCode!.unusedImports.map(({ name }) => name)).toEqual([
+      'b',
+    ]);
+    expect(reported.complexity!.complexFunctions).toEqual([
+      expect.objectContaining({ name: 'complex', exceeded: ['cognitive'] }),
+    ]);
+    expect(reported.complexity!.averageCyclomatic).toBe(12);
+    expect(reported.customRules).toEqual([]);
+    expect(collectIssues(reported).map(({ ruleId }) => ruleId)).toEqual(
+      collectIssues(result).map(({ ruleId }) => ruleId)
+    );
+    expect(collectIssues(result)).toHaveLength(2);
+    // 原结果不被修改
+    expect(result.unusedCode!.unusedImports).toHaveLength(2);
+  });
+});
@@ -0,0 +1,84 @@
+/* global describe, it, expect, beforeEach */
+import {
+  AnalyzerRegistry,
+  AnalyzerRegistryError,
+  IAnalyzerDefinition,
+} from '../../../src/core/analyzer-registry';
+import { registerBuiltinAnalyzers } from '../../../src/analyzers/builtin-analyzers';
+
+const createDefinition = (
+  overrides: Partial<IAnalyzerDefinition> = {}
+): IAnalyzerDefinition => ({
+  id: 'test-analyzer',
+  name: '测试分析器',
+  estimatedTime: 1,
+  modes: ['full'],
+  aliases: ['legacy-test'],
+  create: () => ({
+    analyze: async () => ({ type: 'test-analyzer', data: null }),
+  }),
+  ...overrides,
+});
+
+describe('AnalyzerRegistry', () => {
+  let registry: AnalyzerRegistry;
+
+  beforeEach(() => {
+    registry = new AnalyzerRegistry();
+  });
+
+  it('应通过标识或别名解析分析器', () => {
+    const definition = createDefinition();
+    registry.register(definition);
+
+    expect(registry.get('test-analyzer')).toBe(definition);
+    expect(registry.get('legacy-test')).toBe(definition);
+    expect(registry.resolve(['test-analyzer', 'legacy-test'])).toEqual([
+      definition,
+    ]);
+  });
+
+  it('解析未注册的分析器时应抛出错误', () => {
+    expect(() => registry.resolve(['missing'])).toThrow(AnalyzerRegistryError);
+  });
+
+  it('应拒绝重复注册和不支持全量模式的分析器', () => {
+    registry.register(createDefinition());
+
+    expect(() => registry.register(createDefinition())).toThrow(
+      '[ERR_ANALYZER_EXISTS]'
+    );
+    expect(() =>
+      registry.register(
+        createDefinition({ id: 'incremental-only', modes: ['incremental'] })
+      )
+    ).toThrow('[ERR_INVALID_DEFINITION]');
+  });
+
+  it('注销后别名应一并失效', () => {
+    registry.register(createDefinition());
+
+    expect(registry.unregister('test-analyzer')).toBe(true);
+    expect(registry.has('legacy-test')).toBe(false);
+  });
+
+  it('应注册全部内置分析器', () => {
+    registerBuiltinAnalyzers(registry);
+
+    expect(registry.getAll().map((definition) => definition.id)).toEqual([
+      'coverage',
+      'method-dup',
+      'unused-code',
+      'complexity',
+      'dependencies',
+      'npm-deps',
+      'memory-leak',
+      'infinite-loop',
+      'rules',
+      'example-incremental',
+    ]);
+    expect(registry.get('ts-coverage')!.id).toBe('coverage');
+    expect(registry.get('custom-rules')!.id).toBe('rules');
+    expect(registry.getEstimatedTime(['coverage', 'unused-code'])).toBe(5);
+  });
+});
@@ -0,0 +1,237 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BaselineManager,
+  DEFAULT_BASELINE_FILE,
+  IBaselineFile,
+} from '../../../src/core/baseline';
+import { collectIssues } from '../../../src/core/analysis-result-builder';
+import { RuleEngine } from '../../../src/core/rules/rule-engine';
+import { createRuleChecker } from '../../../src/core/suppression';
+import { IAnalysisIssue, IAnalysisResult } from '../../../src/types/analysis';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+const SERVICE_SOURCE = [
+  'export class UserService {',
+  '  load(id: string) {',
+  '    console.log(id);',
+  '    return fetch(id);',
+  '  }',
+  '}',
+].join('\n');
+
+/**
+ * 构造自定义规则的问题
+ */
+function ruleIssue(
+  line: number,
+  message = '不要提交 console.log'
+): IAnalysisIssue {
+  return {
+    ruleId: 'no-console',
+    severity: 'warning',
+    message,
+    location: { filePath: 'src/service.ts', startLine: line },
+  };
+}
+
+describe('BaselineManager', () => {
+  let projectRoot: string;
+  let manager: BaselineManager;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-'));
+    writeFixture(projectRoot, { 'src/service.ts': SERVICE_SOURCE });
+    manager = new BaselineManager(projectRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应记录问题所在符号，代码移动后仍然匹配基线', async () => {
+    const baseline = await manager.create([ruleIssue(3)]);
+
+    expect(manager.getFilePath()).toBe(
+      path.join(projectRoot, DEFAULT_BASELINE_FILE)
+    );
+    expect(baseline.entries).toEqual([
+      expect.objectContaining({
+        ruleId: 'no-console',
+        filePath: 'src/service.ts',
+        symbol: 'UserService.load',
+      }),
+    ]);
+
+    // 在文件开头插入代码，问题下移两行
+    writeFixture(projectRoot, {
+      'src/service.ts': `import fetch from 'node-fetch';\n\n${SERVICE_SOURCE}`,
+    });
+    const comparison = manager.compare((await manager.load())!, [ruleIssue(5)]);
+
+    expect(comparison.active).toEqual([]);
+    expect(comparison.baselined).toHaveLength(1);
+    expect(comparison.stale).toEqual([]);
+  });
+
+  it('不再匹配的条目应标记为失效，update 可清理或加入新问题', async () => {
+    await manager.create([ruleIssue(3), ruleIssue(4, '不要直接调用 fetch')]);
+    await expect(manager.create([])).rejects.toThrow('ERR_BASELINE_EXISTS');
+
+    // 修复 console.log 后出现了新问题
+    writeFixture(projectRoot, {
+      'src/service.ts': SERVICE_SOURCE.replace('    console.log(id);\n', ''),
+    });
+    const issues = [
+      ruleIssue(3, '不要直接调用 fetch'),
+      { ...ruleIssue(2, '方法缺少返回类型'), ruleId: 'explicit-return' },
+    ];
+    const comparison = manager.compare((await manager.load())!, issues);
+
+    expect(comparison.baselined.map((issue) => issue.message)).toEqual([
+      '不要直接调用 fetch',
+    ]);
+    expect(comparison.active.map((issue) => issue.ruleId)).toEqual([
+      'explicit-return',
+    ]);
+    expect(comparison.stale.map((entry) => entry.message)).toEqual([
+      '不要提交 console.log',
+    ]);
+
+    const pruned = await manager.update(issues, true);
+    expect(pruned).toMatchObject({ added: 0, removed: 1 });
+    expect(pruned.baseline.entries).toHaveLength(1);
+
+    const updated = await manager.update(issues);
+    expect(updated).toMatchObject({ added: 1, removed: 0 });
+    expect(updated.baseline.entries.map((entry) => entry.ruleId)).toEqual([
+      'explicit-return',
+      'no-console',
+    ]);
+  });
+
+  it('只有本次运行的分析器的条目才可能失效，update 保留其他条目', async () => {
+    await manager.create([
+      ruleIssue(3),
+      {
+        ruleId: 'complexity/cognitive',
+        severity: 'warning',
+        message: '函数 load 的认知复杂度为 20，超过阈值 15',
+        location: { filePath: 'src/service.ts', startLine: 2 },
+      },
+      {
+        ruleId: 'unused-import',
+        severity: 'info',
+        message: '未使用的导入: fetch',
+        location: { filePath: 'src/service.ts', startLine: 1 },
+      },
+    ]);
+
+    // 只运行 complexity 分析器，且复杂度问题已修复
+    const isChecked = createRuleChecker(['complexity'], false);
+    const comparison = manager.compare((await manager.load())!, [], isChecked);
+
+    expect(comparison.stale.map((entry) => entry.ruleId)).toEqual([
+      'complexity/cognitive',
+    ]);
+    expect(comparison.unchecked.map((entry) => entry.ruleId).sort()).toEqual([
+      'no-console',
+      'unused-import',
+    ]);
+
+    const pruned = await manager.update([], true, isChecked);
+    expect(pruned).toMatchObject({ added: 0, removed: 1 });
+    expect(pruned.baseline.entries.map((entry) => entry.ruleId)).toEqual([
+      'no-console',
+      'unused-import',
+    ]);
+  });
+
+  it('基线文件格式错误时应抛出错误', async () => {
+    writeFixture(projectRoot, {
+      [DEFAULT_BASELINE_FILE]: JSON.stringify({ version: 99, entries: [] }),
+    });
+    await expect(manager.load()).rejects.toThrow('ERR_BASELINE_VERSION');
+
+    await expect(
+      new BaselineManager(projectRoot, 'missing.json').update([])
+    ).rejects.toThrow('ERR_BASELINE_NOT_FOUND');
+  });
+
+  it('collectIssues 应排除基线中的问题', async () => {
+    const result: IAnalysisResult = {
+      projectName: 'fixture',
+      stats: {
+        totalFiles: 1,
+        totalLines: 6,
+        startTime: new Date(),
+        endTime: new Date(),
+        duration: 0,
+      },
+      customRules: [
+        {
+          ruleName: 'no-console',
+          description: '',
+          issues: [3, 4].map((line) => ({
+            location: { filePath: 'src/service.ts', startLine: line },
+            severity: 'warning' as const,
+            message: `第 ${line} 行的问题`,
+          })),
+        },
+      ],
+    };
+    const baseline = await manager.create(collectIssues(result).slice(0, 1));
+    const { baselined, stale } = manager.compare(
+      baseline,
+      collectIssues(result)
+    );
+    result.baseline = { filePath: DEFAULT_BASELINE_FILE, baselined, stale };
+
+    expect(collectIssues(result).map((issue) => issue.message)).toEqual([
+      '第 4 行的问题',
+    ]);
+  });
+
+  it('规则引擎应过滤基线中的问题', async () => {
+    const filePath = path.join(projectRoot, 'src/service.ts');
+    const createEngine = (baseline?: IBaselineFile) => {
+      const engine = new RuleEngine({ projectRoot, baseline });
+      engine.addRule({
+        name: 'no-console',
+        description: '禁止 console',
+        enabled: true,
+        config: {},
+        execute: async (context) =>
+          [3, 4].map((line) => ({
+            filePath: context.filePath!,
+            startLine: line,
+            severity: 'warning' as const,
+            message: '禁止的调用',
+          })),
+      });
+      return engine;
+    };
+
+    const [before] = await createEngine().executeRules([filePath]);
+    const baseline = await manager.create(
+      before.issues
+        .slice(0, 1)
+        .map((issue) => ({ ...issue, ruleId: before.ruleName }))
+    );
+    const [after] = await createEngine(baseline).executeRules([filePath]);
+
+    expect(after.issues.map((issue) => issue.location.startLine)).toEqual([4]);
+  });
+});
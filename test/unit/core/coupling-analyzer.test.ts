@@ -0,0 +1,164 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CouplingAnalyzer } from '../../../src/core/analyzers/coupling-analyzer';
+import { DependencyAnalyzer } from '../../../src/core/analyzers/dependency-analyzer';
+import {
+  DependencyReportGenerator,
+  ReportType,
+} from '../../../src/core/report/report-generator';
+import { DependencyAnalysisResult } from '../../../src/types/dependency-types';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('CouplingAnalyzer', () => {
+  let projectRoot: string;
+  let result: DependencyAnalysisResult;
+
+  beforeAll(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'coupling-'));
+    writeFixture(projectRoot, {
+      'src/app/main.ts': [
+        "import { DefaultService } from '../core/service';",
+        "import { format } from '../utils/format';",
+        'export const main = () => format(String(new DefaultService()));',
+      ].join('\n'),
+      'src/core/service.ts': [
+        "import { format } from '../utils/format';",
+        'export interface Service { run(): string; }',
+        'export class DefaultService implements Service {',
+        '  run() { return format("run"); }',
+        '}',
+      ].join('\n'),
+      'src/utils/format.ts': [
+        'export class Formatter {}',
+        'export const format = (value: string) => value;',
+      ].join('\n'),
+      'src/api/contracts.ts': [
+        "import { format } from '../utils/format';",
+        'export interface Repository { name: string; }',
+        'export abstract class BaseRepository {',
+        '  label() { return format("repo"); }',
+        '}',
+      ].join('\n'),
+    });
+    result = await new DependencyAnalyzer(projectRoot).analyze();
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应按目录计算 Ca、Ce、I、A、D 并标记痛苦区和无用区', () => {
+    const report = new CouplingAnalyzer().analyze(result.graph);
+
+    expect(report.distanceThreshold).toBe(0.5);
+    expect(report.averageDistance).toBe(0.5);
+    expect(report.modules).toEqual([
+      {
+        module: 'src/api',
+        files: 1,
+        afferent: 0,
+        efferent: 1,
+        instability: 1,
+        abstractness: 1,
+        distance: 1,
+        abstractTypes: 2,
+        totalTypes: 2,
+        zone: 'uselessness',
+      },
+      {
+        module: 'src/app',
+        files: 1,
+        afferent: 0,
+        efferent: 2,
+        instability: 1,
+        abstractness: 0,
+        distance: 0,
+        abstractTypes: 0,
+        totalTypes: 0,
+      },
+      {
+        module: 'src/core',
+        files: 1,
+        afferent: 1,
+        efferent: 1,
+        instability: 0.5,
+        abstractness: 0.5,
+        distance: 0,
+        abstractTypes: 1,
+        totalTypes: 2,
+      },
+      {
+        module: 'src/utils',
+        files: 1,
+        afferent: 3,
+        efferent: 0,
+        instability: 0,
+        abstractness: 0,
+        distance: 1,
+        abstractTypes: 0,
+        totalTypes: 1,
+        zone: 'pain',
+      },
+    ]);
+  });
+
+  it('应按 depth 聚合目录，不标记没有跨模块依赖的模块', () => {
+    const report = new CouplingAnalyzer({
+      depth: 1,
+      distanceThreshold: 0.3,
+    }).analyze(result.graph);
+
+    expect(report.depth).toBe(1);
+    expect(report.modules).toEqual([
+      expect.objectContaining({
+        module: 'src',
+        files: 4,
+        afferent: 0,
+        efferent: 0,
+        abstractness: 0.6,
+        distance: 0.4,
+      }),
+    ]);
+    expect(report.modules[0].zone).toBeUndefined();
+  });
+
+  it('应拒绝无效的配置', () => {
+    expect(() => new CouplingAnalyzer({ depth: 0 })).toThrow(
+      '[ERR_INVALID_COUPLING_CONFIG]'
+    );
+    expect(() => new CouplingAnalyzer({ distanceThreshold: 1.5 })).toThrow(
+      '[ERR_INVALID_COUPLING_CONFIG]'
+    );
+  });
+
+  it('HTML报告应包含耦合度量散点图和区域标记', async () => {
+    const outputPath = path.join(projectRoot, 'dependency-analysis.html');
+    await new DependencyReportGenerator().generate(
+      {
+        ...result,
+        coupling: new CouplingAnalyzer().analyze(result.graph),
+      } as unknown as Record<string, unknown>,
+      { type: ReportType.HTML, outputPath, projectName: 'demo' }
+    );
+    const html = fs.readFileSync(outputPath, 'utf8');
+
+    expect(html).toContain('🧭 模块耦合度量');
+    expect(html).toContain('aria-labelledby="coupling-chart-title');
+    expect(html).toContain(
+      'fill="#d73a49" fill-opacity="0.8"><title>src/utils (0, 0)</title>'
+    );
+    expect(html).toContain('<td class="warning">无用区</td>');
+  });
+});
@@ -0,0 +1,79 @@
+/* global describe, it, expect */
+import { CycleDetector } from '../../../src/core/analyzers/cycle-detector';
+
+describe('CycleDetector', () => {
+  it('应求出强连通分量', () => {
+    const detector = new CycleDetector();
+    const components = detector.findStronglyConnectedComponents({
+      a: ['b'],
+      b: ['c'],
+      c: ['a', 'd'],
+      d: [],
+    });
+
+    expect(components.map((component) => component.sort())).toEqual([
+      ['d'],
+      ['a', 'b', 'c'],
+    ]);
+  });
+
+  it('应枚举分量内的全部基本环', () => {
+    const detector = new CycleDetector();
+    const result = detector.detect({
+      a: ['b', 'c'],
+      b: ['a', 'c'],
+      c: ['a'],
+      d: ['d'],
+    });
+
+    expect(result.components).toHaveLength(2);
+    expect(result.components[0].cycles).toEqual([
+      ['a', 'b', 'a'],
+      ['a', 'b', 'c', 'a'],
+      ['a', 'c', 'a'],
+    ]);
+    expect(result.components[1].cycles).toEqual([['d', 'd']]);
+  });
+
+  it('应优先建议断开被最多循环共享的导入', () => {
+    const detector = new CycleDetector();
+    const result = detector.detect({
+      a: ['b'],
+      b: ['c', 'd'],
+      c: ['a'],
+      d: ['a'],
+      e: [],
+    });
+
+    expect(result.breakEdges).toEqual([
+      { from: 'a', to: 'b', cyclesBroken: 2 },
+    ]);
+  });
+
+  it('枚举被截断时断边建议仍应消除全部循环', () => {
+    const detector = new CycleDetector({ maxCyclesPerComponent: 1 });
+    const adjacency = {
+      a: ['b', 'c'],
+      b: ['a'],
+      c: ['a'],
+    };
+    const result = detector.detect(adjacency);
+
+    expect(result.components[0].truncated).toBe(true);
+
+    const removed = new Set(
+      result.breakEdges.map((edge) => `${edge.from}->${edge.to}`)
+    );
+    const reduced = Object.fromEntries(
+      Object.entries(adjacency).map(([from, targets]) => [
+        from,
+        targets.filter((to) => !removed.has(`${from}->${to}`)),
+      ])
+    );
+    expect(
+      detector
+        .findStronglyConnectedComponents(reduced)
+        .every((component) => component.length === 1)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+/* global describe, it, expect, beforeEach, afterEach, jest */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Project } from 'ts-morph';
+import { RuleEngine } from '../../../src/core/rules/rule-engine';
+import {
+  matchesSelector,
+  parseSelector,
+} from '../../../src/core/rules/selector';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+/**
+ * 返回代码中匹配选择器的节点文本
+ */
+function select(code: string, selector: string): string[] {
+  const sourceFile = new Project({
+    useInMemoryFileSystem: true,
+  }).createSourceFile('test.ts', code);
+  const parsed = parseSelector(selector);
+  const matches: string[] = [];
+  sourceFile.forEachDescendant((node) => {
+    if (matchesSelector(node, parsed)) {
+      matches.push(node.getText());
+    }
+  });
+  return matches;
+}
+
+describe('AST 选择器', () => {
+  const code = [
+    "import { get } from 'lodash';",
+    'console.log(get({}, "a"));',
+    'console.error("failed");',
+    'function save(a: number, b: number, c: number) {',
+    '  for (const item of [a, b]) {',
+    '    console.log(item);',
+    '  }',
+    '  try {',
+    '    return c;',
+    '  } catch {}',
+    '}',
+  ].join('\n');
+
+  it('应按节点类型和属性值匹配', () => {
+    expect(
+      select(code, 'CallExpression[expression.text="console.log"]')
+    ).toEqual(['console.log(get({}, "a"))', 'console.log(item)']);
+    expect(select(code, 'ImportDeclaration[moduleSpecifier=lodash]')).toEqual([
+      "import { get } from 'lodash';",
+    ]);
+    expect(
+      select(code, 'CallExpression[expression.name.text=/^(log|error)$/]')
+    ).toHaveLength(3);
+    expect(select(code, 'FunctionDeclaration[parameters.length>=3]')).toEqual([
+      expect.stringMatching(/^function save/),
+    ]);
+    expect(select(code, 'Parameter[name^=a], Parameter[name$=c]')).toEqual([
+      'a: number',
+      'c: number',
+    ]);
+  });
+
+  it('应支持后代、子节点组合符以及 :has 和 :not', () => {
+    expect(
+      select(code, 'ForOfStatement CallExpression[expression.text*=log]')
+    ).toEqual(['console.log(item)']);
+    expect(
+      select(code, 'SourceFile > ExpressionStatement > CallExpression')
+    ).toHaveLength(2);
+    expect(select(code, 'CatchClause > Block:not(:has(*))')).toEqual(['{}']);
+    expect(
+      select(code, 'CallExpression:has(CallExpression[expression.text=get])')
+    ).toEqual(['console.log(get({}, "a"))']);
+    expect(select(code, 'FunctionDeclaration[asteriskToken]')).toEqual([]);
+  });
+
+  it('应拒绝无效的选择器并指出位置', () => {
+    expect(() => parseSelector('CallExpresion')).toThrow(
+      /ERR_RULE_SELECTOR.*第 1 个字符处未知的节点类型 CallExpresion/
+    );
+    expect(() => parseSelector('CallExpression[expression.text')).toThrow(
+      '缺少 "]"'
+    );
+    expect(() => parseSelector('Parameter[name>abc]')).toThrow(
+      '只能与数字比较'
+    );
+    expect(() => parseSelector('Block:first-child')).toThrow('不支持的伪类');
+    expect(() => parseSelector(' ')).toThrow('选择器不能为空');
+  });
+});
+
+describe('RuleEngine 声明式规则', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'declarative-rule-'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    writeFixture(projectRoot, {
+      'src/app.ts': 'console.log("app");\n\nexport const a = 1;\n',
+      'src/cli/main.ts': 'console.log("cli");\n',
+      'test/app.test.ts': 'console.log("test");\n',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const files = () =>
+    ['src/app.ts', 'src/cli/main.ts', 'test/app.test.ts'].map((file) =>
+      path.join(projectRoot, file)
+    );
+
+  it('应把声明式规则编译为规则并按 glob 限定检查范围', async () => {
+    writeFixture(projectRoot, {
+      '.insightrc': JSON.stringify({
+        customRules: {
+          'no-console-log': {
+            selector: 'CallExpression[expression.text="console.log"]',
+            message: '不要提交 console.log',
+            suggestion: '使用 logger',
+            files: ['src/**'],
+            exclude: ['src/cli/**'],
+          },
+        },
+      }),
+    });
+    const engine = new RuleEngine({
+      projectRoot,
+      customRules: { 'no-console-log': { severity: 'error' } },
+    });
+    await engine.initialize();
+
+    const results = await engine.executeRules(files());
+    const rule = results.find((result) => result.ruleName === 'no-console-log');
+
+    expect(rule).toEqual({
+      ruleName: 'no-console-log',
+      description: '不要提交 console.log',
+      issues: [
+        {
+          location: {
+            filePath: path.join(projectRoot, 'src/app.ts'),
+            startLine: 1,
+            startColumn: 1,
+            endLine: 1,
+            endColumn: 19,
+          },
+          severity: 'error',
+          message: '不要提交 console.log',
+          suggestion: '使用 logger',
+        },
+      ],
+    });
+  });
+
+  it('应跳过选择器或配置无效的声明式规则', async () => {
+    const engine = new RuleEngine({
+      projectRoot,
+      customRules: {
+        'bad-selector': { selector: 'CallExpression[', message: 'x' },
+        'no-message': { selector: 'CallExpression' },
+        'disabled-rule': {
+          selector: 'CallExpression',
+          message: 'x',
+          enabled: false,
+        },
+      },
+    });
+    await engine.initialize();
+
+    const results = await engine.executeRules(files());
+
+    expect(results.map((result) => result.ruleName)).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('bad-selector'),
+      expect.stringContaining('ERR_RULE_SELECTOR')
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('no-message'),
+      expect.stringContaining('缺少 message')
+    );
+  });
+});
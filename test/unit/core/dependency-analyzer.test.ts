@@ -0,0 +1,129 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DependencyAnalyzer } from '../../../src/core/analyzers/dependency-analyzer';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('DependencyAnalyzer', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-analyzer-'));
+    writeFixture(projectRoot, {
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: {
+          baseUrl: '.',
+          paths: { '@/*': ['src/*'] },
+        },
+      }),
+      'src/index.ts': [
+        "import { a } from './a';",
+        "export * from '@/utils';",
+        "import fs from 'fs';",
+        "const lazy = () => import('./lazy');",
+        'export { a, fs, lazy };',
+      ].join('\n'),
+      'src/a.ts': "import { b } from './b';\nexport const a = b;",
+      'src/b.ts': "import { a } from './a';\nexport const b = 1 + (a ? 0 : 1);",
+      'src/utils/index.ts': "export const util = require('./helper.js');",
+      'src/utils/helper.js': 'module.exports = {};',
+      'src/lazy.ts': "import './missing';\nexport default 1;",
+      'node_modules/pkg/index.js': "require('../../src/a');",
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应解析 import、export from、动态 import 与 require', async () => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    const graph = await analyzer.buildGraph();
+
+    expect(graph.nodes.map((node) => node.id).sort()).toEqual([
+      'src/a.ts',
+      'src/b.ts',
+      'src/index.ts',
+      'src/lazy.ts',
+      'src/utils/helper.js',
+      'src/utils/index.ts',
+    ]);
+
+    // 边的方向为 依赖 -> 引用方
+    expect(graph.edges).toEqual(
+      expect.arrayContaining([
+        { source: 'src/a.ts', target: 'src/index.ts' },
+        { source: 'src/utils/index.ts', target: 'src/index.ts' },
+        { source: 'src/lazy.ts', target: 'src/index.ts' },
+        { source: 'src/utils/helper.js', target: 'src/utils/index.ts' },
+      ])
+    );
+    expect(graph.edges).toHaveLength(6);
+  });
+
+  it('应记录引用语句的行号', async () => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    await analyzer.buildGraph();
+
+    const dynamicImport = analyzer
+      .getImportReferences()
+      .find((reference) => reference.kind === 'dynamic-import');
+
+    expect(dynamicImport).toMatchObject({
+      source: 'src/index.ts',
+      target: 'src/lazy.ts',
+      line: 4,
+    });
+  });
+
+  it('应检测循环依赖', async () => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    const cycles = await analyzer.getCircularDependencies();
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].cycle).toEqual(['src/a.ts', 'src/b.ts', 'src/a.ts']);
+    expect(cycles[0].length).toBe(2);
+  });
+
+  it('应给出关联导入位置的断边建议', async () => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    const result = await analyzer.analyze();
+
+    expect(result.cycleAnalysis!.components).toEqual([
+      {
+        id: 'scc-0',
+        files: ['src/a.ts', 'src/b.ts'],
+        cycleCount: 1,
+        truncated: false,
+      },
+    ]);
+    expect(result.cycleAnalysis!.suggestions).toEqual([
+      {
+        from: 'src/a.ts',
+        to: 'src/b.ts',
+        cyclesBroken: 1,
+        imports: [{ file: 'src/a.ts', line: 1, specifier: './b' }],
+      },
+    ]);
+  });
+
+  it('循环中的文件应共享依赖层级', async () => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    const levels = await analyzer.getDependencyLevels();
+
+    expect(levels.get('src/a.ts')).toBe(0);
+    expect(levels.get('src/b.ts')).toBe(0);
+    expect(levels.get('src/index.ts')).toBe(2);
+  });
+});
@@ -0,0 +1,164 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DependencyAnalyzer } from '../../../src/core/analyzers/dependency-analyzer';
+import { DependencyRuleChecker } from '../../../src/core/analyzers/dependency-rule-checker';
+import { DependencyRulesConfig } from '../../../src/types/dependency-types';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+const RULES: DependencyRulesConfig = {
+  layers: {
+    core: 'src/core/**',
+    cli: ['src/cli/**'],
+    features: 'src/features/**',
+    shared: 'src/shared/**',
+  },
+  deny: { core: ['cli'] },
+  allow: { shared: [] },
+  publicEntries: [{ modules: 'src/features/*' }],
+  bannedPackages: { core: ['chalk', '@inquirer/*'] },
+};
+
+describe('DependencyRuleChecker', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-rules-'));
+    writeFixture(projectRoot, {
+      'src/core/engine.ts': [
+        "import { run } from '../cli/run';",
+        "import chalk from 'chalk';",
+        "import { select } from '@inquirer/prompts';",
+        "import { format } from '../shared/format';",
+        'export const engine = () => run(chalk, select, format);',
+      ].join('\n'),
+      'src/cli/run.ts': [
+        "import { engine } from '../core/engine';",
+        "import chalk from 'chalk';",
+        'export const run = (...args: unknown[]) => [engine, chalk, args];',
+      ].join('\n'),
+      'src/shared/format.ts': [
+        "import { helper } from './helper';",
+        "import { engine } from '../core/engine';",
+        'export const format = () => helper(engine);',
+      ].join('\n'),
+      'src/shared/helper.ts':
+        'export const helper = (value: unknown) => value;',
+      'src/features/a/index.ts': [
+        "import { b } from '../b';",
+        "import { internal } from '../b/internal';",
+        "import { local } from './local';",
+        'export const a = [b, internal, local];',
+      ].join('\n'),
+      'src/features/a/local.ts': 'export const local = 1;',
+      'src/features/b/index.ts': "export { internal as b } from './internal';",
+      'src/features/b/internal.ts': 'export const internal = 2;',
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const check = async (rules: DependencyRulesConfig) => {
+    const analyzer = new DependencyAnalyzer(projectRoot);
+    const graph = await analyzer.buildGraph();
+    return new DependencyRuleChecker(rules).check(
+      graph,
+      analyzer.getImportReferences(),
+      analyzer.getExternalImports()
+    );
+  };
+
+  it('应报告违反层间约束、公开入口和禁用包的导入位置', async () => {
+    const violations = await check(RULES);
+
+    expect(
+      violations.map(({ kind, file, line, specifier, target }) => ({
+        kind,
+        file,
+        line,
+        specifier,
+        target,
+      }))
+    ).toEqual([
+      {
+        kind: 'layer-violation',
+        file: 'src/core/engine.ts',
+        line: 1,
+        specifier: '../cli/run',
+        target: 'src/cli/run.ts',
+      },
+      {
+        kind: 'banned-package',
+        file: 'src/core/engine.ts',
+        line: 2,
+        specifier: 'chalk',
+        target: 'chalk',
+      },
+      {
+        kind: 'banned-package',
+        file: 'src/core/engine.ts',
+        line: 3,
+        specifier: '@inquirer/prompts',
+        target: '@inquirer/prompts',
+      },
+      {
+        kind: 'public-entry-violation',
+        file: 'src/features/a/index.ts',
+        line: 2,
+        specifier: '../b/internal',
+        target: 'src/features/b/internal.ts',
+      },
+      {
+        kind: 'layer-violation',
+        file: 'src/shared/format.ts',
+        line: 2,
+        specifier: '../core/engine',
+        target: 'src/core/engine.ts',
+      },
+    ]);
+    expect(violations[0].message).toBe(
+      '违反分层约束: core 层不能依赖 cli 层: src/cli/run.ts'
+    );
+    expect(violations[4].message).toBe(
+      '违反分层约束: shared 层只能依赖 本层，不能依赖 core 层: src/core/engine.ts'
+    );
+  });
+
+  it('文件归属于第一个匹配的层，不属于任何层的文件不受约束', async () => {
+    const checker = new DependencyRuleChecker({
+      layers: { entry: 'src/core/engine.ts', core: 'src/core/**' },
+      deny: { core: ['entry'] },
+    });
+
+    expect(checker.getLayer('src/core/engine.ts')).toBe('entry');
+    expect(checker.getLayer('src/core/other.ts')).toBe('core');
+    expect(checker.getLayer('src/index.ts')).toBeUndefined();
+    expect(await check({ layers: { core: 'src/core/**' } })).toEqual([]);
+  });
+
+  it('约束引用未定义的层时应抛出错误', () => {
+    expect(
+      () =>
+        new DependencyRuleChecker({
+          layers: { core: 'src/core/**' },
+          deny: { core: ['ui'] },
+        })
+    ).toThrow('[ERR_INVALID_RULES] dependency.rules.deny 引用了未定义的层: ui');
+    expect(
+      () => new DependencyRuleChecker({ bannedPackages: { core: ['chalk'] } })
+    ).toThrow('ERR_INVALID_RULES');
+  });
+});
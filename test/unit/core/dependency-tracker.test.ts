@@ -0,0 +1,159 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DependencyTracker } from '../../../src/core/watch/dependency-tracker';
+import { FileChangeInfo, FileChangeType } from '../../../src/core/watch/types';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('DependencyTracker', () => {
+  let projectRoot: string;
+  let tracker: DependencyTracker;
+
+  const abs = (file: string) => path.join(projectRoot, file);
+  const change = (file: string, type: FileChangeType): FileChangeInfo => ({
+    path: abs(file),
+    type,
+    timestamp: Date.now(),
+  });
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-tracker-'));
+    writeFixture(projectRoot, {
+      'src/math.ts': [
+        "import { round } from './round';",
+        'export function add(a: number, b: number): number {',
+        '  return round(a + b);',
+        '}',
+        'export const PI = 3.14;',
+      ].join('\n'),
+      'src/round.ts':
+        'export const round = (value: number) => Math.round(value);',
+      'src/index.ts': "export { add } from './math';",
+      'src/app.ts': [
+        "import { add, PI } from './math';",
+        'console.log(add(PI, 1));',
+      ].join('\n'),
+      'src/main.ts': [
+        "import { add } from './index';",
+        'console.log(add(1, 2));',
+      ].join('\n'),
+      'src/other.ts': 'export const other = 1;',
+    });
+    tracker = new DependencyTracker(projectRoot);
+    tracker.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('修改文件时应包含依赖方（沿再导出链）和被依赖文件', () => {
+    const impact = tracker.applyChanges([
+      change('src/math.ts', FileChangeType.MODIFIED),
+    ]);
+
+    expect(tracker.size).toBe(6);
+    expect(impact.changed).toEqual([abs('src/math.ts')]);
+    expect(impact.affected).toEqual(
+      ['src/app.ts', 'src/index.ts', 'src/main.ts', 'src/round.ts'].map(abs)
+    );
+    expect(impact.danglingImports).toEqual([]);
+  });
+
+  it('移除导出后应报告按名称引用的失效导入', () => {
+    writeFixture(projectRoot, {
+      'src/math.ts': [
+        'export function sum(a: number, b: number): number {',
+        '  return a + b;',
+        '}',
+        'export const PI = 3.14;',
+      ].join('\n'),
+    });
+
+    const impact = tracker.applyChanges([
+      change('src/math.ts', FileChangeType.MODIFIED),
+    ]);
+
+    // 不再引用 round.ts，但它仍需要重新检查是否变为未使用
+    expect(impact.affected).toContain(abs('src/round.ts'));
+    expect(impact.danglingImports).toEqual([
+      {
+        source: 'src/app.ts',
+        specifier: './math',
+        kind: 'import',
+        line: 1,
+        reason: 'missing-export',
+        name: 'add',
+      },
+      {
+        source: 'src/index.ts',
+        specifier: './math',
+        kind: 'export',
+        line: 1,
+        reason: 'missing-export',
+        name: 'add',
+      },
+    ]);
+  });
+
+  it('删除文件时应报告依赖方中无法解析的模块，新增后恢复', () => {
+    fs.rmSync(abs('src/math.ts'));
+    const impact = tracker.applyChanges([
+      change('src/math.ts', FileChangeType.DELETED),
+    ]);
+
+    expect(tracker.size).toBe(5);
+    expect(impact.deleted).toEqual([abs('src/math.ts')]);
+    expect(impact.affected).toEqual(
+      ['src/app.ts', 'src/index.ts', 'src/main.ts', 'src/round.ts'].map(abs)
+    );
+    expect(
+      impact.danglingImports.map(({ source, reason }) => [source, reason])
+    ).toEqual([
+      ['src/app.ts', 'missing-module'],
+      ['src/index.ts', 'missing-module'],
+    ]);
+
+    writeFixture(projectRoot, {
+      'src/math.ts': 'export const add = (a: number, b: number) => a + b;',
+    });
+    const restored = tracker.applyChanges([
+      change('src/math.ts', FileChangeType.ADDED),
+    ]);
+
+    expect(restored.affected).toEqual(
+      ['src/app.ts', 'src/index.ts', 'src/main.ts'].map(abs)
+    );
+    expect(restored.danglingImports).toEqual([
+      {
+        source: 'src/app.ts',
+        specifier: './math',
+        kind: 'import',
+        line: 1,
+        reason: 'missing-export',
+        name: 'PI',
+      },
+    ]);
+  });
+
+  it('没有依赖关系的文件变更不影响其他文件', () => {
+    const impact = tracker.applyChanges([
+      change('src/other.ts', FileChangeType.MODIFIED),
+      change('README.md', FileChangeType.MODIFIED),
+    ]);
+
+    expect(impact.changed).toEqual([abs('src/other.ts')]);
+    expect(impact.affected).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileDiscoveryService,
+  IFileDiscoveryResult,
+} from '../../../src/core/file-discovery-service';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+/**
+ * 取出指定路径的跳过记录
+ */
+function skippedEntry(result: IFileDiscoveryResult, relativePath: string) {
+  return result.skipped.find((entry) => entry.relativePath === relativePath);
+}
+
+describe('FileDiscoveryService', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'file-discovery-'));
+    writeFixture(projectRoot, {
+      '.gitignore': ['# 构建产物', 'dist/', '*.log.ts'].join('\n'),
+      '.code-insightignore': 'src/legacy/',
+      'src/index.ts': 'export const index = 1;',
+      'src/app.tsx': 'export const App = () => null;',
+      'src/debug.log.ts': 'export const log = 1;',
+      'src/styles.css': 'body {}',
+      'src/legacy/old.ts': 'export const old = 1;',
+      'src/gen/.gitignore': ['*.ts', '!keep.ts'].join('\n'),
+      'src/gen/schema.ts': 'export const schema = 1;',
+      'src/gen/keep.ts': 'export const keep = 1;',
+      'src/api.generated.ts':
+        '// @generated by protoc, do not edit\nexport const api = 1;',
+      'src/vendor/jquery.min.js': 'var a=1;',
+      'src/vendor/bundle.js': `var a=${'1+'.repeat(1500)}1;`,
+      'src/big.ts': 'export const big = 1;\n'.repeat(60),
+      'scripts/build.js': 'module.exports = {};',
+      'dist/index.js': 'exports.index = 1;',
+      'node_modules/lib/index.js': 'module.exports = {};',
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应遵循 .gitignore、.code-insightignore 并记录跳过原因', async () => {
+    const result = await new FileDiscoveryService(projectRoot, {
+      maxFileSize: 0,
+    }).discover();
+
+    expect(result.files.map((file) => file.relativePath)).toEqual([
+      'scripts/build.js',
+      'src/app.tsx',
+      'src/big.ts',
+      'src/gen/keep.ts',
+      'src/index.ts',
+    ]);
+    expect(result.files[0].path).toBe(
+      path.join(projectRoot, 'scripts/build.js')
+    );
+
+    expect(skippedEntry(result, 'node_modules')).toEqual({
+      relativePath: 'node_modules',
+      directory: true,
+      reason: 'default',
+      detail: 'node_modules 目录始终被跳过',
+    });
+    expect(skippedEntry(result, 'dist')).toEqual({
+      relativePath: 'dist',
+      directory: true,
+      reason: 'gitignore',
+      detail: '.gitignore:2: dist/',
+    });
+    expect(skippedEntry(result, 'src/debug.log.ts')?.detail).toBe(
+      '.gitignore:3: *.log.ts'
+    );
+    expect(skippedEntry(result, 'src/gen/schema.ts')?.detail).toBe(
+      'src/gen/.gitignore:1: *.ts'
+    );
+    expect(skippedEntry(result, 'src/legacy')).toMatchObject({
+      directory: true,
+      reason: 'code-insightignore',
+    });
+    expect(skippedEntry(result, 'src/api.generated.ts')).toMatchObject({
+      reason: 'generated',
+      detail: '文件头包含 "@generated"',
+    });
+    expect(skippedEntry(result, 'src/vendor/jquery.min.js')?.reason).toBe(
+      'minified'
+    );
+    expect(skippedEntry(result, 'src/vendor/bundle.js')?.detail).toMatch(
+      /^平均行长 \d+ 个字符$/
+    );
+    // 扩展名不在查找范围内的文件不记录
+    expect(skippedEntry(result, 'src/styles.css')).toBeUndefined();
+  });
+
+  it('应应用 include、exclude 和文件大小上限', async () => {
+    const result = await new FileDiscoveryService(projectRoot, {
+      include: ['src/**'],
+      exclude: ['gen', '**/*.tsx'],
+      maxFileSize: 1000,
+      gitignore: false,
+    }).discover();
+
+    expect(result.files.map((file) => file.relativePath)).toEqual([
+      'src/debug.log.ts',
+      'src/index.ts',
+    ]);
+    expect(skippedEntry(result, 'src/gen')).toMatchObject({
+      reason: 'exclude',
+      detail: 'exclude: gen',
+    });
+    expect(skippedEntry(result, 'src/app.tsx')?.detail).toBe(
+      'exclude: **/*.tsx'
+    );
+    expect(skippedEntry(result, 'scripts/build.js')?.reason).toBe('include');
+    expect(skippedEntry(result, 'src/big.ts')?.reason).toBe('too-large');
+    // 不遵循 .gitignore 时 dist 会被遍历，但不匹配 include
+    expect(skippedEntry(result, 'dist/index.js')?.reason).toBe('include');
+  });
+
+  it('应按策略跳过或跟随符号链接并检测循环链接', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-discovery-'));
+    try {
+      writeFixture(root, { 'src/a.ts': 'export const a = 1;' });
+      fs.symlinkSync(path.join(root, 'src'), path.join(root, 'linked'), 'dir');
+      fs.symlinkSync(
+        path.join(root, 'src'),
+        path.join(root, 'src/self'),
+        'dir'
+      );
+      fs.symlinkSync(path.join(root, 'missing.ts'), path.join(root, 'b.ts'));
+
+      const skipped = await new FileDiscoveryService(root).discover();
+      expect(skipped.files.map((file) => file.relativePath)).toEqual([
+        'src/a.ts',
+      ]);
+      expect(
+        skipped.skipped.map(({ relativePath, reason }) => [
+          relativePath,
+          reason,
+        ])
+      ).toEqual([
+        ['b.ts', 'symlink'],
+        ['linked', 'symlink'],
+        ['src/self', 'symlink'],
+      ]);
+
+      const followed = await new FileDiscoveryService(root, {
+        symlinks: 'follow',
+      }).discover();
+      expect(followed.files.map((file) => file.relativePath)).toEqual([
+        'linked/a.ts',
+        'src/a.ts',
+      ]);
+      expect(skippedEntry(followed, 'b.ts')?.detail).toBe('链接目标不存在');
+      expect(skippedEntry(followed, 'src/self')?.detail).toBe(
+        '循环链接，指向已遍历的目录 src'
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('应拒绝无效的选项和不存在的路径', async () => {
+    expect(
+      () =>
+        new FileDiscoveryService(projectRoot, {
+          symlinks: 'always' as 'skip',
+        })
+    ).toThrow('[ERR_INVALID_OPTIONS]');
+    await expect(
+      new FileDiscoveryService(path.join(projectRoot, 'missing')).discover()
+    ).rejects.toThrow('[ERR_PATH_NOT_FOUND]');
+  });
+});
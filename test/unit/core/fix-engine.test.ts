@@ -0,0 +1,291 @@
+/* global describe, it, expect, beforeEach, afterEach, jest */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FixEngine } from '../../../src/core/fix/fix-engine';
+import { createUnifiedDiff } from '../../../src/core/fix/unified-diff';
+import {
+  AnalysisResultBuilder,
+  collectIssues,
+} from '../../../src/core/analysis-result-builder';
+import { UnusedCodeAnalyzer } from '../../../src/analyzers/unused-code-analyzer';
+import { IAnalysisIssue, ITextEdit } from '../../../src/types/analysis';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+/**
+ * 构造带修复的问题
+ */
+function issue(line: number, ...edits: ITextEdit[]): IAnalysisIssue {
+  return {
+    ruleId: 'test-rule',
+    severity: 'warning',
+    message: `第 ${line} 行`,
+    location: { filePath: 'src/app.ts', startLine: line },
+    fix: { edits },
+  };
+}
+
+describe('createUnifiedDiff', () => {
+  it('应输出带上下文的变更块，没有变更时返回空字符串', () => {
+    const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', ''].join(
+      '\n'
+    );
+    const newText = oldText.replace('b\n', '').replace('h', 'H');
+
+    expect(createUnifiedDiff('a/x.ts', 'b/x.ts', oldText, newText, 1)).toBe(
+      [
+        '--- a/x.ts',
+        '+++ b/x.ts',
+        '@@ -1,3 +1,2 @@',
+        ' a',
+        '-b',
+        ' c',
+        '@@ -7,3 +6,3 @@',
+        ' g',
+        '-h',
+        '+H',
+        ' i',
+        '',
+      ].join('\n')
+    );
+    expect(createUnifiedDiff('a/x.ts', 'b/x.ts', oldText, oldText)).toBe('');
+  });
+});
+
+describe('FixEngine', () => {
+  let projectRoot: string;
+  const content = [
+    'const a = 1;',
+    'const b = 2;',
+    'const c=[3,4];',
+    'function run() {',
+    '  return a;',
+    '}',
+    '',
+  ].join('\n');
+  const at = (text: string) => content.indexOf(text);
+  const read = () =>
+    fs.readFileSync(path.join(projectRoot, 'src/app.ts'), 'utf-8');
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'fix-engine-'));
+    writeFixture(projectRoot, { 'src/app.ts': content });
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应应用不重叠的编辑、合并相同的编辑并跳过重叠的修复', async () => {
+    const removeB = { start: at('const b'), end: at('const c'), text: '' };
+    const fixes = [
+      issue(2, removeB),
+      issue(2, removeB),
+      issue(2, { start: at('b = 2'), end: at('b = 2') + 1, text: 'd' }),
+      issue(1, { start: at('1;'), end: at('1;') + 1, text: '[1,2]' }),
+    ];
+
+    const result = await new FixEngine(projectRoot).fix(fixes);
+
+    expect(result.applied).toEqual([fixes[3], fixes[0], fixes[1]]);
+    expect(result.skipped).toEqual([
+      { issue: fixes[2], reason: '与其他修复重叠' },
+    ]);
+    // 只重新格式化被编辑的行
+    expect(read()).toBe(
+      [
+        'const a = [1, 2];',
+        'const c=[3,4];',
+        'function run() {',
+        '  return a;',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(result.files[0].diff).toContain('-const b = 2;');
+    expect(
+      fs
+        .readdirSync(path.join(projectRoot, 'src'))
+        .filter((file) => file.endsWith('.tmp'))
+    ).toEqual([]);
+  });
+
+  it('修复引入语法错误时应放弃整个文件的修复', async () => {
+    const fixes = [
+      issue(1, { start: at('1;'), end: at('1;') + 1, text: '10' }),
+      issue(6, { start: at('}'), end: at('}') + 1, text: '' }),
+    ];
+
+    const result = await new FixEngine(projectRoot).fix(fixes);
+
+    expect(result.applied).toEqual([]);
+    expect(result.skipped.map((skipped) => skipped.reason)).toEqual([
+      '修复后的代码存在语法错误，已放弃对该文件的修复',
+      '修复后的代码存在语法错误，已放弃对该文件的修复',
+    ]);
+    expect(read()).toBe(content);
+  });
+
+  it('预览时应返回差异而不写入文件', async () => {
+    const result = await new FixEngine(projectRoot).fix(
+      [issue(3, { start: at('const c'), end: at('function'), text: '' })],
+      { dryRun: true }
+    );
+
+    expect(read()).toBe(content);
+    expect(result.files[0].diff).toBe(
+      [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,6 +1,5 @@',
+        ' const a = 1;',
+        ' const b = 2;',
+        '-const c=[3,4];',
+        ' function run() {',
+        '   return a;',
+        ' }',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('应跳过超出文件范围的编辑', async () => {
+    const invalid = issue(1, { start: 0, end: content.length + 1, text: '' });
+
+    const result = await new FixEngine(projectRoot).fix([invalid]);
+
+    expect(result.skipped).toEqual([
+      { issue: invalid, reason: '修复编辑超出文件范围' },
+    ]);
+    expect(read()).toBe(content);
+  });
+});
+
+describe('未使用代码的自动修复', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'unused-fix-'));
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应删除未使用的导入、变量和私有成员，并把只作为类型使用的导入改为 import type', async () => {
+    writeFixture(projectRoot, {
+      'tsconfig.json': JSON.stringify({ compilerOptions: { strict: true } }),
+      'src/index.ts': [
+        "import { readFileSync, writeFileSync, existsSync } from 'fs';",
+        "import type { Stats } from 'fs';",
+        "import { Project, SourceFile } from 'ts-morph';",
+        "import { Node, Type } from 'ts-morph';",
+        "import path, { join } from 'path';",
+        '',
+        'const unusedValue = 42,',
+        '  used = 1;',
+        'const result = compute();',
+        '',
+        'export class Service {',
+        '  private cache = new Map<string, string>();',
+        '  private readonly limit = 10;',
+        "  #secret = 'x';",
+        '',
+        '  /** 未使用的辅助方法 */',
+        '  private helper(): void {}',
+        '',
+        '  run(file: SourceFile, node: Node): Type | number {',
+        '    return existsSync(path.basename(file.getFilePath()))',
+        '      ? used + this.limit',
+        '      : this.cache.size;',
+        '  }',
+        '}',
+        '',
+        'function compute(): number {',
+        '  return 1;',
+        '}',
+        '',
+      ].join('\n'),
+    });
+
+    const data = await new UnusedCodeAnalyzer(projectRoot).analyze();
+    const result = new AnalysisResultBuilder(projectRoot).build(
+      [{ type: 'unused-code', data }],
+      {
+        totalFiles: 1,
+        totalLines: 29,
+        startTime: new Date(),
+        endTime: new Date(),
+        duration: 0,
+      }
+    );
+    const issues = collectIssues(result);
+    const fixable = issues.filter((item) => item.fix);
+
+    expect(
+      issues
+        .filter((item) => !item.fix)
+        .map((item) => item.message)
+        .filter((message) => !message.startsWith('未使用的导出'))
+    ).toEqual(['未使用的变量: result']);
+    expect(fixable.map((item) => item.ruleId).sort()).toEqual([
+      'type-only-import',
+      'type-only-import',
+      'type-only-import',
+      'unused-import',
+      'unused-import',
+      'unused-import',
+      'unused-import',
+      'unused-import',
+      'unused-private-member',
+      'unused-private-member',
+      'unused-variable',
+    ]);
+
+    const fixed = await new FixEngine(projectRoot).fix(fixable);
+
+    expect(fixed.skipped).toEqual([]);
+    expect(
+      fs.readFileSync(path.join(projectRoot, 'src/index.ts'), 'utf-8')
+    ).toBe(
+      [
+        "import { existsSync } from 'fs';",
+        "import { type SourceFile } from 'ts-morph';",
+        "import type { Node, Type } from 'ts-morph';",
+        "import path from 'path';",
+        '',
+        'const used = 1;',
+        'const result = compute();',
+        '',
+        'export class Service {',
+        '  private cache = new Map<string, string>();',
+        '  private readonly limit = 10;',
+        '',
+        '',
+        '  run(file: SourceFile, node: Node): Type | number {',
+        '    return existsSync(path.basename(file.getFilePath()))',
+        '      ? used + this.limit',
+        '      : this.cache.size;',
+        '  }',
+        '}',
+        '',
+        'function compute(): number {',
+        '  return 1;',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+});
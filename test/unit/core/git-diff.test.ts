@@ -0,0 +1,184 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  GitDiffReader,
+  parseUnifiedDiff,
+  splitByChangedLines,
+} from '../../../src/core/incremental/git-diff';
+import { IAnalysisIssue } from '../../../src/types/analysis';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+const LEGACY_SOURCE = Array.from(
+  { length: 8 },
+  (_, index) => `export const value${index} = ${index};`
+).join('\n');
+
+/**
+ * 构造问题
+ */
+function issue(filePath: string, startLine?: number, endLine?: number) {
+  return {
+    ruleId: 'test-rule',
+    severity: 'warning',
+    message: `${filePath}:${startLine}`,
+    location: { filePath, startLine, endLine },
+  } as IAnalysisIssue;
+}
+
+describe('parseUnifiedDiff', () => {
+  it('应解析新增和修改的行范围，跳过删除的文件和只删除行的修改', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3 +3 @@ export function a() {',
+      '-  return 1;',
+      '+  return 2;',
+      '@@ -10,0 +11,3 @@',
+      '+line',
+      '+line',
+      '+line',
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -5,2 +5 @@',
+      '-a',
+      '-b',
+      '+c',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      'deleted file mode 100644',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      'diff --git a/src/b.ts b/src/b.ts',
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@ -4,2 +3,0 @@',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      {
+        filePath: 'src/a.ts',
+        lines: [
+          [3, 3],
+          [11, 13],
+        ],
+      },
+      { filePath: 'src/new.ts', previousPath: 'src/old.ts', lines: [[5, 5]] },
+    ]);
+  });
+
+  it('应按行范围交集划分问题，文件级问题在文件有变更时保留', () => {
+    const { changed, preExisting } = splitByChangedLines(
+      [
+        issue('src/a.ts', 3),
+        issue('src/a.ts', 5, 12),
+        issue('src/a.ts', 20),
+        issue('src/a.ts'),
+        issue('src/b.ts', 3),
+        issue('src/b.ts'),
+      ],
+      [
+        {
+          filePath: 'src/a.ts',
+          lines: [
+            [3, 3],
+            [11, 13],
+          ],
+        },
+      ]
+    );
+
+    expect(changed.map((item) => item.message)).toEqual([
+      'src/a.ts:3',
+      'src/a.ts:5',
+      'src/a.ts:undefined',
+    ]);
+    expect(preExisting.map((item) => item.message)).toEqual([
+      'src/a.ts:20',
+      'src/b.ts:3',
+      'src/b.ts:undefined',
+    ]);
+  });
+});
+
+describe('GitDiffReader', () => {
+  let repoRoot: string;
+
+  const git = (...args: string[]) =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+      { cwd: repoRoot, stdio: 'pipe' }
+    );
+
+  beforeEach(() => {
+    repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'git-diff-'));
+    writeFixture(repoRoot, {
+      'app/src/math.ts': ['export const a = 1;', 'export const b = 2;'].join(
+        '\n'
+      ),
+      'app/src/legacy.ts': LEGACY_SOURCE,
+    });
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+    git('branch', 'base');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('应读取已提交、未提交、重命名和未跟踪文件的变更行', () => {
+    git('mv', 'app/src/legacy.ts', 'app/src/modern.ts');
+    writeFixture(repoRoot, {
+      'app/src/modern.ts': LEGACY_SOURCE.replace('value2 = 2', 'value2 = 20'),
+    });
+    git('commit', '-q', '-am', 'rename');
+    writeFixture(repoRoot, {
+      'app/src/math.ts': [
+        'export const a = 1;',
+        'export const b = 2;',
+        'export const c = 3;',
+      ].join('\n'),
+      'app/src/new.ts': 'export const n = 1;\n',
+    });
+
+    const diff = new GitDiffReader(path.join(repoRoot, 'app')).getDiff('base');
+
+    expect(diff.baseCommit).toMatch(/^[0-9a-f]{40}$/);
+    expect(diff.files).toEqual([
+      { filePath: 'src/math.ts', lines: [[2, 3]] },
+      {
+        filePath: 'src/modern.ts',
+        previousPath: 'src/legacy.ts',
+        lines: [[3, 3]],
+      },
+      { filePath: 'src/new.ts', lines: [[1, 1]] },
+    ]);
+  });
+
+  it('基准引用不存在时应抛出错误', () => {
+    expect(() => new GitDiffReader(repoRoot).getDiff('missing')).toThrow(
+      'ERR_GIT_REF'
+    );
+  });
+});
@@ -0,0 +1,306 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createMetricsSnapshot,
+  HistoryStore,
+  IMetricsSnapshot,
+  readCommitInfo,
+} from '../../../src/core/incremental/history-store';
+import { HistoryBackfiller } from '../../../src/core/incremental/history-backfill';
+import {
+  sparkline,
+  TrendReportGenerator,
+} from '../../../src/report/trend-report';
+import { IAnalysisResult } from '../../../src/types/analysis';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+/**
+ * 构造分析结果
+ */
+function analysisResult(totalLines: number): IAnalysisResult {
+  return {
+    projectName: 'fixture',
+    stats: {
+      totalFiles: 2,
+      totalLines,
+      startTime: new Date('2024-06-01T10:00:00Z'),
+      endTime: new Date('2024-06-01T10:00:05Z'),
+      duration: 5000,
+    },
+    complexity: {
+      totalFunctions: 4,
+      averageCyclomatic: 3.5,
+      averageCognitive: 2,
+      maxCyclomatic: 12,
+      maxCognitive: 9,
+      thresholds: {
+        cyclomatic: 10,
+        cognitive: 15,
+        nestingDepth: 4,
+        parameters: 5,
+        loc: 80,
+      },
+      complexFunctions: [
+        {
+          name: 'load',
+          kind: 'function',
+          filePath: 'src/a.ts',
+          startLine: 3,
+          cyclomatic: 12,
+          cognitive: 9,
+          nestingDepth: 2,
+          parameters: 1,
+          loc: 20,
+          exceeded: ['cyclomatic'],
+        },
+      ],
+    },
+    dependencies: {
+      dependencyGraph: { 'src/a.ts': ['src/b.ts'], 'src/b.ts': ['src/a.ts'] },
+      circularDependencies: [['src/a.ts', 'src/b.ts', 'src/a.ts']],
+      unusedDependencies: [],
+      missingDependencies: [],
+    },
+  };
+}
+
+/**
+ * 构造快照
+ */
+function snapshot(
+  timestamp: string,
+  total: number,
+  commit?: string
+): IMetricsSnapshot {
+  return {
+    ...(commit ? { commit } : {}),
+    timestamp,
+    analyzers: ['complexity'],
+    totalFiles: 1,
+    totalLines: 10,
+    issues: { error: 0, warning: total, info: 0, total },
+    issuesByAnalyzer: { complexity: total },
+  };
+}
+
+describe('createMetricsSnapshot', () => {
+  it('应汇总问题数、复杂度和循环依赖', () => {
+    const result = analysisResult(120);
+    const metrics = createMetricsSnapshot(result, {
+      analyzers: ['dependencies', 'complexity'],
+      commit: 'abc123',
+    });
+
+    expect(metrics).toMatchObject({
+      commit: 'abc123',
+      timestamp: '2024-06-01T10:00:05.000Z',
+      analyzers: ['complexity', 'dependencies'],
+      totalLines: 120,
+      complexity: {
+        averageCyclomatic: 3.5,
+        maxCyclomatic: 12,
+        complexFunctions: 1,
+      },
+      circularDependencies: 1,
+    });
+    expect(metrics.issues.total).toBeGreaterThan(0);
+    expect(
+      Object.values(metrics.issuesByAnalyzer).reduce((a, b) => a + b, 0)
+    ).toBe(metrics.issues.total);
+    expect(metrics).not.toHaveProperty('dirty');
+    expect(metrics).not.toHaveProperty('duplicationRate');
+  });
+});
+
+describe('HistoryStore', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应追加快照并按时间顺序读取，跳过无法解析的行', async () => {
+    const store = new HistoryStore(projectRoot);
+    expect(await store.load()).toEqual([]);
+
+    await store.append(snapshot('2024-06-03T00:00:00.000Z', 3));
+    fs.appendFileSync(store.getFilePath(), '{broken\n');
+    await store.append(snapshot('2024-06-01T00:00:00.000Z', 5));
+
+    expect(store.getFilePath()).toBe(
+      path.join(projectRoot, '.code-insight-cache', 'history.jsonl')
+    );
+    expect((await store.load()).map((item) => item.issues.total)).toEqual([
+      5, 3,
+    ]);
+  });
+});
+
+describe('趋势报告', () => {
+  it('sparkline 应按最小值和最大值缩放，缺失的值显示为空格', () => {
+    expect(sparkline([1, 5, 9, undefined, 9])).toBe('▁▅█ █');
+    expect(sparkline([2, 2])).toBe('▁▁');
+    expect(sparkline([undefined])).toBe('');
+  });
+
+  it('控制台报告应包含每个有数据的指标的迷你折线图和变化量', () => {
+    const output = new TrendReportGenerator().renderConsole([
+      snapshot('2024-06-01T00:00:00.000Z', 8, 'aaaaaaaaaa'),
+      snapshot('2024-06-02T00:00:00.000Z', 4, 'bbbbbbbbbb'),
+    ]);
+
+    expect(output).toContain('2 个快照');
+    expect(output).toContain('aaaaaaa 2024-06-01 → bbbbbbb 2024-06-02');
+    expect(output).toMatch(/问题总数\s+█▁\s+8 → 4 \(-4\)/);
+    expect(output).not.toContain('重复率');
+  });
+
+  it('HTML 报告应为每个指标生成内联SVG折线图', () => {
+    const html = new TrendReportGenerator({
+      projectName: '<app>',
+    }).renderHtml([
+      snapshot('2024-06-01T00:00:00.000Z', 8),
+      snapshot('2024-06-02T00:00:00.000Z', 4),
+    ]);
+
+    expect(html).toContain('<title>&lt;app&gt; - 代码质量趋势</title>');
+    expect(html).toContain('<polyline points=');
+    expect(html).toContain(
+      '<title>问题总数 · 2024-06-01 2024-06-01: 8</title>'
+    );
+    expect(html).not.toContain('<script');
+  });
+
+  it('chartjs 渲染方式应保留 Chart.js 图表', () => {
+    const html = new TrendReportGenerator({
+      chartRenderer: 'chartjs',
+    }).renderHtml([
+      snapshot('2024-06-01T00:00:00.000Z', 8),
+      snapshot('2024-06-02T00:00:00.000Z', 4),
+    ]);
+
+    expect(html).toContain('https://cdn.jsdelivr.net/npm/chart.js');
+    expect(html).toContain('"type":"line"');
+    expect(html).toContain('"labels":["2024-06-01 2024-06-01"');
+  });
+});
+
+describe('HistoryBackfiller', () => {
+  let repoRoot: string;
+
+  const git = (...args: string[]) =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+      { cwd: repoRoot, stdio: 'pipe' }
+    );
+
+  beforeEach(() => {
+    repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'history-backfill-'));
+    git('init', '-q');
+    ['one', 'two', 'three'].forEach((name, index) => {
+      writeFixture(repoRoot, {
+        [`app/src/${name}.ts`]: `export const ${name} = ${index};\n`,
+      });
+      git('add', '-A');
+      git('commit', '-q', '-m', name);
+    });
+    writeFixture(repoRoot, { 'docs/readme.md': '# docs\n' });
+    git('add', '-A');
+    git('commit', '-q', '-m', 'docs');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('应在临时 worktree 中分析修改过项目的提交，并跳过已记录的提交', async () => {
+    const projectRoot = path.join(repoRoot, 'app');
+    const store = new HistoryStore(projectRoot);
+    const backfiller = new HistoryBackfiller(projectRoot, store);
+    const commits = backfiller.listCommits(10);
+    expect(commits).toHaveLength(3);
+
+    await store.append({
+      ...snapshot(new Date().toISOString(), 0),
+      commit: commits[2].commit,
+    });
+
+    const checkouts: string[] = [];
+    const outcome = await backfiller.backfill(10, async (checkoutPath) => {
+      checkouts.push(checkoutPath);
+      const fileCount = fs.readdirSync(path.join(checkoutPath, 'src')).length;
+      return { result: analysisResult(fileCount), analyzers: ['complexity'] };
+    });
+
+    expect(outcome.skipped).toBe(1);
+    expect(outcome.failed).toEqual([]);
+    expect(outcome.added.map((item) => [item.commit, item.totalLines])).toEqual(
+      [
+        [commits[0].commit, 1],
+        [commits[1].commit, 2],
+      ]
+    );
+    expect(outcome.added[0].timestamp).toBe(commits[0].timestamp);
+    expect(checkouts.every((checkout) => checkout.endsWith('app'))).toBe(true);
+    expect(fs.existsSync(path.dirname(checkouts[0]))).toBe(false);
+    expect(git('worktree', 'list').toString().trim().split('\n')).toHaveLength(
+      1
+    );
+    expect(await store.load()).toHaveLength(3);
+    // 历史记录文件位于缓存目录中，不算作工作区修改
+    expect(readCommitInfo(projectRoot)).toEqual({
+      commit: git('rev-parse', 'HEAD').toString().trim(),
+      dirty: false,
+    });
+  });
+
+  it('干净的仓库中连续分析两次都不应记录为有修改，补录时跳过 HEAD', async () => {
+    // 以仓库根目录为项目，最近一次修改项目的提交就是 HEAD
+    const projectRoot = repoRoot;
+    const store = new HistoryStore(projectRoot);
+    const record = () =>
+      store.append(
+        createMetricsSnapshot(analysisResult(3), {
+          analyzers: ['complexity'],
+          ...readCommitInfo(projectRoot),
+        })
+      );
+
+    await record();
+    await record();
+
+    const snapshots = await store.load();
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots.every((item) => item.dirty === undefined)).toBe(true);
+
+    const outcome = await new HistoryBackfiller(projectRoot, store).backfill(
+      1,
+      async () => {
+        throw new Error('HEAD 已记录，不应重新分析');
+      }
+    );
+    expect(outcome).toMatchObject({ skipped: 1, added: [], failed: [] });
+
+    // 源码的修改仍然会被记录
+    writeFixture(projectRoot, { 'docs/readme.md': '# changed\n' });
+    expect(readCommitInfo(projectRoot)?.dirty).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+/* global describe, it, expect */
+import path from 'path';
+import { IssueDeltaTracker } from '../../../src/core/watch/issue-delta';
+import { fingerprintIssues } from '../../../src/core/issue-fingerprint';
+import { IUnusedCodeItem } from '../../../src/analyzers/unused-code-analyzer';
+
+const projectRoot = path.resolve('/project');
+const abs = (file: string) => path.join(projectRoot, file);
+
+/**
+ * 构造未使用代码分析器的输出
+ */
+function unusedOutput(
+  unusedFunctions: Array<[string, number, string]>,
+  unreachableFiles: string[] = []
+) {
+  const items: IUnusedCodeItem[] = unusedFunctions.map(
+    ([file, line, name]) => ({
+      filePath: abs(file),
+      line,
+      column: 1,
+      type: 'function',
+      name,
+    })
+  );
+  return {
+    type: 'unused-code',
+    data: {
+      unusedImports: [],
+      unusedVariables: [],
+      unusedFunctions: items,
+      unusedClasses: [],
+      unusedInterfaces: [],
+      unusedTypes: [],
+      unusedExports: [],
+      testOnlyExports: [],
+      unreachableFiles: unreachableFiles.map(abs),
+      totalUnused: items.length + unreachableFiles.length,
+      affectedFiles: [],
+    },
+    summary: { title: '未使用代码检测', description: '', metrics: {} },
+  };
+}
+
+describe('fingerprintIssues', () => {
+  it('指纹不受行号和数值变化影响，同名问题按出现顺序区分', () => {
+    const [before] = fingerprintIssues([
+      {
+        ruleId: 'complexity/cyclomatic',
+        severity: 'warning',
+        message: '函数 run 的圈复杂度为 12，超过阈值 10',
+        location: { filePath: 'src/a.ts', startLine: 3 },
+      },
+    ]);
+    const [after] = fingerprintIssues([
+      {
+        ruleId: 'complexity/cyclomatic',
+        severity: 'warning',
+        message: '函数 run 的圈复杂度为 14，超过阈值 10',
+        location: { filePath: 'src/a.ts', startLine: 9 },
+      },
+    ]);
+    const twins = fingerprintIssues([
+      {
+        ruleId: 'duplicate-code',
+        severity: 'warning',
+        message: '重复代码，另见 src/b.ts:20',
+        location: { filePath: 'src/a.ts', startLine: 30 },
+      },
+      {
+        ruleId: 'duplicate-code',
+        severity: 'warning',
+        message: '重复代码，另见 src/b.ts:40',
+        location: { filePath: 'src/a.ts', startLine: 10 },
+      },
+    ]);
+
+    expect(after.fingerprint).toBe(before.fingerprint);
+    expect(twins[0].fingerprint).not.toBe(twins[1].fingerprint);
+  });
+});
+
+describe('IssueDeltaTracker', () => {
+  it('应按分析范围比较上一轮问题，得出新增、已解决和未变化的问题', () => {
+    const tracker = new IssueDeltaTracker(projectRoot);
+    tracker.update(
+      {
+        'unused-code': unusedOutput([
+          ['src/a.ts', 3, 'oldHelper'],
+          ['src/a.ts', 8, 'keep'],
+          ['src/b.ts', 5, 'other'],
+        ]),
+      },
+      {}
+    );
+
+    // 只重新分析了 a.ts，b.ts 中的问题不应被视为已解决
+    const delta = tracker.update(
+      {
+        'unused-code': unusedOutput([
+          ['src/a.ts', 10, 'keep'],
+          ['src/a.ts', 12, 'newHelper'],
+        ]),
+      },
+      { 'unused-code': [abs('src/a.ts')] }
+    );
+
+    expect(delta.added.map((issue) => issue.message)).toEqual([
+      '未使用的函数: newHelper',
+    ]);
+    expect(delta.resolved.map((issue) => issue.message)).toEqual([
+      '未使用的函数: oldHelper',
+    ]);
+    expect(delta.unchanged.map((issue) => issue.message)).toEqual([
+      '未使用的函数: keep',
+    ]);
+    expect(delta.files).toHaveLength(1);
+    expect(delta.files[0]).toMatchObject({
+      filePath: 'src/a.ts',
+      unchanged: 1,
+    });
+    expect(delta.files[0].added[0].location).toMatchObject({ startLine: 12 });
+    expect(tracker.getIssues()).toHaveLength(3);
+  });
+
+  it('删除文件中的问题应视为已解决，分析失败时保留其他问题', () => {
+    const tracker = new IssueDeltaTracker(projectRoot);
+    tracker.update(
+      {
+        'unused-code': unusedOutput(
+          [
+            ['src/a.ts', 3, 'helper'],
+            ['src/b.ts', 5, 'other'],
+          ],
+          ['src/b.ts']
+        ),
+      },
+      {}
+    );
+
+    const delta = tracker.update(
+      { 'unused-code': { error: '分析失败: boom' } },
+      { 'unused-code': [] },
+      [abs('src/b.ts')]
+    );
+
+    expect(delta.added).toEqual([]);
+    expect(delta.resolved.map((issue) => issue.ruleId).sort()).toEqual([
+      'unused-file',
+      'unused-function',
+    ]);
+    expect(delta.files.map((file) => file.filePath)).toEqual(['src/b.ts']);
+    expect(tracker.getIssues().map((issue) => issue.message)).toEqual([
+      '未使用的函数: helper',
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NpmDependencyAnalyzer } from '../../../src/core/analyzers/npm-dependency-analyzer';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('NpmDependencyAnalyzer', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-deps-'));
+    writeFixture(projectRoot, {
+      'package.json': JSON.stringify({
+        name: 'fixture',
+        scripts: { build: 'tsup && eslint src', test: 'jest' },
+        dependencies: { chalk: '^4', lodash: '^4', 'left-pad': '^1' },
+        devDependencies: {
+          commander: '^11',
+          eslint: '^8',
+          'eslint-plugin-import': '^2',
+          jest: '^29',
+          'ts-jest': '^29',
+          tsup: '^8',
+          typescript: '^5',
+          '@types/lodash': '^4',
+          '@types/unused-lib': '^1',
+          vitest: '^1',
+        },
+        peerDependencies: { react: '^18' },
+      }),
+      'tsconfig.json': '{}',
+      'jest.config.js': "module.exports = { preset: 'ts-jest' };",
+      '.eslintrc.json': JSON.stringify({ plugins: ['import'] }),
+      'src/index.ts': [
+        "import chalk from 'chalk';",
+        "import { get } from 'lodash/get';",
+        "import type { Props } from 'react';",
+        "import { Command } from 'commander';",
+        "import fs from 'node:fs';",
+        "import path from 'path';",
+        "import { self } from 'fixture/utils';",
+        "const lazy = () => import('axios');",
+        "export type Schema = import('zod').ZodType;",
+        'export { chalk, get, Command, fs, path, self, lazy };',
+        'export type { Props };',
+      ].join('\n'),
+      'test/index.test.ts': "import { describe } from 'vitest';\ndescribe;",
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应报告未使用、未声明以及错放的依赖', async () => {
+    const report = await new NpmDependencyAnalyzer(projectRoot).analyze();
+
+    expect(report.unused).toEqual([
+      { name: '@types/unused-lib', section: 'devDependencies' },
+      { name: 'left-pad', section: 'dependencies' },
+    ]);
+    expect(report.missing.map((pkg) => pkg.name)).toEqual(['axios', 'zod']);
+    expect(report.missing[0].imports).toEqual([
+      { file: 'src/index.ts', line: 8, specifier: 'axios' },
+    ]);
+    expect(report.misplaced.map((pkg) => pkg.name)).toEqual(['commander']);
+  });
+
+  it('缺少 package.json 时应抛出错误', async () => {
+    const emptyRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-deps-'));
+    try {
+      await expect(
+        new NpmDependencyAnalyzer(emptyRoot).analyze()
+      ).rejects.toThrow('ERR_PACKAGE_JSON_NOT_FOUND');
+    } finally {
+      fs.rmSync(emptyRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,355 @@
+/* global describe, it, expect, beforeEach, afterEach, jest */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Node } from 'ts-morph';
+import { RuleEngine } from '../../../src/core/rules/rule-engine';
+import { RuleLoader } from '../../../src/core/rules/rule-loader';
+import {
+  defineRule,
+  validateRuleConfig,
+} from '../../../src/core/rules/rule-sdk';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+const TODO_RULE_CJS = [
+  'module.exports = {',
+  "  name: 'no-todo',",
+  "  description: '禁止 TODO 注释',",
+  '  config: {},',
+  '  execute: async ({ filePath, fileContent }) =>',
+  "    fileContent.split('\\n').flatMap((line, index) =>",
+  "      line.includes('TODO')",
+  "        ? [{ filePath, startLine: index + 1, severity: 'info', message: 'TODO' }]",
+  '        : []',
+  '    ),',
+  '};',
+].join('\n');
+
+const CONSOLE_RULE_TS = [
+  "import { findLines } from './helpers/find-lines';",
+  '',
+  'interface IContext {',
+  '  filePath: string;',
+  '  fileContent: string;',
+  '}',
+  '',
+  'export default {',
+  "  name: 'no-console',",
+  "  description: '禁止 console',",
+  '  execute: async ({ filePath, fileContent }: IContext) =>',
+  "    findLines(fileContent, 'console.').map((line: number) => ({",
+  '      filePath,',
+  '      startLine: line,',
+  "      severity: 'warning' as const,",
+  "      message: 'console',",
+  '    })),',
+  '};',
+].join('\n');
+
+const FIND_LINES_TS = [
+  'export function findLines(content: string, text: string): number[] {',
+  '  return content',
+  "    .split('\\n')",
+  '    .map((line, index) => (line.includes(text) ? index + 1 : 0))',
+  '    .filter(Boolean);',
+  '}',
+].join('\n');
+
+const PACKAGE_RULES = [
+  'exports.rules = {',
+  '  noDebugger: {',
+  "    name: 'no-debugger',",
+  "    description: '禁止 debugger',",
+  '    enabled: false,',
+  '    execute: async ({ filePath, fileContent }) =>',
+  "      fileContent.includes('debugger')",
+  "        ? [{ filePath, severity: 'error', message: 'debugger' }]",
+  '        : [],',
+  '  },',
+  '};',
+].join('\n');
+
+describe('RuleLoader', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-loader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应列出规则文件并加载 CommonJS 和 TypeScript 规则', async () => {
+    writeFixture(projectRoot, {
+      'rules/no-todo.cjs': TODO_RULE_CJS,
+      'rules/no-console.ts': CONSOLE_RULE_TS,
+      'rules/helpers/find-lines.ts': FIND_LINES_TS,
+      'rules/types.d.ts': 'export type Rule = unknown;',
+      'rules/README.md': '# rules',
+    });
+    const loader = new RuleLoader(projectRoot);
+
+    const files = loader.listRuleFiles(path.join(projectRoot, 'rules'));
+    expect(files.map((file) => path.basename(file))).toEqual([
+      'no-console.ts',
+      'no-todo.cjs',
+    ]);
+
+    const [consoleRule] = await loader.loadFile(files[0]);
+    expect(consoleRule).toMatchObject({
+      name: 'no-console',
+      enabled: true,
+      config: {},
+    });
+    await expect(
+      consoleRule.execute({
+        projectRoot,
+        filePath: 'a.ts',
+        fileContent: 'const a = 1;\nconsole.log(a);',
+      })
+    ).resolves.toEqual([
+      {
+        filePath: 'a.ts',
+        startLine: 2,
+        severity: 'warning',
+        message: 'console',
+      },
+    ]);
+  });
+
+  it('应报告无法解析的规则包和没有导出规则的模块', async () => {
+    writeFixture(projectRoot, { 'rules/empty.js': 'module.exports = {};' });
+    const loader = new RuleLoader(projectRoot);
+
+    await expect(loader.loadPackage('missing-rules')).rejects.toThrow(
+      'ERR_RULE_NOT_FOUND'
+    );
+    await expect(loader.loadFile('rules/empty.js')).rejects.toThrow(
+      'ERR_RULE_INVALID'
+    );
+  });
+});
+
+describe('RuleEngine 自定义规则', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-engine-'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应加载规则目录和 npm 包中的规则并应用配置', async () => {
+    writeFixture(projectRoot, {
+      '.code-insight-rules/no-todo.cjs': TODO_RULE_CJS,
+      '.code-insight-rules/broken.js': 'throw new Error("boom");',
+      'node_modules/acme-rules/package.json': JSON.stringify({
+        name: 'acme-rules',
+        main: 'index.js',
+      }),
+      'node_modules/acme-rules/index.js': PACKAGE_RULES,
+      '.insightrc': JSON.stringify({
+        rulePackages: ['acme-rules'],
+        customRules: { 'no-debugger': true, 'max-file-length': false },
+      }),
+      'src/app.ts': '// TODO: 拆分\ndebugger;\n',
+    });
+
+    const engine = new RuleEngine({ projectRoot });
+    await engine.initialize();
+    const results = await engine.executeRules([
+      path.join(projectRoot, 'src/app.ts'),
+    ]);
+
+    expect(results.map((result) => result.ruleName).sort()).toEqual([
+      'no-debugger',
+      'no-todo',
+    ]);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('broken.js'),
+      expect.stringContaining('ERR_RULE_LOAD')
+    );
+  });
+
+  it('defineRule 应提供语法树、类型检查器、校验后的配置和修复', async () => {
+    writeFixture(projectRoot, {
+      'src/api.ts': 'export async function save(): Promise<void> {}\n',
+      'src/app.ts': [
+        "import { save } from './api';",
+        '',
+        'export function run() {',
+        '  save();',
+        '  void save();',
+        '}',
+      ].join('\n'),
+    });
+
+    const engine = new RuleEngine({
+      projectRoot,
+      customRules: { 'no-floating-promise': { mode: 'void' } },
+    });
+    engine.addRule(
+      defineRule({
+        name: 'no-floating-promise',
+        description: '必须处理 Promise',
+        schema: {
+          mode: { type: 'string', default: 'await', enum: ['await', 'void'] },
+        },
+        check({ sourceFile, typeChecker, config, report, fixer }) {
+          sourceFile.forEachDescendant((node) => {
+            if (
+              Node.isExpressionStatement(node) &&
+              Node.isCallExpression(node.getExpression()) &&
+              typeChecker
+                .getTypeAtLocation(node.getExpression())
+                .getText()
+                .startsWith('Promise<')
+            ) {
+              report({
+                node,
+                message: '未处理的 Promise',
+                fix: { edits: [fixer.insertBefore(node, `${config.mode} `)] },
+              });
+            }
+          });
+        },
+      })
+    );
+    await engine.initialize();
+
+    const [result] = await engine.executeRules([
+      path.join(projectRoot, 'src/app.ts'),
+    ]);
+
+    const content = fs.readFileSync(
+      path.join(projectRoot, 'src/app.ts'),
+      'utf-8'
+    );
+    expect(result.ruleName).toBe('no-floating-promise');
+    expect(result.issues).toEqual([
+      {
+        location: {
+          filePath: path.join(projectRoot, 'src/app.ts'),
+          startLine: 4,
+          startColumn: 3,
+          endLine: 4,
+          endColumn: 10,
+        },
+        severity: 'warning',
+        message: '未处理的 Promise',
+        suggestion: undefined,
+        fix: {
+          edits: [
+            {
+              start: content.indexOf('  save();') + 2,
+              end: content.indexOf('  save();') + 2,
+              text: 'void ',
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('配置无效的规则应被跳过', async () => {
+    writeFixture(projectRoot, { 'src/app.ts': 'export const a = 1;\n' });
+    const check = jest.fn();
+    const engine = new RuleEngine({
+      projectRoot,
+      customRules: { 'typed-rule': { limit: 'many' } },
+    });
+    engine.addRule(
+      defineRule({
+        name: 'typed-rule',
+        description: '带配置的规则',
+        schema: { limit: { type: 'number', default: 3, minimum: 1 } },
+        check,
+      })
+    );
+    await engine.initialize();
+
+    await expect(
+      engine.executeRules([path.join(projectRoot, 'src/app.ts')])
+    ).resolves.toEqual(
+      expect.not.arrayContaining([
+        expect.objectContaining({ ruleName: 'typed-rule' }),
+      ])
+    );
+    expect(check).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('typed-rule'),
+      expect.stringContaining('ERR_RULE_CONFIG')
+    );
+  });
+
+  it('max-dependency-depth 应基于项目依赖图报告依赖过深的文件', async () => {
+    writeFixture(projectRoot, {
+      'src/a.ts': "import { b } from './b';\nexport const a = b;\n",
+      'src/b.ts': "import { c } from './c';\nexport const b = c;\n",
+      'src/c.ts': "import { d } from './d';\nexport const c = d;\n",
+      'src/d.ts': 'export const d = 1;\n',
+    });
+    const engine = new RuleEngine({
+      projectRoot,
+      customRules: {
+        'max-file-length': false,
+        'max-dependency-depth': { maxDepth: 2 },
+      },
+    });
+    await engine.initialize();
+
+    const results = await engine.executeRules(
+      ['a', 'b', 'c', 'd'].map((name) =>
+        path.join(projectRoot, `src/${name}.ts`)
+      )
+    );
+
+    expect(
+      results.find((result) => result.ruleName === 'max-dependency-depth')
+        ?.issues
+    ).toEqual([
+      expect.objectContaining({
+        location: expect.objectContaining({
+          filePath: path.join(projectRoot, 'src/a.ts'),
+        }),
+        message:
+          '依赖树深度 (3) 超过了最大限制 (2): src/a.ts → src/b.ts → src/c.ts → src/d.ts',
+      }),
+    ]);
+  });
+});
+
+describe('validateRuleConfig', () => {
+  it('应补全默认值并拒绝未知配置项', () => {
+    const schema = {
+      max: { type: 'number' as const, default: 3 },
+      names: { type: 'string[]' as const, default: ['a'] },
+    };
+
+    expect(validateRuleConfig('rule', schema, { max: 5 })).toEqual({
+      max: 5,
+      names: ['a'],
+    });
+    expect(() => validateRuleConfig('rule', schema, { other: 1 })).toThrow(
+      'ERR_RULE_CONFIG'
+    );
+    expect(() => validateRuleConfig('rule', schema, { names: [1] })).toThrow(
+      'ERR_RULE_CONFIG'
+    );
+  });
+});
@@ -0,0 +1,193 @@
+/* global describe, it, expect, beforeEach, afterEach */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SuppressionScanner } from '../../../src/core/suppression';
+import { collectIssues } from '../../../src/core/analysis-result-builder';
+import { RuleEngine } from '../../../src/core/rules/rule-engine';
+import { IAnalysisIssue, IAnalysisResult } from '../../../src/types/analysis';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+const SERVER_SOURCE = [
+  'export async function serve(queue: Queue) {',
+  '  // code-insight-disable-next-line infinite-loop -- 服务主循环，由 SIGTERM 退出',
+  '  while (true) {',
+  '    await queue.pop();',
+  '  }',
+  '}',
+  '',
+  '/* code-insight-disable complexity until=2020-01-01 -- 等待重写 */',
+  'export function legacy(input: string) {',
+  '  return input;',
+  '}',
+  '/* code-insight-enable complexity */',
+  '',
+  'export const noop = () => 0; // code-insight-disable-line unused-export',
+  '// code-insight-disable-next-line memory-leak until=2099-13-01',
+  'setInterval(noop, 1000);',
+].join('\n');
+
+/**
+ * 构造问题
+ */
+function issue(ruleId: string, line?: number): IAnalysisIssue {
+  return {
+    ruleId,
+    severity: 'warning',
+    message: `${ruleId} 问题`,
+    location: { filePath: 'src/server.ts', startLine: line },
+  };
+}
+
+describe('SuppressionScanner', () => {
+  let projectRoot: string;
+  let scanner: SuppressionScanner;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'suppression-'));
+    writeFixture(projectRoot, { 'src/server.ts': SERVER_SOURCE });
+    scanner = new SuppressionScanner(projectRoot, new Date(2024, 5, 1));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应解析各种抑制注释的规则、范围、原因和到期日期', () => {
+    const suppressions = scanner.scanFile(
+      path.join(projectRoot, 'src/server.ts')
+    );
+
+    expect(
+      suppressions.map(({ kind, rules, startLine, endLine, status }) => [
+        kind,
+        rules,
+        startLine,
+        endLine,
+        status,
+      ])
+    ).toEqual([
+      ['next-line', ['infinite-loop'], 3, 3, 'unused'],
+      ['block', ['complexity'], 8, 12, 'expired'],
+      ['line', ['unused-export'], 14, 14, 'unused'],
+      ['next-line', ['memory-leak'], 16, 16, 'invalid'],
+    ]);
+    expect(suppressions[0].reason).toBe('服务主循环，由 SIGTERM 退出');
+    expect(suppressions[1]).toMatchObject({
+      until: '2020-01-01',
+      reason: '等待重写',
+    });
+  });
+
+  it('应抑制范围内匹配的问题，过期和无效的抑制不再生效', () => {
+    const outcome = scanner.apply(
+      [
+        issue('infinite-loop', 3),
+        issue('infinite-loop', 4),
+        issue('complexity/cognitive', 9),
+        issue('memory-leak/timer-leak', 16),
+        issue('unused-file'),
+      ],
+      [],
+      (rule) => rule !== 'unused-export'
+    );
+
+    expect(outcome.suppressed.map((item) => item.location?.startLine)).toEqual([
+      3,
+    ]);
+    expect(outcome.active.map((item) => item.ruleId)).toEqual([
+      'infinite-loop',
+      'complexity/cognitive',
+      'memory-leak/timer-leak',
+      'unused-file',
+    ]);
+    // unused-export 规则本次未检查，不视为未使用
+    expect(
+      outcome.suppressions.map(({ line, status, suppressedCount }) => [
+        line,
+        status,
+        suppressedCount,
+      ])
+    ).toEqual([
+      [2, 'active', 1],
+      [8, 'expired', 0],
+      [15, 'invalid', 0],
+    ]);
+  });
+
+  it('collectIssues 应排除被抑制的问题并报告未使用和过期的抑制注释', () => {
+    const result: IAnalysisResult = {
+      projectName: 'fixture',
+      stats: {
+        totalFiles: 1,
+        totalLines: 16,
+        startTime: new Date(),
+        endTime: new Date(),
+        duration: 0,
+      },
+      infiniteLoops: {
+        potentialInfiniteLoops: [
+          {
+            location: { filePath: 'src/server.ts', startLine: 3 },
+            reason: '循环条件始终为真',
+            riskLevel: 'high',
+          },
+        ],
+      },
+    };
+    const { suppressed, suppressions } = scanner.apply(collectIssues(result), [
+      'src/server.ts',
+    ]);
+    result.suppressions = { suppressed, suppressions };
+
+    expect(
+      collectIssues(result).map((item) => [
+        item.ruleId,
+        item.location?.startLine,
+      ])
+    ).toEqual([
+      ['suppression/expired', 8],
+      ['suppression/unused', 14],
+      ['suppression/invalid', 15],
+    ]);
+  });
+
+  it('规则引擎应遵循抑制注释', async () => {
+    const engine = new RuleEngine({ projectRoot });
+    engine.addRule({
+      name: 'no-infinite-loop',
+      description: '禁止无限循环',
+      enabled: true,
+      config: {},
+      execute: async (context) =>
+        [3, 9].map((line) => ({
+          filePath: context.filePath!,
+          startLine: line,
+          severity: 'warning' as const,
+          message: '无限循环',
+        })),
+    });
+    writeFixture(projectRoot, {
+      'src/server.ts': SERVER_SOURCE.replace(
+        'infinite-loop -- ',
+        'no-infinite-loop -- '
+      ),
+    });
+
+    const [result] = await engine.executeRules([
+      path.join(projectRoot, 'src/server.ts'),
+    ]);
+
+    expect(result.issues.map((item) => item.location.startLine)).toEqual([9]);
+  });
+});
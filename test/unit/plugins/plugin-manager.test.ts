@@ -5,6 +5,11 @@ import { PluginLoader } from '../../../src/plugins/loader';
 import { IPlugin, PluginHookName } from '../../../src/plugins/types';
 import { ConfigManager } from '../../../src/utils/config-manager';
 import { createMockConfigManager } from '../../mocks/mock-config-manager';
+import {
+  AnalyzerRegistry,
+  IAnalyzerDefinition,
+} from '../../../src/core/analyzer-registry';
+import { registerBuiltinAnalyzers } from '../../../src/analyzers/builtin-analyzers';
 
 // 模拟依赖
 jest.mock('../../../src/plugins/loader');
@@ -254,4 +259,47 @@ describe('PluginManager', () => {
       expect(mockPlugin2.cleanup).toHaveBeenCalled();
     });
   });
+
+  describe('插件分析器', () => {
+    /**
+     * 创建插件提供的分析器定义
+     */
+    const pluginAnalyzer = (id: string): IAnalyzerDefinition => ({
+      id,
+      name: `插件分析器 ${id}`,
+      estimatedTime: 1,
+      modes: ['full'],
+      create: jest.fn<
+        ReturnType<IAnalyzerDefinition['create']>,
+        Parameters<IAnalyzerDefinition['create']>
+      >(),
+    });
+
+    it('卸载插件时只注销由该插件注册的分析器', async () => {
+      const registry = registerBuiltinAnalyzers(new AnalyzerRegistry());
+      const builtinComplexity = registry.get('complexity');
+      const plugin: IPlugin = {
+        ...mockPlugin1,
+        analyzers: [pluginAnalyzer('complexity'), pluginAnalyzer('metrics')],
+      };
+      mockPluginLoader.getPlugins.mockReturnValue([plugin]);
+      mockPluginLoader.getPlugin.mockReturnValue(plugin);
+
+      const manager = new PluginManager(
+        mockPluginLoader,
+        mockConfigManager,
+        registry
+      );
+      await manager.initialize();
+
+      // 与内置分析器重名的定义在注册时被跳过
+      expect(registry.get('complexity')).toBe(builtinComplexity);
+      expect(registry.get('metrics')).toBe(plugin.analyzers![1]);
+
+      await manager.uninstallPlugin(plugin.name);
+
+      expect(registry.get('complexity')).toBe(builtinComplexity);
+      expect(registry.has('metrics')).toBe(false);
+    });
+  });
 });
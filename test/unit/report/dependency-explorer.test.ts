@@ -0,0 +1,103 @@
+/* global describe, it, expect, beforeAll, afterAll */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import vm from 'vm';
+import { DependencyAnalyzer } from '../../../src/core/analyzers/dependency-analyzer';
+import { DependencyExplorerRenderer } from '../../../src/core/report/dependency-explorer';
+import {
+  DependencyReportGenerator,
+  ReportType,
+} from '../../../src/core/report/report-generator';
+import { DependencyAnalysisResult } from '../../../src/types/dependency-types';
+
+/**
+ * 在临时目录中写入测试项目
+ */
+function writeFixture(root: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  });
+}
+
+describe('DependencyExplorerRenderer', () => {
+  let projectRoot: string;
+  let result: DependencyAnalysisResult;
+
+  beforeAll(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-explorer-'));
+    writeFixture(projectRoot, {
+      'src/index.ts': "import { app } from './cli/app';\nexport default app;\n",
+      'src/cli/app.ts': [
+        "import { engine } from '../core/engine';",
+        '',
+        "import { report } from '../core/report';",
+        'export const app = [engine, report];',
+      ].join('\n'),
+      'src/core/engine.ts':
+        "import { report } from './report';\nexport const engine = () => report;\n",
+      'src/core/report.ts': [
+        "import { engine } from './engine';",
+        "import { format } from '../utils/format';",
+        'export const report = () => [engine, format("report")];',
+      ].join('\n'),
+      'src/utils/format.ts':
+        'export const format = (value: string) => value;\n',
+    });
+    result = await new DependencyAnalyzer(projectRoot).analyze();
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('应为每条依赖边附带导入语句并标记循环依赖', () => {
+    const data = new DependencyExplorerRenderer(result).buildData();
+
+    expect(data.nodes.find((node) => node.id === 'src/core/report.ts')).toEqual(
+      {
+        id: 'src/core/report.ts',
+        size: expect.any(Number),
+        level: expect.any(Number),
+        incoming: 2,
+        outgoing: 2,
+        inCycle: true,
+      }
+    );
+    expect(data.edges).toContainEqual({
+      source: 'src/cli/app.ts',
+      target: 'src/core/report.ts',
+      cycle: false,
+      imports: [{ line: 3, specifier: '../core/report' }],
+    });
+    expect(data.edges).toContainEqual({
+      source: 'src/core/engine.ts',
+      target: 'src/core/report.ts',
+      cycle: true,
+      imports: [{ line: 1, specifier: './report' }],
+    });
+  });
+
+  it('HTML报告应内联依赖浏览器，且不引用任何外部资源', async () => {
+    const outputPath = path.join(projectRoot, 'dependency-analysis.html');
+    await new DependencyReportGenerator().generate(
+      result as unknown as Record<string, unknown>,
+      { type: ReportType.HTML, outputPath, projectName: 'demo' }
+    );
+    const html = fs.readFileSync(outputPath, 'utf8');
+
+    expect(html).toContain('id="dep-explorer"');
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/i);
+    expect(html).not.toMatch(/@import|url\(\s*['"]?(https?:)?\/\//i);
+
+    const scripts = Array.from(
+      html.matchAll(/<script([^>]*)>([\s\S]*?)<\/script>/g)
+    );
+    expect(scripts).toHaveLength(2);
+    const data = JSON.parse(scripts[0][2]);
+    expect(data.nodes).toHaveLength(5);
+    expect(() => new vm.Script(scripts[1][2])).not.toThrow();
+  });
+});
@@ -0,0 +1,180 @@
+/* global describe, it, expect */
+import {
+  DependencyGraphExporter,
+  GraphFormat,
+} from '../../../src/core/report/dependency-graph-exporter';
+import { DependencyAnalysisResult } from '../../../src/types/dependency-types';
+
+/**
+ * 构造依赖分析结果，dependencies 为 导入方 -> 被依赖文件 的邻接表
+ */
+function createResult(
+  dependencies: Record<string, string[]>,
+  levels: Map<string, number>,
+  cycles: string[][] = []
+): DependencyAnalysisResult {
+  const files = Object.keys(dependencies);
+  const edges = files.flatMap((file) =>
+    dependencies[file].map((dependency) => ({
+      source: dependency,
+      target: file,
+    }))
+  );
+  return {
+    graph: {
+      nodes: files.map((id) => ({ id, path: `/project/${id}`, size: 100 })),
+      edges,
+      circularDependencies: cycles.map((cycle) => ({
+        cycle: [...cycle, cycle[0]],
+        length: cycle.length,
+      })),
+    },
+    levels,
+    counts: new Map(
+      files.map((file) => [
+        file,
+        {
+          incoming: edges.filter((edge) => edge.source === file).length,
+          outgoing: dependencies[file].length,
+        },
+      ])
+    ),
+    cycleAnalysis: {
+      components: cycles.map((cycle, index) => ({
+        id: `scc-${index}`,
+        files: cycle,
+        cycleCount: 1,
+        truncated: false,
+      })),
+      suggestions: [],
+      truncated: false,
+    },
+    stats: {
+      totalFiles: files.length,
+      totalDependencies: edges.length,
+      circularDependencyCount: cycles.length,
+      maxDependencyLevel: Math.max(...levels.values()),
+      mostDepended: { id: '', count: 0 },
+      mostDependsOn: { id: '', count: 0 },
+    },
+  };
+}
+
+const RESULT = createResult(
+  {
+    'src/index.ts': ['src/cli/app.ts'],
+    'src/cli/app.ts': ['src/core/engine.ts', 'src/core/report.ts'],
+    'src/core/engine.ts': ['src/core/report.ts'],
+    'src/core/report.ts': ['src/core/engine.ts', 'src/utils/format.ts'],
+    'src/utils/format.ts': [],
+  },
+  new Map([
+    ['src/index.ts', 3],
+    ['src/cli/app.ts', 2],
+    ['src/core/engine.ts', 1],
+    ['src/core/report.ts', 1],
+    ['src/utils/format.ts', 0],
+  ]),
+  [['src/core/engine.ts', 'src/core/report.ts']]
+);
+
+describe('DependencyGraphExporter', () => {
+  const exporter = new DependencyGraphExporter(RESULT);
+
+  it('应导出带节点属性并突出循环依赖边的 DOT', () => {
+    const dot = exporter.export({ format: 'dot', name: 'demo' });
+
+    expect(dot).toContain('digraph "demo" {');
+    expect(dot).toContain(
+      '"src/core/report.ts" [label="src/core/report.ts", tooltip="层级 1 · 入 2 · 出 2 · 100 字节", filesize=100, level=1, incoming=2, outgoing=2, files=1, color="#d73a49"];'
+    );
+    expect(dot).toContain(
+      '"src/core/engine.ts" -> "src/core/report.ts" [weight=1, cycle=true, color="#d73a49", penwidth=2];'
+    );
+    expect(dot).toContain('"src/index.ts" -> "src/cli/app.ts" [weight=1];');
+  });
+
+  it('应按目录折叠节点并合并目录之间的依赖', () => {
+    const view = exporter.buildView({ collapse: true });
+
+    expect(view.nodes.map(({ id, files, size }) => [id, files, size])).toEqual([
+      ['src', 1, 100],
+      ['src/cli', 1, 100],
+      ['src/core', 2, 200],
+      ['src/utils', 1, 100],
+    ]);
+    expect(
+      view.edges.map(({ source, target, weight }) => [source, target, weight])
+    ).toEqual([
+      ['src', 'src/cli', 1],
+      ['src/cli', 'src/core', 2],
+      ['src/core', 'src/utils', 1],
+    ]);
+    expect(exporter.buildView({ collapse: 1 }).nodes).toEqual([
+      expect.objectContaining({ id: 'src', files: 5, size: 500, level: 3 }),
+    ]);
+  });
+
+  it('应只导出 focus 文件指定层数内的子图', () => {
+    const view = exporter.buildView({ focus: 'src/cli/app.ts', depth: 1 });
+
+    expect(view.nodes.map((node) => node.id)).toEqual([
+      'src/cli/app.ts',
+      'src/core/engine.ts',
+      'src/core/report.ts',
+      'src/index.ts',
+    ]);
+    expect(view.nodes.filter((node) => node.focus)).toHaveLength(1);
+    expect(
+      exporter.buildView({ focus: 'src/cli/app.ts', depth: 0 }).nodes
+    ).toHaveLength(1);
+    expect(() => exporter.buildView({ focus: 'src/missing.ts' })).toThrow(
+      'ERR_FOCUS_NOT_FOUND'
+    );
+  });
+
+  it('应导出 Mermaid、GraphML 和 Cytoscape JSON', () => {
+    const mermaid = exporter.export({ format: 'mermaid', collapse: true });
+    expect(mermaid.split('\n')).toEqual(
+      expect.arrayContaining([
+        'flowchart LR',
+        '  n2["src/core<br/>2 个文件 · 层级 1 · 入 1 · 出 1 · 200 字节"]',
+        '  n1 -->|2| n2',
+      ])
+    );
+
+    const mermaidWithCycle = exporter.export({ format: 'mermaid' });
+    expect(mermaidWithCycle).toContain(
+      'linkStyle 2,3 stroke:#d73a49,stroke-width:2px'
+    );
+    expect(mermaidWithCycle).toContain('class n1,n2 cycle');
+
+    const graphml = exporter.export({ format: 'graphml' });
+    expect(graphml).toContain(
+      '<key id="level" for="node" attr.name="level" attr.type="int"/>'
+    );
+    expect(graphml).toContain(
+      '<edge id="e2" source="src/core/engine.ts" target="src/core/report.ts">'
+    );
+    expect(graphml).toContain('<data key="cycle">true</data>');
+
+    const cytoscape = JSON.parse(exporter.export({ format: 'cytoscape' }));
+    expect(cytoscape.elements.nodes).toHaveLength(5);
+    expect(cytoscape.elements.edges[2]).toEqual({
+      data: {
+        id: 'e2',
+        source: 'src/core/engine.ts',
+        target: 'src/core/report.ts',
+        weight: 1,
+        cycle: true,
+      },
+      classes: 'cycle',
+    });
+  });
+
+  it('应拒绝不支持的格式', () => {
+    expect(() =>
+      exporter.export({ format: 'svg' as unknown as GraphFormat })
+    ).toThrow('[ERR_UNSUPPORTED_FORMAT]');
+  });
+});
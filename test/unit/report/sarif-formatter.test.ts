@@ -0,0 +1,110 @@
+/* global describe, it, expect */
+import os from 'os';
+import { SarifReportGenerator } from '../../../src/report/formatters/sarif';
+import { IAnalysisResult } from '../../../src/types/analysis';
+
+const results: IAnalysisResult = {
+  projectName: 'project',
+  stats: {
+    totalFiles: 2,
+    totalLines: 20,
+    startTime: new Date(0),
+    endTime: new Date(10),
+    duration: 10,
+  },
+  dependencies: {
+    dependencyGraph: {},
+    circularDependencies: [['src/a.ts', 'src/b.ts']],
+    unusedDependencies: [],
+    missingDependencies: [],
+  },
+  infiniteLoops: {
+    potentialInfiniteLoops: [
+      {
+        location: { filePath: 'src/loop.ts', startLine: 3, startColumn: 5 },
+        riskLevel: 'low',
+        reason: '循环条件变量未修改',
+        suggestion: '在循环体内更新 i',
+      },
+    ],
+  },
+  customRules: [
+    {
+      ruleName: 'no-todo',
+      description: '不允许遗留 TODO',
+      issues: [
+        {
+          location: { filePath: 'src/my file.ts', startLine: 1 },
+          severity: 'error',
+          message: '发现 TODO',
+        },
+      ],
+    },
+  ],
+  ruleCatalog: [
+    { name: 'max-file-length', description: '文件行数不超过上限' },
+    { name: 'no-todo', description: '不允许遗留 TODO' },
+  ],
+};
+
+describe('SarifReportGenerator', () => {
+  it('应生成包含规则目录和结果的 SARIF 2.1.0 日志', async () => {
+    const generator = new SarifReportGenerator({ projectRoot: os.tmpdir() });
+    const log = generator.buildLog(results) as any;
+    const run = log.runs[0];
+    const ruleIds = run.tool.driver.rules.map((rule: any) => rule.id);
+
+    expect(log.version).toBe('2.1.0');
+    expect(ruleIds).toEqual(
+      expect.arrayContaining([
+        'circular-dependency',
+        'infinite-loop',
+        'memory-leak/timer-leak',
+        'max-file-length',
+        'no-todo',
+      ])
+    );
+    expect(new Set(ruleIds).size).toBe(ruleIds.length);
+
+    expect(run.results).toHaveLength(3);
+    run.results.forEach((result: any) => {
+      expect(ruleIds[result.ruleIndex]).toBe(result.ruleId);
+      expect(result.properties.suggestion).toBeTruthy();
+    });
+
+    const [circular, loop, custom] = run.results;
+    expect(circular.level).toBe('warning');
+    expect(circular.locations[0].physicalLocation.region).toBeUndefined();
+    expect(loop).toMatchObject({
+      ruleId: 'infinite-loop',
+      level: 'note',
+      properties: { suggestion: '在循环体内更新 i' },
+    });
+    expect(loop.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/loop.ts', uriBaseId: 'SRCROOT' },
+      region: { startLine: 3, startColumn: 5 },
+    });
+    expect(custom).toMatchObject({ ruleId: 'no-todo', level: 'error' });
+    expect(custom.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      'src/my%20file.ts'
+    );
+  });
+
+  it('规则目录只包含本次运行记录的规则引擎规则', () => {
+    const generator = new SarifReportGenerator({ projectRoot: os.tmpdir() });
+    const log = generator.buildLog({
+      ...results,
+      ruleCatalog: [{ name: 'no-console', description: '禁止 console' }],
+    }) as any;
+    const rules = log.runs[0].tool.driver.rules;
+    const ruleIds = rules.map((rule: any) => rule.id);
+
+    expect(ruleIds).toEqual(expect.arrayContaining(['no-console', 'no-todo']));
+    expect(ruleIds).not.toContain('max-file-length');
+    expect(rules.find((rule: any) => rule.id === 'no-console')).toMatchObject({
+      name: 'NoConsole',
+      shortDescription: { text: '禁止 console' },
+      properties: { category: 'rule-engine' },
+    });
+  });
+});
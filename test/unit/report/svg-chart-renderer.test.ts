@@ -0,0 +1,132 @@
+/* global describe, it, expect */
+import { ChartVisualizer } from '../../../src/report/visualizers/chart-visualizer';
+import { SvgChartRenderer } from '../../../src/report/visualizers/svg-chart-renderer';
+import { IChartData } from '../../../src/types/report';
+
+const BAR: IChartData = {
+  title: '问题 <分布>',
+  type: 'bar',
+  labels: ['错误', '警告'],
+  datasets: [
+    { label: '本次', data: [3, 12], backgroundColor: '#e15759' },
+    { label: '上次', data: [5, NaN] },
+  ],
+};
+
+describe('SvgChartRenderer', () => {
+  const renderer = new SvgChartRenderer();
+
+  it('柱状图应带有可访问的标题、摘要和每个柱的提示', () => {
+    const svg = renderer.render(BAR, 'chart-0');
+
+    expect(svg).toMatch(
+      /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" class="svg-chart" viewBox="0 0 480 280" role="img" aria-labelledby="chart-0-title chart-0-desc"/
+    );
+    expect(svg).toContain(
+      '<title id="chart-0-title">问题 &lt;分布&gt;</title>'
+    );
+    expect(svg).toContain(
+      '<desc id="chart-0-desc">本次: 错误 3，警告 12；上次: 错误 5，警告 无数据</desc>'
+    );
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(3);
+    expect(svg).toContain('fill="#e15759"><title>本次 · 警告: 12</title>');
+    expect(svg).toContain('<title>上次 · 错误: 5</title>');
+    // 刻度 0..12 按 1、2、5 取整为 0、5、10、15
+    expect(svg).toContain('>15</text>');
+  });
+
+  it('折线图应在缺失的值处断开', () => {
+    const svg = renderer.render({
+      title: '覆盖率',
+      type: 'line',
+      labels: ['a', 'b', 'c', 'd', 'e'],
+      datasets: [{ label: '覆盖率', data: [50, 60, NaN, 70, 80] }],
+    });
+
+    expect(svg.match(/<polyline /g)).toHaveLength(2);
+    expect(svg.match(/<circle /g)).toHaveLength(4);
+    expect(svg).toContain('<title>覆盖率 · d: 70</title>');
+  });
+
+  it('饼图和环形图应按比例绘制扇区并在图例中显示百分比', () => {
+    const data: IChartData = {
+      title: '严重性',
+      type: 'pie',
+      labels: ['错误', '警告', '提示'],
+      datasets: [{ data: [1, 3, 0] }],
+    };
+
+    const pie = renderer.render(data);
+    expect(pie.match(/<path /g)).toHaveLength(2);
+    expect(pie).toContain('<title>警告: 3 (75%)</title>');
+    expect(pie).toContain('错误 25%');
+    expect(pie).not.toContain('<title>提示');
+
+    const doughnut = renderer.render({ ...data, type: 'doughnut' });
+    expect(doughnut).toMatch(
+      /<path d="M [^"]+ L [^"]+ A [^"]+ 0 [01] 0 [^"]+ Z"/
+    );
+
+    const single = renderer.render({
+      ...data,
+      datasets: [{ data: [2, 0, 0] }],
+    });
+    expect(single).toContain('<circle');
+    expect(single).toContain('<title>错误: 2 (100%)</title>');
+
+    expect(
+      renderer.render({ ...data, datasets: [{ data: [0, 0, 0] }] })
+    ).toContain('无数据');
+  });
+
+  it('散点图应绘制坐标轴名称、参考线和带提示的数据点', () => {
+    const svg = renderer.renderScatter(
+      {
+        title: '抽象程度与不稳定性',
+        xLabel: '不稳定性 I',
+        yLabel: '抽象程度 A',
+        xRange: [0, 1],
+        yRange: [0, 1],
+        points: [
+          { label: 'src/utils', x: 0, y: 0, color: '#d73a49' },
+          { label: 'src/app', x: 1, y: 0 },
+        ],
+        referenceLines: [{ from: [0, 1], to: [1, 0], label: '主序列' }],
+        legend: [{ label: '痛苦区', color: '#d73a49' }],
+      },
+      'scatter'
+    );
+
+    expect(svg).toContain(
+      '<desc id="scatter-desc">横轴 不稳定性 I，纵轴 抽象程度 A；src/utils (0, 0)，src/app (1, 0)</desc>'
+    );
+    expect(svg.match(/<circle /g)).toHaveLength(2);
+    expect(svg).toContain('<title>src/utils (0, 0)</title>');
+    expect(svg).toContain('stroke-dasharray="4 3"><title>主序列</title>');
+    expect(svg).toContain('>抽象程度 A</text>');
+    expect(svg).toContain('>0.6</text>');
+  });
+});
+
+describe('ChartVisualizer', () => {
+  it('默认内联SVG图表，不包含脚本', () => {
+    const html = ChartVisualizer.wrapChartsInContainer([BAR, BAR]);
+
+    expect(html).toContain('<div class="chart-svg-container">');
+    expect(html).toContain('aria-labelledby="chart-1-title chart-1-desc"');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<canvas');
+  });
+
+  it('chartjs 渲染方式应保留画布和初始化脚本', () => {
+    const html = ChartVisualizer.wrapChartsInContainer([BAR], 'chartjs');
+
+    expect(html).toContain(
+      '<canvas id="chart-0" class="chart-canvas"></canvas>'
+    );
+    expect(html).toContain('new Chart(ctx, config);');
+    expect(ChartVisualizer.generateChartJsScripts()).toContain(
+      'https://cdn.jsdelivr.net/npm/chart.js'
+    );
+  });
+});
@@ -7,6 +7,8 @@ export default defineConfig({
   sourcemap: true,
   clean: true,
   target: 'es2020',
+  // 在 ESM 构建中提供 __dirname 和 __filename
+  shims: true,
   onSuccess: 'node scripts/generate-bin.mjs',
   treeshake: true,
   external: [
@@ -24,6 +26,7 @@ export default defineConfig({
     'cli-table3',
     'ora',
     'ts-morph',
+    'ejs',
     // Node.js 内置模块
     'fs',
     'path',